@@ -0,0 +1 @@
+ALTER TABLE `loans` ADD `renewal_count` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `holds` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`book_id` integer NOT NULL,
+	`telegram_user_id` integer NOT NULL,
+	`telegram_username` text,
+	`status` text DEFAULT 'waiting' NOT NULL,
+	`reserved_qr_code_id` text,
+	`created_at` integer NOT NULL,
+	`ready_at` integer,
+	`expires_at` integer,
+	`closed_at` integer,
+	FOREIGN KEY (`book_id`) REFERENCES `books`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`reserved_qr_code_id`) REFERENCES `book_copies`(`qr_code_id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_holds_queue` ON `holds` (`book_id`,`status`,`created_at`);--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_unique_open_hold` ON `holds` (`book_id`,`telegram_user_id`) WHERE "holds"."status" in ('waiting', 'ready');
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `locations` ADD `loan_period_days` integer DEFAULT 14 NOT NULL;--> statement-breakpoint
+ALTER TABLE `locations` ADD `max_renewals` integer DEFAULT 2 NOT NULL;--> statement-breakpoint
+ALTER TABLE `locations` ADD `max_loans_per_user` integer;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE `loan_limit_exemptions` (
+	`telegram_user_id` integer PRIMARY KEY NOT NULL,
+	`granted_by` integer NOT NULL,
+	`reason` text,
+	`created_at` integer NOT NULL
+);
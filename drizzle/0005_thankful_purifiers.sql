@@ -0,0 +1,15 @@
+CREATE TABLE `copy_status_changes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`qr_code_id` text NOT NULL,
+	`from_status` text NOT NULL,
+	`to_status` text NOT NULL,
+	`changed_by` integer,
+	`changed_by_username` text,
+	`reason` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`qr_code_id`) REFERENCES `book_copies`(`qr_code_id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_copy_status_changes_copy` ON `copy_status_changes` (`qr_code_id`);--> statement-breakpoint
+-- Normalise free-form statuses from before the lifecycle states existed
+UPDATE `book_copies` SET `status` = 'available' WHERE `status` IS NULL OR `status` NOT IN ('available', 'on_hold_shelf', 'lost', 'damaged', 'in_repair', 'withdrawn');
\ No newline at end of file
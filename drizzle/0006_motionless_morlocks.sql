@@ -0,0 +1,13 @@
+CREATE TABLE `loan_overrides` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`loan_id` integer NOT NULL,
+	`action` text NOT NULL,
+	`admin_telegram_user_id` integer NOT NULL,
+	`admin_telegram_username` text,
+	`previous_value` text,
+	`new_value` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`loan_id`) REFERENCES `loans`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_loan_overrides_loan` ON `loan_overrides` (`loan_id`);
\ No newline at end of file
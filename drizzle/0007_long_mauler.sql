@@ -0,0 +1,7 @@
+CREATE TABLE `user_settings` (
+	`telegram_user_id` integer PRIMARY KEY NOT NULL,
+	`keep_loan_history` integer DEFAULT true NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `loans` ADD `hidden_from_history` integer DEFAULT false NOT NULL;
\ No newline at end of file
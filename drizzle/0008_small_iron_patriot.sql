@@ -0,0 +1 @@
+ALTER TABLE `user_settings` ADD `language` text;
\ No newline at end of file
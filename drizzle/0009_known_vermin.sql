@@ -0,0 +1,7 @@
+CREATE TABLE `group_settings` (
+	`chat_id` integer PRIMARY KEY NOT NULL,
+	`location_id` integer,
+	`updated_by` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`location_id`) REFERENCES `locations`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,6 @@
+CREATE TABLE `new_arrival_subscriptions` (
+	`telegram_user_id` integer PRIMARY KEY NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `book_copies` ADD `created_at` integer;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE `isbn_metadata_cache` (
+	`isbn` text PRIMARY KEY NOT NULL,
+	`provider` text NOT NULL,
+	`title` text,
+	`authors` text,
+	`description` text,
+	`cover_url` text,
+	`fetched_at` integer NOT NULL
+);
@@ -0,0 +1,15 @@
+CREATE TABLE `book_changes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`book_id` integer NOT NULL,
+	`action` text NOT NULL,
+	`previous_values` text,
+	`new_values` text,
+	`reverted_change_id` integer,
+	`admin_telegram_user_id` integer NOT NULL,
+	`admin_telegram_username` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`book_id`) REFERENCES `books`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_book_changes_book` ON `book_changes` (`book_id`);--> statement-breakpoint
+ALTER TABLE `books` ADD `deleted_at` integer;
\ No newline at end of file
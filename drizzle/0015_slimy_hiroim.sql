@@ -0,0 +1 @@
+ALTER TABLE `new_arrival_subscriptions` ADD `last_digest_at` integer;
\ No newline at end of file
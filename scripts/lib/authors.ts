@@ -0,0 +1,80 @@
+/**
+ * SQL for the authors and book_authors tables, shared by the seed generator
+ * and the one-off migration of existing books (scripts/migrate-authors.ts)
+ */
+
+import { authorSlug, parseContributors } from "../../shared/authors";
+
+// Batch size for INSERT statements (SQLite has statement length limits)
+const INSERT_BATCH_SIZE = 50;
+
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Generate INSERT statements linking each book to the people in its author
+ * credit. Authors are matched by slug, so the statements can be applied to a
+ * database that already has some authors, and re-applied safely.
+ */
+export function generateBookAuthorsSql(
+  books: { id: number; author: string }[],
+): string {
+  const authors = new Map<string, string>();
+  const links: {
+    bookId: number;
+    slug: string;
+    role: string;
+    position: number;
+  }[] = [];
+
+  for (const book of books) {
+    parseContributors(book.author).forEach((contributor, position) => {
+      const slug = authorSlug(contributor.name);
+      if (!authors.has(slug)) {
+        authors.set(slug, contributor.name);
+      }
+      links.push({ bookId: book.id, slug, role: contributor.role, position });
+    });
+  }
+
+  if (authors.size === 0) {
+    return "-- No authors to insert\n";
+  }
+
+  const statements: string[] = [];
+  statements.push(
+    `-- Insert authors (${authors.size} people credited on ${books.length} books)`,
+  );
+
+  const authorRows = [...authors.entries()].sort(([a], [b]) =>
+    a.localeCompare(b),
+  );
+  for (let i = 0; i < authorRows.length; i += INSERT_BATCH_SIZE) {
+    const values = authorRows
+      .slice(i, i + INSERT_BATCH_SIZE)
+      .map(
+        ([slug, name]) =>
+          `  (${sqlString(name)}, ${sqlString(slug)}, strftime('%s', 'now'))`,
+      )
+      .join(",\n");
+
+    statements.push(`INSERT OR IGNORE INTO authors (name, slug, created_at) VALUES
+${values};`);
+  }
+
+  for (let i = 0; i < links.length; i += INSERT_BATCH_SIZE) {
+    const values = links
+      .slice(i, i + INSERT_BATCH_SIZE)
+      .map(
+        (link) =>
+          `  (${link.bookId}, (SELECT id FROM authors WHERE slug = ${sqlString(link.slug)}), '${link.role}', ${link.position})`,
+      )
+      .join(",\n");
+
+    statements.push(`INSERT OR IGNORE INTO book_authors (book_id, author_id, role, position) VALUES
+${values};`);
+  }
+
+  return statements.join("\n\n") + "\n";
+}
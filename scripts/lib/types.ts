@@ -26,6 +26,7 @@ export interface ExtractedBook {
   title: string;
   author: string;
   description: string;
+  category: string;
   image_file: string;
   needs_review: boolean;
   review_reason: string;
@@ -49,6 +50,8 @@ export interface MasterBook {
   title: string;
   author: string;
   description: string;
+  // Genres, separated by "; " (see shared/tags.ts)
+  category: string;
   first_seen_batch: string;
   image_source: string;
   location: string;
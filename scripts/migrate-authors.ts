@@ -0,0 +1,64 @@
+/**
+ * Fill the authors and book_authors tables from the existing books.author
+ * credits (migration 0014 adds the tables empty). Run once after applying the
+ * migration; books added or edited afterwards are linked by the worker.
+ *
+ * Usage: bun run scripts/migrate-authors.ts [--remote] [output-file]
+ * Example: bun run scripts/migrate-authors.ts --remote output/migrate-authors.sql
+ *
+ * Review the generated SQL (the credit splitting is a heuristic), then apply:
+ *   pnpm dlx wrangler d1 execute community-library-db --remote --file=<output-file>
+ */
+
+import { execFileSync } from "child_process";
+import { mkdir, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { generateBookAuthorsSql } from "./lib/authors";
+
+const DATABASE_NAME = "community-library-db";
+
+type WranglerResult = { results: { id: number; author: string }[] }[];
+
+async function main() {
+  const args = process.argv.slice(2);
+  const remote = args.includes("--remote");
+  const outputFile =
+    args.find((arg) => !arg.startsWith("--")) ?? "output/migrate-authors.sql";
+
+  const output = execFileSync(
+    "pnpm",
+    [
+      "dlx",
+      "wrangler",
+      "d1",
+      "execute",
+      DATABASE_NAME,
+      remote ? "--remote" : "--local",
+      "--json",
+      "--command",
+      "SELECT id, author FROM books ORDER BY id",
+    ],
+    { encoding: "utf-8" },
+  );
+  const [{ results: books }] = JSON.parse(output) as WranglerResult;
+  console.log(`Read ${books.length} books`);
+
+  const sql = `-- Link existing books to their authors
+-- Generated: ${new Date().toISOString()}
+
+${generateBookAuthorsSql(books)}`;
+
+  await mkdir(dirname(outputFile), { recursive: true });
+  await writeFile(outputFile, sql, "utf-8");
+
+  console.log(`Wrote ${outputFile}`);
+  console.log(`\nReview it, then apply:`);
+  console.log(
+    `  pnpm dlx wrangler d1 execute ${DATABASE_NAME} ${remote ? "--remote" : "--local"} --file=${outputFile}`,
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -185,6 +185,7 @@ async function extractBatch(
       title: raw.title || "",
       author: raw.author || "",
       description: raw.description || "",
+      category: raw.category || "",
       image_file: imageFile,
       needs_review: needsReview,
       review_reason: reviewReason,
@@ -208,6 +209,7 @@ async function extractBatch(
     "title",
     "author",
     "description",
+    "category",
     "image_file",
     "needs_review",
     "review_reason",
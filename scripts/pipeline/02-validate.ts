@@ -10,7 +10,7 @@
 import { existsSync, readdirSync } from "fs";
 import { join } from "path";
 import { readCSV, writeCSV } from "../lib/csv";
-import { looksLikeISBN, normalizeISBN } from "../lib/isbn";
+import { looksLikeISBN, normalizeISBN } from "../../shared/isbn";
 import type {
   ExtractedBook,
   PipelineConfig,
@@ -104,6 +104,7 @@ async function validateCSV(csvPath: string): Promise<ValidatedBook[]> {
       title: row.title || "",
       author: row.author || "",
       description: row.description || "",
+      category: row.category || "",
       image_file: row.image_file || "",
       needs_review: row.needs_review === "true",
       review_reason: row.review_reason || "",
@@ -125,6 +126,7 @@ async function validateCSV(csvPath: string): Promise<ValidatedBook[]> {
     "title",
     "author",
     "description",
+    "category",
     "image_file",
     "needs_review",
     "review_reason",
@@ -2,7 +2,8 @@
  * Stage 3: Deduplicate
  *
  * Merges all validated books across batches by ISBN.
- * One row per unique ISBN, using first occurrence for metadata.
+ * One row per unique ISBN, using first occurrence for metadata
+ * (genres from every occurrence are kept).
  *
  * Input: All output/{location}/{batch}/books_validated.csv files
  * Output: output/books_master.csv
@@ -11,6 +12,7 @@
 import { existsSync, readdirSync } from "fs";
 import { join } from "path";
 import { readCSV, writeCSV } from "../lib/csv";
+import { parseTagList } from "../../shared/tags";
 import type { MasterBook, PipelineConfig, ValidatedBook } from "../lib/types";
 
 /**
@@ -56,6 +58,7 @@ async function loadValidatedCSV(csvPath: string): Promise<ValidatedBook[]> {
     title: row.title || "",
     author: row.author || "",
     description: row.description || "",
+    category: row.category || "",
     image_file: row.image_file || "",
     needs_review: row.needs_review === "true",
     review_reason: row.review_reason || "",
@@ -105,9 +108,14 @@ export async function deduplicate(
 
       const isbn = book.normalized_isbn;
 
-      if (isbnToBook.has(isbn)) {
+      const existing = isbnToBook.get(isbn);
+      if (existing) {
         // Duplicate found
         duplicates.push({ isbn, batch: book.batch });
+        // Copies may be filed under different genres; keep them all
+        existing.category = parseTagList(
+          `${existing.category}; ${book.category}`,
+        ).join("; ");
       } else {
         // First occurrence - create master record
         isbnToBook.set(isbn, {
@@ -115,6 +123,7 @@ export async function deduplicate(
           title: book.title,
           author: book.author,
           description: book.description,
+          category: parseTagList(book.category).join("; "),
           first_seen_batch: book.batch,
           image_source: book.image_file
             ? `${book.batch}/${book.image_file}`
@@ -137,6 +146,7 @@ export async function deduplicate(
     "title",
     "author",
     "description",
+    "category",
     "first_seen_batch",
     "image_source",
     "location",
@@ -185,6 +185,7 @@ export async function processImages(config: PipelineConfig): Promise<void> {
     title: row.title || "",
     author: row.author || "",
     description: row.description || "",
+    category: row.category || "",
     first_seen_batch: row.first_seen_batch || "",
     image_source: row.image_source || "",
     location: row.location || "",
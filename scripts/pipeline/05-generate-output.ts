@@ -2,7 +2,8 @@
  * Stage 5: Generate Output
  *
  * Generates seed-dev.sql and seed-prod.sql from books_master.csv
- * with deterministic book IDs (sorted by ISBN).
+ * with deterministic book IDs (sorted by ISBN) and tag IDs (sorted by slug),
+ * linking books to the authors parsed from their credits.
  *
  * Input: output/books_master.csv
  * Output: output/seed-dev.sql, output/seed-prod.sql
@@ -11,6 +12,8 @@
 import { existsSync } from "fs";
 import { mkdir, writeFile } from "fs/promises";
 import { join } from "path";
+import { parseTagList, tagSlug } from "../../shared/tags";
+import { generateBookAuthorsSql } from "../lib/authors";
 import { readCSV } from "../lib/csv";
 import type {
   BookCopy,
@@ -106,6 +109,76 @@ ${values};`);
   return statements.join("\n\n") + "\n";
 }
 
+/**
+ * Collect the genres in each book's category and assign deterministic tag IDs
+ * (sorted by slug). The first spelling seen of a tag is used.
+ */
+function assignTagIds(books: FinalBook[]): {
+  tags: { id: number; name: string; slug: string }[];
+  bookTags: { book_id: number; tag_id: number }[];
+} {
+  const names = new Map<string, string>();
+  for (const book of books) {
+    for (const name of parseTagList(book.category)) {
+      const slug = tagSlug(name);
+      if (!names.has(slug)) {
+        names.set(slug, name);
+      }
+    }
+  }
+
+  const tags = [...names.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([slug, name], index) => ({ id: index + 1, name, slug }));
+  const tagIds = new Map(tags.map((tag) => [tag.slug, tag.id]));
+
+  const bookTags = books.flatMap((book) =>
+    parseTagList(book.category).map((name) => ({
+      book_id: book.id,
+      tag_id: tagIds.get(tagSlug(name))!,
+    })),
+  );
+
+  return { tags, bookTags };
+}
+
+/**
+ * Generate tags and book_tags SQL insert statements (batched to avoid SQLite statement length limits)
+ */
+function generateTagsSql(books: FinalBook[]): string {
+  const { tags, bookTags } = assignTagIds(books);
+  if (tags.length === 0) {
+    return "-- No tags to insert\n";
+  }
+
+  const statements: string[] = [];
+  statements.push(`-- Insert tags (${tags.length} genres from book categories)`);
+
+  for (let i = 0; i < tags.length; i += INSERT_BATCH_SIZE) {
+    const batch = tags.slice(i, i + INSERT_BATCH_SIZE);
+    const values = batch
+      .map((tag) => {
+        return `  (${tag.id}, '${escapeSql(tag.name)}', '${escapeSql(tag.slug)}', strftime('%s', 'now'))`;
+      })
+      .join(",\n");
+
+    statements.push(`INSERT INTO tags (id, name, slug, created_at) VALUES
+${values};`);
+  }
+
+  for (let i = 0; i < bookTags.length; i += INSERT_BATCH_SIZE) {
+    const batch = bookTags.slice(i, i + INSERT_BATCH_SIZE);
+    const values = batch
+      .map((bookTag) => `  (${bookTag.book_id}, ${bookTag.tag_id})`)
+      .join(",\n");
+
+    statements.push(`INSERT INTO book_tags (book_id, tag_id) VALUES
+${values};`);
+  }
+
+  return statements.join("\n\n") + "\n";
+}
+
 /**
  * Generate dev copies (1 copy per book for testing)
  */
@@ -165,6 +238,10 @@ function generateDevSql(books: FinalBook[]): string {
 
 ${generateBooksSql(books)}
 
+${generateTagsSql(books)}
+
+${generateBookAuthorsSql(books)}
+
 ${generateCopiesSql(copies)}
 
 -- Reset sequences (SQLite auto-increment)
@@ -191,6 +268,10 @@ function generateProdSql(books: FinalBook[]): string {
 
 ${generateBooksSql(books)}
 
+${generateTagsSql(books)}
+
+${generateBookAuthorsSql(books)}
+
 -- No book_copies inserted - these are linked via admin interface
 `;
 }
@@ -214,6 +295,7 @@ export async function generateOutput(config: PipelineConfig): Promise<void> {
     title: row.title || "",
     author: row.author || "",
     description: row.description || "",
+    category: row.category || "",
     first_seen_batch: row.first_seen_batch || "",
     image_source: row.image_source || "",
     location: row.location || "",
@@ -0,0 +1,64 @@
+/**
+ * Register the Telegram bot's webhook and set its commands, descriptions and
+ * menu button. Run once after deploying (and whenever the commands change).
+ *
+ * Usage: BOT_TOKEN=<token> [WEBHOOK_SECRET=<secret>] [MINIAPP_WEB_URL=<url>] [ADMIN_GROUP_ID=<id>] bun run scripts/setup-bot.ts [worker-url]
+ * Example: BOT_TOKEN=123:abc WEBHOOK_SECRET=s3cret bun run scripts/setup-bot.ts https://library.zsheng.app
+ *
+ * WEBHOOK_SECRET must match the worker's WEBHOOK_SECRET secret, otherwise the
+ * worker rejects every update with 401.
+ */
+
+import { Api } from "grammy";
+import { setUpBot } from "../worker/bot/setup";
+
+const USAGE =
+  "Usage: BOT_TOKEN=<token> [WEBHOOK_SECRET=<secret>] [MINIAPP_WEB_URL=<url>] [ADMIN_GROUP_ID=<id>] bun run scripts/setup-bot.ts [worker-url]";
+
+async function main() {
+  const token = process.env.BOT_TOKEN;
+  const secretToken = process.env.WEBHOOK_SECRET;
+  const miniAppWebUrl = process.env.MINIAPP_WEB_URL;
+  const adminGroupId = process.env.ADMIN_GROUP_ID;
+  const workerUrl = process.argv[2];
+
+  if (!token) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  if (workerUrl && !secretToken) {
+    console.error("Error: WEBHOOK_SECRET is required to register the webhook");
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const webhook =
+    workerUrl && secretToken
+      ? { url: new URL("/api/bot", workerUrl).toString(), secretToken }
+      : undefined;
+
+  await setUpBot(new Api(token), { adminGroupId, miniAppWebUrl, webhook });
+
+  if (webhook) {
+    console.log(`✓ Webhook set to ${webhook.url}`);
+  } else {
+    console.log("- Webhook unchanged (no worker URL given)");
+  }
+  console.log("✓ Commands and descriptions set");
+  if (adminGroupId) {
+    console.log(`✓ Admin commands set for group ${adminGroupId}`);
+  } else {
+    console.log("- Admin commands unchanged (ADMIN_GROUP_ID not set)");
+  }
+  if (miniAppWebUrl) {
+    console.log(`✓ Menu button opens ${miniAppWebUrl}`);
+  } else {
+    console.log("- Menu button unchanged (MINIAPP_WEB_URL not set)");
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+/**
+ * Author credit utilities, shared by the worker and the import pipeline
+ */
+
+import { toSlug } from "./slug";
+
+export const CONTRIBUTOR_ROLES = [
+  "author",
+  "translator",
+  "editor",
+  "illustrator",
+] as const;
+
+export type ContributorRole = (typeof CONTRIBUTOR_ROLES)[number];
+
+export const CONTRIBUTOR_ROLE_LABELS: Record<ContributorRole, string> = {
+  author: "Author",
+  translator: "Translator",
+  editor: "Editor",
+  illustrator: "Illustrator",
+};
+
+/**
+ * A person credited on a book
+ */
+export interface Contributor {
+  name: string;
+  role: ContributorRole;
+}
+
+// "Translated by X", "ed. by X", "with illustrations by X"...
+const ROLE_PHRASES: [RegExp, ContributorRole][] = [
+  [/^(?:translated|trans\.?|tr\.)\s+(?:from\s+\S+\s+)?by\s+/i, "translator"],
+  [/^(?:edited|eds?\.)\s+by\s+/i, "editor"],
+  [
+    /^(?:(?:with\s+)?illustrations|illustrated|illus\.?)\s+by\s+/i,
+    "illustrator",
+  ],
+];
+
+// Starts a new clause: "X, translated by Y" or "X; edited by Y"
+const ROLE_PHRASE_BOUNDARY =
+  /\s*[;,]?\s+(?=(?:translated|trans\.?|tr\.|edited|eds?\.|(?:with\s+)?illustrations|illustrated|illus\.?)\s+(?:from\s+\S+\s+)?by\s)/i;
+
+// "X (translator)", "X (eds.)", "X [illustrator]"
+const ROLE_SUFFIX =
+  /\s*[([]\s*(translator|trans\.?|tr\.?|editors?|eds?\.?|illustrator|illus\.?|ill\.?)\s*[)\]]$/i;
+
+// Between people within a clause. Commas are handled separately, since
+// "Tan, Jim" is one person.
+const NAME_SEPARATOR = /\s*(?:;|&|\/|\band\b|\bwith\b)\s*/i;
+
+function roleFromSuffix(suffix: string): ContributorRole {
+  const lower = suffix.toLowerCase();
+  if (lower.startsWith("tr")) return "translator";
+  if (lower.startsWith("ed")) return "editor";
+  if (lower.startsWith("ill")) return "illustrator";
+  return "author";
+}
+
+/**
+ * Split a run of names on commas only when every part looks like a full name
+ * (two or more words), so "Tan, Jim" stays one person but
+ * "Jim Tan, Mary Lee" becomes two
+ */
+function splitOnCommas(names: string): string[] {
+  const parts = names.split(",").map((part) => part.trim());
+  const allFullNames = parts.every((part) => part.split(/\s+/).length >= 2);
+  return parts.length > 1 && allFullNames ? parts : [names];
+}
+
+/**
+ * Tidy a person's name for display: collapse whitespace and drop stray
+ * punctuation and "et al."
+ */
+export function normalizeAuthorName(name: string): string {
+  return name
+    .replace(/\s+/g, " ")
+    .replace(/\bet\s+al\.?$/i, "")
+    .replace(/^[\s,;:]+|[\s,;:]+$/g, "");
+}
+
+/**
+ * URL-safe key for a person. Credits with the same slug are the same author.
+ */
+export function authorSlug(name: string): string {
+  return toSlug(normalizeAuthorName(name));
+}
+
+/**
+ * Split a free-text author credit into the people it names and their roles,
+ * e.g. "Smith & Jones; translated by Lee" or "Tan, Jim (ed.)".
+ * This is a heuristic: unusual credits may need fixing by hand.
+ */
+export function parseContributors(credit: string): Contributor[] {
+  const contributors: Contributor[] = [];
+  const seen = new Set<string>();
+
+  for (const clause of credit.split(ROLE_PHRASE_BOUNDARY)) {
+    let clauseRole: ContributorRole = "author";
+    let names = clause.trim();
+    for (const [phrase, role] of ROLE_PHRASES) {
+      if (phrase.test(names)) {
+        clauseRole = role;
+        names = names.replace(phrase, "");
+        break;
+      }
+    }
+
+    for (const group of names.split(NAME_SEPARATOR)) {
+      for (const part of splitOnCommas(group)) {
+        const suffix = part.match(ROLE_SUFFIX);
+        const role = suffix ? roleFromSuffix(suffix[1]) : clauseRole;
+        const name = normalizeAuthorName(part.replace(ROLE_SUFFIX, ""));
+        const key = `${authorSlug(name)}:${role}`;
+        if (authorSlug(name) && !seen.has(key)) {
+          seen.add(key);
+          contributors.push({ name, role });
+        }
+      }
+    }
+  }
+
+  return contributors;
+}
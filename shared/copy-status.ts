@@ -0,0 +1,49 @@
+export const COPY_STATUSES = [
+  "available",
+  "on_hold_shelf",
+  "lost",
+  "damaged",
+  "in_repair",
+  "withdrawn",
+] as const;
+
+export type CopyStatus = (typeof COPY_STATUSES)[number];
+
+export const COPY_STATUS_LABELS: Record<CopyStatus, string> = {
+  available: "Available",
+  on_hold_shelf: "On Hold Shelf",
+  lost: "Lost",
+  damaged: "Damaged",
+  in_repair: "In Repair",
+  withdrawn: "Withdrawn",
+};
+
+// Which states an admin can move a copy to from each state.
+// "available" means the copy is in circulation (it may still be on loan).
+// Only the hold queue puts a copy on the hold shelf, as it reserves the copy
+// for someone.
+export const COPY_STATUS_TRANSITIONS: Record<CopyStatus, CopyStatus[]> = {
+  available: ["lost", "damaged", "in_repair", "withdrawn"],
+  on_hold_shelf: ["available", "lost", "damaged", "withdrawn"],
+  lost: ["available", "withdrawn"],
+  damaged: ["in_repair", "available", "withdrawn"],
+  in_repair: ["available", "damaged", "withdrawn"],
+  withdrawn: ["available"],
+};
+
+// States in which a copy can be borrowed
+export const CIRCULATING_COPY_STATUSES: readonly CopyStatus[] = [
+  "available",
+  "on_hold_shelf",
+];
+
+export function isCopyStatus(value: string): value is CopyStatus {
+  return (COPY_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransitionCopyStatus(
+  from: CopyStatus,
+  to: CopyStatus,
+): boolean {
+  return COPY_STATUS_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,167 @@
+import type { CopyStatus } from "./copy-status";
+import { en, type MessageKey, type Messages } from "./locales/en";
+import { ms } from "./locales/ms";
+import { zh } from "./locales/zh";
+import { LIBRARY_TIME_ZONE } from "./library-time";
+
+export type { MessageKey } from "./locales/en";
+
+export const LOCALES = ["en", "zh", "ms"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Each language's name in that language, for the language picker
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  zh: "中文",
+  ms: "Bahasa Melayu",
+};
+
+const MESSAGES: Record<Locale, Messages> = { en, zh, ms };
+
+// Intl locale used for dates and plural rules. The library is in Singapore.
+const INTL_LOCALES: Record<Locale, string> = {
+  en: "en-SG",
+  zh: "zh-SG",
+  ms: "ms-MY",
+};
+
+const DATE_STYLES = {
+  // 05/03/2025
+  numeric: { day: "2-digit", month: "2-digit", year: "numeric" },
+  // 5 Mar
+  monthDay: { day: "numeric", month: "short" },
+  // 5 Mar 2025
+  medium: { day: "numeric", month: "short", year: "numeric" },
+  // 5 March 2025
+  long: { day: "numeric", month: "long", year: "numeric" },
+} satisfies Record<string, Intl.DateTimeFormatOptions>;
+
+export type DateStyle = keyof typeof DATE_STYLES;
+
+export type MessageParams = Record<string, string | number>;
+
+// Base keys of messages with `_one` / `_other` forms
+export type PluralMessageKey = MessageKey extends infer K
+  ? K extends `${infer Base}_other`
+    ? Base
+    : never
+  : never;
+
+// Codes of the `error.*` messages
+export type ErrorCode = MessageKey extends infer K
+  ? K extends `error.${infer Code}`
+    ? Code
+    : never
+  : never;
+
+export type ErrorParam = string | number | Date | { copyStatus: CopyStatus };
+
+/**
+ * Why the worker refused a request, put into words by translateError() in the
+ * language of whoever sees it
+ */
+export interface UserError {
+  code: ErrorCode;
+  params?: Record<string, ErrorParam>;
+}
+
+export function isLocale(value: string): value is Locale {
+  return (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Pick the supported locale for a Telegram language_code (e.g. "zh-hans",
+ * "ms", "en-GB"), falling back to English
+ */
+export function resolveLocale(languageCode?: string | null): Locale {
+  const language = languageCode?.toLowerCase().split(/[-_]/)[0];
+  return language && isLocale(language) ? language : DEFAULT_LOCALE;
+}
+
+/**
+ * Format a date for the given locale, on the library's local day. Numeric
+ * dates stay dd/mm/yyyy in every locale the library supports.
+ */
+export function formatDate(
+  date: Date | string | number,
+  locale: Locale = DEFAULT_LOCALE,
+  style: DateStyle = "numeric",
+): string {
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    ...DATE_STYLES[style],
+    timeZone: LIBRARY_TIME_ZONE,
+  }).format(new Date(date));
+}
+
+function interpolate(message: string, params: MessageParams = {}): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  );
+}
+
+/**
+ * Look up a message in the given locale and fill in its placeholders
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params?: MessageParams,
+): string {
+  return interpolate(MESSAGES[locale][key], params);
+}
+
+/**
+ * Look up the singular or plural form of a message for `count`.
+ * `{count}` is filled in along with the other params.
+ */
+export function translateCount(
+  locale: Locale,
+  key: PluralMessageKey,
+  count: number,
+  params?: MessageParams,
+): string {
+  const form =
+    new Intl.PluralRules(INTL_LOCALES[locale]).select(count) === "one"
+      ? "one"
+      : "other";
+  return translate(locale, `${key}_${form}`, { count, ...params });
+}
+
+/**
+ * Put a refusal into words. Dates are formatted and copy statuses named in
+ * the given locale.
+ */
+export function translateError(locale: Locale, error: UserError): string {
+  const params: MessageParams = {};
+  for (const [name, value] of Object.entries(error.params ?? {})) {
+    params[name] =
+      value instanceof Date
+        ? formatDate(value, locale)
+        : typeof value === "object"
+          ? translate(locale, `copyStatus.${value.copyStatus}`)
+          : value;
+  }
+  return translate(locale, `error.${error.code}`, params);
+}
+
+export interface Translator {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  tn: (key: PluralMessageKey, count: number, params?: MessageParams) => string;
+  date: (date: Date | string | number, style?: DateStyle) => string;
+}
+
+/**
+ * Bind the message and date helpers to one locale
+ */
+export function getTranslator(locale: Locale): Translator {
+  return {
+    locale,
+    t: (key, params) => translate(locale, key, params),
+    tn: (key, count, params) => translateCount(locale, key, count, params),
+    date: (date, style) => formatDate(date, locale, style),
+  };
+}
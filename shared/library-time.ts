@@ -0,0 +1,25 @@
+/**
+ * The library's local time. It's in Singapore, which has no daylight saving
+ * time, so local days start at a fixed offset from UTC.
+ */
+
+export const LIBRARY_TIME_ZONE = "Asia/Singapore";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// UTC+8
+const UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Midnight at the start of the library's local day containing an instant
+ */
+export function startOfLibraryDay(date: Date): Date {
+  const local = date.getTime() + UTC_OFFSET_MS;
+  return new Date(local - (local % MS_PER_DAY) - UTC_OFFSET_MS);
+}
+
+/**
+ * The library's local calendar date of an instant, as YYYY-MM-DD
+ */
+export function toLibraryDate(date: Date): string {
+  return new Date(date.getTime() + UTC_OFFSET_MS).toISOString().slice(0, 10);
+}
@@ -0,0 +1,19 @@
+/**
+ * Concurrent loan cap types, shared by the worker, bot and Mini App
+ */
+
+/**
+ * Returned when a borrow is refused because the user already has as many
+ * books as they're allowed, so they can be told which ones to bring back.
+ * Dates are strings once the response has been serialised to JSON.
+ */
+export interface LoanLimit<DateType = Date> {
+  maxActiveLoans: number;
+  loans: {
+    qrCodeId: string;
+    title: string;
+    author: string;
+    copyNumber: number;
+    dueDate: DateType;
+  }[];
+}
@@ -0,0 +1,540 @@
+/**
+ * English messages. This is the reference catalogue: every other locale must
+ * define the same keys.
+ *
+ * `{name}` placeholders are filled in by translate(). Keys ending in `_one` /
+ * `_other` are the singular and plural forms looked up by translateCount().
+ * Bot messages are plain text and escaped for MarkdownV2 by the formatters,
+ * except `bot.welcome`, which is already MarkdownV2.
+ */
+export const en = {
+  // ==========================================================================
+  // Shared
+  // ==========================================================================
+  "count.copies_one": "{count} copy",
+  "count.copies_other": "{count} copies",
+  "count.people_one": "{count} person",
+  "count.people_other": "{count} people",
+  "copyStatus.available": "Available",
+  "copyStatus.on_hold_shelf": "On Hold Shelf",
+  "copyStatus.lost": "Lost",
+  "copyStatus.damaged": "Damaged",
+  "copyStatus.in_repair": "In Repair",
+  "copyStatus.withdrawn": "Withdrawn",
+
+  "error.copyNotFound": "Book copy not found",
+  "error.copyNotCirculating":
+    "This copy is marked as {status} and can't be borrowed",
+  "error.alreadyBorrowed": "You have already borrowed this book",
+  "error.copyOnLoan": "This book is currently borrowed (due back {date})",
+  "error.copyReserved":
+    "This copy is reserved for someone on the waiting list until {date}",
+  "error.loanLimit":
+    "You can only borrow {count} book(s) at a time. Please return one before borrowing another.",
+  "error.locationLoanLimit":
+    "You can only borrow {count} book(s) at a time from {location}. Please return one first.",
+  "error.borrowRace":
+    "This book was just borrowed by someone else. Please try again.",
+  "error.noActiveLoan": "No active loan found for this book",
+  "error.notRenewable":
+    "Books from {location} can't be renewed. Please return the book.",
+  "error.maxRenewals":
+    "This loan has already been renewed the maximum of {count} times. Please return the book.",
+  "error.holdBlocksRenewal":
+    "This book can't be renewed because someone has placed a hold on it.",
+  "error.loanChanged": "This loan was just updated. Please try again.",
+  "error.bookNotFound": "Book not found",
+  "error.noCopiesToHold": "This book has no copies to hold",
+  "error.copyAvailable":
+    "A copy is available right now. Scan its QR code to borrow it.",
+  "error.alreadyOnHold": "You already have a hold on this book",
+  "error.holdFailed": "Failed to place hold",
+  "error.noOpenHold": "No open hold found",
+  "error.statusTransition": "A copy can't go from {from} to {to}",
+  "error.copyChanged": "This copy was just updated. Please try again.",
+
+  "calendar.name": "Library due dates",
+  "calendar.event": "📚 Return {title}",
+  "calendar.alarm": "{title} is due back at the library tomorrow",
+
+  // ==========================================================================
+  // Bot
+  // ==========================================================================
+  "bot.welcome": `📚 Welcome to the Community Library Bot\\!
+
+To *search* for books, you can type the book or author's name:
+E\\.g\\. "ulysses"
+
+To *borrow or return* a book, scan the QR code on the physical book
+
+Available commands:
+\\/start \\- Start the bot and view this message
+\\/mybooks \\- View your currently borrowed books
+\\/renew \\- Extend the due date of a borrowed book
+\\/due \\- See when your books are due and add them to your calendar
+\\/history \\- See the books you've read
+\\/subscribe \\- Hear about new books every week
+\\/language \\- Change the bot's language
+
+Visit our website [to view the full catalogue](https://library.zsheng.app)
+
+Scan a QR code on any book to borrow it\\!`,
+  "bot.bookUsage":
+    "Usage: /book <isbn> or /book<isbn>\n\nExample: /book 9780674430006",
+  "bot.borrowUsage":
+    "Usage: /borrow <qr_code_id>\n\nScan the QR code on the physical book to get the ID.",
+  "bot.renewError": "❌ An error occurred while renewing. Please try again.",
+  "bot.historyEmpty":
+    "📖 Your reading history is empty. Books you return will show up here.",
+  "bot.historyDisabled":
+    "📖 Reading history is turned off, so returned books aren't kept.\n\nSend /history on to start keeping it again.",
+  "bot.historyTurnedOff":
+    "✅ Reading history turned off. Your past loans have been removed from it.",
+  "bot.historyTurnedOn":
+    "✅ Reading history turned on. Books you return from now on will show up in /history.",
+  "bot.bookNotFound": "❌ Book not found.",
+  "bot.bookCopyNotFound": "❌ Book copy not found. Please check the QR code.",
+  "bot.searchError": "❌ An error occurred while searching. Please try again.",
+  "bot.bookDetailsError":
+    "❌ An error occurred while fetching book details. Please try again.",
+  "bot.genericError": "❌ An error occurred. Please try again.",
+  "bot.userIdentificationError": "❌ Unable to identify user.",
+  "bot.adminOnly": "❌ This command is only available to library admins.",
+  "bot.noBorrowedBooks": "📚 You don't have any borrowed books currently.",
+  "bot.borrowSuccess": "✅ Book borrowed successfully!",
+  "bot.returnSuccess": "✅ Book returned successfully!",
+  "bot.holdPlaced":
+    "🔔 You're #{position} in the queue. We'll message you when a copy is ready for you.",
+  "bot.noMoreResults": "No more results.",
+
+  "bot.button.borrow": "📖 Borrow This Book",
+  "bot.button.return": "✅ Return This Book",
+  "bot.button.notify": "🔔 Notify Me When Available",
+  "bot.button.prev": "◀ Prev",
+  "bot.button.next": "Next ▶",
+  "bot.button.manageBook": "Manage Book",
+  "bot.button.openInLibrary": "📖 Open in Library",
+  "bot.button.openPrivateChat": "💬 Open Private Chat",
+  "bot.button.addToCalendar": "📅 Add to Calendar",
+
+  "bot.command.start": "Start the bot and view welcome message",
+  "bot.command.mybooks": "View your currently borrowed books",
+  "bot.command.due": "See when your books are due",
+  "bot.command.renew": "Extend the due date of a borrowed book",
+  "bot.command.history": "See the books you've read",
+  "bot.command.subscribe": "Hear about new books every week",
+  "bot.command.language": "Change the bot's language",
+
+  "bot.language.choose": "🌐 Choose your language:",
+  "bot.language.auto": "Match my Telegram language",
+  "bot.language.set": "✅ I'll talk to you in English from now on.",
+  "bot.language.reset": "✅ I'll follow your Telegram language again.",
+
+  "bot.group.privateOnly":
+    "🔒 That's personal, so let's keep it out of the group. Tap below to continue in a private chat with me.",
+  "bot.group.groupOnly": "This command only works in group chats.",
+  "bot.group.adminOnly": "❌ Only group admins can change this.",
+  "bot.group.locationAll": "📍 Searches in this group cover all locations.",
+  "bot.group.locationCurrent":
+    "📍 Searches in this group only cover {location}.",
+  "bot.group.locationUsage":
+    "To change it: /setlocation <location> or /setlocation all\n\nLocations: {locations}",
+  "bot.group.locationNotFound": '❌ There is no location called "{name}".',
+
+  "bot.subscribe.done":
+    "🔔 You're subscribed to new arrivals. Every Monday I'll send you the books added to the library that week.\n\nSend /unsubscribe to stop.",
+  "bot.subscribe.already":
+    "🔔 You're already subscribed to new arrivals. Send /unsubscribe to stop.",
+  "bot.unsubscribe.done":
+    "🔕 You won't get new arrivals any more. Send /subscribe to start again.",
+  "bot.unsubscribe.notSubscribed":
+    "You aren't subscribed to new arrivals. Send /subscribe to get them every Monday.",
+  "bot.newArrivals.title_one": "🆕 {count} new book at the library this week:",
+  "bot.newArrivals.title_other":
+    "🆕 {count} new books at the library this week:",
+  "bot.newArrivals.hint":
+    "💡 Send a title to find it, or /unsubscribe to stop these updates.",
+
+  "bot.book.by": "by {author}",
+  "bot.book.waiting": "👥 {people} waiting",
+  "bot.book.borrowHint": "💡 To borrow, scan the QR code on the physical book",
+  "bot.book.holdHint":
+    "💡 All copies are out. Scan a copy's QR code to join the hold queue",
+  "bot.book.copyAvailable": "Available at {location}",
+  "bot.book.copyBorrowed": "Borrowed (due back {date})",
+  "bot.book.copyReserved": "Reserved for a hold at {location}",
+  "bot.book.copyUnavailable": "Unavailable",
+  "bot.book.copyLine": "Copy {number}",
+  "bot.book.availability_one":
+    "📊 Availability: {available} of {count} copy available",
+  "bot.book.availability_other":
+    "📊 Availability: {available} of {count} copies available",
+  "bot.book.copiesHeading": "Copies:",
+
+  "bot.search.available": "{count} available",
+  "bot.search.noneAvailable": "none available",
+  "bot.search.found_one": '🔍 Found {count} result for "{query}":',
+  "bot.search.found_other": '🔍 Found {count} results for "{query}":',
+  "bot.search.showing": "Showing {from}–{to} of {total}",
+  "bot.search.tapHint": "💡 Tap a number below to see the book",
+  "bot.search.noResults": '🔍 No results found for "{query}"',
+
+  "bot.inline.availableOf": "{available} of {total} available",
+  "bot.inline.noCopies": "📭 No copies in the library yet",
+  "bot.inline.available_one": "✅ {available} of {count} copy available",
+  "bot.inline.available_other": "✅ {available} of {count} copies available",
+  "bot.inline.allOut_one": "📅 All {count} copy is out right now",
+  "bot.inline.allOut_other": "📅 All {count} copies are out right now",
+
+  "bot.copy.number": "Copy #{number}",
+  "bot.copy.status": "Status: {status}",
+  "bot.copy.available": "✅ Available",
+  "bot.copy.borrowedByYou": "📖 Borrowed by you",
+  "bot.copy.borrowed": "📅 Currently borrowed",
+  "bot.copy.returnHint":
+    "Once you've returned the book to {location}, press the button below.",
+  "bot.copy.dueOn": "📅 This book is currently borrowed and due on {date}.",
+  "bot.copy.unavailableHint":
+    "This copy can't be borrowed right now. Tap the button below to hear when another copy is free.",
+
+  "bot.loan.due": "Due: {date}",
+  "bot.loan.overdue": "⚠️ OVERDUE",
+  "bot.myBooks.title": "📚 Your borrowed books ({count}):",
+  "bot.myBooks.returnHint": "💡 Scan the QR code to return a book",
+  "bot.due.title": "📅 Your due dates:",
+  "bot.due.calendarHint":
+    "💡 Add this link to your calendar app to get a reminder the day before each due date. It updates when you renew or return a book:",
+
+  "bot.borrow.title": "✅ Book Borrowed Successfully!",
+  "bot.borrow.dueDate": "📅 Due date: {date}",
+  "bot.borrow.enjoy": "Enjoy your reading!\nRemember to return it on time.",
+  "bot.return.title": "✅ Book Returned Successfully!",
+  "bot.return.thanks": "Thank you for returning the book!",
+
+  "bot.reminder.dueSoon": "⏰ Reminder: your book is due soon",
+  "bot.reminder.dueSoonHint": "Please return it to {location} by the due date.",
+  "bot.reminder.dueToday": "due today",
+  "bot.reminder.daysOverdue_one": "{count} day overdue",
+  "bot.reminder.daysOverdue_other": "{count} days overdue",
+  "bot.reminder.overdue": "⚠️ Your book is {overdue}",
+  "bot.reminder.wasDue": "📅 Was due: {date}",
+  "bot.reminder.overdueHint":
+    "Please return it to {location} as soon as possible so others can enjoy it too.",
+
+  "bot.renew.choose": "🔁 Which book would you like to renew?",
+  "bot.renew.noneLeft": "No renewals left",
+  "bot.renew.title": "🔁 Loan Renewed!",
+  "bot.renew.newDueDate": "📅 New due date: {date}",
+  "bot.renew.remaining_one": "You can renew {count} more time.",
+  "bot.renew.remaining_other": "You can renew {count} more times.",
+  "bot.renew.last": "This was the last renewal for this loan.",
+
+  "bot.holdReady.title": "🎉 Your hold is ready!",
+  "bot.holdReady.reserved": "Copy #{number} is reserved for you at {location}.",
+  "bot.holdReady.pickUpBy":
+    "📅 Pick it up by {date}, after which it goes to the next person in the queue.",
+  "bot.holdReady.scan": "Scan the QR code on the book to borrow it.",
+
+  "bot.loanLimit.title_one": "❌ You can only borrow {count} book at a time.",
+  "bot.loanLimit.title_other":
+    "❌ You can only borrow {count} books at a time.",
+  "bot.loanLimit.returnFirst":
+    "Please return one of these before borrowing another:",
+
+  "bot.history.title": "📖 Your reading history ({count}):",
+  "bot.history.page": "Page {page} of {totalPages}",
+  "bot.history.more": "/history {page} for more",
+  "bot.history.offHint": "💡 Send /history off to stop keeping your history",
+
+  // ==========================================================================
+  // Mini App
+  // ==========================================================================
+  "app.scanBookQr": "Scan Book QR Code",
+  "app.browseAllBooks": "Browse All Books",
+  "app.loanPolicies": "Loan Policies",
+  "app.myHolds": "My Holds",
+  "app.holdReadyAt": "Ready at {location} until {date}",
+  "app.holdPosition": "#{position} in queue",
+  "app.cancel": "Cancel",
+  "app.myBorrowedBooks": "My Borrowed Books",
+  "app.noLoans": "No books borrowed yet. Scan a QR code to get started.",
+  "app.due": "Due: {date}",
+  "app.dueShort": "Due {date}",
+  "app.renew": "Renew",
+  "app.renewing": "Renewing...",
+  "app.addToCalendar": "Add Due Dates to Calendar",
+  "app.calendarHint":
+    "Your calendar will remind you the day before each book is due, and updates when you renew or return.",
+  "app.lookingUpBook": "Looking up book...",
+  "app.borrowingBook": "Borrowing book...",
+  "app.returningBook": "Returning book...",
+  "app.loadingBook": "Loading book...",
+  "app.backToHome": "Back to Home",
+  "app.done": "Done",
+  "app.unknown": "Unknown",
+  "app.unknownBook": "Unknown Book",
+
+  "app.scanner.book": "Point your camera at a book QR code",
+  "app.scanner.borrowAt": "Scan QR at 📍{location} to borrow",
+  "app.scanner.returnAt": "Scan QR at 📍{location} to return",
+  "app.notBookQr.title": "Not a Book QR",
+  "app.notBookQr.message":
+    "This doesn't look like a library book QR. Try scanning the code sticker inside the book.",
+  "app.bookQrScanned.title": "Book QR Scanned",
+  "app.bookQrScanned.borrow":
+    "You scanned a book QR. For borrowing, scan the location QR posted at the library spot.",
+  "app.bookQrScanned.return":
+    "You scanned a book QR. For returns, scan the location QR at the library spot.",
+  "app.wrongLocation.title": "Wrong Location",
+  "app.wrongLocation.borrow":
+    'This book is located at {location}. You scanned "{scanned}". Please go to the correct location QR.',
+  "app.wrongLocation.return":
+    'Please return this book to {location}. You scanned "{scanned}".',
+  "app.borrowFailed.title": "Borrow Failed",
+  "app.borrowFailed.message": "Failed to borrow book",
+  "app.returnFailed.title": "Return Failed",
+  "app.returnFailed.message": "Failed to return book",
+  "app.loanRenewed.title": "Loan Renewed",
+  "app.loanRenewed.message": "Your new due date is {date}.",
+  "app.renewFailed.title": "Renew Failed",
+  "app.renewFailed.message": "Failed to renew loan",
+  "app.holdPlaced.title": "Hold Placed",
+  "app.holdPlaced.message":
+    "You're #{position} in the queue. We'll message you when a copy is ready for pickup.",
+  "app.holdFailed.title": "Hold Failed",
+  "app.holdFailed.message": "Failed to place hold",
+  "app.cancelFailed.title": "Cancel Failed",
+  "app.cancelFailed.message": "Failed to cancel hold",
+
+  "app.book.copyNumber": "Copy #",
+  "app.book.location": "Location",
+  "app.book.isbn": "ISBN",
+  "app.book.status": "Status",
+  "app.book.available": "Available",
+  "app.book.unavailable": "Unavailable",
+  "app.book.loanLimit_one": "You can only borrow {count} book at a time",
+  "app.book.loanLimit_other": "You can only borrow {count} books at a time",
+  "app.book.returnFirst": "Return one of these before borrowing another:",
+  "app.book.dueDate": "Due date",
+  "app.book.yourHold": "Your hold",
+  "app.book.holdWaiting": "Copy #{number} is waiting for you at {location}",
+  "app.book.queuePosition": "You're #{position} in the queue",
+  "app.book.viewAsAdmin": "View as Admin",
+  "app.book.scanToReturn": "Scan QR at {location} to return",
+  "app.book.scanToBorrow": "Scan QR at {location} to borrow",
+  "app.book.cancelling": "Cancelling...",
+  "app.book.cancelHold": "Cancel Hold",
+  "app.book.placingHold": "Placing hold...",
+  "app.book.placeHold": "Place Hold",
+  "app.book.currentlyUnavailable": "Currently Unavailable",
+  "app.book.onLoanUntil": "On loan until {date}",
+  "app.book.copies": "Copies",
+  "app.book.noCopies": "No copies in the library yet.",
+  "app.book.copyAt": "Copy #{number} · {location}",
+  "app.book.scanABook": "Scan a Book QR Code",
+
+  "app.borrowed.title": "Book Borrowed!",
+  "app.borrowed.subtitle": "You have successfully borrowed",
+  "app.borrowed.author": "Author",
+  "app.borrowed.location": "Location",
+  "app.borrowed.copyNumber": "Copy #",
+  "app.borrowed.dueDate": "Due Date",
+  "app.borrowed.loanPolicy": "Loan Policy",
+  "app.borrowed.days_one": "{count} day",
+  "app.borrowed.days_other": "{count} days",
+  "app.borrowed.noRenewals": "no renewals",
+  "app.borrowed.renewals_one": "up to {count} renewal",
+  "app.borrowed.renewals_other": "up to {count} renewals",
+  "app.returned.title": "Book Returned!",
+  "app.returned.subtitle": "Thank you for returning",
+
+  "app.notFound.title": "Book Not Found",
+  "app.notFound.message":
+    "The scanned QR code doesn't match any book in our library.",
+  "app.notFound.scanAgain": "Scan Again",
+
+  "app.history.title": "Reading History",
+  "app.history.turnOffTitle": "Turn off reading history?",
+  "app.history.turnOffMessage":
+    "Your past loans will be cleared and future returns won't be kept.",
+  "app.history.turnOffButton": "Turn off",
+  "app.history.empty": "Books you return will show up here.",
+  "app.history.off": "Reading history is off.",
+  "app.history.hide": "Hide",
+  "app.history.previous": "Previous",
+  "app.history.next": "Next",
+  "app.history.page": "Page {page} of {totalPages}",
+  "app.history.turnOff": "Turn off reading history",
+  "app.history.keep": "Keep my reading history",
+  "app.admin.back": "Back",
+  "app.admin.undo": "Undo",
+  "app.admin.saving": "Saving...",
+  "app.admin.titlePlaceholder": "Title",
+  "app.admin.authorPlaceholder": "Author",
+  "app.admin.descriptionPlaceholder": "Description (optional)",
+  "app.admin.byUsername": "by @{username}",
+  "app.admin.byUser": "by user {id}",
+
+  "app.admin.books.loading": "Loading books...",
+  "app.admin.books.addTitle": "Add New Title",
+  "app.admin.books.search": "Search by title, author, or ISBN...",
+  "app.admin.books.sort": "Sort:",
+  "app.admin.books.sortTitle": "Title",
+  "app.admin.books.sortAuthor": "Author",
+  "app.admin.books.sortRecent": "Recent",
+  "app.admin.books.allGenres": "All",
+  "app.admin.books.count_one": "{count} book",
+  "app.admin.books.count_other": "{count} books",
+  "app.admin.books.inGenre": "in {genre}",
+  "app.admin.books.matching": 'matching "{filter}"',
+  "app.admin.books.noMatches": "No books match your search.",
+  "app.admin.books.empty": "No books in library.",
+  "app.admin.books.showDeleted": "Deleted Books",
+
+  "app.admin.policies.title": "Loan Policies",
+  "app.admin.policies.loading": "Loading locations...",
+  "app.admin.policies.hint":
+    "Changes apply to new loans and renewals. Books already on loan keep their due dates.",
+  "app.admin.policies.loanPeriodDays": "Loan length (days)",
+  "app.admin.policies.maxRenewals": "Renewals allowed",
+  "app.admin.policies.maxLoansPerUser": "Loans per person",
+  "app.admin.policies.noLimit": "No limit",
+  "app.admin.policies.save": "Save",
+  "app.admin.policyFailed.title": "Failed to Save Policy",
+  "app.admin.policyFailed.message": "Failed to update loan policy",
+
+  "app.admin.book.isbn": "ISBN: {isbn}",
+  "app.admin.book.edit": "Edit details",
+  "app.admin.book.copies": "Copies ({count})",
+  "app.admin.book.addCopy": "Add Copy",
+  "app.admin.book.noCopies":
+    "No copies yet. Add a copy to make this book available.",
+  "app.admin.book.delete": "Delete Book",
+  "app.admin.book.deleting": "Deleting...",
+  "app.admin.book.coverUrlPlaceholder": "Cover image URL (optional)",
+  "app.admin.book.save": "Save Changes",
+  "app.admin.book.addGenre": "Add a genre",
+  "app.admin.book.genresFull": "Up to {max} genres",
+  "app.admin.deleteBook.title": "Delete Book?",
+  "app.admin.deleteBook.message":
+    '"{title}" and its copies will be hidden from the catalogue and its holds cancelled. You can restore it from Deleted Books in the books list, but cancelled holds stay cancelled.',
+  "app.admin.deleteBook.confirm": "Delete",
+  "app.admin.deleteFailed.title": "Failed to Delete Book",
+  "app.admin.deleteFailed.message": "Failed to delete book",
+  "app.admin.bookDeleted.title": "Book Deleted",
+  "app.admin.bookDeleted.message": '"{title}" is no longer in the catalogue.',
+  "app.admin.deletedBooks.title": "Deleted Books",
+  "app.admin.deletedBooks.loading": "Loading deleted books...",
+  "app.admin.deletedBooks.empty": "No deleted books.",
+  "app.admin.deletedBooks.deletedOn": "Deleted {date}",
+  "app.admin.deletedBooks.restore": "Restore",
+  "app.admin.deletedBooks.restoring": "Restoring...",
+  "app.admin.restoreFailed.title": "Failed to Restore Book",
+  "app.admin.restoreFailed.message": "Failed to restore book",
+
+  "app.admin.changeLog.title": "Change Log",
+  "app.admin.changeLog.deleted": "Deleted the book",
+  "app.admin.changeLog.restored": "Restored the book",
+  "app.admin.changeLog.set": '{field} → "{value}"',
+  "app.admin.changeLog.setList": "{field} → {value}",
+  "app.admin.changeLog.none": "none",
+  "app.admin.changeLog.updated": "{field} updated",
+  "app.admin.changeLog.removed": "{field} removed",
+  "app.admin.changeLog.isUndo": "(undo)",
+  "app.admin.changeLog.undoTitle": "Undo Change?",
+  "app.admin.field.title": "Title",
+  "app.admin.field.author": "Author",
+  "app.admin.field.description": "Description",
+  "app.admin.field.imageUrl": "Cover",
+  "app.admin.field.tags": "Genres",
+
+  "app.admin.copy.number": "Copy #{number}",
+  "app.admin.copy.borrowed": "Borrowed",
+  "app.admin.copy.changeStatus": "Change status",
+  "app.admin.copy.close": "Close",
+  "app.admin.copy.reasonPlaceholder": "Reason (e.g. water damage on cover)",
+  "app.admin.copy.markAs": "Mark as {status}",
+  "app.admin.copy.history": "History",
+  "app.admin.copy.automatic": "(automatic)",
+
+  "app.admin.loan.borrowedBy": "Borrowed by",
+  "app.admin.loan.user": "User {id}",
+  "app.admin.loan.markReturned": "Mark returned",
+  "app.admin.loan.extend": "Extend due date",
+  "app.admin.loan.reassign": "Reassign",
+  "app.admin.loan.borrowerIdPlaceholder": "New borrower's Telegram user ID",
+  "app.admin.loan.usernamePlaceholder": "Username (optional)",
+  "app.admin.loan.saveDueDate": "Save Due Date",
+  "app.admin.loan.reassignLoan": "Reassign Loan",
+  "app.admin.markReturned.title": "Mark as Returned?",
+  "app.admin.markReturned.message": "Close this loan on behalf of {borrower}?",
+  "app.admin.markReturned.byUser": "user {id}",
+  "app.admin.markReturned.confirm": "Mark Returned",
+
+  "app.admin.addBook.hint":
+    "Type the ISBN from the back cover or copyright page to fill in the details, then add copies on the next screen. Scanning the barcode works on some devices.",
+  "app.admin.addBook.isbn": "ISBN",
+  "app.admin.addBook.tryScan": "Try Scan",
+  "app.admin.addBook.invalidIsbn": "This isn't a valid ISBN-10 or ISBN-13.",
+  "app.admin.addBook.savedAs": "Saved as {isbn}",
+  "app.admin.addBook.lookingUp": "Looking up this ISBN...",
+  "app.admin.addBook.noMetadata":
+    "No details found for this ISBN. Fill them in below.",
+  "app.admin.addBook.details": "Details",
+  "app.admin.addBook.cover": "Cover",
+  "app.admin.addBook.coverFromLookup": "Cover from the ISBN lookup",
+  "app.admin.addBook.removeCover": "Remove",
+  "app.admin.addBook.adding": "Adding Title...",
+  "app.admin.addBook.submit": "Add Title & Scan Copies",
+  "app.admin.scanner.isbn":
+    "Point at the ISBN barcode. If it won't scan, close this and type the ISBN instead.",
+  "app.admin.notIsbn.title": "Not an ISBN",
+  "app.admin.notIsbn.message":
+    "That doesn't look like an ISBN barcode. The scanner can't read every book barcode, so please type the ISBN in instead.",
+  "app.admin.deletedTitle.title": "Deleted Title",
+  "app.admin.deletedTitle.message":
+    "A deleted book has this ISBN. Restore it to the catalogue?",
+  "app.admin.deletedTitle.restore": "Restore",
+  "app.admin.duplicateTitle.title": "Already in the Library",
+  "app.admin.duplicateTitle.message":
+    "A book with this ISBN is already in the library. Open it to add another copy?",
+  "app.admin.duplicateTitle.open": "Open Book",
+  "app.admin.addBookFailed.title": "Failed to Add Title",
+  "app.admin.addBookFailed.message": "Failed to add book",
+
+  "app.admin.addCopy.title": "Add Copy",
+  "app.admin.addCopy.stepScan": "Scan QR",
+  "app.admin.addCopy.stepLocation": "Location",
+  "app.admin.addCopy.stepConfirm": "Confirm",
+  "app.admin.addCopy.scanPrompt":
+    "Scan the QR sticker that you'll attach to this book copy",
+  "app.admin.addCopy.openScanner": "Open Scanner",
+  "app.admin.addCopy.scanned": "QR Code scanned:",
+  "app.admin.addCopy.selectLocation": "Select where this copy will be located:",
+  "app.admin.addCopy.ready": "Ready to add this copy?",
+  "app.admin.addCopy.book": "Book",
+  "app.admin.addCopy.qrCode": "QR Code",
+  "app.admin.addCopy.location": "Location",
+  "app.admin.addCopy.adding": "Adding Copy...",
+  "app.admin.addCopy.confirm": "Confirm & Add Copy",
+  "app.admin.addCopy.added": "Copy Added!",
+  "app.admin.addCopy.addedMessage":
+    'Copy #{number} of "{title}" has been added to the library.',
+  "app.admin.addCopy.backToBook": "Back to Book",
+  "app.admin.scanner.copy": "Scan the QR sticker for the new book copy",
+  "app.admin.fullLink.title": "Full Link Required",
+  "app.admin.fullLink.message":
+    "This looks like a code only. Scan the full t.me/...startapp=COPY-... link instead.",
+  "app.admin.invalidQr.title": "Invalid QR",
+  "app.admin.invalidQr.message":
+    "This QR code doesn't look like a book link. Scan the sticker link that starts with t.me/ and includes startapp=COPY-...",
+  "app.admin.copyExists.title": "Copy Already Exists",
+  "app.admin.copyExists.message":
+    "Copy #{number} already uses this QR code. Please scan a new sticker.",
+  "app.admin.addCopyFailed.title": "Failed to Add Copy",
+  "app.admin.addCopyFailed.message": "Failed to add copy",
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
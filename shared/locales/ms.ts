@@ -0,0 +1,552 @@
+import type { Messages } from "./en";
+
+/**
+ * Malay messages
+ */
+export const ms: Messages = {
+  // ==========================================================================
+  // Shared
+  // ==========================================================================
+  "count.copies_one": "{count} naskhah",
+  "count.copies_other": "{count} naskhah",
+  "count.people_one": "{count} orang",
+  "count.people_other": "{count} orang",
+  "copyStatus.available": "Tersedia",
+  "copyStatus.on_hold_shelf": "Di Rak Tempahan",
+  "copyStatus.lost": "Hilang",
+  "copyStatus.damaged": "Rosak",
+  "copyStatus.in_repair": "Dalam Pembaikan",
+  "copyStatus.withdrawn": "Ditarik Balik",
+
+  "error.copyNotFound": "Naskhah buku tidak dijumpai",
+  "error.copyNotCirculating":
+    "Naskhah ini ditanda sebagai {status} dan tidak boleh dipinjam",
+  "error.alreadyBorrowed": "Anda sudah meminjam buku ini",
+  "error.copyOnLoan":
+    "Buku ini sedang dipinjam (perlu dipulangkan pada {date})",
+  "error.copyReserved":
+    "Naskhah ini disimpan untuk seseorang dalam senarai menunggu sehingga {date}",
+  "error.loanLimit":
+    "Anda hanya boleh meminjam {count} buku pada satu masa. Sila pulangkan satu sebelum meminjam yang lain.",
+  "error.locationLoanLimit":
+    "Anda hanya boleh meminjam {count} buku pada satu masa dari {location}. Sila pulangkan satu dahulu.",
+  "error.borrowRace":
+    "Buku ini baru sahaja dipinjam oleh orang lain. Sila cuba lagi.",
+  "error.noActiveLoan": "Tiada pinjaman aktif dijumpai untuk buku ini",
+  "error.notRenewable":
+    "Buku dari {location} tidak boleh diperbaharui. Sila pulangkan buku ini.",
+  "error.maxRenewals":
+    "Pinjaman ini telah diperbaharui sebanyak maksimum {count} kali. Sila pulangkan buku ini.",
+  "error.holdBlocksRenewal":
+    "Buku ini tidak boleh diperbaharui kerana seseorang telah membuat tempahan.",
+  "error.loanChanged": "Pinjaman ini baru sahaja dikemas kini. Sila cuba lagi.",
+  "error.bookNotFound": "Buku tidak dijumpai",
+  "error.noCopiesToHold": "Buku ini tiada naskhah untuk ditempah",
+  "error.copyAvailable":
+    "Ada naskhah yang tersedia sekarang. Imbas kod QRnya untuk meminjam.",
+  "error.alreadyOnHold": "Anda sudah membuat tempahan untuk buku ini",
+  "error.holdFailed": "Gagal membuat tempahan",
+  "error.noOpenHold": "Tiada tempahan terbuka dijumpai",
+  "error.statusTransition":
+    "Naskhah tidak boleh bertukar daripada {from} kepada {to}",
+  "error.copyChanged": "Naskhah ini baru sahaja dikemas kini. Sila cuba lagi.",
+
+  "calendar.name": "Tarikh pulang perpustakaan",
+  "calendar.event": "📚 Pulangkan {title}",
+  "calendar.alarm": "{title} perlu dipulangkan ke perpustakaan esok",
+
+  // ==========================================================================
+  // Bot
+  // ==========================================================================
+  "bot.welcome": `📚 Selamat datang ke Bot Perpustakaan Komuniti\\!
+
+Untuk *mencari* buku, taip nama buku atau nama pengarang:
+Cth\\. "ulysses"
+
+Untuk *meminjam atau memulangkan* buku, imbas kod QR pada buku fizikal
+
+Arahan yang tersedia:
+\\/start \\- Mulakan bot dan lihat mesej ini
+\\/mybooks \\- Lihat buku yang sedang anda pinjam
+\\/renew \\- Lanjutkan tarikh pulang buku yang dipinjam
+\\/due \\- Lihat tarikh pulang buku dan tambahkannya ke kalendar
+\\/history \\- Lihat buku yang pernah anda baca
+\\/subscribe \\- Dapatkan buku baharu setiap minggu
+\\/language \\- Tukar bahasa bot
+
+Lawati laman web kami [untuk melihat katalog penuh](https://library.zsheng.app)
+
+Imbas kod QR pada mana\\-mana buku untuk meminjamnya\\!`,
+  "bot.bookUsage":
+    "Penggunaan: /book <isbn> atau /book<isbn>\n\nContoh: /book 9780674430006",
+  "bot.borrowUsage":
+    "Penggunaan: /borrow <qr_code_id>\n\nImbas kod QR pada buku fizikal untuk mendapatkan ID.",
+  "bot.renewError":
+    "❌ Ralat berlaku semasa memperbaharui pinjaman. Sila cuba lagi.",
+  "bot.historyEmpty":
+    "📖 Sejarah bacaan anda kosong. Buku yang anda pulangkan akan dipaparkan di sini.",
+  "bot.historyDisabled":
+    "📖 Sejarah bacaan dimatikan, jadi buku yang dipulangkan tidak disimpan.\n\nHantar /history on untuk mula menyimpannya semula.",
+  "bot.historyTurnedOff":
+    "✅ Sejarah bacaan dimatikan. Pinjaman lepas anda telah dibuang daripadanya.",
+  "bot.historyTurnedOn":
+    "✅ Sejarah bacaan dihidupkan. Buku yang anda pulangkan mulai sekarang akan dipaparkan dalam /history.",
+  "bot.bookNotFound": "❌ Buku tidak dijumpai.",
+  "bot.bookCopyNotFound": "❌ Naskhah buku tidak dijumpai. Sila semak kod QR.",
+  "bot.searchError": "❌ Ralat berlaku semasa mencari. Sila cuba lagi.",
+  "bot.bookDetailsError":
+    "❌ Ralat berlaku semasa mendapatkan butiran buku. Sila cuba lagi.",
+  "bot.genericError": "❌ Ralat berlaku. Sila cuba lagi.",
+  "bot.userIdentificationError": "❌ Pengguna tidak dapat dikenal pasti.",
+  "bot.adminOnly": "❌ Arahan ini hanya untuk pentadbir perpustakaan.",
+  "bot.noBorrowedBooks": "📚 Anda tidak meminjam sebarang buku pada masa ini.",
+  "bot.borrowSuccess": "✅ Buku berjaya dipinjam!",
+  "bot.returnSuccess": "✅ Buku berjaya dipulangkan!",
+  "bot.holdPlaced":
+    "🔔 Anda di tempat #{position} dalam giliran. Kami akan memaklumkan anda apabila naskhah sedia untuk anda.",
+  "bot.noMoreResults": "Tiada lagi hasil.",
+
+  "bot.button.borrow": "📖 Pinjam Buku Ini",
+  "bot.button.return": "✅ Pulangkan Buku Ini",
+  "bot.button.notify": "🔔 Maklumkan Apabila Tersedia",
+  "bot.button.prev": "◀ Sebelum",
+  "bot.button.next": "Seterusnya ▶",
+  "bot.button.manageBook": "Urus Buku",
+  "bot.button.openInLibrary": "📖 Buka di Perpustakaan",
+  "bot.button.openPrivateChat": "💬 Buka Sembang Peribadi",
+  "bot.button.addToCalendar": "📅 Tambah ke Kalendar",
+
+  "bot.command.start": "Mulakan bot dan lihat mesej alu-aluan",
+  "bot.command.mybooks": "Lihat buku yang sedang anda pinjam",
+  "bot.command.due": "Lihat bila buku anda perlu dipulangkan",
+  "bot.command.renew": "Lanjutkan tarikh pulang buku yang dipinjam",
+  "bot.command.history": "Lihat buku yang pernah anda baca",
+  "bot.command.subscribe": "Dapatkan buku baharu setiap minggu",
+  "bot.command.language": "Tukar bahasa bot",
+
+  "bot.language.choose": "🌐 Pilih bahasa anda:",
+  "bot.language.auto": "Ikut bahasa Telegram saya",
+  "bot.language.set":
+    "✅ Saya akan berbual dengan anda dalam Bahasa Melayu mulai sekarang.",
+  "bot.language.reset": "✅ Saya akan mengikut bahasa Telegram anda semula.",
+
+  "bot.group.privateOnly":
+    "🔒 Itu maklumat peribadi, jadi mari kita bincang di luar kumpulan. Ketik di bawah untuk teruskan dalam sembang peribadi dengan saya.",
+  "bot.group.groupOnly": "Arahan ini hanya berfungsi dalam sembang kumpulan.",
+  "bot.group.adminOnly": "❌ Hanya pentadbir kumpulan boleh menukar ini.",
+  "bot.group.locationAll":
+    "📍 Carian dalam kumpulan ini merangkumi semua lokasi.",
+  "bot.group.locationCurrent":
+    "📍 Carian dalam kumpulan ini hanya merangkumi {location}.",
+  "bot.group.locationUsage":
+    "Untuk menukarnya: /setlocation <lokasi> atau /setlocation all\n\nLokasi: {locations}",
+  "bot.group.locationNotFound": '❌ Tiada lokasi bernama "{name}".',
+
+  "bot.subscribe.done":
+    "🔔 Anda telah melanggan buku baharu. Setiap Isnin saya akan menghantar buku yang ditambah ke perpustakaan pada minggu itu.\n\nHantar /unsubscribe untuk berhenti.",
+  "bot.subscribe.already":
+    "🔔 Anda sudah melanggan buku baharu. Hantar /unsubscribe untuk berhenti.",
+  "bot.unsubscribe.done":
+    "🔕 Anda tidak akan menerima buku baharu lagi. Hantar /subscribe untuk mula semula.",
+  "bot.unsubscribe.notSubscribed":
+    "Anda tidak melanggan buku baharu. Hantar /subscribe untuk menerimanya setiap Isnin.",
+  "bot.newArrivals.title_one":
+    "🆕 {count} buku baharu di perpustakaan minggu ini:",
+  "bot.newArrivals.title_other":
+    "🆕 {count} buku baharu di perpustakaan minggu ini:",
+  "bot.newArrivals.hint":
+    "💡 Hantar tajuk untuk mencarinya, atau /unsubscribe untuk berhenti menerima kemas kini ini.",
+
+  "bot.book.by": "oleh {author}",
+  "bot.book.waiting": "👥 {people} menunggu",
+  "bot.book.borrowHint": "💡 Untuk meminjam, imbas kod QR pada buku fizikal",
+  "bot.book.holdHint":
+    "💡 Semua naskhah sedang dipinjam. Imbas kod QR mana-mana naskhah untuk menyertai giliran tempahan",
+  "bot.book.copyAvailable": "Tersedia di {location}",
+  "bot.book.copyBorrowed": "Dipinjam (perlu dipulangkan {date})",
+  "bot.book.copyReserved": "Dikhaskan untuk tempahan di {location}",
+  "bot.book.copyUnavailable": "Tidak tersedia",
+  "bot.book.copyLine": "Naskhah {number}",
+  "bot.book.availability_one":
+    "📊 Ketersediaan: {available} daripada {count} naskhah tersedia",
+  "bot.book.availability_other":
+    "📊 Ketersediaan: {available} daripada {count} naskhah tersedia",
+  "bot.book.copiesHeading": "Naskhah:",
+
+  "bot.search.available": "{count} tersedia",
+  "bot.search.noneAvailable": "tiada yang tersedia",
+  "bot.search.found_one": '🔍 {count} hasil dijumpai untuk "{query}":',
+  "bot.search.found_other": '🔍 {count} hasil dijumpai untuk "{query}":',
+  "bot.search.showing": "Memaparkan {from}–{to} daripada {total}",
+  "bot.search.tapHint": "💡 Ketik nombor di bawah untuk melihat buku",
+  "bot.search.noResults": '🔍 Tiada hasil dijumpai untuk "{query}"',
+
+  "bot.inline.availableOf": "{available} daripada {total} tersedia",
+  "bot.inline.noCopies": "📭 Belum ada naskhah di perpustakaan",
+  "bot.inline.available_one":
+    "✅ {available} daripada {count} naskhah tersedia",
+  "bot.inline.available_other":
+    "✅ {available} daripada {count} naskhah tersedia",
+  "bot.inline.allOut_one":
+    "📅 Kesemua {count} naskhah sedang dipinjam sekarang",
+  "bot.inline.allOut_other":
+    "📅 Kesemua {count} naskhah sedang dipinjam sekarang",
+
+  "bot.copy.number": "Naskhah #{number}",
+  "bot.copy.status": "Status: {status}",
+  "bot.copy.available": "✅ Tersedia",
+  "bot.copy.borrowedByYou": "📖 Dipinjam oleh anda",
+  "bot.copy.borrowed": "📅 Sedang dipinjam",
+  "bot.copy.returnHint":
+    "Selepas anda memulangkan buku ke {location}, tekan butang di bawah.",
+  "bot.copy.dueOn":
+    "📅 Buku ini sedang dipinjam dan perlu dipulangkan pada {date}.",
+  "bot.copy.unavailableHint":
+    "Naskhah ini tidak boleh dipinjam sekarang. Ketik butang di bawah untuk dimaklumkan apabila naskhah lain tersedia.",
+
+  "bot.loan.due": "Tarikh pulang: {date}",
+  "bot.loan.overdue": "⚠️ LEWAT",
+  "bot.myBooks.title": "📚 Buku yang anda pinjam ({count}):",
+  "bot.myBooks.returnHint": "💡 Imbas kod QR untuk memulangkan buku",
+  "bot.due.title": "📅 Tarikh pulang anda:",
+  "bot.due.calendarHint":
+    "💡 Tambahkan pautan ini ke aplikasi kalendar anda untuk mendapat peringatan sehari sebelum setiap tarikh pulang. Ia dikemas kini apabila anda memperbaharui atau memulangkan buku:",
+
+  "bot.borrow.title": "✅ Buku Berjaya Dipinjam!",
+  "bot.borrow.dueDate": "📅 Tarikh pulang: {date}",
+  "bot.borrow.enjoy":
+    "Selamat membaca!\nIngat untuk memulangkannya tepat pada masa.",
+  "bot.return.title": "✅ Buku Berjaya Dipulangkan!",
+  "bot.return.thanks": "Terima kasih kerana memulangkan buku ini!",
+
+  "bot.reminder.dueSoon": "⏰ Peringatan: buku anda hampir tamat tempoh",
+  "bot.reminder.dueSoonHint":
+    "Sila pulangkan ke {location} sebelum tarikh pulang.",
+  "bot.reminder.dueToday": "perlu dipulangkan hari ini",
+  "bot.reminder.daysOverdue_one": "lewat {count} hari",
+  "bot.reminder.daysOverdue_other": "lewat {count} hari",
+  "bot.reminder.overdue": "⚠️ Buku anda {overdue}",
+  "bot.reminder.wasDue": "📅 Tarikh pulang asal: {date}",
+  "bot.reminder.overdueHint":
+    "Sila pulangkan ke {location} secepat mungkin supaya orang lain juga dapat membacanya.",
+
+  "bot.renew.choose": "🔁 Buku mana yang anda mahu perbaharui?",
+  "bot.renew.noneLeft": "Tiada pembaharuan lagi",
+  "bot.renew.title": "🔁 Pinjaman Diperbaharui!",
+  "bot.renew.newDueDate": "📅 Tarikh pulang baharu: {date}",
+  "bot.renew.remaining_one": "Anda boleh memperbaharui {count} kali lagi.",
+  "bot.renew.remaining_other": "Anda boleh memperbaharui {count} kali lagi.",
+  "bot.renew.last": "Ini pembaharuan terakhir untuk pinjaman ini.",
+
+  "bot.holdReady.title": "🎉 Tempahan anda sudah sedia!",
+  "bot.holdReady.reserved":
+    "Naskhah #{number} dikhaskan untuk anda di {location}.",
+  "bot.holdReady.pickUpBy":
+    "📅 Ambil sebelum {date}, selepas itu ia akan diberikan kepada orang seterusnya dalam giliran.",
+  "bot.holdReady.scan": "Imbas kod QR pada buku untuk meminjamnya.",
+
+  "bot.loanLimit.title_one":
+    "❌ Anda hanya boleh meminjam {count} buku pada satu masa.",
+  "bot.loanLimit.title_other":
+    "❌ Anda hanya boleh meminjam {count} buku pada satu masa.",
+  "bot.loanLimit.returnFirst":
+    "Sila pulangkan salah satu daripada buku ini sebelum meminjam yang lain:",
+
+  "bot.history.title": "📖 Sejarah bacaan anda ({count}):",
+  "bot.history.page": "Halaman {page} daripada {totalPages}",
+  "bot.history.more": "/history {page} untuk lagi",
+  "bot.history.offHint":
+    "💡 Hantar /history off untuk berhenti menyimpan sejarah anda",
+
+  // ==========================================================================
+  // Mini App
+  // ==========================================================================
+  "app.scanBookQr": "Imbas Kod QR Buku",
+  "app.browseAllBooks": "Semak Semua Buku",
+  "app.loanPolicies": "Polisi Pinjaman",
+  "app.myHolds": "Tempahan Saya",
+  "app.holdReadyAt": "Sedia di {location} sehingga {date}",
+  "app.holdPosition": "#{position} dalam giliran",
+  "app.cancel": "Batal",
+  "app.myBorrowedBooks": "Buku Pinjaman Saya",
+  "app.noLoans": "Belum ada buku dipinjam. Imbas kod QR untuk bermula.",
+  "app.due": "Tarikh pulang: {date}",
+  "app.dueShort": "Pulang {date}",
+  "app.renew": "Perbaharui",
+  "app.renewing": "Memperbaharui...",
+  "app.addToCalendar": "Tambah Tarikh Pulang ke Kalendar",
+  "app.calendarHint":
+    "Kalendar anda akan mengingatkan anda sehari sebelum setiap buku perlu dipulangkan, dan dikemas kini apabila anda memperbaharui atau memulangkan.",
+  "app.lookingUpBook": "Mencari buku...",
+  "app.borrowingBook": "Meminjam buku...",
+  "app.returningBook": "Memulangkan buku...",
+  "app.loadingBook": "Memuatkan buku...",
+  "app.backToHome": "Kembali ke Laman Utama",
+  "app.done": "Selesai",
+  "app.unknown": "Tidak diketahui",
+  "app.unknownBook": "Buku Tidak Diketahui",
+
+  "app.scanner.book": "Halakan kamera anda ke kod QR buku",
+  "app.scanner.borrowAt": "Imbas QR di 📍{location} untuk meminjam",
+  "app.scanner.returnAt": "Imbas QR di 📍{location} untuk memulangkan",
+  "app.notBookQr.title": "Bukan QR Buku",
+  "app.notBookQr.message":
+    "Ini tidak kelihatan seperti QR buku perpustakaan. Cuba imbas pelekat kod di dalam buku.",
+  "app.bookQrScanned.title": "QR Buku Diimbas",
+  "app.bookQrScanned.borrow":
+    "Anda mengimbas QR buku. Untuk meminjam, imbas QR lokasi yang ditampal di tempat perpustakaan.",
+  "app.bookQrScanned.return":
+    "Anda mengimbas QR buku. Untuk memulangkan, imbas QR lokasi di tempat perpustakaan.",
+  "app.wrongLocation.title": "Lokasi Salah",
+  "app.wrongLocation.borrow":
+    'Buku ini terletak di {location}. Anda mengimbas "{scanned}". Sila pergi ke QR lokasi yang betul.',
+  "app.wrongLocation.return":
+    'Sila pulangkan buku ini ke {location}. Anda mengimbas "{scanned}".',
+  "app.borrowFailed.title": "Pinjaman Gagal",
+  "app.borrowFailed.message": "Gagal meminjam buku",
+  "app.returnFailed.title": "Pemulangan Gagal",
+  "app.returnFailed.message": "Gagal memulangkan buku",
+  "app.loanRenewed.title": "Pinjaman Diperbaharui",
+  "app.loanRenewed.message": "Tarikh pulang baharu anda ialah {date}.",
+  "app.renewFailed.title": "Pembaharuan Gagal",
+  "app.renewFailed.message": "Gagal memperbaharui pinjaman",
+  "app.holdPlaced.title": "Tempahan Dibuat",
+  "app.holdPlaced.message":
+    "Anda di tempat #{position} dalam giliran. Kami akan memaklumkan anda apabila naskhah sedia untuk diambil.",
+  "app.holdFailed.title": "Tempahan Gagal",
+  "app.holdFailed.message": "Gagal membuat tempahan",
+  "app.cancelFailed.title": "Pembatalan Gagal",
+  "app.cancelFailed.message": "Gagal membatalkan tempahan",
+
+  "app.book.copyNumber": "Naskhah #",
+  "app.book.location": "Lokasi",
+  "app.book.isbn": "ISBN",
+  "app.book.status": "Status",
+  "app.book.available": "Tersedia",
+  "app.book.unavailable": "Tidak Tersedia",
+  "app.book.loanLimit_one":
+    "Anda hanya boleh meminjam {count} buku pada satu masa",
+  "app.book.loanLimit_other":
+    "Anda hanya boleh meminjam {count} buku pada satu masa",
+  "app.book.returnFirst":
+    "Pulangkan salah satu daripada buku ini sebelum meminjam yang lain:",
+  "app.book.dueDate": "Tarikh pulang",
+  "app.book.yourHold": "Tempahan anda",
+  "app.book.holdWaiting": "Naskhah #{number} menunggu anda di {location}",
+  "app.book.queuePosition": "Anda di tempat #{position} dalam giliran",
+  "app.book.viewAsAdmin": "Lihat sebagai Pentadbir",
+  "app.book.scanToReturn": "Imbas QR di {location} untuk memulangkan",
+  "app.book.scanToBorrow": "Imbas QR di {location} untuk meminjam",
+  "app.book.cancelling": "Membatalkan...",
+  "app.book.cancelHold": "Batal Tempahan",
+  "app.book.placingHold": "Membuat tempahan...",
+  "app.book.placeHold": "Buat Tempahan",
+  "app.book.currentlyUnavailable": "Tidak Tersedia Buat Masa Ini",
+  "app.book.onLoanUntil": "Dipinjam sehingga {date}",
+  "app.book.copies": "Naskhah",
+  "app.book.noCopies": "Belum ada naskhah di perpustakaan.",
+  "app.book.copyAt": "Naskhah #{number} · {location}",
+  "app.book.scanABook": "Imbas Kod QR Buku",
+
+  "app.borrowed.title": "Buku Dipinjam!",
+  "app.borrowed.subtitle": "Anda telah berjaya meminjam",
+  "app.borrowed.author": "Pengarang",
+  "app.borrowed.location": "Lokasi",
+  "app.borrowed.copyNumber": "Naskhah #",
+  "app.borrowed.dueDate": "Tarikh Pulang",
+  "app.borrowed.loanPolicy": "Polisi Pinjaman",
+  "app.borrowed.days_one": "{count} hari",
+  "app.borrowed.days_other": "{count} hari",
+  "app.borrowed.noRenewals": "tiada pembaharuan",
+  "app.borrowed.renewals_one": "sehingga {count} pembaharuan",
+  "app.borrowed.renewals_other": "sehingga {count} pembaharuan",
+  "app.returned.title": "Buku Dipulangkan!",
+  "app.returned.subtitle": "Terima kasih kerana memulangkan",
+
+  "app.notFound.title": "Buku Tidak Dijumpai",
+  "app.notFound.message":
+    "Kod QR yang diimbas tidak sepadan dengan mana-mana buku di perpustakaan kami.",
+  "app.notFound.scanAgain": "Imbas Semula",
+
+  "app.history.title": "Sejarah Bacaan",
+  "app.history.turnOffTitle": "Matikan sejarah bacaan?",
+  "app.history.turnOffMessage":
+    "Pinjaman lepas anda akan dipadam dan pemulangan akan datang tidak akan disimpan.",
+  "app.history.turnOffButton": "Matikan",
+  "app.history.empty": "Buku yang anda pulangkan akan dipaparkan di sini.",
+  "app.history.off": "Sejarah bacaan dimatikan.",
+  "app.history.hide": "Sembunyi",
+  "app.history.previous": "Sebelum",
+  "app.history.next": "Seterusnya",
+  "app.history.page": "Halaman {page} daripada {totalPages}",
+  "app.history.turnOff": "Matikan sejarah bacaan",
+  "app.history.keep": "Simpan sejarah bacaan saya",
+  "app.admin.back": "Kembali",
+  "app.admin.undo": "Buat Asal",
+  "app.admin.saving": "Menyimpan...",
+  "app.admin.titlePlaceholder": "Tajuk",
+  "app.admin.authorPlaceholder": "Pengarang",
+  "app.admin.descriptionPlaceholder": "Penerangan (pilihan)",
+  "app.admin.byUsername": "oleh @{username}",
+  "app.admin.byUser": "oleh pengguna {id}",
+
+  "app.admin.books.loading": "Memuatkan buku...",
+  "app.admin.books.addTitle": "Tambah Judul Baharu",
+  "app.admin.books.search": "Cari mengikut tajuk, pengarang atau ISBN...",
+  "app.admin.books.sort": "Susun:",
+  "app.admin.books.sortTitle": "Tajuk",
+  "app.admin.books.sortAuthor": "Pengarang",
+  "app.admin.books.sortRecent": "Terkini",
+  "app.admin.books.allGenres": "Semua",
+  "app.admin.books.count_one": "{count} buku",
+  "app.admin.books.count_other": "{count} buku",
+  "app.admin.books.inGenre": "dalam {genre}",
+  "app.admin.books.matching": 'sepadan dengan "{filter}"',
+  "app.admin.books.noMatches": "Tiada buku yang sepadan dengan carian anda.",
+  "app.admin.books.empty": "Tiada buku di perpustakaan.",
+  "app.admin.books.showDeleted": "Buku Dipadam",
+
+  "app.admin.policies.title": "Polisi Pinjaman",
+  "app.admin.policies.loading": "Memuatkan lokasi...",
+  "app.admin.policies.hint":
+    "Perubahan terpakai pada pinjaman dan pembaharuan baharu. Buku yang sedang dipinjam mengekalkan tarikh akhirnya.",
+  "app.admin.policies.loanPeriodDays": "Tempoh pinjaman (hari)",
+  "app.admin.policies.maxRenewals": "Pembaharuan dibenarkan",
+  "app.admin.policies.maxLoansPerUser": "Pinjaman setiap orang",
+  "app.admin.policies.noLimit": "Tiada had",
+  "app.admin.policies.save": "Simpan",
+  "app.admin.policyFailed.title": "Gagal Menyimpan Polisi",
+  "app.admin.policyFailed.message": "Gagal mengemas kini polisi pinjaman",
+
+  "app.admin.book.isbn": "ISBN: {isbn}",
+  "app.admin.book.edit": "Sunting butiran",
+  "app.admin.book.copies": "Naskhah ({count})",
+  "app.admin.book.addCopy": "Tambah Naskhah",
+  "app.admin.book.noCopies":
+    "Belum ada naskhah. Tambah naskhah supaya buku ini boleh dipinjam.",
+  "app.admin.book.delete": "Padam Buku",
+  "app.admin.book.deleting": "Memadam...",
+  "app.admin.book.coverUrlPlaceholder": "URL imej kulit (pilihan)",
+  "app.admin.book.save": "Simpan Perubahan",
+  "app.admin.book.addGenre": "Tambah genre",
+  "app.admin.book.genresFull": "Sehingga {max} genre",
+  "app.admin.deleteBook.title": "Padam Buku?",
+  "app.admin.deleteBook.message":
+    '"{title}" dan naskhahnya akan disembunyikan daripada katalog dan tempahannya dibatalkan. Anda boleh memulihkannya daripada Buku Dipadam dalam senarai buku, tetapi tempahan yang dibatalkan kekal dibatalkan.',
+  "app.admin.deleteBook.confirm": "Padam",
+  "app.admin.deleteFailed.title": "Gagal Memadam Buku",
+  "app.admin.deleteFailed.message": "Gagal memadam buku",
+  "app.admin.bookDeleted.title": "Buku Dipadam",
+  "app.admin.bookDeleted.message": '"{title}" tiada lagi dalam katalog.',
+  "app.admin.deletedBooks.title": "Buku Dipadam",
+  "app.admin.deletedBooks.loading": "Memuatkan buku yang dipadam...",
+  "app.admin.deletedBooks.empty": "Tiada buku yang dipadam.",
+  "app.admin.deletedBooks.deletedOn": "Dipadam {date}",
+  "app.admin.deletedBooks.restore": "Pulihkan",
+  "app.admin.deletedBooks.restoring": "Memulihkan...",
+  "app.admin.restoreFailed.title": "Gagal Memulihkan Buku",
+  "app.admin.restoreFailed.message": "Gagal memulihkan buku",
+
+  "app.admin.changeLog.title": "Log Perubahan",
+  "app.admin.changeLog.deleted": "Memadam buku",
+  "app.admin.changeLog.restored": "Memulihkan buku",
+  "app.admin.changeLog.set": '{field} → "{value}"',
+  "app.admin.changeLog.setList": "{field} → {value}",
+  "app.admin.changeLog.none": "tiada",
+  "app.admin.changeLog.updated": "{field} dikemas kini",
+  "app.admin.changeLog.removed": "{field} dibuang",
+  "app.admin.changeLog.isUndo": "(buat asal)",
+  "app.admin.changeLog.undoTitle": "Buat Asal Perubahan?",
+  "app.admin.field.title": "Tajuk",
+  "app.admin.field.author": "Pengarang",
+  "app.admin.field.description": "Penerangan",
+  "app.admin.field.imageUrl": "Kulit",
+  "app.admin.field.tags": "Genre",
+
+  "app.admin.copy.number": "Naskhah #{number}",
+  "app.admin.copy.borrowed": "Dipinjam",
+  "app.admin.copy.changeStatus": "Tukar status",
+  "app.admin.copy.close": "Tutup",
+  "app.admin.copy.reasonPlaceholder": "Sebab (cth. kulit rosak terkena air)",
+  "app.admin.copy.markAs": "Tanda sebagai {status}",
+  "app.admin.copy.history": "Sejarah",
+  "app.admin.copy.automatic": "(automatik)",
+
+  "app.admin.loan.borrowedBy": "Dipinjam oleh",
+  "app.admin.loan.user": "Pengguna {id}",
+  "app.admin.loan.markReturned": "Tanda dipulangkan",
+  "app.admin.loan.extend": "Lanjutkan tarikh pulang",
+  "app.admin.loan.reassign": "Pindahkan",
+  "app.admin.loan.borrowerIdPlaceholder":
+    "ID pengguna Telegram peminjam baharu",
+  "app.admin.loan.usernamePlaceholder": "Nama pengguna (pilihan)",
+  "app.admin.loan.saveDueDate": "Simpan Tarikh Pulang",
+  "app.admin.loan.reassignLoan": "Pindahkan Pinjaman",
+  "app.admin.markReturned.title": "Tanda sebagai Dipulangkan?",
+  "app.admin.markReturned.message": "Tutup pinjaman ini bagi pihak {borrower}?",
+  "app.admin.markReturned.byUser": "pengguna {id}",
+  "app.admin.markReturned.confirm": "Tanda Dipulangkan",
+
+  "app.admin.addBook.hint":
+    "Taip ISBN dari kulit belakang atau halaman hak cipta untuk mengisi butiran, kemudian tambah naskhah pada skrin seterusnya. Mengimbas kod bar berfungsi pada sesetengah peranti.",
+  "app.admin.addBook.isbn": "ISBN",
+  "app.admin.addBook.tryScan": "Cuba Imbas",
+  "app.admin.addBook.invalidIsbn": "Ini bukan ISBN-10 atau ISBN-13 yang sah.",
+  "app.admin.addBook.savedAs": "Disimpan sebagai {isbn}",
+  "app.admin.addBook.lookingUp": "Mencari ISBN ini...",
+  "app.admin.addBook.noMetadata":
+    "Tiada butiran dijumpai untuk ISBN ini. Isikan di bawah.",
+  "app.admin.addBook.details": "Butiran",
+  "app.admin.addBook.cover": "Kulit",
+  "app.admin.addBook.coverFromLookup": "Kulit daripada carian ISBN",
+  "app.admin.addBook.removeCover": "Buang",
+  "app.admin.addBook.adding": "Menambah Judul...",
+  "app.admin.addBook.submit": "Tambah Judul & Imbas Naskhah",
+  "app.admin.scanner.isbn":
+    "Halakan ke kod bar ISBN. Jika tidak dapat diimbas, tutup ini dan taip ISBN.",
+  "app.admin.notIsbn.title": "Bukan ISBN",
+  "app.admin.notIsbn.message":
+    "Itu tidak kelihatan seperti kod bar ISBN. Pengimbas tidak dapat membaca semua kod bar buku, jadi sila taip ISBN.",
+  "app.admin.deletedTitle.title": "Judul Dipadam",
+  "app.admin.deletedTitle.message":
+    "Buku yang telah dipadam mempunyai ISBN ini. Pulihkan ke katalog?",
+  "app.admin.deletedTitle.restore": "Pulihkan",
+  "app.admin.duplicateTitle.title": "Sudah Ada di Perpustakaan",
+  "app.admin.duplicateTitle.message":
+    "Buku dengan ISBN ini sudah ada di perpustakaan. Buka untuk menambah naskhah lain?",
+  "app.admin.duplicateTitle.open": "Buka Buku",
+  "app.admin.addBookFailed.title": "Gagal Menambah Judul",
+  "app.admin.addBookFailed.message": "Gagal menambah buku",
+
+  "app.admin.addCopy.title": "Tambah Naskhah",
+  "app.admin.addCopy.stepScan": "Imbas QR",
+  "app.admin.addCopy.stepLocation": "Lokasi",
+  "app.admin.addCopy.stepConfirm": "Sahkan",
+  "app.admin.addCopy.scanPrompt":
+    "Imbas pelekat QR yang akan anda lekatkan pada naskhah ini",
+  "app.admin.addCopy.openScanner": "Buka Pengimbas",
+  "app.admin.addCopy.scanned": "Kod QR diimbas:",
+  "app.admin.addCopy.selectLocation": "Pilih lokasi naskhah ini:",
+  "app.admin.addCopy.ready": "Sedia untuk menambah naskhah ini?",
+  "app.admin.addCopy.book": "Buku",
+  "app.admin.addCopy.qrCode": "Kod QR",
+  "app.admin.addCopy.location": "Lokasi",
+  "app.admin.addCopy.adding": "Menambah Naskhah...",
+  "app.admin.addCopy.confirm": "Sahkan & Tambah Naskhah",
+  "app.admin.addCopy.added": "Naskhah Ditambah!",
+  "app.admin.addCopy.addedMessage":
+    'Naskhah #{number} bagi "{title}" telah ditambah ke perpustakaan.',
+  "app.admin.addCopy.backToBook": "Kembali ke Buku",
+  "app.admin.scanner.copy": "Imbas pelekat QR untuk naskhah buku baharu",
+  "app.admin.fullLink.title": "Pautan Penuh Diperlukan",
+  "app.admin.fullLink.message":
+    "Ini kelihatan seperti kod sahaja. Imbas pautan penuh t.me/...startapp=COPY-... sebaliknya.",
+  "app.admin.invalidQr.title": "QR Tidak Sah",
+  "app.admin.invalidQr.message":
+    "Kod QR ini tidak kelihatan seperti pautan buku. Imbas pautan pelekat yang bermula dengan t.me/ dan mengandungi startapp=COPY-...",
+  "app.admin.copyExists.title": "Naskhah Sudah Wujud",
+  "app.admin.copyExists.message":
+    "Naskhah #{number} sudah menggunakan kod QR ini. Sila imbas pelekat baharu.",
+  "app.admin.addCopyFailed.title": "Gagal Menambah Naskhah",
+  "app.admin.addCopyFailed.message": "Gagal menambah naskhah",
+};
@@ -0,0 +1,508 @@
+import type { Messages } from "./en";
+
+/**
+ * Simplified Chinese messages
+ */
+export const zh: Messages = {
+  // ==========================================================================
+  // Shared
+  // ==========================================================================
+  "count.copies_one": "{count} 本",
+  "count.copies_other": "{count} 本",
+  "count.people_one": "{count} 人",
+  "count.people_other": "{count} 人",
+  "copyStatus.available": "可借",
+  "copyStatus.on_hold_shelf": "预约架上",
+  "copyStatus.lost": "遗失",
+  "copyStatus.damaged": "损坏",
+  "copyStatus.in_repair": "修复中",
+  "copyStatus.withdrawn": "已下架",
+
+  "error.copyNotFound": "找不到这本副本",
+  "error.copyNotCirculating": "这本副本的状态为「{status}」，无法借阅",
+  "error.alreadyBorrowed": "您已经借了这本书",
+  "error.copyOnLoan": "这本书已被借出（{date} 到期）",
+  "error.copyReserved": "这本副本已为预约队列中的读者保留，直到 {date}",
+  "error.loanLimit": "您一次最多只能借 {count} 本书。请先归还一本再借。",
+  "error.locationLoanLimit":
+    "您在{location}一次最多只能借 {count} 本书。请先归还一本。",
+  "error.borrowRace": "这本书刚被别人借走了，请重试。",
+  "error.noActiveLoan": "找不到这本书的借阅记录",
+  "error.notRenewable": "{location}的图书不能续借，请归还图书。",
+  "error.maxRenewals": "这笔借阅已续借 {count} 次，达到上限，请归还图书。",
+  "error.holdBlocksRenewal": "有人预约了这本书，因此无法续借。",
+  "error.loanChanged": "这笔借阅刚刚有更新，请重试。",
+  "error.bookNotFound": "找不到这本书",
+  "error.noCopiesToHold": "这本书没有可预约的副本",
+  "error.copyAvailable": "现在就有可借的副本，扫描它的 QR 码即可借阅。",
+  "error.alreadyOnHold": "您已经预约了这本书",
+  "error.holdFailed": "预约失败",
+  "error.noOpenHold": "找不到进行中的预约",
+  "error.statusTransition": "副本不能从「{from}」改为「{to}」",
+  "error.copyChanged": "这本副本刚刚有更新，请重试。",
+
+  "calendar.name": "图书馆还书日期",
+  "calendar.event": "📚 归还《{title}》",
+  "calendar.alarm": "《{title}》明天到期，请归还图书馆",
+
+  // ==========================================================================
+  // Bot
+  // ==========================================================================
+  "bot.welcome": `📚 欢迎使用社区图书馆机器人！
+
+*搜索*图书时，直接输入书名或作者名即可：
+例如 "ulysses"
+
+*借书或还书*时，请扫描实体书上的二维码
+
+可用指令：
+\\/start \\- 启动机器人并查看此消息
+\\/mybooks \\- 查看您当前借阅的图书
+\\/renew \\- 延长借阅图书的归还日期
+\\/due \\- 查看还书日期并添加到日历
+\\/history \\- 查看您读过的图书
+\\/subscribe \\- 每周获取新书通知
+\\/language \\- 更改机器人的语言
+
+访问我们的网站[查看完整馆藏](https://library.zsheng.app)
+
+扫描任意图书上的二维码即可借阅！`,
+  "bot.bookUsage":
+    "用法：/book <isbn> 或 /book<isbn>\n\n示例：/book 9780674430006",
+  "bot.borrowUsage":
+    "用法：/borrow <qr_code_id>\n\n扫描实体书上的二维码即可获得编号。",
+  "bot.renewError": "❌ 续借时出错，请重试。",
+  "bot.historyEmpty": "📖 您的阅读记录是空的。您归还的图书会显示在这里。",
+  "bot.historyDisabled":
+    "📖 阅读记录已关闭，归还的图书不会被保留。\n\n发送 /history on 即可重新开启。",
+  "bot.historyTurnedOff": "✅ 阅读记录已关闭，您过去的借阅已从中移除。",
+  "bot.historyTurnedOn":
+    "✅ 阅读记录已开启。从现在起您归还的图书会显示在 /history 中。",
+  "bot.bookNotFound": "❌ 未找到该图书。",
+  "bot.bookCopyNotFound": "❌ 未找到该图书副本，请检查二维码。",
+  "bot.searchError": "❌ 搜索时出错，请重试。",
+  "bot.bookDetailsError": "❌ 获取图书详情时出错，请重试。",
+  "bot.genericError": "❌ 出错了，请重试。",
+  "bot.userIdentificationError": "❌ 无法识别用户。",
+  "bot.adminOnly": "❌ 此命令仅供图书馆管理员使用。",
+  "bot.noBorrowedBooks": "📚 您目前没有借阅任何图书。",
+  "bot.borrowSuccess": "✅ 借书成功！",
+  "bot.returnSuccess": "✅ 还书成功！",
+  "bot.holdPlaced":
+    "🔔 您在队列中排第 {position} 位。有副本可取时我们会通知您。",
+  "bot.noMoreResults": "没有更多结果了。",
+
+  "bot.button.borrow": "📖 借阅这本书",
+  "bot.button.return": "✅ 归还这本书",
+  "bot.button.notify": "🔔 有书时通知我",
+  "bot.button.prev": "◀ 上一页",
+  "bot.button.next": "下一页 ▶",
+  "bot.button.manageBook": "管理图书",
+  "bot.button.openInLibrary": "📖 在图书馆中打开",
+  "bot.button.openPrivateChat": "💬 打开私聊",
+  "bot.button.addToCalendar": "📅 添加到日历",
+
+  "bot.command.start": "启动机器人并查看欢迎消息",
+  "bot.command.mybooks": "查看您当前借阅的图书",
+  "bot.command.due": "查看您的图书何时到期",
+  "bot.command.renew": "延长借阅图书的归还日期",
+  "bot.command.history": "查看您读过的图书",
+  "bot.command.subscribe": "每周获取新书通知",
+  "bot.command.language": "更改机器人的语言",
+
+  "bot.language.choose": "🌐 请选择您的语言：",
+  "bot.language.auto": "跟随我的 Telegram 语言",
+  "bot.language.set": "✅ 从现在起我会用中文和您交流。",
+  "bot.language.reset": "✅ 我会重新跟随您的 Telegram 语言。",
+
+  "bot.group.privateOnly":
+    "🔒 这是您的个人信息，我们就不在群里说了。请点击下方按钮与我私聊。",
+  "bot.group.groupOnly": "此命令只能在群组中使用。",
+  "bot.group.adminOnly": "❌ 只有群管理员可以更改此设置。",
+  "bot.group.locationAll": "📍 本群的搜索涵盖所有地点。",
+  "bot.group.locationCurrent": "📍 本群的搜索仅涵盖{location}。",
+  "bot.group.locationUsage":
+    "更改方法：/setlocation <地点> 或 /setlocation all\n\n地点：{locations}",
+  "bot.group.locationNotFound": '❌ 没有名为"{name}"的地点。',
+
+  "bot.subscribe.done":
+    "🔔 您已订阅新书通知。每周一我会把当周新上架的图书发给您。\n\n发送 /unsubscribe 即可取消。",
+  "bot.subscribe.already":
+    "🔔 您已经订阅了新书通知。发送 /unsubscribe 即可取消。",
+  "bot.unsubscribe.done":
+    "🔕 您将不再收到新书通知。发送 /subscribe 可重新订阅。",
+  "bot.unsubscribe.notSubscribed":
+    "您尚未订阅新书通知。发送 /subscribe 即可每周一收到。",
+  "bot.newArrivals.title_one": "🆕 本周图书馆新增 {count} 本书：",
+  "bot.newArrivals.title_other": "🆕 本周图书馆新增 {count} 本书：",
+  "bot.newArrivals.hint": "💡 发送书名即可查找，发送 /unsubscribe 可停止接收。",
+
+  "bot.book.by": "作者：{author}",
+  "bot.book.waiting": "👥 {people}在等待",
+  "bot.book.borrowHint": "💡 借书请扫描实体书上的二维码",
+  "bot.book.holdHint":
+    "💡 所有副本都已借出。扫描任一副本的二维码即可加入预约队列",
+  "bot.book.copyAvailable": "可在{location}借阅",
+  "bot.book.copyBorrowed": "已借出（{date} 归还）",
+  "bot.book.copyReserved": "已在{location}为预约保留",
+  "bot.book.copyUnavailable": "不可借",
+  "bot.book.copyLine": "副本 {number}",
+  "bot.book.availability_one": "📊 可借情况：{count} 本中有 {available} 本可借",
+  "bot.book.availability_other":
+    "📊 可借情况：{count} 本中有 {available} 本可借",
+  "bot.book.copiesHeading": "副本：",
+
+  "bot.search.available": "{count} 本可借",
+  "bot.search.noneAvailable": "暂无可借",
+  "bot.search.found_one": "🔍 找到 {count} 个“{query}”的结果：",
+  "bot.search.found_other": "🔍 找到 {count} 个“{query}”的结果：",
+  "bot.search.showing": "显示第 {from}–{to} 个，共 {total} 个",
+  "bot.search.tapHint": "💡 点击下方数字查看图书",
+  "bot.search.noResults": "🔍 未找到“{query}”的结果",
+
+  "bot.inline.availableOf": "{total} 本中有 {available} 本可借",
+  "bot.inline.noCopies": "📭 图书馆暂无副本",
+  "bot.inline.available_one": "✅ {count} 本中有 {available} 本可借",
+  "bot.inline.available_other": "✅ {count} 本中有 {available} 本可借",
+  "bot.inline.allOut_one": "📅 全部 {count} 本目前都已借出",
+  "bot.inline.allOut_other": "📅 全部 {count} 本目前都已借出",
+
+  "bot.copy.number": "副本 #{number}",
+  "bot.copy.status": "状态：{status}",
+  "bot.copy.available": "✅ 可借",
+  "bot.copy.borrowedByYou": "📖 由您借阅",
+  "bot.copy.borrowed": "📅 已借出",
+  "bot.copy.returnHint": "将书放回{location}后，请按下方按钮。",
+  "bot.copy.dueOn": "📅 这本书目前已借出，应于 {date} 归还。",
+  "bot.copy.unavailableHint":
+    "这本副本目前无法借阅。点击下方按钮，有其他副本可借时我们会通知您。",
+
+  "bot.loan.due": "到期：{date}",
+  "bot.loan.overdue": "⚠️ 已逾期",
+  "bot.myBooks.title": "📚 您借阅的图书（{count}）：",
+  "bot.myBooks.returnHint": "💡 扫描二维码即可还书",
+  "bot.due.title": "📅 您的还书日期：",
+  "bot.due.calendarHint":
+    "💡 将此链接添加到日历应用，即可在每个还书日期的前一天收到提醒。续借或还书后会自动更新：",
+
+  "bot.borrow.title": "✅ 借书成功！",
+  "bot.borrow.dueDate": "📅 归还日期：{date}",
+  "bot.borrow.enjoy": "祝您阅读愉快！\n请记得按时归还。",
+  "bot.return.title": "✅ 还书成功！",
+  "bot.return.thanks": "感谢您归还图书！",
+
+  "bot.reminder.dueSoon": "⏰ 提醒：您借的书快到期了",
+  "bot.reminder.dueSoonHint": "请在到期日前将书放回{location}。",
+  "bot.reminder.dueToday": "今天到期",
+  "bot.reminder.daysOverdue_one": "已逾期 {count} 天",
+  "bot.reminder.daysOverdue_other": "已逾期 {count} 天",
+  "bot.reminder.overdue": "⚠️ 您借的书{overdue}",
+  "bot.reminder.wasDue": "📅 原到期日：{date}",
+  "bot.reminder.overdueHint": "请尽快将书放回{location}，让其他人也能阅读。",
+
+  "bot.renew.choose": "🔁 您想续借哪本书？",
+  "bot.renew.noneLeft": "已无续借次数",
+  "bot.renew.title": "🔁 续借成功！",
+  "bot.renew.newDueDate": "📅 新的归还日期：{date}",
+  "bot.renew.remaining_one": "您还可以续借 {count} 次。",
+  "bot.renew.remaining_other": "您还可以续借 {count} 次。",
+  "bot.renew.last": "这是这次借阅的最后一次续借。",
+
+  "bot.holdReady.title": "🎉 您预约的书可以取了！",
+  "bot.holdReady.reserved": "副本 #{number} 已在{location}为您保留。",
+  "bot.holdReady.pickUpBy": "📅 请在 {date} 前取书，逾期将转给队列中的下一位。",
+  "bot.holdReady.scan": "扫描书上的二维码即可借阅。",
+
+  "bot.loanLimit.title_one": "❌ 您一次最多只能借 {count} 本书。",
+  "bot.loanLimit.title_other": "❌ 您一次最多只能借 {count} 本书。",
+  "bot.loanLimit.returnFirst": "请先归还以下其中一本再借：",
+
+  "bot.history.title": "📖 您的阅读记录（{count}）：",
+  "bot.history.page": "第 {page} 页，共 {totalPages} 页",
+  "bot.history.more": "发送 /history {page} 查看更多",
+  "bot.history.offHint": "💡 发送 /history off 即可停止保留记录",
+
+  // ==========================================================================
+  // Mini App
+  // ==========================================================================
+  "app.scanBookQr": "扫描图书二维码",
+  "app.browseAllBooks": "浏览所有图书",
+  "app.loanPolicies": "借阅规则",
+  "app.myHolds": "我的预约",
+  "app.holdReadyAt": "可在{location}领取，截至 {date}",
+  "app.holdPosition": "队列第 {position} 位",
+  "app.cancel": "取消",
+  "app.myBorrowedBooks": "我借阅的图书",
+  "app.noLoans": "还没有借阅图书。扫描二维码即可开始。",
+  "app.due": "到期：{date}",
+  "app.dueShort": "{date} 到期",
+  "app.renew": "续借",
+  "app.renewing": "续借中...",
+  "app.addToCalendar": "将还书日期添加到日历",
+  "app.calendarHint":
+    "日历会在每本书到期前一天提醒您，续借或还书后会自动更新。",
+  "app.lookingUpBook": "正在查找图书...",
+  "app.borrowingBook": "正在借书...",
+  "app.returningBook": "正在还书...",
+  "app.loadingBook": "正在加载图书...",
+  "app.backToHome": "返回首页",
+  "app.done": "完成",
+  "app.unknown": "未知",
+  "app.unknownBook": "未知图书",
+
+  "app.scanner.book": "请将相机对准图书二维码",
+  "app.scanner.borrowAt": "扫描📍{location}的二维码以借书",
+  "app.scanner.returnAt": "扫描📍{location}的二维码以还书",
+  "app.notBookQr.title": "不是图书二维码",
+  "app.notBookQr.message":
+    "这看起来不是图书馆的图书二维码。请尝试扫描书内的二维码贴纸。",
+  "app.bookQrScanned.title": "扫描到图书二维码",
+  "app.bookQrScanned.borrow":
+    "您扫描的是图书二维码。借书时请扫描图书馆地点张贴的地点二维码。",
+  "app.bookQrScanned.return":
+    "您扫描的是图书二维码。还书时请扫描图书馆地点的地点二维码。",
+  "app.wrongLocation.title": "地点不符",
+  "app.wrongLocation.borrow":
+    "这本书位于{location}。您扫描的是“{scanned}”。请前往正确地点扫描二维码。",
+  "app.wrongLocation.return":
+    "请将这本书放回{location}。您扫描的是“{scanned}”。",
+  "app.borrowFailed.title": "借书失败",
+  "app.borrowFailed.message": "无法借阅这本书",
+  "app.returnFailed.title": "还书失败",
+  "app.returnFailed.message": "无法归还这本书",
+  "app.loanRenewed.title": "续借成功",
+  "app.loanRenewed.message": "新的归还日期是 {date}。",
+  "app.renewFailed.title": "续借失败",
+  "app.renewFailed.message": "无法续借",
+  "app.holdPlaced.title": "预约成功",
+  "app.holdPlaced.message":
+    "您在队列中排第 {position} 位。有副本可取时我们会通知您。",
+  "app.holdFailed.title": "预约失败",
+  "app.holdFailed.message": "无法预约",
+  "app.cancelFailed.title": "取消失败",
+  "app.cancelFailed.message": "无法取消预约",
+
+  "app.book.copyNumber": "副本编号",
+  "app.book.location": "地点",
+  "app.book.isbn": "ISBN",
+  "app.book.status": "状态",
+  "app.book.available": "可借",
+  "app.book.unavailable": "不可借",
+  "app.book.loanLimit_one": "您一次最多只能借 {count} 本书",
+  "app.book.loanLimit_other": "您一次最多只能借 {count} 本书",
+  "app.book.returnFirst": "请先归还以下其中一本再借：",
+  "app.book.dueDate": "归还日期",
+  "app.book.yourHold": "您的预约",
+  "app.book.holdWaiting": "副本 #{number} 正在{location}等您领取",
+  "app.book.queuePosition": "您在队列中排第 {position} 位",
+  "app.book.viewAsAdmin": "以管理员身份查看",
+  "app.book.scanToReturn": "扫描{location}的二维码以还书",
+  "app.book.scanToBorrow": "扫描{location}的二维码以借书",
+  "app.book.cancelling": "取消中...",
+  "app.book.cancelHold": "取消预约",
+  "app.book.placingHold": "预约中...",
+  "app.book.placeHold": "预约",
+  "app.book.currentlyUnavailable": "暂时无法借阅",
+  "app.book.onLoanUntil": "借出至 {date}",
+  "app.book.copies": "副本",
+  "app.book.noCopies": "图书馆暂无副本。",
+  "app.book.copyAt": "副本 #{number} · {location}",
+  "app.book.scanABook": "扫描图书二维码",
+
+  "app.borrowed.title": "借书成功！",
+  "app.borrowed.subtitle": "您已成功借阅",
+  "app.borrowed.author": "作者",
+  "app.borrowed.location": "地点",
+  "app.borrowed.copyNumber": "副本编号",
+  "app.borrowed.dueDate": "归还日期",
+  "app.borrowed.loanPolicy": "借阅规则",
+  "app.borrowed.days_one": "{count} 天",
+  "app.borrowed.days_other": "{count} 天",
+  "app.borrowed.noRenewals": "不可续借",
+  "app.borrowed.renewals_one": "最多续借 {count} 次",
+  "app.borrowed.renewals_other": "最多续借 {count} 次",
+  "app.returned.title": "还书成功！",
+  "app.returned.subtitle": "感谢您归还",
+
+  "app.notFound.title": "未找到图书",
+  "app.notFound.message": "扫描的二维码与图书馆中的任何图书都不匹配。",
+  "app.notFound.scanAgain": "重新扫描",
+
+  "app.history.title": "阅读记录",
+  "app.history.turnOffTitle": "关闭阅读记录？",
+  "app.history.turnOffMessage":
+    "您过去的借阅将被清除，以后归还的图书也不会被保留。",
+  "app.history.turnOffButton": "关闭",
+  "app.history.empty": "您归还的图书会显示在这里。",
+  "app.history.off": "阅读记录已关闭。",
+  "app.history.hide": "隐藏",
+  "app.history.previous": "上一页",
+  "app.history.next": "下一页",
+  "app.history.page": "第 {page} 页，共 {totalPages} 页",
+  "app.history.turnOff": "关闭阅读记录",
+  "app.history.keep": "保留我的阅读记录",
+  "app.admin.back": "返回",
+  "app.admin.undo": "撤销",
+  "app.admin.saving": "保存中...",
+  "app.admin.titlePlaceholder": "书名",
+  "app.admin.authorPlaceholder": "作者",
+  "app.admin.descriptionPlaceholder": "简介（可选）",
+  "app.admin.byUsername": "由 @{username}",
+  "app.admin.byUser": "由用户 {id}",
+
+  "app.admin.books.loading": "正在加载图书...",
+  "app.admin.books.addTitle": "新增书目",
+  "app.admin.books.search": "按书名、作者或 ISBN 搜索...",
+  "app.admin.books.sort": "排序：",
+  "app.admin.books.sortTitle": "书名",
+  "app.admin.books.sortAuthor": "作者",
+  "app.admin.books.sortRecent": "最新",
+  "app.admin.books.allGenres": "全部",
+  "app.admin.books.count_one": "{count} 本书",
+  "app.admin.books.count_other": "{count} 本书",
+  "app.admin.books.inGenre": "分类「{genre}」",
+  "app.admin.books.matching": "匹配「{filter}」",
+  "app.admin.books.noMatches": "没有符合搜索条件的图书。",
+  "app.admin.books.empty": "图书馆暂无图书。",
+  "app.admin.books.showDeleted": "已删除的图书",
+
+  "app.admin.policies.title": "借阅规则",
+  "app.admin.policies.loading": "正在加载地点...",
+  "app.admin.policies.hint":
+    "更改适用于新的借阅和续借。已借出的图书保持原到期日。",
+  "app.admin.policies.loanPeriodDays": "借阅天数",
+  "app.admin.policies.maxRenewals": "可续借次数",
+  "app.admin.policies.maxLoansPerUser": "每人可借数量",
+  "app.admin.policies.noLimit": "不限",
+  "app.admin.policies.save": "保存",
+  "app.admin.policyFailed.title": "保存规则失败",
+  "app.admin.policyFailed.message": "更新借阅规则失败",
+
+  "app.admin.book.isbn": "ISBN：{isbn}",
+  "app.admin.book.edit": "编辑资料",
+  "app.admin.book.copies": "副本（{count}）",
+  "app.admin.book.addCopy": "添加副本",
+  "app.admin.book.noCopies": "暂无副本。添加副本后即可借阅此书。",
+  "app.admin.book.delete": "删除图书",
+  "app.admin.book.deleting": "删除中...",
+  "app.admin.book.coverUrlPlaceholder": "封面图片网址（可选）",
+  "app.admin.book.save": "保存修改",
+  "app.admin.book.addGenre": "添加分类",
+  "app.admin.book.genresFull": "最多 {max} 个分类",
+  "app.admin.deleteBook.title": "删除图书？",
+  "app.admin.deleteBook.message":
+    "《{title}》及其副本将从目录中隐藏，相关预约也会被取消。您可以在图书列表的「已删除的图书」中恢复，但已取消的预约不会恢复。",
+  "app.admin.deleteBook.confirm": "删除",
+  "app.admin.deleteFailed.title": "删除失败",
+  "app.admin.deleteFailed.message": "删除图书失败",
+  "app.admin.bookDeleted.title": "图书已删除",
+  "app.admin.bookDeleted.message": "《{title}》已不在目录中。",
+  "app.admin.deletedBooks.title": "已删除的图书",
+  "app.admin.deletedBooks.loading": "正在加载已删除的图书...",
+  "app.admin.deletedBooks.empty": "没有已删除的图书。",
+  "app.admin.deletedBooks.deletedOn": "删除于 {date}",
+  "app.admin.deletedBooks.restore": "恢复",
+  "app.admin.deletedBooks.restoring": "正在恢复...",
+  "app.admin.restoreFailed.title": "恢复图书失败",
+  "app.admin.restoreFailed.message": "恢复图书失败",
+
+  "app.admin.changeLog.title": "修改记录",
+  "app.admin.changeLog.deleted": "删除了图书",
+  "app.admin.changeLog.restored": "恢复了图书",
+  "app.admin.changeLog.set": "{field} → “{value}”",
+  "app.admin.changeLog.setList": "{field} → {value}",
+  "app.admin.changeLog.none": "无",
+  "app.admin.changeLog.updated": "更新了{field}",
+  "app.admin.changeLog.removed": "删除了{field}",
+  "app.admin.changeLog.isUndo": "（撤销）",
+  "app.admin.changeLog.undoTitle": "撤销修改？",
+  "app.admin.field.title": "书名",
+  "app.admin.field.author": "作者",
+  "app.admin.field.description": "简介",
+  "app.admin.field.imageUrl": "封面",
+  "app.admin.field.tags": "分类",
+
+  "app.admin.copy.number": "副本 #{number}",
+  "app.admin.copy.borrowed": "已借出",
+  "app.admin.copy.changeStatus": "更改状态",
+  "app.admin.copy.close": "关闭",
+  "app.admin.copy.reasonPlaceholder": "原因（例如：封面受潮）",
+  "app.admin.copy.markAs": "标记为{status}",
+  "app.admin.copy.history": "记录",
+  "app.admin.copy.automatic": "（自动）",
+
+  "app.admin.loan.borrowedBy": "借阅人",
+  "app.admin.loan.user": "用户 {id}",
+  "app.admin.loan.markReturned": "标记为已归还",
+  "app.admin.loan.extend": "延长还书日期",
+  "app.admin.loan.reassign": "转给他人",
+  "app.admin.loan.borrowerIdPlaceholder": "新借阅人的 Telegram 用户 ID",
+  "app.admin.loan.usernamePlaceholder": "用户名（可选）",
+  "app.admin.loan.saveDueDate": "保存还书日期",
+  "app.admin.loan.reassignLoan": "转借",
+  "app.admin.markReturned.title": "标记为已归还？",
+  "app.admin.markReturned.message": "代 {borrower} 结束这笔借阅？",
+  "app.admin.markReturned.byUser": "用户 {id}",
+  "app.admin.markReturned.confirm": "标记已归还",
+
+  "app.admin.addBook.hint":
+    "输入封底或版权页上的 ISBN 以自动填写资料，然后在下一页添加副本。部分设备可以扫描条形码。",
+  "app.admin.addBook.isbn": "ISBN",
+  "app.admin.addBook.tryScan": "尝试扫描",
+  "app.admin.addBook.invalidIsbn": "这不是有效的 ISBN-10 或 ISBN-13。",
+  "app.admin.addBook.savedAs": "将保存为 {isbn}",
+  "app.admin.addBook.lookingUp": "正在查询此 ISBN...",
+  "app.admin.addBook.noMetadata": "找不到此 ISBN 的资料，请在下方填写。",
+  "app.admin.addBook.details": "资料",
+  "app.admin.addBook.cover": "封面",
+  "app.admin.addBook.coverFromLookup": "封面来自 ISBN 查询",
+  "app.admin.addBook.removeCover": "移除",
+  "app.admin.addBook.adding": "正在添加书目...",
+  "app.admin.addBook.submit": "添加书目并扫描副本",
+  "app.admin.scanner.isbn":
+    "对准 ISBN 条形码。如果无法扫描，请关闭并手动输入 ISBN。",
+  "app.admin.notIsbn.title": "不是 ISBN",
+  "app.admin.notIsbn.message":
+    "这看起来不是 ISBN 条形码。扫描器无法读取所有图书条形码，请手动输入 ISBN。",
+  "app.admin.deletedTitle.title": "已删除的书目",
+  "app.admin.deletedTitle.message":
+    "已删除的图书使用了此 ISBN。要将其恢复到目录吗？",
+  "app.admin.deletedTitle.restore": "恢复",
+  "app.admin.duplicateTitle.title": "图书馆已有此书",
+  "app.admin.duplicateTitle.message":
+    "图书馆已有使用此 ISBN 的图书。要打开它并添加副本吗？",
+  "app.admin.duplicateTitle.open": "打开图书",
+  "app.admin.addBookFailed.title": "添加书目失败",
+  "app.admin.addBookFailed.message": "添加图书失败",
+
+  "app.admin.addCopy.title": "添加副本",
+  "app.admin.addCopy.stepScan": "扫描 QR",
+  "app.admin.addCopy.stepLocation": "地点",
+  "app.admin.addCopy.stepConfirm": "确认",
+  "app.admin.addCopy.scanPrompt": "扫描将贴在这本副本上的 QR 贴纸",
+  "app.admin.addCopy.openScanner": "打开扫描器",
+  "app.admin.addCopy.scanned": "已扫描 QR 码：",
+  "app.admin.addCopy.selectLocation": "选择这本副本的存放地点：",
+  "app.admin.addCopy.ready": "确定添加这本副本？",
+  "app.admin.addCopy.book": "图书",
+  "app.admin.addCopy.qrCode": "QR 码",
+  "app.admin.addCopy.location": "地点",
+  "app.admin.addCopy.adding": "正在添加副本...",
+  "app.admin.addCopy.confirm": "确认并添加副本",
+  "app.admin.addCopy.added": "副本已添加！",
+  "app.admin.addCopy.addedMessage":
+    "《{title}》的副本 #{number} 已加入图书馆。",
+  "app.admin.addCopy.backToBook": "返回图书",
+  "app.admin.scanner.copy": "扫描新副本的 QR 贴纸",
+  "app.admin.fullLink.title": "需要完整链接",
+  "app.admin.fullLink.message":
+    "这看起来只是一个代码。请扫描完整的 t.me/...startapp=COPY-... 链接。",
+  "app.admin.invalidQr.title": "无效的 QR 码",
+  "app.admin.invalidQr.message":
+    "这个 QR 码看起来不是图书链接。请扫描以 t.me/ 开头并包含 startapp=COPY-... 的贴纸链接。",
+  "app.admin.copyExists.title": "副本已存在",
+  "app.admin.copyExists.message":
+    "副本 #{number} 已使用此 QR 码，请扫描新的贴纸。",
+  "app.admin.addCopyFailed.title": "添加副本失败",
+  "app.admin.addCopyFailed.message": "添加副本失败",
+};
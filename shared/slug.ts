@@ -0,0 +1,11 @@
+/**
+ * URL-safe key for a name: lowercased letters and digits (in any script)
+ * separated by single hyphens
+ */
+export function toSlug(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
@@ -0,0 +1,52 @@
+/**
+ * Genre/tag name utilities, shared by the worker and the import pipeline
+ */
+
+import { toSlug } from "./slug";
+
+// Separators between genres in a free-text category, e.g. "Fiction; Fantasy"
+const TAG_LIST_SEPARATOR = /[,;|]/;
+
+export const MAX_TAG_LENGTH = 40;
+export const MAX_TAGS_PER_BOOK = 10;
+
+/**
+ * Tidy a tag name for display: trim and collapse runs of whitespace
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * URL-safe key for a tag. Tags with the same slug are the same tag, so
+ * "Sci-Fi" and "sci fi" don't end up as two genres.
+ */
+export function tagSlug(name: string): string {
+  return toSlug(normalizeTagName(name));
+}
+
+/**
+ * Normalize a list of tag names, dropping blanks and duplicates (by slug).
+ * The first spelling of a duplicate wins.
+ */
+export function normalizeTagNames(names: string[]): string[] {
+  const bySlug = new Map<string, string>();
+  for (const name of names) {
+    const normalized = normalizeTagName(name);
+    const slug = tagSlug(normalized);
+    if (slug && !bySlug.has(slug)) {
+      bySlug.set(slug, normalized);
+    }
+  }
+  return [...bySlug.values()];
+}
+
+/**
+ * Split a free-text category like "Fiction, Fantasy" into tag names
+ */
+export function parseTagList(category: string): string[] {
+  if (!category) {
+    return [];
+  }
+  return normalizeTagNames(category.split(TAG_LIST_SEPARATOR));
+}
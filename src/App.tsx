@@ -1,4 +1,5 @@
 import { lazy } from "react";
+import Author from "@/Author";
 import Book from "@/Book";
 import Canvas from "@/Canvas";
 import { ThemeProvider } from "@/components/theme-provider";
@@ -73,6 +74,27 @@ const router = createBrowserRouter([
     },
     Component: Book,
   },
+  {
+    path: "/author/:slug",
+    loader: async ({ params }) => {
+      const slug = params.slug;
+      if (!slug) {
+        throw new Error("Slug is required");
+      }
+
+      const res = await client.api.authors[":slug"].$get({
+        param: { slug },
+      });
+
+      if (!res.ok) {
+        throw new Error("Author not found");
+      }
+
+      const data = await res.json();
+      return { author: data.author, books: data.books };
+    },
+    Component: Author,
+  },
   {
     path: "/mini-app",
     Component: MiniApp,
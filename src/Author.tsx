@@ -0,0 +1,108 @@
+import { generateBookSlug } from "@/lib/utils";
+import {
+  CONTRIBUTOR_ROLE_LABELS,
+  CONTRIBUTOR_ROLES,
+  type ContributorRole,
+} from "@shared/authors";
+import { ArrowLeft } from "lucide-react";
+import { motion } from "motion/react";
+import { Link, useLoaderData } from "react-router";
+
+interface AuthorBook {
+  id: number;
+  title: string;
+  author: string;
+  imageUrl: string | null;
+  role: ContributorRole;
+}
+
+interface AuthorPageData {
+  author: { name: string; slug: string };
+  books: AuthorBook[];
+}
+
+function AuthorBookItem({ book }: { book: AuthorBook }) {
+  return (
+    <Link
+      to={`/book/${generateBookSlug(book.title, book.id)}`}
+      className="group block space-y-3"
+    >
+      <div className="aspect-[2/3] relative bg-muted shadow-lg rounded-sm transition-all duration-150 group-hover:shadow-xl">
+        {book.imageUrl ? (
+          <img
+            loading="lazy"
+            src={book.imageUrl}
+            alt={book.title}
+            className="w-full h-full object-cover rounded-sm"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <p className="text-xs text-muted-foreground text-center px-2">
+              No cover
+            </p>
+          </div>
+        )}
+      </div>
+      <div className="space-y-1">
+        <h3 className="text-sm font-bold leading-tight line-clamp-2 group-hover:text-primary transition-colors font-serif">
+          {book.title}
+        </h3>
+        <p className="text-xs text-muted-foreground line-clamp-1">
+          {book.author}
+        </p>
+      </div>
+    </Link>
+  );
+}
+
+function Author() {
+  const { author, books } = useLoaderData<AuthorPageData>();
+
+  // Books they wrote first, then the ones they translated, edited or illustrated
+  const sections = CONTRIBUTOR_ROLES.map((role) => ({
+    role,
+    books: books.filter((book) => book.role === role),
+  })).filter((section) => section.books.length > 0);
+
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <Link
+        to="/"
+        className="text-muted-foreground hover:text-primary transition duration-300 hover:scale-105 group absolute top-8 left-8"
+      >
+        <ArrowLeft className="group-hover:-translate-x-1 transition" />
+      </Link>
+
+      <motion.div
+        className="max-w-5xl mx-auto px-4 py-8"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <h1 className="text-3xl font-bold font-serif">{author.name}</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          {books.length} {books.length === 1 ? "book" : "books"} in the library
+        </p>
+
+        {sections.map((section) => (
+          <section key={section.role} className="mt-12">
+            {(sections.length > 1 || section.role !== "author") && (
+              <h2 className="mb-6 text-xl font-bold font-serif italic">
+                {section.role === "author"
+                  ? "Books"
+                  : `As ${CONTRIBUTOR_ROLE_LABELS[section.role].toLowerCase()}`}
+              </h2>
+            )}
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-6">
+              {section.books.map((book) => (
+                <AuthorBookItem key={book.id} book={book} />
+              ))}
+            </div>
+          </section>
+        ))}
+      </motion.div>
+    </div>
+  );
+}
+
+export default Author;
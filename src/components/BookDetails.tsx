@@ -2,8 +2,11 @@ import { Separator } from "@/components/ui/separator";
 import { generateTelegramBookUrl } from "@/lib/bot";
 import { cn } from "@/lib/utils";
 import type { BookDetail } from "@/types";
+import { CONTRIBUTOR_ROLE_LABELS } from "@shared/authors";
 import { Send } from "lucide-react";
 import { motion } from "motion/react";
+import { Fragment } from "react";
+import { Link } from "react-router";
 
 interface BookDetailsProps {
   book: BookDetail;
@@ -36,6 +39,34 @@ function BookImage({ src, alt }: { src: string; alt: string }) {
   );
 }
 
+/**
+ * The author credit, with each person linking to their author page.
+ * Falls back to the plain credit line for books without linked authors.
+ */
+function Credits({ book }: BookDetailsProps) {
+  if (book.authors.length === 0) {
+    return <>{book.author}</>;
+  }
+
+  return (
+    <>
+      {book.authors.map((contributor, index) => (
+        <Fragment key={`${contributor.slug}-${contributor.role}`}>
+          {index > 0 && ", "}
+          <Link
+            to={`/author/${contributor.slug}`}
+            className="hover:text-primary hover:underline underline-offset-4 transition-colors"
+          >
+            {contributor.name}
+          </Link>
+          {contributor.role !== "author" &&
+            ` (${CONTRIBUTOR_ROLE_LABELS[contributor.role].toLowerCase()})`}
+        </Fragment>
+      ))}
+    </>
+  );
+}
+
 export function BookDetails({ book }: BookDetailsProps) {
   return (
     <div className="w-full px-4 py-8">
@@ -69,7 +100,7 @@ export function BookDetails({ book }: BookDetailsProps) {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5 }}
           >
-            {book.author}
+            <Credits book={book} />
           </motion.p>
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -215,7 +246,7 @@ export function BookDetails({ book }: BookDetailsProps) {
               animate={{ opacity: 1, y: 0 }}
               transition={{ duration: 0.5 }}
             >
-              {book.author}
+              <Credits book={book} />
             </motion.p>
             <motion.div
               initial={{ opacity: 0, y: 20 }}
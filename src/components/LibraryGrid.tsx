@@ -1,9 +1,9 @@
 import { BookDrawer } from "@/components/BookDrawer";
 import { useIsMobile } from "@/hooks/use-mobile";
-import { generateBookSlug } from "@/lib/utils";
+import { cn, generateBookSlug, getGenres } from "@/lib/utils";
 import { Search } from "lucide-react";
 import { motion } from "motion/react";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Link, useSearchParams, useViewTransitionState } from "react-router";
 import { Button } from "./ui/button";
 
@@ -14,6 +14,7 @@ interface Book {
   author: string;
   imageUrl: string | null;
   createdAt: string;
+  tags?: string[];
 }
 
 interface LibraryGridProps {
@@ -86,9 +87,11 @@ function LibraryGridItem({
 
 export function LibraryGrid({ books, setShowLibrary }: LibraryGridProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [genre, setGenre] = useState<string | null>(null);
   const [filteredBooks, setFilteredBooks] = useState<Book[]>([]);
   const [, setSearchParams] = useSearchParams();
   const isMobile = useIsMobile();
+  const genres = useMemo(() => getGenres(books ?? []), [books]);
 
   useEffect(() => {
     if (!books) {
@@ -96,13 +99,17 @@ export function LibraryGrid({ books, setShowLibrary }: LibraryGridProps) {
       return;
     }
 
+    const booksInGenre = genre
+      ? books.filter((book) => book.tags?.includes(genre))
+      : books;
+
     if (searchQuery.trim() === "") {
-      setFilteredBooks(books.slice(0, MAX_RESULTS_TO_SHOW));
+      setFilteredBooks(booksInGenre.slice(0, MAX_RESULTS_TO_SHOW));
       return;
     }
 
     const query = searchQuery.toLowerCase();
-    const filtered = books
+    const filtered = booksInGenre
       .filter(
         (book) =>
           book.title.toLowerCase().includes(query) ||
@@ -110,7 +117,7 @@ export function LibraryGrid({ books, setShowLibrary }: LibraryGridProps) {
       )
       .slice(0, MAX_RESULTS_TO_SHOW);
     setFilteredBooks(filtered);
-  }, [searchQuery, books]);
+  }, [searchQuery, genre, books]);
 
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -162,12 +169,34 @@ export function LibraryGrid({ books, setShowLibrary }: LibraryGridProps) {
           </div>
         </div>
 
+        {/* Genre filter */}
+        {genres.length > 0 && (
+          <div className="flex-shrink-0 flex gap-2 overflow-x-auto px-8 pb-2">
+            {[null, ...genres].map((name) => (
+              <button
+                key={name ?? "all"}
+                onClick={() => setGenre(name === genre ? null : name)}
+                className={cn(
+                  "flex-shrink-0 rounded-full border px-3 py-1 text-sm transition-colors cursor-pointer",
+                  name === genre
+                    ? "border-primary bg-primary text-primary-foreground"
+                    : "border-border text-muted-foreground hover:text-foreground",
+                )}
+              >
+                {name ?? "All"}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Scrollable Grid Container */}
         <div className="flex-1 overflow-y-auto px-8 pb-8">
           {filteredBooks.length === 0 ? (
             <div className="text-center py-16">
               <p className="text-lg text-muted-foreground">
-                No books found matching your search
+                {genre
+                  ? `No ${genre} books found matching your search`
+                  : "No books found matching your search"}
               </p>
             </div>
           ) : (
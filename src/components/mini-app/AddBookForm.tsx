@@ -0,0 +1,230 @@
+import { useIsbnMetadata } from "@/hooks/use-isbn-metadata";
+import { useTranslation } from "@/hooks/use-translation";
+import { normalizeISBN } from "@shared/isbn";
+import { useEffect, useState } from "react";
+
+export type NewBook = {
+  isbn: string;
+  title: string;
+  author: string;
+  description: string;
+  imageUrl: string | null;
+};
+
+type AddBookFormProps = {
+  // Opens the scanner and resolves with the scanned ISBN, if any. Telegram's
+  // scanner is built for QR codes and may not read EAN-13 barcodes.
+  onScanIsbn: () => Promise<string | null>;
+  onSubmit: (book: NewBook) => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+};
+
+const inputClass =
+  "w-full rounded-xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)] px-4 py-3 text-sm text-[var(--tg-theme-text-color,#000)] placeholder-[var(--tg-theme-hint-color,#999)] outline-none";
+
+export function AddBookForm({
+  onScanIsbn,
+  onSubmit,
+  onCancel,
+  isSubmitting,
+}: AddBookFormProps) {
+  const { t } = useTranslation();
+  const [isbn, setIsbn] = useState("");
+  const [title, setTitle] = useState("");
+  const [author, setAuthor] = useState("");
+  const [description, setDescription] = useState("");
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  const normalizedIsbn = normalizeISBN(isbn);
+  const { data: metadata, isFetching: isLookingUp } =
+    useIsbnMetadata(normalizedIsbn);
+
+  // Prefill from the ISBN lookup, keeping anything the admin already typed
+  useEffect(() => {
+    if (!metadata) return;
+    setTitle((current) => current || metadata.title);
+    setAuthor((current) => current || metadata.authors.join(", "));
+    setDescription((current) => current || (metadata.description ?? ""));
+    setImageUrl(metadata.coverUrl);
+  }, [metadata]);
+
+  const isbnInvalid = isbn.trim() !== "" && !normalizedIsbn;
+  const canSubmit =
+    !!normalizedIsbn && title.trim() !== "" && author.trim() !== "";
+
+  async function handleScan() {
+    const scanned = await onScanIsbn();
+    if (scanned) {
+      setIsbn(scanned);
+    }
+  }
+
+  function handleSubmit() {
+    if (!normalizedIsbn || !canSubmit) return;
+
+    onSubmit({
+      isbn: normalizedIsbn,
+      title: title.trim(),
+      author: author.trim(),
+      description: description.trim(),
+      imageUrl,
+    });
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-[var(--tg-theme-bg-color,#fff)]">
+      <div className="flex flex-1 flex-col gap-5 p-4">
+        {/* Header */}
+        <div className="flex flex-col gap-1">
+          <h2 className="text-xl font-bold text-[var(--tg-theme-text-color,#000)]">
+            {t("app.admin.books.addTitle")}
+          </h2>
+          <p className="text-sm text-[var(--tg-theme-hint-color,#999)]">
+            {t("app.admin.addBook.hint")}
+          </p>
+        </div>
+
+        {/* ISBN */}
+        <div className="flex flex-col gap-2">
+          <label className="pl-1 text-xs font-medium uppercase tracking-wide text-[var(--tg-theme-section-header-text-color,#6d6d71)]">
+            {t("app.admin.addBook.isbn")}
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              placeholder="978..."
+              value={isbn}
+              onChange={(e) => setIsbn(e.target.value)}
+              className={`${inputClass} font-mono`}
+            />
+            <button
+              onClick={handleScan}
+              disabled={isSubmitting}
+              className="flex flex-shrink-0 items-center gap-2 rounded-xl px-4 font-medium text-[var(--tg-theme-button-text-color,#fff)] disabled:opacity-50"
+              style={{
+                backgroundColor: "var(--tg-theme-button-color, #5288c1)",
+              }}
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="20"
+                height="20"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M3 5v14" />
+                <path d="M8 5v14" />
+                <path d="M12 5v14" />
+                <path d="M17 5v14" />
+                <path d="M21 5v14" />
+              </svg>
+              {t("app.admin.addBook.tryScan")}
+            </button>
+          </div>
+          {isbnInvalid && (
+            <p className="pl-1 text-xs text-[var(--tg-theme-destructive-text-color,#e53935)]">
+              {t("app.admin.addBook.invalidIsbn")}
+            </p>
+          )}
+          {normalizedIsbn && normalizedIsbn !== isbn.trim() && (
+            <p className="pl-1 font-mono text-xs text-[var(--tg-theme-hint-color,#999)]">
+              {t("app.admin.addBook.savedAs", { isbn: normalizedIsbn })}
+            </p>
+          )}
+          {isLookingUp && (
+            <p className="pl-1 text-xs text-[var(--tg-theme-hint-color,#999)]">
+              {t("app.admin.addBook.lookingUp")}
+            </p>
+          )}
+          {normalizedIsbn && !isLookingUp && metadata === null && (
+            <p className="pl-1 text-xs text-[var(--tg-theme-hint-color,#999)]">
+              {t("app.admin.addBook.noMetadata")}
+            </p>
+          )}
+        </div>
+
+        {/* Title, author and description */}
+        <div className="flex flex-col gap-2">
+          <label className="pl-1 text-xs font-medium uppercase tracking-wide text-[var(--tg-theme-section-header-text-color,#6d6d71)]">
+            {t("app.admin.addBook.details")}
+          </label>
+          <input
+            type="text"
+            placeholder={t("app.admin.titlePlaceholder")}
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            placeholder={t("app.admin.authorPlaceholder")}
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+            className={inputClass}
+          />
+          {imageUrl && (
+            <div className="flex items-center gap-3 rounded-xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)] p-3">
+              <img
+                src={imageUrl}
+                alt={t("app.admin.addBook.cover")}
+                className="h-16 w-11 flex-shrink-0 rounded-md bg-[var(--tg-theme-bg-color,#fff)] object-cover"
+              />
+              <p className="flex-1 text-sm text-[var(--tg-theme-hint-color,#999)]">
+                {t("app.admin.addBook.coverFromLookup")}
+              </p>
+              <button
+                onClick={() => setImageUrl(null)}
+                className="flex-shrink-0 rounded-lg px-3 py-1.5 text-sm font-medium text-[var(--tg-theme-destructive-text-color,#e53935)] bg-[var(--tg-theme-bg-color,#fff)]"
+              >
+                {t("app.admin.addBook.removeCover")}
+              </button>
+            </div>
+          )}
+          <textarea
+            placeholder={t("app.admin.descriptionPlaceholder")}
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={4}
+            className={`${inputClass} resize-none`}
+          />
+        </div>
+
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit || isSubmitting}
+          className="flex items-center justify-center gap-2 rounded-xl py-3.5 font-medium text-[var(--tg-theme-button-text-color,#fff)] disabled:opacity-50"
+          style={{ backgroundColor: "var(--tg-theme-button-color, #5288c1)" }}
+        >
+          {isSubmitting ? (
+            <>
+              <div className="h-5 w-5 animate-spin rounded-full border-2 border-white border-t-transparent" />
+              {t("app.admin.addBook.adding")}
+            </>
+          ) : (
+            t("app.admin.addBook.submit")
+          )}
+        </button>
+
+        {/* Spacer for fixed button */}
+        <div className="h-20" />
+      </div>
+
+      {/* Fixed cancel button */}
+      <div className="fixed bottom-0 left-0 right-0 p-4 pb-8 bg-gradient-to-t from-[var(--tg-theme-bg-color,#fff)] from-60% to-transparent">
+        <button
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="flex w-full items-center justify-center gap-2 rounded-xl py-3.5 font-medium text-[var(--tg-theme-hint-color,#999)] bg-[var(--tg-theme-section-bg-color,#f4f4f5)] disabled:opacity-50"
+        >
+          {t("app.cancel")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { useTranslation } from "@/hooks/use-translation";
 import type { Book, Location } from "@/types";
 
 type AddCopyFlowProps = {
@@ -25,13 +26,15 @@ export function AddCopyFlow({
   onCancel,
   isSubmitting,
 }: AddCopyFlowProps) {
+  const { t } = useTranslation();
+
   return (
     <div className="flex min-h-screen flex-col bg-[var(--tg-theme-bg-color,#fff)]">
       <div className="flex flex-1 flex-col gap-5 p-4">
         {/* Header */}
         <div className="flex flex-col gap-1">
           <h2 className="text-xl font-bold text-[var(--tg-theme-text-color,#000)]">
-            Add Copy
+            {t("app.admin.addCopy.title")}
           </h2>
           <p className="text-sm text-[var(--tg-theme-hint-color,#999)]">
             {book.title}
@@ -44,21 +47,21 @@ export function AddCopyFlow({
             step={1}
             current={step === "scan"}
             done={!!scannedQrCode}
-            label="Scan QR"
+            label={t("app.admin.addCopy.stepScan")}
           />
           <div className="h-px flex-1 bg-[var(--tg-theme-section-separator-color,#e0e0e0)]" />
           <StepIndicator
             step={2}
             current={step === "location"}
             done={!!selectedLocation}
-            label="Location"
+            label={t("app.admin.addCopy.stepLocation")}
           />
           <div className="h-px flex-1 bg-[var(--tg-theme-section-separator-color,#e0e0e0)]" />
           <StepIndicator
             step={3}
             current={step === "confirm"}
             done={false}
-            label="Confirm"
+            label={t("app.admin.addCopy.stepConfirm")}
           />
         </div>
 
@@ -94,7 +97,7 @@ export function AddCopyFlow({
           disabled={isSubmitting}
           className="flex w-full items-center justify-center gap-2 rounded-xl py-3.5 font-medium text-[var(--tg-theme-hint-color,#999)] bg-[var(--tg-theme-section-bg-color,#f4f4f5)] disabled:opacity-50"
         >
-          Cancel
+          {t("app.cancel")}
         </button>
       </div>
     </div>
@@ -149,6 +152,8 @@ function StepIndicator({
 }
 
 function ScanStep({ onScan }: { onScan: () => void }) {
+  const { t } = useTranslation();
+
   return (
     <div className="flex flex-1 flex-col items-center justify-center gap-4">
       <div className="flex h-24 w-24 items-center justify-center rounded-2xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)]">
@@ -171,7 +176,7 @@ function ScanStep({ onScan }: { onScan: () => void }) {
         </svg>
       </div>
       <p className="text-center text-[var(--tg-theme-text-color,#000)]">
-        Scan the QR sticker that you'll attach to this book copy
+        {t("app.admin.addCopy.scanPrompt")}
       </p>
       <button
         onClick={onScan}
@@ -195,7 +200,7 @@ function ScanStep({ onScan }: { onScan: () => void }) {
           <path d="M7 21H5a2 2 0 0 1-2-2v-2" />
           <rect x="7" y="7" width="10" height="10" rx="1" />
         </svg>
-        Open Scanner
+        {t("app.admin.addCopy.openScanner")}
       </button>
     </div>
   );
@@ -210,18 +215,22 @@ function LocationStep({
   scannedQrCode?: string;
   onSelectLocation: (location: Location) => void;
 }) {
+  const { t } = useTranslation();
+
   return (
     <div className="flex flex-col gap-4">
       {/* Show scanned QR code */}
       {scannedQrCode && (
         <div className="rounded-xl bg-green-50 p-3">
-          <p className="text-xs text-green-600">QR Code scanned:</p>
+          <p className="text-xs text-green-600">
+            {t("app.admin.addCopy.scanned")}
+          </p>
           <p className="font-mono text-sm text-green-800">{scannedQrCode}</p>
         </div>
       )}
 
       <p className="text-[var(--tg-theme-text-color,#000)]">
-        Select where this copy will be located:
+        {t("app.admin.addCopy.selectLocation")}
       </p>
 
       <div className="flex flex-col overflow-hidden rounded-2xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)]">
@@ -269,16 +278,18 @@ function ConfirmStep({
   onConfirm: () => void;
   isSubmitting?: boolean;
 }) {
+  const { t } = useTranslation();
+
   return (
     <div className="flex flex-col gap-4">
       <p className="text-[var(--tg-theme-text-color,#000)]">
-        Ready to add this copy?
+        {t("app.admin.addCopy.ready")}
       </p>
 
       <div className="rounded-xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)] p-4">
         <div className="flex justify-between py-2">
           <span className="text-sm text-[var(--tg-theme-hint-color,#999)]">
-            Book
+            {t("app.admin.addCopy.book")}
           </span>
           <span className="text-sm font-medium text-[var(--tg-theme-text-color,#000)]">
             {book.title}
@@ -286,7 +297,7 @@ function ConfirmStep({
         </div>
         <div className="flex justify-between border-t border-[var(--tg-theme-section-separator-color,#e0e0e0)] py-2">
           <span className="text-sm text-[var(--tg-theme-hint-color,#999)]">
-            QR Code
+            {t("app.admin.addCopy.qrCode")}
           </span>
           <span className="text-sm font-mono text-[var(--tg-theme-text-color,#000)]">
             {scannedQrCode}
@@ -294,7 +305,7 @@ function ConfirmStep({
         </div>
         <div className="flex justify-between border-t border-[var(--tg-theme-section-separator-color,#e0e0e0)] py-2">
           <span className="text-sm text-[var(--tg-theme-hint-color,#999)]">
-            Location
+            {t("app.admin.addCopy.location")}
           </span>
           <span className="text-sm font-medium text-[var(--tg-theme-text-color,#000)]">
             {location.name}
@@ -311,10 +322,10 @@ function ConfirmStep({
         {isSubmitting ? (
           <>
             <div className="h-5 w-5 animate-spin rounded-full border-2 border-white border-t-transparent" />
-            Adding Copy...
+            {t("app.admin.addCopy.adding")}
           </>
         ) : (
-          "Confirm & Add Copy"
+          t("app.admin.addCopy.confirm")
         )}
       </button>
     </div>
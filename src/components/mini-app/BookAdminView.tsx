@@ -1,4 +1,27 @@
-import type { BookDetail, BookCopy } from "@/types";
+import { useAllBooks } from "@/hooks/use-all-books";
+import { useBookChanges } from "@/hooks/use-book-changes";
+import { useChangeCopyStatus } from "@/hooks/use-change-copy-status";
+import { useCopyStatusHistory } from "@/hooks/use-copy-status-history";
+import { useDeleteBook } from "@/hooks/use-delete-book";
+import { useExtendLoan } from "@/hooks/use-extend-loan";
+import { useForceReturnLoan } from "@/hooks/use-force-return-loan";
+import { useReassignLoan } from "@/hooks/use-reassign-loan";
+import { useRevertBookChange } from "@/hooks/use-revert-book-change";
+import { useTranslation } from "@/hooks/use-translation";
+import { useUpdateBook } from "@/hooks/use-update-book";
+import { getGenres } from "@/lib/utils";
+import type {
+  BookChange,
+  BookCopy,
+  BookDetail,
+  BookFields,
+  Loan,
+} from "@/types";
+import { COPY_STATUS_TRANSITIONS, type CopyStatus } from "@shared/copy-status";
+import type { Translator } from "@shared/i18n";
+import { MAX_TAGS_PER_BOOK, normalizeTagNames, tagSlug } from "@shared/tags";
+import { popup } from "@telegram-apps/sdk-react";
+import { useMemo, useState } from "react";
 
 type BookAdminViewProps = {
   book: BookDetail;
@@ -7,6 +30,56 @@ type BookAdminViewProps = {
 };
 
 export function BookAdminView({ book, onAddCopy, onBack }: BookAdminViewProps) {
+  const { t } = useTranslation();
+  const [isEditing, setIsEditing] = useState(false);
+  const deleteBook = useDeleteBook();
+  const revertChange = useRevertBookChange();
+
+  async function handleDelete() {
+    const buttonId = await popup.show({
+      title: t("app.admin.deleteBook.title"),
+      message: t("app.admin.deleteBook.message", { title: book.title }),
+      buttons: [
+        {
+          id: "delete",
+          type: "destructive",
+          text: t("app.admin.deleteBook.confirm"),
+        },
+        { type: "cancel" },
+      ],
+    });
+    if (buttonId !== "delete") return;
+
+    let changeId: number;
+    try {
+      changeId = await deleteBook.mutateAsync(book.id);
+    } catch (error) {
+      popup.show({
+        title: t("app.admin.deleteFailed.title"),
+        message:
+          error instanceof Error
+            ? error.message
+            : t("app.admin.deleteFailed.message"),
+        buttons: [{ type: "ok" }],
+      });
+      return;
+    }
+
+    const undoId = await popup.show({
+      title: t("app.admin.bookDeleted.title"),
+      message: t("app.admin.bookDeleted.message", { title: book.title }),
+      buttons: [
+        { id: "undo", type: "default", text: t("app.admin.undo") },
+        { type: "ok" },
+      ],
+    });
+    if (undoId === "undo") {
+      revertChange.mutate({ bookId: book.id, changeId });
+      return;
+    }
+    onBack();
+  }
+
   return (
     <div className="flex min-h-screen flex-col bg-[var(--tg-theme-bg-color,#fff)]">
       {/* Content */}
@@ -32,13 +105,37 @@ export function BookAdminView({ book, onAddCopy, onBack }: BookAdminViewProps) {
               {book.author}
             </p>
             <p className="text-xs text-[var(--tg-theme-subtitle-text-color,#6d6d71)]">
-              ISBN: {book.isbn}
+              {t("app.admin.book.isbn", { isbn: book.isbn })}
             </p>
+            {!isEditing && book.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 pt-1">
+                {book.tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className="rounded-full bg-[var(--tg-theme-section-bg-color,#f4f4f5)] px-2 py-0.5 text-xs text-[var(--tg-theme-text-color,#000)]"
+                  >
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
+            {!isEditing && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="self-start text-xs font-medium text-[var(--tg-theme-link-color,#5288c1)]"
+              >
+                {t("app.admin.book.edit")}
+              </button>
+            )}
           </div>
         </div>
 
+        {isEditing && (
+          <BookEditPanel book={book} onDone={() => setIsEditing(false)} />
+        )}
+
         {/* Description */}
-        {book.description && (
+        {!isEditing && book.description && (
           <p className="text-sm leading-relaxed text-[var(--tg-theme-text-color,#000)] line-clamp-6">
             {book.description}
           </p>
@@ -48,7 +145,7 @@ export function BookAdminView({ book, onAddCopy, onBack }: BookAdminViewProps) {
         <div className="flex flex-col gap-3">
           <div className="flex items-center justify-between">
             <h3 className="text-xs font-medium uppercase tracking-wide text-[var(--tg-theme-section-header-text-color,#6d6d71)]">
-              Copies ({book.bookCopies.length})
+              {t("app.admin.book.copies", { count: book.bookCopies.length })}
             </h3>
             <button
               onClick={onAddCopy}
@@ -70,25 +167,42 @@ export function BookAdminView({ book, onAddCopy, onBack }: BookAdminViewProps) {
               >
                 <path d="M12 5v14M5 12h14" />
               </svg>
-              Add Copy
+              {t("app.admin.book.addCopy")}
             </button>
           </div>
 
           {book.bookCopies.length === 0 ? (
             <div className="overflow-hidden rounded-2xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)]">
               <p className="py-8 text-center text-sm text-[var(--tg-theme-hint-color,#999)]">
-                No copies yet. Add a copy to make this book available.
+                {t("app.admin.book.noCopies")}
               </p>
             </div>
           ) : (
             <div className="flex flex-col overflow-hidden rounded-2xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)]">
               {book.bookCopies.map((copy, index) => (
-                <CopyRow key={copy.qrCodeId} copy={copy} index={index} />
+                <CopyRow
+                  key={copy.qrCodeId}
+                  bookId={book.id}
+                  copy={copy}
+                  index={index}
+                />
               ))}
             </div>
           )}
         </div>
 
+        <BookChangeLog bookId={book.id} />
+
+        <button
+          onClick={handleDelete}
+          disabled={deleteBook.isPending}
+          className="rounded-xl py-3 text-sm font-medium text-[var(--tg-theme-destructive-text-color,#e53935)] bg-[var(--tg-theme-section-bg-color,#f4f4f5)] disabled:opacity-50"
+        >
+          {deleteBook.isPending
+            ? t("app.admin.book.deleting")
+            : t("app.admin.book.delete")}
+        </button>
+
         {/* Spacer for fixed button */}
         <div className="h-20" />
       </div>
@@ -99,55 +213,616 @@ export function BookAdminView({ book, onAddCopy, onBack }: BookAdminViewProps) {
           onClick={onBack}
           className="flex w-full items-center justify-center gap-2 rounded-xl py-3.5 font-medium text-[var(--tg-theme-hint-color,#999)] bg-[var(--tg-theme-section-bg-color,#f4f4f5)]"
         >
-          Back
+          {t("app.admin.back")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function BookEditPanel({
+  book,
+  onDone,
+}: {
+  book: BookDetail;
+  onDone: () => void;
+}) {
+  const { t } = useTranslation();
+  const [title, setTitle] = useState(book.title);
+  const [author, setAuthor] = useState(book.author);
+  const [description, setDescription] = useState(book.description ?? "");
+  const [imageUrl, setImageUrl] = useState(book.imageUrl ?? "");
+  const [tags, setTags] = useState(book.tags);
+  const updateBook = useUpdateBook();
+
+  async function handleSave() {
+    try {
+      await updateBook.mutateAsync({
+        bookId: book.id,
+        title: title.trim(),
+        author: author.trim(),
+        description: description.trim(),
+        imageUrl: imageUrl.trim() || null,
+        tags,
+      });
+      onDone();
+    } catch {
+      // Error is shown below the form
+    }
+  }
+
+  const inputClass =
+    "w-full rounded-lg bg-[var(--tg-theme-section-bg-color,#f4f4f5)] px-3 py-2 text-sm text-[var(--tg-theme-text-color,#000)] placeholder-[var(--tg-theme-hint-color,#999)] outline-none";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <input
+        type="text"
+        placeholder={t("app.admin.titlePlaceholder")}
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        className={inputClass}
+      />
+      <input
+        type="text"
+        placeholder={t("app.admin.authorPlaceholder")}
+        value={author}
+        onChange={(e) => setAuthor(e.target.value)}
+        className={inputClass}
+      />
+      <input
+        type="url"
+        placeholder={t("app.admin.book.coverUrlPlaceholder")}
+        value={imageUrl}
+        onChange={(e) => setImageUrl(e.target.value)}
+        className={inputClass}
+      />
+      <textarea
+        placeholder={t("app.admin.descriptionPlaceholder")}
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        rows={5}
+        className={inputClass}
+      />
+      <TagsInput tags={tags} onChange={setTags} />
+      {updateBook.error && (
+        <p className="text-xs text-[var(--tg-theme-destructive-text-color,#e53935)]">
+          {updateBook.error.message}
+        </p>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={onDone}
+          disabled={updateBook.isPending}
+          className="flex-1 rounded-lg py-2 text-sm font-medium text-[var(--tg-theme-hint-color,#999)] bg-[var(--tg-theme-section-bg-color,#f4f4f5)] disabled:opacity-50"
+        >
+          {t("app.cancel")}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!title.trim() || !author.trim() || updateBook.isPending}
+          className="flex-1 rounded-lg py-2 text-sm font-medium text-[var(--tg-theme-button-text-color,#fff)] bg-(--tg-theme-button-color,#5288c1) disabled:opacity-50"
+        >
+          {updateBook.isPending
+            ? t("app.admin.saving")
+            : t("app.admin.book.save")}
         </button>
       </div>
     </div>
   );
 }
 
-function CopyRow({ copy, index }: { copy: BookCopy; index: number }) {
+function TagsInput({
+  tags,
+  onChange,
+}: {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState("");
+  const { data: books = [] } = useAllBooks();
+
+  // Genres already used in the library, most used first
+  const knownTags = useMemo(() => getGenres(books), [books]);
+
+  const selectedSlugs = new Set(tags.map(tagSlug));
+  const draftSlug = tagSlug(draft);
+  const suggestions = knownTags
+    .filter(
+      (tag) =>
+        !selectedSlugs.has(tagSlug(tag)) && tagSlug(tag).startsWith(draftSlug),
+    )
+    .slice(0, 8);
+  const isFull = tags.length >= MAX_TAGS_PER_BOOK;
+
+  function addTag(name: string) {
+    onChange(normalizeTagNames([...tags, name]).slice(0, MAX_TAGS_PER_BOOK));
+    setDraft("");
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {tags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => onChange(tags.filter((name) => name !== tag))}
+              className="rounded-full bg-[var(--tg-theme-button-color,#5288c1)] px-2.5 py-1 text-xs font-medium text-[var(--tg-theme-button-text-color,#fff)]"
+            >
+              {tag} ✕
+            </button>
+          ))}
+        </div>
+      )}
+      <input
+        type="text"
+        placeholder={
+          isFull
+            ? t("app.admin.book.genresFull", { max: MAX_TAGS_PER_BOOK })
+            : t("app.admin.book.addGenre")
+        }
+        value={draft}
+        disabled={isFull}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && draft.trim()) {
+            e.preventDefault();
+            addTag(draft);
+          }
+        }}
+        className="w-full rounded-lg bg-[var(--tg-theme-section-bg-color,#f4f4f5)] px-3 py-2 text-sm text-[var(--tg-theme-text-color,#000)] placeholder-[var(--tg-theme-hint-color,#999)] outline-none disabled:opacity-50"
+      />
+      {!isFull && (suggestions.length > 0 || draftSlug) && (
+        <div className="flex flex-wrap gap-1.5">
+          {draftSlug &&
+            !knownTags.some((tag) => tagSlug(tag) === draftSlug) && (
+              <button
+                onClick={() => addTag(draft)}
+                className="rounded-full bg-[var(--tg-theme-section-bg-color,#f4f4f5)] px-2.5 py-1 text-xs font-medium text-[var(--tg-theme-link-color,#5288c1)]"
+              >
+                + {draft.trim()}
+              </button>
+            )}
+          {suggestions.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => addTag(tag)}
+              className="rounded-full bg-[var(--tg-theme-section-bg-color,#f4f4f5)] px-2.5 py-1 text-xs text-[var(--tg-theme-text-color,#000)]"
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function describeChange(change: BookChange, t: Translator["t"]) {
+  if (change.action === "delete") return t("app.admin.changeLog.deleted");
+  if (change.action === "restore") return t("app.admin.changeLog.restored");
+
+  const fields = Object.keys(change.newValues ?? {}) as (keyof BookFields)[];
+  return fields
+    .map((field) => {
+      const label = t(`app.admin.field.${field}`);
+      const value = change.newValues?.[field];
+      if (Array.isArray(value)) {
+        return t("app.admin.changeLog.setList", {
+          field: label,
+          value: value.join(", ") || t("app.admin.changeLog.none"),
+        });
+      }
+      // Descriptions and cover URLs are too long to be useful in the log
+      if (field === "title" || field === "author") {
+        return t("app.admin.changeLog.set", {
+          field: label,
+          value: value ?? "",
+        });
+      }
+      return value
+        ? t("app.admin.changeLog.updated", { field: label })
+        : t("app.admin.changeLog.removed", { field: label });
+    })
+    .join(", ");
+}
+
+function BookChangeLog({ bookId }: { bookId: number }) {
+  const { t, date } = useTranslation();
+  const { data: changes = [] } = useBookChanges(bookId);
+  const revertChange = useRevertBookChange();
+
+  async function handleUndo(change: BookChange) {
+    const buttonId = await popup.show({
+      title: t("app.admin.changeLog.undoTitle"),
+      message: describeChange(change, t),
+      buttons: [
+        { id: "undo", type: "destructive", text: t("app.admin.undo") },
+        { type: "cancel" },
+      ],
+    });
+    if (buttonId !== "undo") return;
+
+    revertChange.mutate({ bookId, changeId: change.id });
+  }
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h3 className="text-xs font-medium uppercase tracking-wide text-[var(--tg-theme-section-header-text-color,#6d6d71)]">
+        {t("app.admin.changeLog.title")}
+      </h3>
+      <div className="flex flex-col overflow-hidden rounded-2xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)]">
+        {changes.slice(0, 10).map((change, index) => (
+          <div key={change.id}>
+            {index > 0 && <div className="mx-4 h-px bg-tg-separator" />}
+            <div className="flex items-start justify-between gap-3 p-3">
+              <div className="flex flex-col gap-0.5">
+                <span className="text-sm text-[var(--tg-theme-text-color,#000)]">
+                  {describeChange(change, t)}
+                  {change.revertedChangeId !== null &&
+                    ` ${t("app.admin.changeLog.isUndo")}`}
+                </span>
+                <span className="text-xs text-[var(--tg-theme-hint-color,#999)]">
+                  {date(change.createdAt, "monthDay")}{" "}
+                  {change.adminTelegramUsername
+                    ? t("app.admin.byUsername", {
+                        username: change.adminTelegramUsername,
+                      })
+                    : t("app.admin.byUser", {
+                        id: change.adminTelegramUserId,
+                      })}
+                </span>
+              </div>
+              <button
+                onClick={() => handleUndo(change)}
+                disabled={revertChange.isPending}
+                className="text-xs font-medium text-[var(--tg-theme-link-color,#5288c1)] disabled:opacity-50"
+              >
+                {t("app.admin.undo")}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      {revertChange.error && (
+        <p className="text-xs text-[var(--tg-theme-destructive-text-color,#e53935)]">
+          {revertChange.error.message}
+        </p>
+      )}
+    </div>
+  );
+}
+
+const STATUS_BADGE_CLASSES: Record<CopyStatus, string> = {
+  available: "bg-green-100 text-green-700",
+  on_hold_shelf: "bg-blue-100 text-blue-700",
+  lost: "bg-red-100 text-red-700",
+  damaged: "bg-red-100 text-red-700",
+  in_repair: "bg-amber-100 text-amber-700",
+  withdrawn: "bg-gray-100 text-gray-600",
+};
+
+function CopyRow({
+  bookId,
+  copy,
+  index,
+}: {
+  bookId: number;
+  copy: BookCopy;
+  index: number;
+}) {
+  const { t } = useTranslation();
+  const [isEditingStatus, setIsEditingStatus] = useState(false);
   const hasActiveLoan = copy.loans.length > 0;
   const loan = hasActiveLoan ? copy.loans[0] : null;
-  const isAvailable = copy.status === "available" && !hasActiveLoan;
+  const status = copy.status ?? "available";
+  const isBorrowed = status === "available" && hasActiveLoan;
 
   return (
     <>
       {index > 0 && <div className="mx-4 h-px bg-tg-separator" />}
-      <div className="flex items-center justify-between p-3">
-        <div className="flex flex-col gap-0.5">
-          <div className="flex items-center gap-2">
-            <span className="font-medium text-[var(--tg-theme-text-color,#000)]">
-              Copy #{copy.copyNumber}
-            </span>
-            <span
-              className={`rounded-full px-2 py-0.5 text-xs ${
-                isAvailable
-                  ? "bg-green-100 text-green-700"
-                  : "bg-amber-100 text-amber-700"
-              }`}
-            >
-              {isAvailable ? "Available" : "Borrowed"}
+      <div className="flex flex-col gap-2 p-3">
+        <div className="flex items-center justify-between">
+          <div className="flex flex-col gap-0.5">
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-[var(--tg-theme-text-color,#000)]">
+                {t("app.admin.copy.number", { number: copy.copyNumber })}
+              </span>
+              <span
+                className={`rounded-full px-2 py-0.5 text-xs ${
+                  isBorrowed
+                    ? "bg-amber-100 text-amber-700"
+                    : STATUS_BADGE_CLASSES[status]
+                }`}
+              >
+                {isBorrowed
+                  ? t("app.admin.copy.borrowed")
+                  : t(`copyStatus.${status}`)}
+              </span>
+            </div>
+            <span className="text-xs text-[var(--tg-theme-hint-color,#999)]">
+              {copy.location.name}
             </span>
           </div>
-          <span className="text-xs text-[var(--tg-theme-hint-color,#999)]">
-            {copy.location.name}
-          </span>
-          {loan && (
-            <span className="text-xs text-[var(--tg-theme-subtitle-text-color,#6d6d71)]">
-              Due:{" "}
-              {new Date(loan.dueDate).toLocaleDateString(undefined, {
-                month: "short",
-                day: "numeric",
-              })}
-              {loan.telegramUsername && ` • @${loan.telegramUsername}`}
+          <div className="flex flex-col items-end gap-1">
+            <span className="text-xs text-[var(--tg-theme-hint-color,#999)] font-mono">
+              {copy.qrCodeId}
             </span>
-          )}
+            <button
+              onClick={() => setIsEditingStatus((editing) => !editing)}
+              className="text-xs font-medium text-[var(--tg-theme-link-color,#5288c1)]"
+            >
+              {isEditingStatus
+                ? t("app.admin.copy.close")
+                : t("app.admin.copy.changeStatus")}
+            </button>
+          </div>
         </div>
-        <span className="text-xs text-[var(--tg-theme-hint-color,#999)] font-mono">
-          {copy.qrCodeId}
-        </span>
+        {loan && <ActiveLoanPanel bookId={bookId} loan={loan} />}
+        {isEditingStatus && (
+          <CopyStatusPanel
+            bookId={bookId}
+            qrCodeId={copy.qrCodeId}
+            status={status}
+            onDone={() => setIsEditingStatus(false)}
+          />
+        )}
       </div>
     </>
   );
 }
+
+function CopyStatusPanel({
+  bookId,
+  qrCodeId,
+  status,
+  onDone,
+}: {
+  bookId: number;
+  qrCodeId: string;
+  status: CopyStatus;
+  onDone: () => void;
+}) {
+  const { t, date } = useTranslation();
+  const nextStatuses = COPY_STATUS_TRANSITIONS[status];
+  const [nextStatus, setNextStatus] = useState<CopyStatus>(nextStatuses[0]);
+  const [reason, setReason] = useState("");
+  const changeStatus = useChangeCopyStatus();
+  const { data: history = [] } = useCopyStatusHistory(qrCodeId);
+
+  async function handleSave() {
+    try {
+      await changeStatus.mutateAsync({
+        bookId,
+        qrCodeId,
+        status: nextStatus,
+        reason: reason.trim(),
+      });
+      onDone();
+    } catch {
+      // Error is shown below the form
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2 rounded-xl bg-[var(--tg-theme-bg-color,#fff)] p-3">
+      <select
+        value={nextStatus}
+        onChange={(e) => setNextStatus(e.target.value as CopyStatus)}
+        className="w-full rounded-lg bg-[var(--tg-theme-section-bg-color,#f4f4f5)] px-3 py-2 text-sm text-[var(--tg-theme-text-color,#000)] outline-none"
+      >
+        {nextStatuses.map((option) => (
+          <option key={option} value={option}>
+            {t(`copyStatus.${option}`)}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        placeholder={t("app.admin.copy.reasonPlaceholder")}
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        className="w-full rounded-lg bg-[var(--tg-theme-section-bg-color,#f4f4f5)] px-3 py-2 text-sm text-[var(--tg-theme-text-color,#000)] placeholder-[var(--tg-theme-hint-color,#999)] outline-none"
+      />
+      {changeStatus.error && (
+        <p className="text-xs text-[var(--tg-theme-destructive-text-color,#e53935)]">
+          {changeStatus.error.message}
+        </p>
+      )}
+      <button
+        onClick={handleSave}
+        disabled={!reason.trim() || changeStatus.isPending}
+        className="rounded-lg py-2 text-sm font-medium text-[var(--tg-theme-button-text-color,#fff)] bg-(--tg-theme-button-color,#5288c1) disabled:opacity-50"
+      >
+        {changeStatus.isPending
+          ? t("app.admin.saving")
+          : t("app.admin.copy.markAs", {
+              status: t(`copyStatus.${nextStatus}`),
+            })}
+      </button>
+
+      {history.length > 0 && (
+        <div className="flex flex-col gap-1 pt-1">
+          <p className="text-xs font-medium uppercase tracking-wide text-[var(--tg-theme-section-header-text-color,#6d6d71)]">
+            {t("app.admin.copy.history")}
+          </p>
+          {history.slice(0, 5).map((change) => (
+            <p
+              key={change.id}
+              className="text-xs text-[var(--tg-theme-hint-color,#999)]"
+            >
+              {date(change.createdAt, "monthDay")} ·{" "}
+              {t(`copyStatus.${change.fromStatus}`)} →{" "}
+              {t(`copyStatus.${change.toStatus}`)}
+              {change.changedByUsername
+                ? ` ${t("app.admin.byUsername", { username: change.changedByUsername })}`
+                : change.changedBy === null
+                  ? ` ${t("app.admin.copy.automatic")}`
+                  : ""}
+              {change.reason && `: ${change.reason}`}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ActiveLoanPanel({ bookId, loan }: { bookId: number; loan: Loan }) {
+  const { t, date } = useTranslation();
+  const [action, setAction] = useState<"extend" | "reassign" | null>(null);
+  const [dueDate, setDueDate] = useState(loan.dueDate.slice(0, 10));
+  const [borrowerId, setBorrowerId] = useState("");
+  const [borrowerUsername, setBorrowerUsername] = useState("");
+  const forceReturn = useForceReturnLoan();
+  const extendLoan = useExtendLoan();
+  const reassignLoan = useReassignLoan();
+  const error = forceReturn.error ?? extendLoan.error ?? reassignLoan.error;
+  const isPending =
+    forceReturn.isPending || extendLoan.isPending || reassignLoan.isPending;
+
+  async function handleMarkReturned() {
+    const buttonId = await popup.show({
+      title: t("app.admin.markReturned.title"),
+      message: t("app.admin.markReturned.message", {
+        borrower: loan.telegramUsername
+          ? `@${loan.telegramUsername}`
+          : t("app.admin.markReturned.byUser", { id: loan.telegramUserId }),
+      }),
+      buttons: [
+        {
+          id: "return",
+          type: "destructive",
+          text: t("app.admin.markReturned.confirm"),
+        },
+        { type: "cancel" },
+      ],
+    });
+    if (buttonId !== "return") return;
+
+    forceReturn.mutate({ bookId, loanId: loan.id });
+  }
+
+  async function handleSave() {
+    try {
+      if (action === "extend") {
+        await extendLoan.mutateAsync({
+          bookId,
+          loanId: loan.id,
+          // End of the chosen day in local time
+          dueDate: new Date(`${dueDate}T23:59:00`).toISOString(),
+        });
+      } else if (action === "reassign") {
+        await reassignLoan.mutateAsync({
+          bookId,
+          loanId: loan.id,
+          telegramUserId: Number(borrowerId),
+          telegramUsername: borrowerUsername.trim() || undefined,
+        });
+      }
+      setAction(null);
+    } catch {
+      // Error is shown below the actions
+    }
+  }
+
+  const actionButtonClass =
+    "rounded-lg px-2.5 py-1 text-xs font-medium bg-[var(--tg-theme-section-bg-color,#f4f4f5)] disabled:opacity-50";
+  const inputClass =
+    "w-full rounded-lg bg-[var(--tg-theme-section-bg-color,#f4f4f5)] px-3 py-2 text-sm text-[var(--tg-theme-text-color,#000)] placeholder-[var(--tg-theme-hint-color,#999)] outline-none";
+
+  return (
+    <div className="flex flex-col gap-2 rounded-xl bg-[var(--tg-theme-bg-color,#fff)] p-3">
+      <div className="flex flex-col gap-0.5">
+        <span className="text-xs text-[var(--tg-theme-hint-color,#999)]">
+          {t("app.admin.loan.borrowedBy")}
+        </span>
+        <span className="text-sm font-medium text-[var(--tg-theme-text-color,#000)]">
+          {loan.telegramUsername
+            ? `@${loan.telegramUsername}`
+            : t("app.admin.loan.user", { id: loan.telegramUserId })}
+        </span>
+        <span className="text-xs text-[var(--tg-theme-subtitle-text-color,#6d6d71)]">
+          {t("app.due", { date: date(loan.dueDate, "medium") })}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleMarkReturned}
+          disabled={isPending}
+          className={`${actionButtonClass} text-[var(--tg-theme-destructive-text-color,#e53935)]`}
+        >
+          {t("app.admin.loan.markReturned")}
+        </button>
+        <button
+          onClick={() => setAction(action === "extend" ? null : "extend")}
+          disabled={isPending}
+          className={`${actionButtonClass} text-[var(--tg-theme-link-color,#5288c1)]`}
+        >
+          {t("app.admin.loan.extend")}
+        </button>
+        <button
+          onClick={() => setAction(action === "reassign" ? null : "reassign")}
+          disabled={isPending}
+          className={`${actionButtonClass} text-[var(--tg-theme-link-color,#5288c1)]`}
+        >
+          {t("app.admin.loan.reassign")}
+        </button>
+      </div>
+
+      {action === "extend" && (
+        <input
+          type="date"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          className={inputClass}
+        />
+      )}
+      {action === "reassign" && (
+        <>
+          <input
+            type="text"
+            inputMode="numeric"
+            placeholder={t("app.admin.loan.borrowerIdPlaceholder")}
+            value={borrowerId}
+            onChange={(e) => setBorrowerId(e.target.value.replace(/\D/g, ""))}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            placeholder={t("app.admin.loan.usernamePlaceholder")}
+            value={borrowerUsername}
+            onChange={(e) => setBorrowerUsername(e.target.value)}
+            className={inputClass}
+          />
+        </>
+      )}
+      {action && (
+        <button
+          onClick={handleSave}
+          disabled={isPending || (action === "extend" ? !dueDate : !borrowerId)}
+          className="rounded-lg py-2 text-sm font-medium text-[var(--tg-theme-button-text-color,#fff)] bg-(--tg-theme-button-color,#5288c1) disabled:opacity-50"
+        >
+          {isPending
+            ? t("app.admin.saving")
+            : action === "extend"
+              ? t("app.admin.loan.saveDueDate")
+              : t("app.admin.loan.reassignLoan")}
+        </button>
+      )}
+
+      {error && (
+        <p className="text-xs text-[var(--tg-theme-destructive-text-color,#e53935)]">
+          {error.message}
+        </p>
+      )}
+    </div>
+  );
+}
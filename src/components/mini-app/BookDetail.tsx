@@ -1,11 +1,19 @@
-import type { Book, BookCopy } from "@/types";
+import { useTranslation } from "@/hooks/use-translation";
+import type { Book, BookCopy, Hold, LoanLimit } from "@/types";
 
 type BookDetailProps = {
   book: Book;
   copy: BookCopy;
   state: "available" | "borrowed-by-user" | "borrowed-by-other";
+  loanLimit?: LoanLimit;
   onScanLocation: () => void;
   onScanReturn: () => void;
+  onRenew?: () => void;
+  isRenewing?: boolean;
+  hold?: Hold;
+  onPlaceHold?: () => void;
+  onCancelHold?: () => void;
+  isHoldPending?: boolean;
   isAdmin?: boolean;
   onViewAsAdmin?: () => void;
 };
@@ -14,11 +22,21 @@ export function BookDetailView({
   book,
   copy,
   state,
+  loanLimit,
   onScanLocation,
   onScanReturn,
+  onRenew,
+  isRenewing,
+  hold,
+  onPlaceHold,
+  onCancelHold,
+  isHoldPending,
   isAdmin,
   onViewAsAdmin,
 }: BookDetailProps) {
+  const { t, tn, date } = useTranslation();
+  const activeLoan = copy.loans[0];
+
   return (
     <div className="flex min-h-screen flex-col bg-[var(--tg-theme-bg-color,#fff)] pt-16">
       {/* Content */}
@@ -50,12 +68,19 @@ export function BookDetailView({
 
         {/* Meta */}
         <div className="grid grid-cols-2 gap-3">
-          <MetaCard label="Copy #" value={String(copy.copyNumber)} />
-          <MetaCard label="Location" value={copy.location.name} />
-          <MetaCard label="ISBN" value={book.isbn} />
           <MetaCard
-            label="Status"
-            value={state === "available" ? "Available" : "Unavailable"}
+            label={t("app.book.copyNumber")}
+            value={String(copy.copyNumber)}
+          />
+          <MetaCard label={t("app.book.location")} value={copy.location.name} />
+          <MetaCard label={t("app.book.isbn")} value={book.isbn} />
+          <MetaCard
+            label={t("app.book.status")}
+            value={
+              state === "available"
+                ? t("app.book.available")
+                : t("app.book.unavailable")
+            }
           />
         </div>
 
@@ -66,6 +91,75 @@ export function BookDetailView({
           </p>
         )}
 
+        {/* Loan cap reached */}
+        {loanLimit && (
+          <div className="rounded-xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)] p-3">
+            <p className="text-sm font-medium text-[var(--tg-theme-destructive-text-color,#e53935)]">
+              {tn("app.book.loanLimit", loanLimit.maxActiveLoans)}
+            </p>
+            <p className="mt-0.5 text-xs text-[var(--tg-theme-hint-color,#999)]">
+              {t("app.book.returnFirst")}
+            </p>
+            <ul className="mt-2 flex flex-col gap-1.5">
+              {loanLimit.loans.map((loan) => (
+                <li
+                  key={loan.qrCodeId}
+                  className="flex justify-between gap-3 text-sm"
+                >
+                  <span className="truncate text-[var(--tg-theme-text-color,#000)]">
+                    {loan.title}
+                  </span>
+                  <span className="shrink-0 text-[var(--tg-theme-hint-color,#999)]">
+                    {t("app.dueShort", {
+                      date: date(loan.dueDate, "monthDay"),
+                    })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Renew loan */}
+        {state === "borrowed-by-user" && activeLoan && onRenew && (
+          <div className="flex items-center justify-between rounded-xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)] p-3">
+            <div className="flex flex-col">
+              <p className="text-xs text-[var(--tg-theme-hint-color,#999)]">
+                {t("app.book.dueDate")}
+              </p>
+              <p className="mt-0.5 text-sm font-medium text-[var(--tg-theme-text-color,#000)]">
+                {date(activeLoan.dueDate, "medium")}
+              </p>
+            </div>
+            <button
+              onClick={onRenew}
+              disabled={isRenewing}
+              className="rounded-lg px-3 py-1.5 text-sm font-medium text-[var(--tg-theme-link-color,#5288c1)] bg-[var(--tg-theme-bg-color,#fff)] disabled:opacity-50"
+            >
+              {isRenewing ? t("app.renewing") : t("app.renew")}
+            </button>
+          </div>
+        )}
+
+        {/* Hold queue */}
+        {state === "borrowed-by-other" && hold && (
+          <div className="rounded-xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)] p-3">
+            <p className="text-xs text-[var(--tg-theme-hint-color,#999)]">
+              {t("app.book.yourHold")}
+            </p>
+            <p className="mt-0.5 text-sm font-medium text-[var(--tg-theme-text-color,#000)]">
+              {hold.status === "ready"
+                ? t("app.book.holdWaiting", {
+                    number: hold.reservedCopyNumber ?? "",
+                    location: hold.location ?? "",
+                  })
+                : t("app.book.queuePosition", {
+                    position: hold.position ?? "",
+                  })}
+            </p>
+          </div>
+        )}
+
         {/* Admin link */}
         {isAdmin && onViewAsAdmin && (
           <button
@@ -86,7 +180,7 @@ export function BookDetailView({
               <path d="M12 20h9" />
               <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z" />
             </svg>
-            View as Admin
+            {t("app.book.viewAsAdmin")}
           </button>
         )}
 
@@ -121,8 +215,30 @@ export function BookDetailView({
               <path d="M7 21H5a2 2 0 0 1-2-2v-2" />
               <rect x="7" y="7" width="10" height="10" rx="1" />
             </svg>
-            Scan QR at
-            <span className="font-bold">{copy.location.name}</span> to return
+            <LocationPrompt
+              message={t("app.book.scanToReturn")}
+              location={copy.location.name}
+            />
+          </button>
+        ) : state === "borrowed-by-other" && hold && onCancelHold ? (
+          <button
+            onClick={onCancelHold}
+            disabled={isHoldPending}
+            className="flex w-full items-center justify-center gap-2 rounded-xl py-3.5 font-medium text-[var(--tg-theme-destructive-text-color,#e53935)] bg-[var(--tg-theme-section-bg-color,#f4f4f5)] disabled:opacity-50"
+          >
+            {isHoldPending
+              ? t("app.book.cancelling")
+              : t("app.book.cancelHold")}
+          </button>
+        ) : state === "borrowed-by-other" && onPlaceHold ? (
+          <button
+            onClick={onPlaceHold}
+            disabled={isHoldPending}
+            className="flex w-full items-center justify-center gap-2 rounded-xl py-3.5 font-medium text-[var(--tg-theme-button-text-color,#fff)] bg-(--tg-theme-button-color,#5288c1) disabled:opacity-50"
+          >
+            {isHoldPending
+              ? t("app.book.placingHold")
+              : t("app.book.placeHold")}
           </button>
         ) : (
           <button
@@ -149,12 +265,13 @@ export function BookDetailView({
                   <path d="M7 21H5a2 2 0 0 1-2-2v-2" />
                   <rect x="7" y="7" width="10" height="10" rx="1" />
                 </svg>
-                Scan QR at
-                <span className="font-bold">{copy.location.name}</span> to
-                borrow
+                <LocationPrompt
+                  message={t("app.book.scanToBorrow")}
+                  location={copy.location.name}
+                />
               </>
             ) : (
-              "Currently Unavailable"
+              t("app.book.currentlyUnavailable")
             )}
           </button>
         )}
@@ -163,6 +280,26 @@ export function BookDetailView({
   );
 }
 
+/**
+ * A translated prompt with its {location} placeholder shown in bold
+ */
+function LocationPrompt({
+  message,
+  location,
+}: {
+  message: string;
+  location: string;
+}) {
+  const [before, after] = message.split("{location}");
+  return (
+    <>
+      {before.trim()}
+      <span className="font-bold">{location}</span>
+      {after?.trim()}
+    </>
+  );
+}
+
 function MetaCard({ label, value }: { label: string; value: string }) {
   return (
     <div className="rounded-xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)] p-3">
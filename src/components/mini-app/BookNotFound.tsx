@@ -1,3 +1,5 @@
+import { useTranslation } from "@/hooks/use-translation";
+
 export function BookNotFound({
   scannedText,
   onRetry,
@@ -7,6 +9,8 @@ export function BookNotFound({
   onRetry: () => void;
   onHome: () => void;
 }) {
+  const { t } = useTranslation();
+
   return (
     <div className="flex min-h-screen flex-col items-center justify-center gap-6 bg-[var(--tg-theme-bg-color,#fff)] p-6">
       {/* Warning icon */}
@@ -30,10 +34,10 @@ export function BookNotFound({
 
       <div className="flex flex-col gap-2 text-center">
         <h2 className="text-xl font-bold text-[var(--tg-theme-text-color,#000)]">
-          Book Not Found
+          {t("app.notFound.title")}
         </h2>
         <p className="text-sm text-[var(--tg-theme-hint-color,#999)]">
-          The scanned QR code doesn&apos;t match any book in our library.
+          {t("app.notFound.message")}
         </p>
         <p className="mt-1 rounded-lg bg-[var(--tg-theme-section-bg-color,#f4f4f5)] px-3 py-2 font-mono text-xs text-[var(--tg-theme-hint-color,#999)]">
           {scannedText}
@@ -46,13 +50,13 @@ export function BookNotFound({
           className="w-full rounded-xl py-3.5 font-medium text-[var(--tg-theme-button-text-color,#fff)]"
           style={{ backgroundColor: "var(--tg-theme-button-color, #5288c1)" }}
         >
-          Scan Again
+          {t("app.notFound.scanAgain")}
         </button>
         <button
           onClick={onHome}
           className="w-full rounded-xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)] py-3.5 font-medium text-[var(--tg-theme-text-color,#000)]"
         >
-          Back to Home
+          {t("app.backToHome")}
         </button>
       </div>
     </div>
@@ -0,0 +1,180 @@
+import { useTranslation } from "@/hooks/use-translation";
+import type { BookCopy, BookDetail, Hold } from "@/types";
+import { CIRCULATING_COPY_STATUSES } from "@shared/copy-status";
+import type { Translator } from "@shared/i18n";
+
+type BookOverviewProps = {
+  book: BookDetail;
+  hold?: Hold;
+  onScan: () => void;
+  onPlaceHold: () => void;
+  onCancelHold?: () => void;
+  isHoldPending?: boolean;
+};
+
+function isCopyOnShelf(copy: BookCopy) {
+  return (
+    copy.loans.length === 0 &&
+    CIRCULATING_COPY_STATUSES.includes(copy.status ?? "available")
+  );
+}
+
+function copyStatusText(copy: BookCopy, { t, date }: Translator) {
+  const status = copy.status ?? "available";
+  if (!CIRCULATING_COPY_STATUSES.includes(status)) {
+    return t(`copyStatus.${status}`);
+  }
+  if (copy.loans[0]) {
+    return t("app.book.onLoanUntil", {
+      date: date(copy.loans[0].dueDate, "monthDay"),
+    });
+  }
+  return t("app.book.available");
+}
+
+/**
+ * A book opened from outside a scan (e.g. an inline search result), showing
+ * every copy and where to find it
+ */
+export function BookOverview({
+  book,
+  hold,
+  onScan,
+  onPlaceHold,
+  onCancelHold,
+  isHoldPending,
+}: BookOverviewProps) {
+  const translator = useTranslation();
+  const { t } = translator;
+  const copies = book.bookCopies.filter((copy) => copy.status !== "withdrawn");
+  const hasCopyOnShelf = copies.some(isCopyOnShelf);
+
+  return (
+    <div className="flex min-h-screen flex-col bg-[var(--tg-theme-bg-color,#fff)] pt-16">
+      <div className="flex flex-1 flex-col gap-5 p-4 pt-0">
+        {/* Cover */}
+        <div className="flex justify-center">
+          {book.imageUrl ? (
+            <img
+              src={book.imageUrl}
+              alt={book.title}
+              className="h-60 w-40 rounded-xl object-cover shadow-md"
+            />
+          ) : (
+            <div className="flex h-60 w-40 items-center justify-center rounded-xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)] shadow-md">
+              <span className="text-4xl">📚</span>
+            </div>
+          )}
+        </div>
+
+        {/* Info */}
+        <div className="flex flex-col gap-1 text-center">
+          <h2 className="text-xl font-bold text-[var(--tg-theme-text-color,#000)]">
+            {book.title}
+          </h2>
+          <p className="text-[var(--tg-theme-hint-color,#999)]">
+            {book.author}
+          </p>
+        </div>
+
+        {/* Description */}
+        {book.description && (
+          <p className="text-sm leading-relaxed text-[var(--tg-theme-text-color,#000)]">
+            {book.description}
+          </p>
+        )}
+
+        {/* Copies */}
+        <div className="flex flex-col gap-3">
+          <h3 className="pl-[15px] text-xs font-medium uppercase tracking-wide text-[var(--tg-theme-section-header-text-color,#6d6d71)]">
+            {t("app.book.copies")}
+          </h3>
+          <div className="flex flex-col overflow-hidden rounded-2xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)]">
+            {copies.length === 0 ? (
+              <p className="py-6 text-center text-sm text-[var(--tg-theme-hint-color,#999)]">
+                {t("app.book.noCopies")}
+              </p>
+            ) : (
+              copies.map((copy, index) => (
+                <div key={copy.qrCodeId}>
+                  {index > 0 && <div className="mx-4 h-px bg-tg-separator" />}
+                  <div className="flex items-center justify-between p-3 text-sm">
+                    <span className="text-[var(--tg-theme-text-color,#000)]">
+                      {t("app.book.copyAt", {
+                        number: copy.copyNumber,
+                        location: copy.location.name,
+                      })}
+                    </span>
+                    <span
+                      className={
+                        isCopyOnShelf(copy)
+                          ? "font-medium text-green-600"
+                          : "text-[var(--tg-theme-hint-color,#999)]"
+                      }
+                    >
+                      {copyStatusText(copy, translator)}
+                    </span>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Hold queue */}
+        {hold && (
+          <div className="rounded-xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)] p-3">
+            <p className="text-xs text-[var(--tg-theme-hint-color,#999)]">
+              {t("app.book.yourHold")}
+            </p>
+            <p className="mt-0.5 text-sm font-medium text-[var(--tg-theme-text-color,#000)]">
+              {hold.status === "ready"
+                ? t("app.book.holdWaiting", {
+                    number: hold.reservedCopyNumber ?? "",
+                    location: hold.location ?? "",
+                  })
+                : t("app.book.queuePosition", {
+                    position: hold.position ?? "",
+                  })}
+            </p>
+          </div>
+        )}
+
+        {/* Spacer so content isn't hidden behind fixed button */}
+        <div className="h-20" />
+      </div>
+
+      {/* Fixed action button */}
+      <div className="fixed bottom-0 left-0 right-0 p-4 pb-8 bg-gradient-to-t from-[var(--tg-theme-bg-color,#fff)] from-60% to-transparent">
+        {hasCopyOnShelf || copies.length === 0 ? (
+          <button
+            onClick={onScan}
+            className="flex w-full items-center justify-center gap-2 rounded-xl py-3.5 font-medium text-[var(--tg-theme-button-text-color,#fff)] bg-(--tg-theme-button-color,#5288c1)"
+          >
+            {t("app.book.scanABook")}
+          </button>
+        ) : hold && onCancelHold ? (
+          <button
+            onClick={onCancelHold}
+            disabled={isHoldPending}
+            className="flex w-full items-center justify-center gap-2 rounded-xl py-3.5 font-medium text-[var(--tg-theme-destructive-text-color,#e53935)] bg-[var(--tg-theme-section-bg-color,#f4f4f5)] disabled:opacity-50"
+          >
+            {isHoldPending
+              ? t("app.book.cancelling")
+              : t("app.book.cancelHold")}
+          </button>
+        ) : (
+          <button
+            onClick={onPlaceHold}
+            disabled={isHoldPending}
+            className="flex w-full items-center justify-center gap-2 rounded-xl py-3.5 font-medium text-[var(--tg-theme-button-text-color,#fff)] bg-(--tg-theme-button-color,#5288c1) disabled:opacity-50"
+          >
+            {isHoldPending
+              ? t("app.book.placingHold")
+              : t("app.book.placeHold")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { useAllBooks } from "@/hooks/use-all-books";
+import { useTranslation } from "@/hooks/use-translation";
+import { getGenres } from "@/lib/utils";
 import type { Book } from "@/types";
 import { useMemo, useState } from "react";
 
@@ -7,11 +9,19 @@ type SortDirection = "asc" | "desc";
 
 type BooksListViewProps = {
   onSelectBook: (bookId: number) => void;
+  onAddBook: () => void;
+  onShowDeleted: () => void;
 };
 
-export function BooksListView({ onSelectBook }: BooksListViewProps) {
+export function BooksListView({
+  onSelectBook,
+  onAddBook,
+  onShowDeleted,
+}: BooksListViewProps) {
+  const { t, tn } = useTranslation();
   const { data: books = [], isLoading } = useAllBooks();
   const [filter, setFilter] = useState("");
+  const [genre, setGenre] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<SortOption>("title");
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
 
@@ -24,9 +34,15 @@ export function BooksListView({ onSelectBook }: BooksListViewProps) {
     }
   }
 
+  const genres = useMemo(() => getGenres(books), [books]);
+
   const filteredAndSortedBooks = useMemo(() => {
     let result = books;
 
+    if (genre) {
+      result = result.filter((book) => book.tags?.includes(genre));
+    }
+
     // Filter
     if (filter.trim()) {
       const searchTerm = filter.toLowerCase();
@@ -55,7 +71,7 @@ export function BooksListView({ onSelectBook }: BooksListViewProps) {
     });
 
     return sortDirection === "desc" ? sorted.reverse() : sorted;
-  }, [books, filter, sortBy, sortDirection]);
+  }, [books, filter, genre, sortBy, sortDirection]);
 
   if (isLoading) {
     return (
@@ -63,7 +79,7 @@ export function BooksListView({ onSelectBook }: BooksListViewProps) {
         <div className="flex flex-col items-center gap-4">
           <div className="h-8 w-8 animate-spin rounded-full border-4 border-[var(--tg-theme-button-color,#5288c1)] border-t-transparent" />
           <p className="text-[var(--tg-theme-hint-color,#999)]">
-            Loading books...
+            {t("app.admin.books.loading")}
           </p>
         </div>
       </div>
@@ -74,6 +90,29 @@ export function BooksListView({ onSelectBook }: BooksListViewProps) {
     <div className="flex min-h-screen flex-col bg-[var(--tg-theme-bg-color,#fff)]">
       {/* Sticky header with search and sort */}
       <div className="sticky top-0 z-10 flex flex-col gap-3 bg-[var(--tg-theme-bg-color,#fff)] px-4 pt-4 pb-3">
+        {/* Add a title that isn't in the library yet */}
+        <button
+          onClick={onAddBook}
+          className="flex w-full items-center justify-center gap-2 rounded-xl py-3 text-sm font-medium text-[var(--tg-theme-button-text-color,#fff)]"
+          style={{ backgroundColor: "var(--tg-theme-button-color, #5288c1)" }}
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M12 5v14" />
+            <path d="M5 12h14" />
+          </svg>
+          {t("app.admin.books.addTitle")}
+        </button>
+
         {/* Search input */}
         <div className="relative">
           <svg
@@ -93,7 +132,7 @@ export function BooksListView({ onSelectBook }: BooksListViewProps) {
           </svg>
           <input
             type="text"
-            placeholder="Search by title, author, or ISBN..."
+            placeholder={t("app.admin.books.search")}
             value={filter}
             onChange={(e) => setFilter(e.target.value)}
             className="w-full rounded-xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)] py-3 pl-10 pr-4 text-sm text-[var(--tg-theme-text-color,#000)] placeholder-[var(--tg-theme-hint-color,#999)] outline-none"
@@ -103,45 +142,66 @@ export function BooksListView({ onSelectBook }: BooksListViewProps) {
         {/* Sort options */}
         <div className="flex items-center gap-2">
           <span className="text-xs text-[var(--tg-theme-hint-color,#999)]">
-            Sort:
+            {t("app.admin.books.sort")}
           </span>
           <div className="flex gap-1.5">
             <SortButton
-              label="Title"
+              label={t("app.admin.books.sortTitle")}
               active={sortBy === "title"}
               direction={sortBy === "title" ? sortDirection : null}
               onClick={() => handleSortClick("title")}
             />
             <SortButton
-              label="Author"
+              label={t("app.admin.books.sortAuthor")}
               active={sortBy === "author"}
               direction={sortBy === "author" ? sortDirection : null}
               onClick={() => handleSortClick("author")}
             />
             <SortButton
-              label="Recent"
+              label={t("app.admin.books.sortRecent")}
               active={sortBy === "recent"}
               direction={sortBy === "recent" ? sortDirection : null}
               onClick={() => handleSortClick("recent")}
             />
           </div>
         </div>
+
+        {/* Genre filter */}
+        {genres.length > 0 && (
+          <div className="-mx-4 flex gap-1.5 overflow-x-auto px-4">
+            <GenreChip
+              label={t("app.admin.books.allGenres")}
+              active={genre === null}
+              onClick={() => setGenre(null)}
+            />
+            {genres.map((name) => (
+              <GenreChip
+                key={name}
+                label={name}
+                active={genre === name}
+                onClick={() => setGenre(genre === name ? null : name)}
+              />
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Scrollable content */}
       <div className="flex flex-col gap-3 px-4 pb-4">
         {/* Book count */}
         <p className="pl-1 text-xs text-[var(--tg-theme-hint-color,#999)]">
-          {filteredAndSortedBooks.length}{" "}
-          {filteredAndSortedBooks.length === 1 ? "book" : "books"}
-          {filter && ` matching "${filter}"`}
+          {tn("app.admin.books.count", filteredAndSortedBooks.length)}
+          {genre && ` ${t("app.admin.books.inGenre", { genre })}`}
+          {filter && ` ${t("app.admin.books.matching", { filter })}`}
         </p>
 
         {/* Books list */}
         {filteredAndSortedBooks.length === 0 ? (
           <div className="overflow-hidden rounded-2xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)]">
             <p className="py-8 text-center text-sm text-[var(--tg-theme-hint-color,#999)]">
-              {filter ? "No books match your search." : "No books in library."}
+              {filter || genre
+                ? t("app.admin.books.noMatches")
+                : t("app.admin.books.empty")}
             </p>
           </div>
         ) : (
@@ -156,6 +216,14 @@ export function BooksListView({ onSelectBook }: BooksListViewProps) {
             ))}
           </div>
         )}
+
+        {/* Deleted books can be restored from their own list */}
+        <button
+          onClick={onShowDeleted}
+          className="py-2 text-center text-sm text-[var(--tg-theme-link-color,#5288c1)]"
+        >
+          {t("app.admin.books.showDeleted")}
+        </button>
       </div>
     </div>
   );
@@ -202,6 +270,29 @@ function SortButton({
   );
 }
 
+function GenreChip({
+  label,
+  active,
+  onClick,
+}: {
+  label: string;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`flex-shrink-0 rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+        active
+          ? "bg-[var(--tg-theme-button-color,#5288c1)] text-[var(--tg-theme-button-text-color,#fff)]"
+          : "bg-[var(--tg-theme-section-bg-color,#f4f4f5)] text-[var(--tg-theme-hint-color,#999)]"
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
+
 function BookRow({
   book,
   index,
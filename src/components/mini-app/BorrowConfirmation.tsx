@@ -1,4 +1,5 @@
 import type { BorrowResult } from "@/hooks/use-borrow-book";
+import { useTranslation } from "@/hooks/use-translation";
 import type { BookCopy } from "@/types";
 import confetti from "canvas-confetti";
 import { useCallback, useEffect, useState } from "react";
@@ -14,15 +15,10 @@ export function BorrowConfirmation({
   copy: BookCopy;
   onDone: () => void;
 }) {
+  const { t, tn, date } = useTranslation();
   const [phase, setPhase] = useState<1 | 2>(1);
 
-  const dueDateStr = result.loan
-    ? new Date(result.loan.dueDate).toLocaleDateString(undefined, {
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-      })
-    : "";
+  const dueDateStr = result.loan ? date(result.loan.dueDate, "long") : "";
 
   const fireConfetti = useCallback(() => {
     confetti({
@@ -107,13 +103,13 @@ export function BorrowConfirmation({
 
       <div className="flex flex-col gap-2 text-center">
         <h2 className="text-xl font-bold text-[var(--tg-theme-text-color,#000)]">
-          Book Borrowed!
+          {t("app.borrowed.title")}
         </h2>
         <p className="text-[var(--tg-theme-hint-color,#999)]">
-          You have successfully borrowed
+          {t("app.borrowed.subtitle")}
         </p>
         <p className="font-semibold text-[var(--tg-theme-text-color,#000)]">
-          {result.book?.title ?? "Unknown Book"}
+          {result.book?.title ?? t("app.unknownBook")}
         </p>
       </div>
 
@@ -121,15 +117,15 @@ export function BorrowConfirmation({
       <div className="w-full max-w-sm rounded-xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)] p-4">
         <div className="flex justify-between py-2">
           <span className="text-sm text-[var(--tg-theme-hint-color,#999)]">
-            Author
+            {t("app.borrowed.author")}
           </span>
           <span className="text-sm font-medium text-[var(--tg-theme-text-color,#000)]">
-            {result.book?.author ?? "Unknown"}
+            {result.book?.author ?? t("app.unknown")}
           </span>
         </div>
         <div className="flex justify-between border-t border-[var(--tg-theme-section-separator-color,#e0e0e0)] py-2">
           <span className="text-sm text-[var(--tg-theme-hint-color,#999)]">
-            Location
+            {t("app.borrowed.location")}
           </span>
           <span className="text-sm font-medium text-[var(--tg-theme-text-color,#000)]">
             {copy.location.name}
@@ -137,7 +133,7 @@ export function BorrowConfirmation({
         </div>
         <div className="flex justify-between border-t border-[var(--tg-theme-section-separator-color,#e0e0e0)] py-2">
           <span className="text-sm text-[var(--tg-theme-hint-color,#999)]">
-            Copy #
+            {t("app.borrowed.copyNumber")}
           </span>
           <span className="text-sm font-medium text-[var(--tg-theme-text-color,#000)]">
             {copy.copyNumber}
@@ -145,12 +141,25 @@ export function BorrowConfirmation({
         </div>
         <div className="flex justify-between border-t border-[var(--tg-theme-section-separator-color,#e0e0e0)] py-2">
           <span className="text-sm text-[var(--tg-theme-hint-color,#999)]">
-            Due Date
+            {t("app.borrowed.dueDate")}
           </span>
           <span className="text-sm font-medium text-[var(--tg-theme-text-color,#000)]">
             {dueDateStr}
           </span>
         </div>
+        {result.policy && (
+          <div className="flex justify-between border-t border-[var(--tg-theme-section-separator-color,#e0e0e0)] py-2">
+            <span className="text-sm text-[var(--tg-theme-hint-color,#999)]">
+              {t("app.borrowed.loanPolicy")}
+            </span>
+            <span className="text-sm font-medium text-[var(--tg-theme-text-color,#000)]">
+              {tn("app.borrowed.days", result.policy.loanPeriodDays)},{" "}
+              {result.policy.maxRenewals === 0
+                ? t("app.borrowed.noRenewals")
+                : tn("app.borrowed.renewals", result.policy.maxRenewals)}
+            </span>
+          </div>
+        )}
       </div>
 
       <button
@@ -161,7 +170,7 @@ export function BorrowConfirmation({
         className="mt-2 w-full max-w-sm rounded-xl py-3.5 font-medium text-[var(--tg-theme-button-text-color,#fff)]"
         style={{ backgroundColor: "var(--tg-theme-button-color, #5288c1)" }}
       >
-        Back to Home
+        {t("app.backToHome")}
       </button>
     </div>
   );
@@ -0,0 +1,139 @@
+import { useDeletedBooks } from "@/hooks/use-deleted-books";
+import { useRestoreBook } from "@/hooks/use-restore-book";
+import { useTranslation } from "@/hooks/use-translation";
+import type { DeletedBook } from "@/types";
+import { popup } from "@telegram-apps/sdk-react";
+
+type DeletedBooksViewProps = {
+  onRestored: (bookId: number) => void;
+};
+
+/**
+ * Admin list of deleted books, most recently deleted first, for restoring a
+ * book once the undo popup after deleting it is gone
+ */
+export function DeletedBooksView({ onRestored }: DeletedBooksViewProps) {
+  const { t } = useTranslation();
+  const { data: books = [], isLoading } = useDeletedBooks();
+  const restoreBook = useRestoreBook();
+
+  async function handleRestore(book: DeletedBook) {
+    try {
+      await restoreBook.mutateAsync(book.id);
+    } catch (error) {
+      popup.show({
+        title: t("app.admin.restoreFailed.title"),
+        message:
+          error instanceof Error
+            ? error.message
+            : t("app.admin.restoreFailed.message"),
+        buttons: [{ type: "ok" }],
+      });
+      return;
+    }
+    onRestored(book.id);
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center bg-[var(--tg-theme-bg-color,#fff)]">
+        <div className="flex flex-col items-center gap-4">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-[var(--tg-theme-button-color,#5288c1)] border-t-transparent" />
+          <p className="text-[var(--tg-theme-hint-color,#999)]">
+            {t("app.admin.deletedBooks.loading")}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col gap-3 bg-[var(--tg-theme-bg-color,#fff)] p-4">
+      <h1 className="pl-1 text-lg font-semibold text-[var(--tg-theme-text-color,#000)]">
+        {t("app.admin.deletedBooks.title")}
+      </h1>
+
+      {books.length === 0 ? (
+        <div className="overflow-hidden rounded-2xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)]">
+          <p className="py-8 text-center text-sm text-[var(--tg-theme-hint-color,#999)]">
+            {t("app.admin.deletedBooks.empty")}
+          </p>
+        </div>
+      ) : (
+        <div className="flex flex-col overflow-hidden rounded-2xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)]">
+          {books.map((book, index) => (
+            <DeletedBookRow
+              key={book.id}
+              book={book}
+              index={index}
+              restoring={
+                restoreBook.isPending && restoreBook.variables === book.id
+              }
+              disabled={restoreBook.isPending}
+              onRestore={() => handleRestore(book)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DeletedBookRow({
+  book,
+  index,
+  restoring,
+  disabled,
+  onRestore,
+}: {
+  book: DeletedBook;
+  index: number;
+  restoring: boolean;
+  disabled: boolean;
+  onRestore: () => void;
+}) {
+  const { t, date } = useTranslation();
+
+  return (
+    <>
+      {index > 0 && <div className="mx-4 h-px bg-tg-separator" />}
+      <div className="flex w-full items-center gap-3 p-3">
+        {book.imageUrl ? (
+          <img
+            src={book.imageUrl}
+            alt={book.title}
+            className="h-16 w-11 flex-shrink-0 rounded-md bg-[var(--tg-theme-bg-color,#fff)] object-cover opacity-60"
+          />
+        ) : (
+          <div className="flex h-16 w-11 flex-shrink-0 items-center justify-center rounded-md bg-[var(--tg-theme-bg-color,#fff)]">
+            <span className="text-xl">📚</span>
+          </div>
+        )}
+        <div className="min-w-0 flex-1">
+          <p className="truncate font-medium text-[var(--tg-theme-text-color,#000)]">
+            {book.title}
+          </p>
+          <p className="truncate text-sm text-[var(--tg-theme-hint-color,#999)]">
+            {book.author}
+          </p>
+          <p className="mt-0.5 text-xs text-[var(--tg-theme-subtitle-text-color,#6d6d71)]">
+            <span className="font-mono">{book.isbn}</span> ·{" "}
+            {t("app.admin.deletedBooks.deletedOn", {
+              date: date(book.deletedAt, "medium"),
+            })}
+          </p>
+        </div>
+        <button
+          onClick={onRestore}
+          disabled={disabled}
+          className="flex-shrink-0 rounded-lg px-3 py-1.5 text-xs font-medium text-[var(--tg-theme-button-text-color,#fff)] disabled:opacity-50"
+          style={{ backgroundColor: "var(--tg-theme-button-color, #5288c1)" }}
+        >
+          {restoring
+            ? t("app.admin.deletedBooks.restoring")
+            : t("app.admin.deletedBooks.restore")}
+        </button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,149 @@
+import { useLocations } from "@/hooks/use-locations";
+import { useTranslation } from "@/hooks/use-translation";
+import { useUpdateLocationPolicy } from "@/hooks/use-update-location-policy";
+import type { Location } from "@/types";
+import { popup } from "@telegram-apps/sdk-react";
+import { useState } from "react";
+
+export function LoanPoliciesView() {
+  const { t } = useTranslation();
+  const { data: locations = [], isLoading } = useLocations();
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center bg-[var(--tg-theme-bg-color,#fff)]">
+        <div className="flex flex-col items-center gap-4">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-[var(--tg-theme-button-color,#5288c1)] border-t-transparent" />
+          <p className="text-[var(--tg-theme-hint-color,#999)]">
+            {t("app.admin.policies.loading")}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col gap-3 bg-[var(--tg-theme-bg-color,#fff)] p-4">
+      <h1 className="pl-1 text-lg font-semibold text-[var(--tg-theme-text-color,#000)]">
+        {t("app.admin.policies.title")}
+      </h1>
+      <p className="pl-1 text-xs text-[var(--tg-theme-hint-color,#999)]">
+        {t("app.admin.policies.hint")}
+      </p>
+
+      {locations.map((location) => (
+        <LocationPolicyForm key={location.id} location={location} />
+      ))}
+    </div>
+  );
+}
+
+function LocationPolicyForm({ location }: { location: Location }) {
+  const { t } = useTranslation();
+  const updatePolicy = useUpdateLocationPolicy();
+  const [loanPeriodDays, setLoanPeriodDays] = useState(
+    String(location.loanPeriodDays),
+  );
+  const [maxRenewals, setMaxRenewals] = useState(String(location.maxRenewals));
+  const [maxLoansPerUser, setMaxLoansPerUser] = useState(
+    location.maxLoansPerUser === null ? "" : String(location.maxLoansPerUser),
+  );
+
+  const changed =
+    loanPeriodDays !== String(location.loanPeriodDays) ||
+    maxRenewals !== String(location.maxRenewals) ||
+    maxLoansPerUser !==
+      (location.maxLoansPerUser === null
+        ? ""
+        : String(location.maxLoansPerUser));
+
+  async function handleSave() {
+    try {
+      await updatePolicy.mutateAsync({
+        locationId: location.id,
+        loanPeriodDays: Number(loanPeriodDays),
+        maxRenewals: Number(maxRenewals),
+        // Left blank, people can borrow any number of books from here
+        maxLoansPerUser: maxLoansPerUser.trim()
+          ? Number(maxLoansPerUser)
+          : null,
+      });
+    } catch (error) {
+      popup.show({
+        title: t("app.admin.policyFailed.title"),
+        message:
+          error instanceof Error
+            ? error.message
+            : t("app.admin.policyFailed.message"),
+        buttons: [{ type: "ok" }],
+      });
+    }
+  }
+
+  const inputClass =
+    "w-20 rounded-lg bg-[var(--tg-theme-bg-color,#fff)] px-3 py-2 text-right text-sm text-[var(--tg-theme-text-color,#000)] placeholder-[var(--tg-theme-hint-color,#999)] outline-none";
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)] p-4">
+      <p className="font-medium text-[var(--tg-theme-text-color,#000)]">
+        {location.name}
+      </p>
+      <PolicyField label={t("app.admin.policies.loanPeriodDays")}>
+        <input
+          type="number"
+          inputMode="numeric"
+          min={1}
+          value={loanPeriodDays}
+          onChange={(e) => setLoanPeriodDays(e.target.value)}
+          className={inputClass}
+        />
+      </PolicyField>
+      <PolicyField label={t("app.admin.policies.maxRenewals")}>
+        <input
+          type="number"
+          inputMode="numeric"
+          min={0}
+          value={maxRenewals}
+          onChange={(e) => setMaxRenewals(e.target.value)}
+          className={inputClass}
+        />
+      </PolicyField>
+      <PolicyField label={t("app.admin.policies.maxLoansPerUser")}>
+        <input
+          type="number"
+          inputMode="numeric"
+          min={1}
+          placeholder={t("app.admin.policies.noLimit")}
+          value={maxLoansPerUser}
+          onChange={(e) => setMaxLoansPerUser(e.target.value)}
+          className={inputClass}
+        />
+      </PolicyField>
+      <button
+        onClick={handleSave}
+        disabled={!changed || updatePolicy.isPending}
+        className="w-full rounded-xl py-2.5 text-sm font-medium text-[var(--tg-theme-button-text-color,#fff)] disabled:opacity-50"
+        style={{ backgroundColor: "var(--tg-theme-button-color, #5288c1)" }}
+      >
+        {updatePolicy.isPending
+          ? t("app.admin.saving")
+          : t("app.admin.policies.save")}
+      </button>
+    </div>
+  );
+}
+
+function PolicyField({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-3 text-sm text-[var(--tg-theme-text-color,#000)]">
+      {label}
+      {children}
+    </label>
+  );
+}
@@ -0,0 +1,131 @@
+import { useHideHistoryEntry } from "@/hooks/use-hide-history-entry";
+import { useLoanHistory } from "@/hooks/use-loan-history";
+import { useTranslation } from "@/hooks/use-translation";
+import { useUpdateHistorySettings } from "@/hooks/use-update-history-settings";
+import { popup } from "@telegram-apps/sdk-react";
+import { useState } from "react";
+
+export function ReadingHistory() {
+  const { t, date } = useTranslation();
+  const [page, setPage] = useState(1);
+  const { data: history, isLoading } = useLoanHistory(page);
+  const hideMutation = useHideHistoryEntry();
+  const settingsMutation = useUpdateHistorySettings();
+
+  const enabled = history?.enabled ?? true;
+  const entries = history?.entries ?? [];
+
+  async function handleToggle() {
+    if (enabled) {
+      const buttonId = await popup.show({
+        title: t("app.history.turnOffTitle"),
+        message: t("app.history.turnOffMessage"),
+        buttons: [
+          {
+            id: "off",
+            type: "destructive",
+            text: t("app.history.turnOffButton"),
+          },
+          { id: "cancel", type: "cancel" },
+        ],
+      });
+      if (buttonId !== "off") return;
+    }
+
+    settingsMutation.mutate(!enabled, {
+      onSuccess: () => setPage(1),
+    });
+  }
+
+  return (
+    <div className="flex flex-col gap-3 mt-4">
+      <h2 className="pl-[15px] text-xs font-medium uppercase tracking-wide text-[var(--tg-theme-section-header-text-color,#6d6d71)]">
+        {t("app.history.title")}
+      </h2>
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="h-6 w-6 animate-spin rounded-full border-2 border-[var(--tg-theme-button-color,#5288c1)] border-t-transparent" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="overflow-hidden rounded-2xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)]">
+          <p className="py-8 text-center text-sm text-[var(--tg-theme-hint-color,#999)]">
+            {enabled ? t("app.history.empty") : t("app.history.off")}
+          </p>
+        </div>
+      ) : (
+        <div className="flex flex-col overflow-hidden rounded-2xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)]">
+          {entries.map((entry, index) => (
+            <div key={entry.id}>
+              {index > 0 && <div className="mx-8 h-px bg-tg-separator" />}
+              <div className="flex items-center gap-3 p-3">
+                {entry.imageUrl ? (
+                  <img
+                    src={entry.imageUrl}
+                    alt={entry.title}
+                    className="h-16 w-11 rounded-md bg-[var(--tg-theme-bg-color,#fff)]"
+                  />
+                ) : (
+                  <div className="flex h-16 w-11 items-center justify-center rounded-md bg-[var(--tg-theme-bg-color,#fff)]">
+                    <span className="text-xl">📚</span>
+                  </div>
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium text-[var(--tg-theme-text-color,#000)]">
+                    {entry.title}
+                  </p>
+                  <p className="text-sm text-[var(--tg-theme-hint-color,#999)]">
+                    {entry.author}
+                  </p>
+                  <p className="mt-0.5 text-xs text-[var(--tg-theme-subtitle-text-color,#999)]">
+                    {date(entry.borrowedAt, "medium")} –{" "}
+                    {date(entry.returnedAt, "medium")}
+                  </p>
+                </div>
+                <button
+                  onClick={() => hideMutation.mutate(entry.id)}
+                  disabled={hideMutation.isPending}
+                  className="flex-shrink-0 rounded-lg px-3 py-1.5 text-sm font-medium text-[var(--tg-theme-hint-color,#999)] bg-[var(--tg-theme-bg-color,#fff)] disabled:opacity-50"
+                >
+                  {t("app.history.hide")}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {history && history.totalPages > 1 && (
+        <div className="flex items-center justify-between px-[15px] text-sm">
+          <button
+            onClick={() => setPage(history.page - 1)}
+            disabled={history.page <= 1}
+            className="font-medium text-[var(--tg-theme-link-color,#5288c1)] disabled:opacity-40"
+          >
+            {t("app.history.previous")}
+          </button>
+          <span className="text-[var(--tg-theme-hint-color,#999)]">
+            {t("app.history.page", {
+              page: history.page,
+              totalPages: history.totalPages,
+            })}
+          </span>
+          <button
+            onClick={() => setPage(history.page + 1)}
+            disabled={history.page >= history.totalPages}
+            className="font-medium text-[var(--tg-theme-link-color,#5288c1)] disabled:opacity-40"
+          >
+            {t("app.history.next")}
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={handleToggle}
+        disabled={settingsMutation.isPending}
+        className="pl-[15px] text-left text-sm text-[var(--tg-theme-link-color,#5288c1)] disabled:opacity-50"
+      >
+        {enabled ? t("app.history.turnOff") : t("app.history.keep")}
+      </button>
+    </div>
+  );
+}
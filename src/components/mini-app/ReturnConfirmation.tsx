@@ -1,4 +1,5 @@
 import type { ReturnResult } from "@/hooks/use-return-book";
+import { useTranslation } from "@/hooks/use-translation";
 import confetti from "canvas-confetti";
 import { useCallback, useEffect, useState } from "react";
 
@@ -11,6 +12,8 @@ export function ReturnConfirmation({
     result: ReturnResult;
     onDone: () => void;
 }) {
+    const { t } = useTranslation();
+
     // ===== TEMPORARY: Animation key to retrigger animation on tap =====
     const [animationKey, setAnimationKey] = useState(0);
     const handleRetrigger = useCallback(() => {
@@ -73,13 +76,13 @@ export function ReturnConfirmation({
 
             <div className="flex flex-col gap-2 text-center">
                 <h2 className="text-xl font-bold text-[var(--tg-theme-text-color,#000)]">
-                    Book Returned!
+                    {t("app.returned.title")}
                 </h2>
                 <p className="text-[var(--tg-theme-hint-color,#999)]">
-                    Thank you for returning
+                    {t("app.returned.subtitle")}
                 </p>
                 <p className="font-semibold text-[var(--tg-theme-text-color,#000)]">
-                    {result.book?.title ?? "Unknown Book"}
+                    {result.book?.title ?? t("app.unknownBook")}
                 </p>
             </div>
 
@@ -91,7 +94,7 @@ export function ReturnConfirmation({
                 className="mt-2 w-full max-w-sm rounded-xl py-3.5 font-medium text-[var(--tg-theme-button-text-color,#fff)]"
                 style={{ backgroundColor: "var(--tg-theme-button-color, #5288c1)" }}
             >
-                Done
+                {t("app.done")}
             </button>
         </div>
     );
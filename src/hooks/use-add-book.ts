@@ -0,0 +1,78 @@
+import { client } from "@/lib/api-client";
+import type { Book } from "@/types";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData } from "@telegram-apps/sdk-react";
+
+type AddBookParams = {
+  isbn: string;
+  title: string;
+  author: string;
+  description?: string;
+  imageUrl?: string | null;
+};
+
+/**
+ * Thrown when the ISBN is already in the catalogue.
+ * Carries the existing book so the admin can add a copy to it instead, or
+ * restore it if it was deleted.
+ */
+export class DuplicateBookError extends Error {
+  bookId: number;
+  deleted: boolean;
+
+  constructor(message: string, bookId: number, deleted = false) {
+    super(message);
+    this.name = "DuplicateBookError";
+    this.bookId = bookId;
+    this.deleted = deleted;
+  }
+}
+
+/**
+ * Hook to add a new title to the catalogue (admin only).
+ * Uses Telegram initData for authentication.
+ */
+export function useAddBook() {
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: AddBookParams): Promise<Book> => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.books.$post(
+        {
+          json: params,
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      // The ISBN is already in the catalogue
+      if (res.status === 409) {
+        const data = await res.json();
+        if ("bookId" in data) {
+          throw new DuplicateBookError(data.error, data.bookId, data.deleted);
+        }
+        throw new Error("Failed to add book");
+      }
+
+      const data = await res.json();
+
+      if (!res.ok || !("book" in data)) {
+        throw new Error("error" in data ? data.error : "Failed to add book");
+      }
+
+      return data.book;
+    },
+    onSuccess: () => {
+      // Show the new title in the admin books list
+      queryClient.invalidateQueries({ queryKey: ["all-books"] });
+    },
+  });
+}
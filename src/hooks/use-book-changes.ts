@@ -0,0 +1,38 @@
+import { client } from "@/lib/api-client";
+import type { BookChange } from "@/types";
+import { useQuery } from "@tanstack/react-query";
+import { initData } from "@telegram-apps/sdk-react";
+
+/**
+ * Hook to fetch the change log of a book's metadata (admin only).
+ * Uses Telegram initData for authentication.
+ */
+export function useBookChanges(bookId: number) {
+  const initDataRaw = initData.raw();
+
+  return useQuery({
+    queryKey: ["book-changes", bookId],
+    queryFn: async (): Promise<BookChange[]> => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.books[":bookId"].changes.$get(
+        { param: { bookId: String(bookId) } },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      if (!res.ok) {
+        throw new Error("Failed to fetch change log");
+      }
+
+      const data = await res.json();
+      return data.changes as BookChange[];
+    },
+    enabled: !!initDataRaw,
+  });
+}
@@ -1,5 +1,6 @@
 import { client } from "@/lib/api-client";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { LoanLimit } from "@/types";
 import { initData, useSignal } from "@telegram-apps/sdk-react";
 
 export type BorrowResult = {
@@ -15,9 +16,29 @@ export type BorrowResult = {
     imageUrl?: string | null;
   };
   copyNumber?: number;
+  // Loan policy of the copy's location that was applied to this loan
+  policy?: {
+    location: string;
+    loanPeriodDays: number;
+    maxRenewals: number;
+  };
   error?: string;
 };
 
+/**
+ * Thrown when the user already has as many books as they're allowed to borrow.
+ * Carries the loans they need to return first.
+ */
+export class LoanLimitError extends Error {
+  loanLimit: LoanLimit;
+
+  constructor(message: string, loanLimit: LoanLimit) {
+    super(message);
+    this.name = "LoanLimitError";
+    this.loanLimit = loanLimit;
+  }
+}
+
 /**
  * Hook to borrow a book via the Mini App API.
  * Uses Telegram initData for authentication.
@@ -47,6 +68,9 @@ export function useBorrowBook() {
       const data = await res.json();
 
       if (!res.ok) {
+        if ("error" in data && "loanLimit" in data && data.loanLimit) {
+          throw new LoanLimitError(data.error, data.loanLimit as LoanLimit);
+        }
         throw new Error("error" in data ? data.error : "Failed to borrow book");
       }
 
@@ -0,0 +1,40 @@
+import { client } from "@/lib/api-client";
+import { useQuery } from "@tanstack/react-query";
+import { initData, useSignal } from "@telegram-apps/sdk-react";
+
+/**
+ * Hook to fetch the URL of the user's due-date calendar feed.
+ * Only fetched while `enabled` (i.e. the user has loans to put in it).
+ */
+export function useCalendarFeed(enabled: boolean) {
+  const user = useSignal(initData.user);
+  const initDataRaw = initData.raw();
+
+  return useQuery({
+    queryKey: ["calendar-feed", user?.id],
+    queryFn: async (): Promise<string> => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.calendar.$get(
+        {},
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      if (!res.ok) {
+        throw new Error("Failed to fetch calendar feed");
+      }
+
+      const data = await res.json();
+      return data.url;
+    },
+    enabled: enabled && !!user?.id && !!initDataRaw,
+    // The URL only changes if the bot token does
+    staleTime: Infinity,
+  });
+}
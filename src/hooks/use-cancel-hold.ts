@@ -0,0 +1,44 @@
+import { client } from "@/lib/api-client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData, useSignal } from "@telegram-apps/sdk-react";
+
+/**
+ * Hook to cancel one of the user's holds via the Mini App API.
+ * Uses Telegram initData for authentication.
+ */
+export function useCancelHold() {
+  const user = useSignal(initData.user);
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (holdId: number): Promise<{ success: boolean }> => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.holds[":holdId"].cancel.$post(
+        {
+          param: { holdId: String(holdId) },
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error("error" in data ? data.error : "Failed to cancel hold");
+      }
+
+      return data as { success: boolean };
+    },
+    onSuccess: () => {
+      // Invalidate holds query to refresh the user's holds
+      queryClient.invalidateQueries({ queryKey: ["user-holds", user?.id] });
+    },
+  });
+}
@@ -0,0 +1,63 @@
+import { client } from "@/lib/api-client";
+import type { CopyStatus } from "@shared/copy-status";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData } from "@telegram-apps/sdk-react";
+
+type ChangeCopyStatusParams = {
+  bookId: number;
+  qrCodeId: string;
+  status: CopyStatus;
+  reason: string;
+};
+
+/**
+ * Hook to move a book copy to another lifecycle state (admin only).
+ * Uses Telegram initData for authentication.
+ */
+export function useChangeCopyStatus() {
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      qrCodeId,
+      status,
+      reason,
+    }: ChangeCopyStatusParams) => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.admin.copies[
+        ":qrCodeId"
+      ].status.$post(
+        {
+          param: { qrCodeId },
+          json: { status, reason },
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(
+          "error" in data ? data.error : "Failed to change copy status",
+        );
+      }
+
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      // Refresh the copies list and this copy's history
+      queryClient.invalidateQueries({ queryKey: ["book", variables.bookId] });
+      queryClient.invalidateQueries({
+        queryKey: ["copy-status-history", variables.qrCodeId],
+      });
+    },
+  });
+}
@@ -0,0 +1,40 @@
+import { client } from "@/lib/api-client";
+import type { CopyStatusChange } from "@/types";
+import { useQuery } from "@tanstack/react-query";
+import { initData } from "@telegram-apps/sdk-react";
+
+/**
+ * Hook to fetch who changed a copy's lifecycle state and why (admin only).
+ * Uses Telegram initData for authentication.
+ */
+export function useCopyStatusHistory(qrCodeId: string | null) {
+  const initDataRaw = initData.raw();
+
+  return useQuery({
+    queryKey: ["copy-status-history", qrCodeId],
+    queryFn: async (): Promise<CopyStatusChange[]> => {
+      if (!initDataRaw || !qrCodeId) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.admin.copies[":qrCodeId"][
+        "status-history"
+      ].$get(
+        { param: { qrCodeId } },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      if (!res.ok) {
+        throw new Error("Failed to fetch status history");
+      }
+
+      const data = await res.json();
+      return data.history as CopyStatusChange[];
+    },
+    enabled: !!qrCodeId && !!initDataRaw,
+  });
+}
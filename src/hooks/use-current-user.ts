@@ -1,4 +1,5 @@
 import { client } from "@/lib/api-client";
+import type { Locale } from "@shared/i18n";
 import { useQuery } from "@tanstack/react-query";
 import { initData, useSignal } from "@telegram-apps/sdk-react";
 
@@ -10,8 +11,14 @@ export type CurrentUser = {
   photoUrl?: string;
 };
 
+type CurrentUserResponse = {
+  user: CurrentUser;
+  isAdmin: boolean;
+  locale: Locale;
+};
+
 /**
- * Hook to fetch current user info and admin status from the Mini App API.
+ * Hook to fetch current user info, admin status and language from the Mini App API.
  * Uses Telegram initData for authentication.
  */
 export function useCurrentUser() {
@@ -20,7 +27,7 @@ export function useCurrentUser() {
 
   return useQuery({
     queryKey: ["current-user", user?.id],
-    queryFn: async (): Promise<{ user: CurrentUser; isAdmin: boolean }> => {
+    queryFn: async (): Promise<CurrentUserResponse> => {
       if (!initDataRaw) {
         throw new Error("Init data not available");
       }
@@ -39,7 +46,7 @@ export function useCurrentUser() {
       }
 
       const data = await res.json();
-      return data as { user: CurrentUser; isAdmin: boolean };
+      return data as CurrentUserResponse;
     },
     enabled: !!user?.id && !!initDataRaw,
     // Admin data is basically static data
@@ -0,0 +1,45 @@
+import { client } from "@/lib/api-client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData } from "@telegram-apps/sdk-react";
+
+/**
+ * Hook to soft-delete a book (admin only). Resolves with the ID of the logged
+ * change, which can be reverted to restore the book.
+ * Uses Telegram initData for authentication.
+ */
+export function useDeleteBook() {
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (bookId: number): Promise<number> => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.books[":bookId"].$delete(
+        {
+          param: { bookId: String(bookId) },
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      if (!res.ok || !("changeId" in data)) {
+        throw new Error("error" in data ? data.error : "Failed to delete book");
+      }
+
+      return data.changeId;
+    },
+    onSuccess: (_, bookId) => {
+      queryClient.invalidateQueries({ queryKey: ["book-changes", bookId] });
+      queryClient.invalidateQueries({ queryKey: ["all-books"] });
+      queryClient.invalidateQueries({ queryKey: ["deleted-books"] });
+    },
+  });
+}
@@ -0,0 +1,38 @@
+import { client } from "@/lib/api-client";
+import type { DeletedBook } from "@/types";
+import { useQuery } from "@tanstack/react-query";
+import { initData } from "@telegram-apps/sdk-react";
+
+/**
+ * Hook to fetch the books admins have deleted, most recent first (admin only).
+ * Uses Telegram initData for authentication.
+ */
+export function useDeletedBooks() {
+  const initDataRaw = initData.raw();
+
+  return useQuery({
+    queryKey: ["deleted-books"],
+    queryFn: async (): Promise<DeletedBook[]> => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.admin.books.deleted.$get(
+        {},
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      if (!res.ok) {
+        throw new Error("Failed to fetch deleted books");
+      }
+
+      const data = await res.json();
+      return data.books as DeletedBook[];
+    },
+    enabled: !!initDataRaw,
+  });
+}
@@ -0,0 +1,50 @@
+import { client } from "@/lib/api-client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData } from "@telegram-apps/sdk-react";
+
+type ExtendLoanParams = {
+  bookId: number;
+  loanId: number;
+  dueDate: string;
+};
+
+/**
+ * Hook to move a loan's due date (admin only).
+ * Uses Telegram initData for authentication.
+ */
+export function useExtendLoan() {
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ loanId, dueDate }: ExtendLoanParams) => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.admin.loans[":loanId"].extend.$post(
+        {
+          param: { loanId: String(loanId) },
+          json: { dueDate },
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error("error" in data ? data.error : "Failed to extend loan");
+      }
+
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      // Refresh the copies list
+      queryClient.invalidateQueries({ queryKey: ["book", variables.bookId] });
+    },
+  });
+}
@@ -0,0 +1,50 @@
+import { client } from "@/lib/api-client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData } from "@telegram-apps/sdk-react";
+
+type ForceReturnParams = {
+  bookId: number;
+  loanId: number;
+};
+
+/**
+ * Hook to mark a loan as returned on the borrower's behalf (admin only).
+ * Uses Telegram initData for authentication.
+ */
+export function useForceReturnLoan() {
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ loanId }: ForceReturnParams) => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.admin.loans[":loanId"].return.$post(
+        {
+          param: { loanId: String(loanId) },
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(
+          "error" in data ? data.error : "Failed to mark loan returned",
+        );
+      }
+
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      // Refresh the copies list
+      queryClient.invalidateQueries({ queryKey: ["book", variables.bookId] });
+    },
+  });
+}
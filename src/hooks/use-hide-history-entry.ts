@@ -0,0 +1,45 @@
+import { client } from "@/lib/api-client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData, useSignal } from "@telegram-apps/sdk-react";
+
+/**
+ * Hook to remove a returned loan from the user's reading history.
+ * Uses Telegram initData for authentication.
+ */
+export function useHideHistoryEntry() {
+  const user = useSignal(initData.user);
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (loanId: number): Promise<{ success: boolean }> => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.history[":loanId"].hide.$post(
+        {
+          param: { loanId: String(loanId) },
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(
+          "error" in data ? data.error : "Failed to hide history entry",
+        );
+      }
+
+      return data as { success: boolean };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["loan-history", user?.id] });
+    },
+  });
+}
@@ -0,0 +1,54 @@
+import { client } from "@/lib/api-client";
+import { useQuery } from "@tanstack/react-query";
+import { initData } from "@telegram-apps/sdk-react";
+
+export type IsbnMetadata = {
+  isbn: string;
+  title: string;
+  authors: string[];
+  description: string | null;
+  coverUrl: string | null;
+};
+
+/**
+ * Hook to look up a book's title, authors, description and cover by ISBN
+ * (admin only), for prefilling the add title form.
+ * Resolves with null when the ISBN isn't known. Pass a normalized ISBN-13.
+ */
+export function useIsbnMetadata(isbn: string | null) {
+  const initDataRaw = initData.raw();
+
+  return useQuery({
+    queryKey: ["isbn-metadata", isbn],
+    queryFn: async (): Promise<IsbnMetadata | null> => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.admin.isbn[":isbn"].$get(
+        {
+          param: { isbn: isbn! },
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      if (!res.ok || !("metadata" in data)) {
+        throw new Error(
+          "error" in data ? data.error : "Failed to look up ISBN",
+        );
+      }
+
+      return data.metadata;
+    },
+    enabled: !!isbn && !!initDataRaw,
+    // Cached on the server too, so there's no need to fetch again
+    staleTime: Infinity,
+    retry: false,
+  });
+}
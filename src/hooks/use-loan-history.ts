@@ -0,0 +1,57 @@
+import { client } from "@/lib/api-client";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { initData, useSignal } from "@telegram-apps/sdk-react";
+
+export type LoanHistoryEntry = {
+  id: number;
+  title: string;
+  author: string;
+  imageUrl?: string | null;
+  copyNumber: number;
+  borrowedAt: string;
+  returnedAt: string;
+};
+
+export type LoanHistory = {
+  enabled: boolean;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  total: number;
+  entries: LoanHistoryEntry[];
+};
+
+/**
+ * Hook to fetch a page of the authenticated user's returned loans.
+ * Uses Telegram initData for authentication.
+ */
+export function useLoanHistory(page: number) {
+  const user = useSignal(initData.user);
+  const initDataRaw = initData.raw();
+
+  return useQuery({
+    queryKey: ["loan-history", user?.id, page],
+    queryFn: async (): Promise<LoanHistory> => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.history.$get(
+        { query: { page: String(page) } },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      if (!res.ok) {
+        throw new Error("Failed to fetch reading history");
+      }
+
+      return (await res.json()) as LoanHistory;
+    },
+    enabled: !!user?.id && !!initDataRaw,
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,56 @@
+import { client } from "@/lib/api-client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData, useSignal } from "@telegram-apps/sdk-react";
+
+export type PlaceHoldResult = {
+  success: boolean;
+  hold?: {
+    id: number;
+    bookId: number;
+    status: string;
+    createdAt: string;
+  };
+  position?: number;
+  error?: string;
+};
+
+/**
+ * Hook to place a hold on a book via the Mini App API.
+ * Uses Telegram initData for authentication.
+ */
+export function usePlaceHold() {
+  const user = useSignal(initData.user);
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (bookId: number): Promise<PlaceHoldResult> => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.books[":bookId"].holds.$post(
+        {
+          param: { bookId: String(bookId) },
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error("error" in data ? data.error : "Failed to place hold");
+      }
+
+      return data as PlaceHoldResult;
+    },
+    onSuccess: () => {
+      // Invalidate holds query to refresh the user's queue positions
+      queryClient.invalidateQueries({ queryKey: ["user-holds", user?.id] });
+    },
+  });
+}
@@ -0,0 +1,59 @@
+import { client } from "@/lib/api-client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData } from "@telegram-apps/sdk-react";
+
+type ReassignLoanParams = {
+  bookId: number;
+  loanId: number;
+  telegramUserId: number;
+  telegramUsername?: string;
+};
+
+/**
+ * Hook to hand a loan over to a different borrower (admin only).
+ * Uses Telegram initData for authentication.
+ */
+export function useReassignLoan() {
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      loanId,
+      telegramUserId,
+      telegramUsername,
+    }: ReassignLoanParams) => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.admin.loans[
+        ":loanId"
+      ].reassign.$post(
+        {
+          param: { loanId: String(loanId) },
+          json: { telegramUserId, telegramUsername },
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(
+          "error" in data ? data.error : "Failed to reassign loan",
+        );
+      }
+
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      // Refresh the copies list
+      queryClient.invalidateQueries({ queryKey: ["book", variables.bookId] });
+    },
+  });
+}
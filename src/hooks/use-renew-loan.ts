@@ -0,0 +1,63 @@
+import { client } from "@/lib/api-client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData, useSignal } from "@telegram-apps/sdk-react";
+
+export type RenewResult = {
+  success: boolean;
+  loan?: {
+    id: number;
+    borrowedAt: string;
+    dueDate: string;
+    renewalCount: number;
+  };
+  book?: {
+    title: string;
+    author: string;
+  };
+  renewalsRemaining?: number;
+  error?: string;
+};
+
+/**
+ * Hook to renew a loan via the Mini App API.
+ * Uses Telegram initData for authentication.
+ */
+export function useRenewLoan() {
+  const user = useSignal(initData.user);
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (qrCodeId: string): Promise<RenewResult> => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.books[":qrCodeId"].renew.$post(
+        {
+          param: { qrCodeId },
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error("error" in data ? data.error : "Failed to renew loan");
+      }
+
+      return data as RenewResult;
+    },
+    onSuccess: (_, qrCodeId) => {
+      // Refresh the user's loans and the copy's due date
+      queryClient.invalidateQueries({ queryKey: ["user-loans", user?.id] });
+      queryClient.invalidateQueries({
+        queryKey: ["book-copy-lookup", qrCodeId],
+      });
+    },
+  });
+}
@@ -0,0 +1,47 @@
+import { client } from "@/lib/api-client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData } from "@telegram-apps/sdk-react";
+
+/**
+ * Hook to bring back a deleted book (admin only).
+ * Uses Telegram initData for authentication.
+ */
+export function useRestoreBook() {
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (bookId: number) => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.books[":bookId"].restore.$post(
+        {
+          param: { bookId: String(bookId) },
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(
+          "error" in data ? data.error : "Failed to restore book",
+        );
+      }
+
+      return data;
+    },
+    onSuccess: (_, bookId) => {
+      queryClient.invalidateQueries({ queryKey: ["book", bookId] });
+      queryClient.invalidateQueries({ queryKey: ["book-changes", bookId] });
+      queryClient.invalidateQueries({ queryKey: ["all-books"] });
+      queryClient.invalidateQueries({ queryKey: ["deleted-books"] });
+    },
+  });
+}
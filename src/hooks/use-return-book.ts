@@ -50,6 +50,7 @@ export function useReturnBook() {
     onSuccess: () => {
       // Invalidate loans query to refresh the user's active loans
       queryClient.invalidateQueries({ queryKey: ["user-loans", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["loan-history", user?.id] });
     },
   });
 }
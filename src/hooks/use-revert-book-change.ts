@@ -0,0 +1,55 @@
+import { client } from "@/lib/api-client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData } from "@telegram-apps/sdk-react";
+
+type RevertBookChangeParams = {
+  bookId: number;
+  changeId: number;
+};
+
+/**
+ * Hook to undo a logged change to a book (admin only): puts back the previous
+ * values of an edit, or restores a deleted book.
+ * Uses Telegram initData for authentication.
+ */
+export function useRevertBookChange() {
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ bookId, changeId }: RevertBookChangeParams) => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.books[":bookId"].changes[
+        ":changeId"
+      ].revert.$post(
+        {
+          param: { bookId: String(bookId), changeId: String(changeId) },
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error("error" in data ? data.error : "Failed to undo change");
+      }
+
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["book", variables.bookId] });
+      queryClient.invalidateQueries({
+        queryKey: ["book-changes", variables.bookId],
+      });
+      queryClient.invalidateQueries({ queryKey: ["all-books"] });
+      queryClient.invalidateQueries({ queryKey: ["deleted-books"] });
+    },
+  });
+}
@@ -0,0 +1,16 @@
+import { getTranslator, resolveLocale, type Translator } from "@shared/i18n";
+import { useMemo } from "react";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useTelegramUser } from "@/hooks/use-telegram-user";
+
+/**
+ * Hook for the Mini App's messages and dates in the user's language: their
+ * /language choice once the API has returned it, else their Telegram client's
+ */
+export function useTranslation(): Translator {
+  const telegramUser = useTelegramUser();
+  const { data } = useCurrentUser();
+  const locale = data?.locale ?? resolveLocale(telegramUser?.languageCode);
+
+  return useMemo(() => getTranslator(locale), [locale]);
+}
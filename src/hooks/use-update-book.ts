@@ -0,0 +1,57 @@
+import { client } from "@/lib/api-client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData } from "@telegram-apps/sdk-react";
+
+type UpdateBookParams = {
+  bookId: number;
+  title?: string;
+  author?: string;
+  description?: string;
+  imageUrl?: string | null;
+  tags?: string[];
+};
+
+/**
+ * Hook to edit a book's title, author, description, cover or genres
+ * (admin only).
+ * Uses Telegram initData for authentication.
+ */
+export function useUpdateBook() {
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ bookId, ...changes }: UpdateBookParams) => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.books[":bookId"].$patch(
+        {
+          param: { bookId: String(bookId) },
+          json: changes,
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error("error" in data ? data.error : "Failed to update book");
+      }
+
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["book", variables.bookId] });
+      queryClient.invalidateQueries({
+        queryKey: ["book-changes", variables.bookId],
+      });
+      queryClient.invalidateQueries({ queryKey: ["all-books"] });
+    },
+  });
+}
@@ -0,0 +1,42 @@
+import { client } from "@/lib/api-client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData, useSignal } from "@telegram-apps/sdk-react";
+
+/**
+ * Hook to turn the user's reading history on or off.
+ * Turning it off also clears the history kept so far.
+ * Uses Telegram initData for authentication.
+ */
+export function useUpdateHistorySettings() {
+  const user = useSignal(initData.user);
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      enabled: boolean,
+    ): Promise<{ success: boolean; enabled: boolean }> => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.history.settings.$put(
+        { json: { enabled } },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      if (!res.ok) {
+        throw new Error("Failed to update history settings");
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["loan-history", user?.id] });
+    },
+  });
+}
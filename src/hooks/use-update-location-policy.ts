@@ -0,0 +1,56 @@
+import { client } from "@/lib/api-client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { initData } from "@telegram-apps/sdk-react";
+
+type UpdateLocationPolicyParams = {
+  locationId: number;
+  loanPeriodDays: number;
+  maxRenewals: number;
+  maxLoansPerUser: number | null;
+};
+
+/**
+ * Hook to change a location's loan policy (admin only).
+ * Existing loans keep their due dates.
+ * Uses Telegram initData for authentication.
+ */
+export function useUpdateLocationPolicy() {
+  const initDataRaw = initData.raw();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      locationId,
+      ...policy
+    }: UpdateLocationPolicyParams) => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.locations[":locationId"].$patch(
+        {
+          param: { locationId: String(locationId) },
+          json: policy,
+        },
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(
+          "error" in data ? data.error : "Failed to update loan policy",
+        );
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["locations"] });
+    },
+  });
+}
@@ -0,0 +1,39 @@
+import { client } from "@/lib/api-client";
+import type { Hold } from "@/types";
+import { useQuery } from "@tanstack/react-query";
+import { initData, useSignal } from "@telegram-apps/sdk-react";
+
+/**
+ * Hook to fetch authenticated user's open holds from the Mini App API.
+ * Uses Telegram initData for authentication.
+ */
+export function useUserHolds() {
+  const user = useSignal(initData.user);
+  const initDataRaw = initData.raw();
+
+  return useQuery({
+    queryKey: ["user-holds", user?.id],
+    queryFn: async (): Promise<Hold[]> => {
+      if (!initDataRaw) {
+        throw new Error("Init data not available");
+      }
+
+      const res = await client.api.miniapp.holds.$get(
+        {},
+        {
+          headers: {
+            Authorization: `tma ${initDataRaw}`,
+          },
+        },
+      );
+
+      if (!res.ok) {
+        throw new Error("Failed to fetch holds");
+      }
+
+      const data = await res.json();
+      return data.holds as Hold[];
+    },
+    enabled: !!user?.id && !!initDataRaw,
+  });
+}
@@ -10,6 +10,7 @@ export type ActiveLoan = {
   borrowedAt: string;
   dueDate: string;
   imageUrl?: string | null;
+  renewalsRemaining: number;
 };
 
 /**
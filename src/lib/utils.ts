@@ -45,3 +45,20 @@ export function extractIdFromSlug(slug: string): string | null {
   const match = slug.match(/-(\d+)$/);
   return match ? match[1] : null;
 }
+
+/**
+ * Lists the genres used by a set of books, for filter chips
+ * @param books - Books with their genre names
+ * @returns Genre names, most used first (ties in alphabetical order)
+ */
+export function getGenres(books: { tags?: string[] }[]): string[] {
+  const counts = new Map<string, number>();
+  for (const book of books) {
+    for (const tag of book.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts.keys()].sort(
+    (a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b),
+  );
+}
@@ -1,18 +1,35 @@
+import { AddBookForm, type NewBook } from "@/components/mini-app/AddBookForm";
 import { AddCopyFlow } from "@/components/mini-app/AddCopyFlow";
 import { BookAdminView } from "@/components/mini-app/BookAdminView";
 import { BookDetailView } from "@/components/mini-app/BookDetail";
 import { BookNotFound } from "@/components/mini-app/BookNotFound";
+import { BookOverview } from "@/components/mini-app/BookOverview";
 import { BooksListView } from "@/components/mini-app/BooksListView";
 import { BorrowConfirmation } from "@/components/mini-app/BorrowConfirmation";
+import { DeletedBooksView } from "@/components/mini-app/DeletedBooksView";
+import { LoanPoliciesView } from "@/components/mini-app/LoanPoliciesView";
+import { ReadingHistory } from "@/components/mini-app/ReadingHistory";
 import { ReturnConfirmation } from "@/components/mini-app/ReturnConfirmation";
 import { UserProfile } from "@/components/mini-app/UserProfile";
+import { DuplicateBookError, useAddBook } from "@/hooks/use-add-book";
 import { useAddBookCopy } from "@/hooks/use-add-book-copy";
 import { useBookCopyLookup, useBookDetail } from "@/hooks/use-book-query";
-import { type BorrowResult, useBorrowBook } from "@/hooks/use-borrow-book";
+import {
+  type BorrowResult,
+  LoanLimitError,
+  useBorrowBook,
+} from "@/hooks/use-borrow-book";
+import { useCalendarFeed } from "@/hooks/use-calendar-feed";
+import { useCancelHold } from "@/hooks/use-cancel-hold";
 import { useCurrentUser } from "@/hooks/use-current-user";
 import { useLocations } from "@/hooks/use-locations";
+import { usePlaceHold } from "@/hooks/use-place-hold";
+import { useRenewLoan } from "@/hooks/use-renew-loan";
+import { useRestoreBook } from "@/hooks/use-restore-book";
 import { type ReturnResult, useReturnBook } from "@/hooks/use-return-book";
 import { useTelegramUser } from "@/hooks/use-telegram-user";
+import { useTranslation } from "@/hooks/use-translation";
+import { useUserHolds } from "@/hooks/use-user-holds";
 import { useUserLoans } from "@/hooks/use-user-loans";
 import {
   classifyLocationScan,
@@ -21,8 +38,15 @@ import {
   parseBookQrLink,
 } from "@/lib/qr";
 import { initTelegramSdk } from "@/lib/telegram";
-import type { Book, BookCopy, BookDetail, Location } from "@/types";
-import { backButton, popup, qrScanner } from "@telegram-apps/sdk-react";
+import { CIRCULATING_COPY_STATUSES } from "@shared/copy-status";
+import { looksLikeISBN, normalizeISBN } from "@shared/isbn";
+import type { Book, BookCopy, BookDetail, LoanLimit, Location } from "@/types";
+import {
+  backButton,
+  openLink,
+  popup,
+  qrScanner,
+} from "@telegram-apps/sdk-react";
 import { useEffect, useState } from "react";
 import "../mini-app.css";
 
@@ -34,13 +58,19 @@ type View =
       book: Book;
       copy: BookCopy;
       state: "available" | "borrowed-by-user" | "borrowed-by-other";
+      // Set when a borrow was refused because the user is at the loan cap
+      loanLimit?: LoanLimit;
     }
   | { name: "borrowing"; book: Book; copy: BookCopy }
   | { name: "borrow-confirmation"; result: BorrowResult; copy: BookCopy }
   | { name: "returning"; book: Book; copy: BookCopy }
   | { name: "return-confirmation"; result: ReturnResult; copy: BookCopy }
   | { name: "book-not-found"; scannedText: string }
+  | { name: "book-overview"; bookId: number }
   | { name: "books-list" }
+  | { name: "deleted-books" }
+  | { name: "loan-policies" }
+  | { name: "add-book" }
   | { name: "book-admin"; bookId: number }
   | {
       name: "add-copy";
@@ -62,9 +92,14 @@ function MiniApp() {
       if (startParam) {
         // Check if it's an admin view request (format: admin_<bookId>)
         const adminMatch = startParam.match(/^admin_(\d+)$/);
+        // Book opened from an inline search result (format: book_<bookId>)
+        const bookMatch = startParam.match(/^book_(\d+)$/);
         if (adminMatch) {
           const bookId = parseInt(adminMatch[1], 10);
           setView({ name: "book-admin", bookId });
+        } else if (bookMatch) {
+          const bookId = parseInt(bookMatch[1], 10);
+          setView({ name: "book-overview", bookId });
         } else {
           // Treat as QR code ID (existing behavior)
           setView({ name: "scanning", qrCodeId: startParam });
@@ -74,20 +109,29 @@ function MiniApp() {
   }, []);
 
   const user = useTelegramUser();
+  const { t, date } = useTranslation();
   const { data: currentUserData } = useCurrentUser();
   const isAdmin = currentUserData?.isAdmin ?? false;
   const { data: loans = [], isLoading: loansLoading } = useUserLoans();
+  const { data: holds = [] } = useUserHolds();
+  const { data: calendarUrl } = useCalendarFeed(loans.length > 0);
   const { data: locations = [] } = useLocations();
   const borrowMutation = useBorrowBook();
   const returnMutation = useReturnBook();
+  const renewMutation = useRenewLoan();
+  const placeHoldMutation = usePlaceHold();
+  const cancelHoldMutation = useCancelHold();
+  const addBookMutation = useAddBook();
   const addCopyMutation = useAddBookCopy();
+  const restoreBookMutation = useRestoreBook();
   const [view, setView] = useState<View>({ name: "home" });
 
   // Fetch book detail for admin view
   const adminBookId = view.name === "book-admin" ? view.bookId : null;
   const addCopyBookId = view.name === "add-copy" ? view.bookId : null;
+  const overviewBookId = view.name === "book-overview" ? view.bookId : null;
   const { data: adminBook, isLoading: adminBookLoading } = useBookDetail(
-    adminBookId ?? addCopyBookId,
+    adminBookId ?? addCopyBookId ?? overviewBookId,
   );
 
   // Telegram back button: show on all screens except home
@@ -106,8 +150,14 @@ function MiniApp() {
         case "add-copy-success":
           setView({ name: "book-admin", bookId: view.book.id });
           return;
+        case "add-book":
+        case "deleted-books":
+          setView({ name: "books-list" });
+          return;
         case "books-list":
+        case "loan-policies":
         case "book-detail":
+        case "book-overview":
         case "book-not-found":
         case "borrow-confirmation":
         case "return-confirmation":
@@ -155,9 +205,16 @@ function MiniApp() {
     const isBorrowedByUser = loans.some(
       (loan) => loan.qrCodeId === lookupResult.copy.qrCodeId,
     );
+    // A copy reserved for the user's own hold can be borrowed by them
+    const isReservedForUser = holds.some(
+      (hold) => hold.reservedQrCodeId === lookupResult.copy.qrCodeId,
+    );
     const isBorrowedByOther =
-      lookupResult.copy.status !== "available" ||
-      lookupResult.copy.loans.length > 0;
+      !CIRCULATING_COPY_STATUSES.includes(
+        lookupResult.copy.status ?? "available",
+      ) ||
+      lookupResult.copy.loans.length > 0 ||
+      (!!lookupResult.copy.reservedUntil && !isReservedForUser);
     setView({
       name: "book-detail",
       book: lookupResult.book,
@@ -168,7 +225,7 @@ function MiniApp() {
           ? "borrowed-by-other"
           : "available",
     });
-  }, [view, isLoading, error, lookupResult, loans]);
+  }, [view, isLoading, error, lookupResult, loans, holds]);
 
   function handleScanned(text: string) {
     // Trigger the lookup by setting scanning state
@@ -182,16 +239,15 @@ function MiniApp() {
   async function handleScannerOpen() {
     try {
       const result = await qrScanner.open({
-        text: "Point your camera at a book QR code",
+        text: t("app.scanner.book"),
         capture: () => true,
       });
       if (result) {
         const bookCode = extractBookQrParam(result);
         if (!bookCode) {
           popup.show({
-            title: "Not a Book QR",
-            message:
-              "This doesn't look like a library book QR. Try scanning the code sticker inside the book.",
+            title: t("app.notBookQr.title"),
+            message: t("app.notBookQr.message"),
             buttons: [{ type: "ok" }],
           });
           return;
@@ -206,7 +262,7 @@ function MiniApp() {
   async function handleLocationScan(book: Book, copy: BookCopy) {
     try {
       const scanned = await qrScanner.open({
-        text: `Scan QR at 📍${copy.location.name} to borrow`,
+        text: t("app.scanner.borrowAt", { location: copy.location.name }),
         capture: () => true,
       });
 
@@ -215,9 +271,8 @@ function MiniApp() {
       const scanResult = classifyLocationScan(scanned, copy.location);
       if (scanResult.type === "book") {
         popup.show({
-          title: "Book QR Scanned",
-          message:
-            "You scanned a book QR. For borrowing, scan the location QR posted at the library spot.",
+          title: t("app.bookQrScanned.title"),
+          message: t("app.bookQrScanned.borrow"),
           buttons: [{ type: "ok" }],
         });
         return;
@@ -226,8 +281,11 @@ function MiniApp() {
       if (scanResult.type === "invalid") {
         const scannedLocationName = scanned.trim();
         popup.show({
-          title: "Wrong Location",
-          message: `This book is located at ${copy.location.name}. You scanned "${scannedLocationName || "unknown"}". Please go to the correct location QR.`,
+          title: t("app.wrongLocation.title"),
+          message: t("app.wrongLocation.borrow", {
+            location: copy.location.name,
+            scanned: scannedLocationName || t("app.unknown"),
+          }),
           buttons: [{ type: "ok" }],
         });
         return;
@@ -239,10 +297,23 @@ function MiniApp() {
         const result = await borrowMutation.mutateAsync(copy.qrCodeId);
         setView({ name: "borrow-confirmation", result, copy });
       } catch (error) {
+        if (error instanceof LoanLimitError) {
+          // The detail view lists the books to return, so no popup needed
+          setView({
+            name: "book-detail",
+            book,
+            copy,
+            state: "available",
+            loanLimit: error.loanLimit,
+          });
+          return;
+        }
         popup.show({
-          title: "Borrow Failed",
+          title: t("app.borrowFailed.title"),
           message:
-            error instanceof Error ? error.message : "Failed to borrow book",
+            error instanceof Error
+              ? error.message
+              : t("app.borrowFailed.message"),
           buttons: [{ type: "ok" }],
         });
         setView({
@@ -260,7 +331,7 @@ function MiniApp() {
   async function handleReturnScan(book: Book, copy: BookCopy) {
     try {
       const scanned = await qrScanner.open({
-        text: `Scan QR at 📍${copy.location.name} to return`,
+        text: t("app.scanner.returnAt", { location: copy.location.name }),
         capture: () => true,
       });
 
@@ -269,9 +340,8 @@ function MiniApp() {
       const scanResult = classifyLocationScan(scanned, copy.location);
       if (scanResult.type === "book") {
         popup.show({
-          title: "Book QR Scanned",
-          message:
-            "You scanned a book QR. For returns, scan the location QR at the library spot.",
+          title: t("app.bookQrScanned.title"),
+          message: t("app.bookQrScanned.return"),
           buttons: [{ type: "ok" }],
         });
         return;
@@ -280,8 +350,11 @@ function MiniApp() {
       if (scanResult.type === "invalid") {
         const scannedLocationName = scanned.trim();
         popup.show({
-          title: "Wrong Location",
-          message: `Please return this book to ${copy.location.name}. You scanned "${scannedLocationName || "unknown"}".`,
+          title: t("app.wrongLocation.title"),
+          message: t("app.wrongLocation.return", {
+            location: copy.location.name,
+            scanned: scannedLocationName || t("app.unknown"),
+          }),
           buttons: [{ type: "ok" }],
         });
         return;
@@ -294,9 +367,11 @@ function MiniApp() {
         setView({ name: "return-confirmation", result, copy });
       } catch (error) {
         popup.show({
-          title: "Return Failed",
+          title: t("app.returnFailed.title"),
           message:
-            error instanceof Error ? error.message : "Failed to return book",
+            error instanceof Error
+              ? error.message
+              : t("app.returnFailed.message"),
           buttons: [{ type: "ok" }],
         });
         setView({
@@ -311,11 +386,190 @@ function MiniApp() {
     }
   }
 
+  async function handleRenew(qrCodeId: string) {
+    try {
+      const result = await renewMutation.mutateAsync(qrCodeId);
+      const renewedLoan = result.loan;
+      if (!renewedLoan) return;
+
+      popup.show({
+        title: t("app.loanRenewed.title"),
+        message: t("app.loanRenewed.message", {
+          date: date(renewedLoan.dueDate, "long"),
+        }),
+        buttons: [{ type: "ok" }],
+      });
+
+      // Keep the detail screen in sync with the new due date
+      setView((current) =>
+        current.name === "book-detail" && current.copy.qrCodeId === qrCodeId
+          ? {
+              ...current,
+              copy: {
+                ...current.copy,
+                loans: current.copy.loans.map((loan) =>
+                  loan.id === renewedLoan.id
+                    ? {
+                        ...loan,
+                        dueDate: renewedLoan.dueDate,
+                        renewalCount: renewedLoan.renewalCount,
+                      }
+                    : loan,
+                ),
+              },
+            }
+          : current,
+      );
+    } catch (error) {
+      popup.show({
+        title: t("app.renewFailed.title"),
+        message:
+          error instanceof Error ? error.message : t("app.renewFailed.message"),
+        buttons: [{ type: "ok" }],
+      });
+    }
+  }
+
+  async function handlePlaceHold(bookId: number) {
+    try {
+      const result = await placeHoldMutation.mutateAsync(bookId);
+      popup.show({
+        title: t("app.holdPlaced.title"),
+        message: t("app.holdPlaced.message", {
+          position: result.position ?? "",
+        }),
+        buttons: [{ type: "ok" }],
+      });
+    } catch (error) {
+      popup.show({
+        title: t("app.holdFailed.title"),
+        message:
+          error instanceof Error ? error.message : t("app.holdFailed.message"),
+        buttons: [{ type: "ok" }],
+      });
+    }
+  }
+
+  async function handleCancelHold(holdId: number) {
+    try {
+      await cancelHoldMutation.mutateAsync(holdId);
+    } catch (error) {
+      popup.show({
+        title: t("app.cancelFailed.title"),
+        message:
+          error instanceof Error
+            ? error.message
+            : t("app.cancelFailed.message"),
+        buttons: [{ type: "ok" }],
+      });
+    }
+  }
+
+  // Open the due-date feed; calendar apps offer to subscribe to it
+  function handleAddToCalendar() {
+    if (calendarUrl && openLink.isAvailable()) {
+      openLink(calendarUrl);
+    }
+  }
+
   // Admin: navigate to admin view for a book
   function handleViewAsAdmin(bookId: number) {
     setView({ name: "book-admin", bookId });
   }
 
+  // Admin: scan the barcode on a book for the add title form
+  async function handleScanIsbn() {
+    try {
+      const scanned = await qrScanner.open({
+        text: t("app.admin.scanner.isbn"),
+        capture: () => true,
+      });
+
+      if (!scanned) return null;
+
+      const isbn = looksLikeISBN(scanned) ? normalizeISBN(scanned) : null;
+      if (!isbn) {
+        popup.show({
+          title: t("app.admin.notIsbn.title"),
+          message: t("app.admin.notIsbn.message"),
+          buttons: [{ type: "ok" }],
+        });
+        return null;
+      }
+      return isbn;
+    } catch {
+      // Scanner closed by user, ignore
+      return null;
+    }
+  }
+
+  // Admin: add a new title, then scan its copies
+  async function handleAddBook(newBook: NewBook) {
+    try {
+      const book = await addBookMutation.mutateAsync(newBook);
+      setView({
+        name: "add-copy",
+        bookId: book.id,
+        book: {
+          ...book,
+          description: book.description ?? null,
+          tags: book.tags ?? [],
+          authors: [],
+          bookCopies: [],
+        },
+        step: "scan",
+      });
+    } catch (error) {
+      if (error instanceof DuplicateBookError && error.deleted) {
+        const buttonId = await popup.show({
+          title: t("app.admin.deletedTitle.title"),
+          message: t("app.admin.deletedTitle.message"),
+          buttons: [
+            {
+              id: "restore",
+              type: "default",
+              text: t("app.admin.deletedTitle.restore"),
+            },
+            { type: "cancel" },
+          ],
+        });
+        if (buttonId === "restore") {
+          const { bookId } = error;
+          restoreBookMutation.mutate(bookId, {
+            onSuccess: () => setView({ name: "book-admin", bookId }),
+          });
+        }
+        return;
+      }
+      if (error instanceof DuplicateBookError) {
+        const buttonId = await popup.show({
+          title: t("app.admin.duplicateTitle.title"),
+          message: t("app.admin.duplicateTitle.message"),
+          buttons: [
+            {
+              id: "open",
+              type: "default",
+              text: t("app.admin.duplicateTitle.open"),
+            },
+            { type: "cancel" },
+          ],
+        });
+        if (buttonId === "open") {
+          setView({ name: "book-admin", bookId: error.bookId });
+        }
+        return;
+      }
+      popup.show({
+        title: t("app.admin.addBookFailed.title"),
+        message:
+          error instanceof Error
+            ? error.message
+            : t("app.admin.addBookFailed.message"),
+        buttons: [{ type: "ok" }],
+      });
+    }
+  }
+
   // Admin: start add copy flow
   function handleStartAddCopy(book: BookDetail) {
     setView({
@@ -332,7 +586,7 @@ function MiniApp() {
 
     try {
       const scanned = await qrScanner.open({
-        text: "Scan the QR sticker for the new book copy",
+        text: t("app.admin.scanner.copy"),
         capture: () => true,
       });
 
@@ -341,9 +595,8 @@ function MiniApp() {
       const trimmed = scanned.trim();
       if (isValidBookCode(trimmed)) {
         popup.show({
-          title: "Full Link Required",
-          message:
-            "This looks like a code only. Scan the full t.me/...startapp=COPY-... link instead.",
+          title: t("app.admin.fullLink.title"),
+          message: t("app.admin.fullLink.message"),
           buttons: [{ type: "ok" }],
         });
         return;
@@ -351,9 +604,8 @@ function MiniApp() {
       const parsedQr = parseBookQrLink(trimmed);
       if (!parsedQr) {
         popup.show({
-          title: "Invalid QR",
-          message:
-            "This QR code doesn't look like a book link. Scan the sticker link that starts with t.me/ and includes startapp=COPY-...",
+          title: t("app.admin.invalidQr.title"),
+          message: t("app.admin.invalidQr.message"),
           buttons: [{ type: "ok" }],
         });
         return;
@@ -365,8 +617,10 @@ function MiniApp() {
       if (matchingCopies.length === 1) {
         const existingCopy = matchingCopies[0];
         popup.show({
-          title: "Copy Already Exists",
-          message: `Copy #${existingCopy.copyNumber} already uses this QR code. Please scan a new sticker.`,
+          title: t("app.admin.copyExists.title"),
+          message: t("app.admin.copyExists.message", {
+            number: existingCopy.copyNumber,
+          }),
           buttons: [{ type: "ok" }],
         });
         return;
@@ -420,8 +674,11 @@ function MiniApp() {
       }
     } catch (error) {
       popup.show({
-        title: "Failed to Add Copy",
-        message: error instanceof Error ? error.message : "Failed to add copy",
+        title: t("app.admin.addCopyFailed.title"),
+        message:
+          error instanceof Error
+            ? error.message
+            : t("app.admin.addCopyFailed.message"),
         buttons: [{ type: "ok" }],
       });
     }
@@ -435,10 +692,10 @@ function MiniApp() {
   ) {
     const message =
       view.name === "scanning"
-        ? "Looking up book..."
+        ? t("app.lookingUpBook")
         : view.name === "borrowing"
-          ? "Borrowing book..."
-          : "Returning book...";
+          ? t("app.borrowingBook")
+          : t("app.returningBook");
     return (
       <div className="flex min-h-screen flex-col items-center justify-center bg-[var(--tg-theme-bg-color,#fff)]">
         <div className="flex flex-col items-center gap-4">
@@ -450,19 +707,62 @@ function MiniApp() {
   }
 
   if (view.name === "book-detail") {
+    const viewHold = holds.find((hold) => hold.bookId === view.book.id);
     return (
       <BookDetailView
         book={view.book}
         copy={view.copy}
         state={view.state}
+        loanLimit={view.loanLimit}
         onScanLocation={() => handleLocationScan(view.book, view.copy)}
         onScanReturn={() => handleReturnScan(view.book, view.copy)}
+        onRenew={() => handleRenew(view.copy.qrCodeId)}
+        isRenewing={renewMutation.isPending}
+        hold={viewHold}
+        onPlaceHold={() => handlePlaceHold(view.book.id)}
+        onCancelHold={
+          viewHold ? () => handleCancelHold(viewHold.id) : undefined
+        }
+        isHoldPending={
+          placeHoldMutation.isPending || cancelHoldMutation.isPending
+        }
         isAdmin={isAdmin}
         onViewAsAdmin={() => handleViewAsAdmin(view.book.id)}
       />
     );
   }
 
+  if (view.name === "book-overview") {
+    if (adminBookLoading || !adminBook) {
+      return (
+        <div className="flex min-h-screen flex-col items-center justify-center bg-[var(--tg-theme-bg-color,#fff)]">
+          <div className="flex flex-col items-center gap-4">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-[var(--tg-theme-button-color,#5288c1)] border-t-transparent" />
+            <p className="text-[var(--tg-theme-hint-color,#999)]">
+              {t("app.loadingBook")}
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    const viewHold = holds.find((hold) => hold.bookId === adminBook.id);
+    return (
+      <BookOverview
+        book={adminBook}
+        hold={viewHold}
+        onScan={handleScannerOpen}
+        onPlaceHold={() => handlePlaceHold(adminBook.id)}
+        onCancelHold={
+          viewHold ? () => handleCancelHold(viewHold.id) : undefined
+        }
+        isHoldPending={
+          placeHoldMutation.isPending || cancelHoldMutation.isPending
+        }
+      />
+    );
+  }
+
   if (view.name === "borrow-confirmation") {
     return (
       <BorrowConfirmation
@@ -497,6 +797,34 @@ function MiniApp() {
     return (
       <BooksListView
         onSelectBook={(bookId) => setView({ name: "book-admin", bookId })}
+        onAddBook={() => setView({ name: "add-book" })}
+        onShowDeleted={() => setView({ name: "deleted-books" })}
+      />
+    );
+  }
+
+  // Admin: Loan length, renewals and loan cap of each location
+  if (view.name === "loan-policies") {
+    return <LoanPoliciesView />;
+  }
+
+  // Admin: Deleted books, to restore one
+  if (view.name === "deleted-books") {
+    return (
+      <DeletedBooksView
+        onRestored={(bookId) => setView({ name: "book-admin", bookId })}
+      />
+    );
+  }
+
+  // Admin: Add a new title
+  if (view.name === "add-book") {
+    return (
+      <AddBookForm
+        onScanIsbn={handleScanIsbn}
+        onSubmit={handleAddBook}
+        onCancel={() => setView({ name: "books-list" })}
+        isSubmitting={addBookMutation.isPending}
       />
     );
   }
@@ -509,7 +837,7 @@ function MiniApp() {
           <div className="flex flex-col items-center gap-4">
             <div className="h-8 w-8 animate-spin rounded-full border-4 border-[var(--tg-theme-button-color,#5288c1)] border-t-transparent" />
             <p className="text-[var(--tg-theme-hint-color,#999)]">
-              Loading book...
+              {t("app.loadingBook")}
             </p>
           </div>
         </div>
@@ -564,11 +892,13 @@ function MiniApp() {
         </div>
         <div className="flex flex-col gap-2 text-center">
           <h2 className="text-xl font-bold text-[var(--tg-theme-text-color,#000)]">
-            Copy Added!
+            {t("app.admin.addCopy.added")}
           </h2>
           <p className="text-[var(--tg-theme-hint-color,#999)]">
-            Copy #{view.copyNumber} of "{view.book.title}" has been added to the
-            library.
+            {t("app.admin.addCopy.addedMessage", {
+              number: view.copyNumber,
+              title: view.book.title,
+            })}
           </p>
         </div>
         <button
@@ -576,7 +906,7 @@ function MiniApp() {
           className="mt-4 w-full max-w-sm rounded-xl py-3.5 font-medium text-[var(--tg-theme-button-text-color,#fff)]"
           style={{ backgroundColor: "var(--tg-theme-button-color, #5288c1)" }}
         >
-          Back to Book
+          {t("app.admin.addCopy.backToBook")}
         </button>
       </div>
     );
@@ -614,7 +944,7 @@ function MiniApp() {
               <path d="M7 21H5a2 2 0 0 1-2-2v-2" />
               <rect x="7" y="7" width="10" height="10" rx="1" />
             </svg>
-            Scan Book QR Code
+            {t("app.scanBookQr")}
           </button>
         </div>
 
@@ -637,14 +967,92 @@ function MiniApp() {
             >
               <path d="M4 19.5v-15A2.5 2.5 0 0 1 6.5 2H20v20H6.5a2.5 2.5 0 0 1 0-5H20" />
             </svg>
-            Browse All Books
+            {t("app.browseAllBooks")}
+          </button>
+        )}
+
+        {/* Admin: Loan Policies button */}
+        {isAdmin && (
+          <button
+            onClick={() => setView({ name: "loan-policies" })}
+            className="flex w-full items-center justify-center gap-2 rounded-2xl py-3.5 font-medium text-[var(--tg-theme-button-color,#5288c1)] bg-[var(--tg-theme-section-bg-color,#f4f4f5)]"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <circle cx="12" cy="12" r="10" />
+              <path d="M12 6v6l4 2" />
+            </svg>
+            {t("app.loanPolicies")}
           </button>
         )}
 
+        {/* Holds list */}
+        {holds.length > 0 && (
+          <div className="flex flex-col gap-3 mt-4">
+            <h2 className="pl-[15px] text-xs font-medium uppercase tracking-wide text-[var(--tg-theme-section-header-text-color,#6d6d71)]">
+              {t("app.myHolds")}
+            </h2>
+            <div className="flex flex-col overflow-hidden rounded-2xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)]">
+              {holds.map((hold, index) => (
+                <div key={hold.id}>
+                  {index > 0 && <div className="mx-8 h-px bg-tg-separator" />}
+                  <div className="flex items-center gap-3 p-3">
+                    {hold.imageUrl ? (
+                      <img
+                        src={hold.imageUrl}
+                        alt={hold.title}
+                        className="h-16 w-11 rounded-md bg-[var(--tg-theme-bg-color,#fff)]"
+                      />
+                    ) : (
+                      <div className="flex h-16 w-11 items-center justify-center rounded-md bg-[var(--tg-theme-bg-color,#fff)]">
+                        <span className="text-xl">📚</span>
+                      </div>
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-medium text-[var(--tg-theme-text-color,#000)]">
+                        {hold.title}
+                      </p>
+                      <p className="text-sm text-[var(--tg-theme-hint-color,#999)]">
+                        {hold.author}
+                      </p>
+                      <p className="mt-0.5 text-xs text-[var(--tg-theme-subtitle-text-color,#999)]">
+                        {hold.status === "ready" && hold.expiresAt
+                          ? t("app.holdReadyAt", {
+                              location: hold.location ?? "",
+                              date: date(hold.expiresAt, "monthDay"),
+                            })
+                          : t("app.holdPosition", {
+                              position: hold.position ?? "",
+                            })}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleCancelHold(hold.id)}
+                      disabled={cancelHoldMutation.isPending}
+                      className="flex-shrink-0 rounded-lg px-3 py-1.5 text-sm font-medium text-[var(--tg-theme-destructive-text-color,#e53935)] bg-[var(--tg-theme-bg-color,#fff)] disabled:opacity-50"
+                    >
+                      {t("app.cancel")}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Borrowed books list */}
         <div className="flex flex-col gap-3 mt-4">
           <h2 className="pl-[15px] text-xs font-medium uppercase tracking-wide text-[var(--tg-theme-section-header-text-color,#6d6d71)]">
-            My Borrowed Books
+            {t("app.myBorrowedBooks")}
           </h2>
           {loansLoading ? (
             <div className="flex justify-center py-8">
@@ -653,7 +1061,7 @@ function MiniApp() {
           ) : loans.length === 0 ? (
             <div className="overflow-hidden rounded-2xl bg-[var(--tg-theme-section-bg-color,#f4f4f5)]">
               <p className="py-8 text-center text-sm text-[var(--tg-theme-hint-color,#999)]">
-                No books borrowed yet. Scan a QR code to get started.
+                {t("app.noLoans")}
               </p>
             </div>
           ) : (
@@ -661,56 +1069,96 @@ function MiniApp() {
               {loans.map((loan, index) => (
                 <div key={loan.qrCodeId}>
                   {index > 0 && <div className="mx-8 h-px bg-tg-separator" />}
-                  <button
-                    onClick={() => handleLoanTap(loan.qrCodeId)}
-                    className="flex w-full items-center gap-3 p-3 text-left transition-opacity active:opacity-70"
-                  >
-                    {loan?.imageUrl ? (
-                      <img
-                        src={loan.imageUrl}
-                        alt={loan.title}
-                        className="h-16 w-11 rounded-md bg-[var(--tg-theme-bg-color,#fff)]"
-                      />
-                    ) : (
-                      <div className="flex h-16 w-11 items-center justify-center rounded-md bg-[var(--tg-theme-bg-color,#fff)]">
-                        <span className="text-xl">📚</span>
+                  <div className="flex items-center pr-3">
+                    <button
+                      onClick={() => handleLoanTap(loan.qrCodeId)}
+                      className="flex min-w-0 flex-1 items-center gap-3 p-3 text-left transition-opacity active:opacity-70"
+                    >
+                      {loan?.imageUrl ? (
+                        <img
+                          src={loan.imageUrl}
+                          alt={loan.title}
+                          className="h-16 w-11 rounded-md bg-[var(--tg-theme-bg-color,#fff)]"
+                        />
+                      ) : (
+                        <div className="flex h-16 w-11 items-center justify-center rounded-md bg-[var(--tg-theme-bg-color,#fff)]">
+                          <span className="text-xl">📚</span>
+                        </div>
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate font-medium text-[var(--tg-theme-text-color,#000)]">
+                          {loan.title}
+                        </p>
+                        <p className="text-sm text-[var(--tg-theme-hint-color,#999)]">
+                          {loan.author}
+                        </p>
+                        <p className="mt-0.5 text-xs text-[var(--tg-theme-subtitle-text-color,#999)]">
+                          {t("app.due", {
+                            date: date(loan.dueDate, "medium"),
+                          })}
+                        </p>
                       </div>
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        width="20"
+                        height="20"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="var(--tg-theme-hint-color, #999)"
+                        strokeWidth="2"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                      >
+                        <path d="m9 18 6-6-6-6" />
+                      </svg>
+                    </button>
+                    {loan.renewalsRemaining > 0 && (
+                      <button
+                        onClick={() => handleRenew(loan.qrCodeId)}
+                        disabled={renewMutation.isPending}
+                        className="flex-shrink-0 rounded-lg px-3 py-1.5 text-sm font-medium text-[var(--tg-theme-link-color,#5288c1)] bg-[var(--tg-theme-bg-color,#fff)] disabled:opacity-50"
+                      >
+                        {t("app.renew")}
+                      </button>
                     )}
-                    <div className="min-w-0 flex-1">
-                      <p className="truncate font-medium text-[var(--tg-theme-text-color,#000)]">
-                        {loan.title}
-                      </p>
-                      <p className="text-sm text-[var(--tg-theme-hint-color,#999)]">
-                        {loan.author}
-                      </p>
-                      <p className="mt-0.5 text-xs text-[var(--tg-theme-subtitle-text-color,#999)]">
-                        Due:{" "}
-                        {new Date(loan.dueDate).toLocaleDateString(undefined, {
-                          month: "short",
-                          day: "numeric",
-                          year: "numeric",
-                        })}
-                      </p>
-                    </div>
-                    <svg
-                      xmlns="http://www.w3.org/2000/svg"
-                      width="20"
-                      height="20"
-                      viewBox="0 0 24 24"
-                      fill="none"
-                      stroke="var(--tg-theme-hint-color, #999)"
-                      strokeWidth="2"
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                    >
-                      <path d="m9 18 6-6-6-6" />
-                    </svg>
-                  </button>
+                  </div>
                 </div>
               ))}
             </div>
           )}
+          {loans.length > 0 && calendarUrl && (
+            <div className="flex flex-col gap-1">
+              <button
+                onClick={handleAddToCalendar}
+                className="flex w-full items-center justify-center gap-2 rounded-2xl py-3 text-sm font-medium text-[var(--tg-theme-link-color,#5288c1)] bg-[var(--tg-theme-section-bg-color,#f4f4f5)]"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="18"
+                  height="18"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <rect x="3" y="4" width="18" height="18" rx="2" />
+                  <path d="M16 2v4" />
+                  <path d="M8 2v4" />
+                  <path d="M3 10h18" />
+                </svg>
+                {t("app.addToCalendar")}
+              </button>
+              <p className="px-[15px] text-xs text-[var(--tg-theme-hint-color,#999)]">
+                {t("app.calendarHint")}
+              </p>
+            </div>
+          )}
         </div>
+
+        {/* Returned books */}
+        <ReadingHistory />
       </div>
     </div>
   );
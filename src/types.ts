@@ -1,3 +1,7 @@
+import type { ContributorRole } from "@shared/authors";
+import type { CopyStatus } from "@shared/copy-status";
+import type { LoanLimit as SharedLoanLimit } from "@shared/loan-limits";
+
 export interface Book {
   id: number;
   isbn: string;
@@ -6,6 +10,25 @@ export interface Book {
   imageUrl: string | null;
   description?: string | null;
   createdAt: string;
+  // Genre names, sorted by name (only in the books list)
+  tags?: string[];
+}
+
+// A book an admin deleted, listed so it can be found and restored
+export interface DeletedBook {
+  id: number;
+  isbn: string;
+  title: string;
+  author: string;
+  imageUrl: string | null;
+  deletedAt: string;
+}
+
+// A person credited on a book, linking to their /author/:slug page
+export interface Contributor {
+  name: string;
+  slug: string;
+  role: ContributorRole;
 }
 
 export interface Loan {
@@ -16,21 +39,77 @@ export interface Loan {
   borrowedAt: string;
   dueDate: string;
   returnedAt: string | null;
+  renewalCount: number;
   lastReminderSent: string | null;
 }
 
+export interface Hold {
+  id: number;
+  bookId: number;
+  title: string;
+  author: string;
+  imageUrl: string | null;
+  status: "waiting" | "ready";
+  position: number | null;
+  reservedQrCodeId: string | null;
+  reservedCopyNumber: number | null;
+  location: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+// Returned when a borrow is refused because the user is at the concurrent loan cap
+export type LoanLimit = SharedLoanLimit<string>;
+
 export interface Location {
   id: number;
   name: string;
+  loanPeriodDays: number;
+  maxRenewals: number;
+  maxLoansPerUser: number | null;
+}
+
+export interface CopyStatusChange {
+  id: number;
+  qrCodeId: string;
+  fromStatus: CopyStatus;
+  toStatus: CopyStatus;
+  changedBy: number | null;
+  changedByUsername: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+// The book fields admins can edit (see BookChange)
+export interface BookFields {
+  title: string;
+  author: string;
+  description: string;
+  imageUrl: string | null;
+  tags: string[];
+}
+
+export interface BookChange {
+  id: number;
+  bookId: number;
+  action: "edit" | "delete" | "restore";
+  previousValues: Partial<BookFields> | null;
+  newValues: Partial<BookFields> | null;
+  revertedChangeId: number | null;
+  adminTelegramUserId: number;
+  adminTelegramUsername: string | null;
+  createdAt: string;
 }
 
 export interface BookCopy {
   qrCodeId: string;
   bookId: number;
   copyNumber: number;
-  status: string | null;
+  status: CopyStatus | null;
   loans: Loan[];
   location: Location;
+  // Set while the copy is held for someone at the front of the hold queue
+  reservedUntil?: string | null;
 }
 
 export type BookDetail = {
@@ -41,5 +120,8 @@ export type BookDetail = {
   imageUrl: string | null;
   description: string | null;
   createdAt: string;
+  tags: string[];
+  // People credited in `author`, in credit order
+  authors: Contributor[];
   bookCopies: BookCopy[];
 };
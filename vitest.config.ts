@@ -34,8 +34,15 @@ export default defineWorkersProject(async () => {
               TEST_MIGRATIONS: migrations,
               BOT_TOKEN: "test-bot-token",
               ADMIN_GROUP_ID: "-1001234567890",
-              BOT_INFO: "{}",
+              BOT_INFO: JSON.stringify({
+                id: 9000,
+                is_bot: true,
+                first_name: "Library",
+                username: "library_test_bot",
+              }),
               MINIAPP_URL: "",
+              WEBHOOK_SECRET: "test-webhook-secret",
+              ISBN_METADATA_PROVIDER: "fixture",
             },
             assets: {
               directory: "./public",
@@ -10,6 +10,11 @@ declare namespace Cloudflare {
 		BOT_TOKEN: string;
 		ADMIN_GROUP_ID: string;
 		MINIAPP_URL: string;
+		WEBHOOK_SECRET: string;
+		REMINDER_DAYS_BEFORE_DUE: "2";
+		REMINDER_OVERDUE_INTERVAL_DAYS: "3";
+		MAX_ACTIVE_LOANS: "5";
+		ISBN_METADATA_PROVIDER: "openlibrary";
 		DATABASE: D1Database;
 	}
 }
@@ -18,7 +23,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "BOT_INFO" | "BOT_TOKEN" | "ADMIN_GROUP_ID" | "MINIAPP_URL">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "BOT_INFO" | "BOT_TOKEN" | "ADMIN_GROUP_ID" | "MINIAPP_URL" | "WEBHOOK_SECRET" | "REMINDER_DAYS_BEFORE_DUE" | "REMINDER_OVERDUE_INTERVAL_DAYS" | "MAX_ACTIVE_LOANS" | "ISBN_METADATA_PROVIDER">> {}
 }
 
 // Begin runtime types
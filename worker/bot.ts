@@ -1,111 +1,604 @@
 import { CommandGroup } from "@grammyjs/commands";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { CIRCULATING_COPY_STATUSES } from "@shared/copy-status";
+import {
+  DEFAULT_LOCALE,
+  getTranslator,
+  isLocale,
+  LOCALE_NAMES,
+  LOCALES,
+  type Locale,
+  translateError,
+  type Translator,
+} from "@shared/i18n";
 import { drizzle } from "drizzle-orm/d1";
-import { Bot, Context, InlineKeyboard, webhookCallback } from "grammy";
+import {
+  Bot,
+  Context,
+  InlineKeyboard,
+  InlineQueryResultBuilder,
+  webhookCallback,
+} from "grammy";
+import type { UserFromGetMe } from "grammy/types";
 import { Hono } from "hono";
 import {
-  BOOK_DETAILS_ERROR,
-  BOOK_NOT_FOUND,
-  BOOK_USAGE,
+  formatLocateMessage,
+  formatOverdueMessage,
+  formatStatsMessage,
+  formatWhoHasMessage,
+} from "./bot/format-admin";
+import {
+  ADMIN_CHAT_ONLY,
+  EXEMPT_USAGE,
+  formatBookCopyBorrowedMessage,
+  formatBookCopyDetailsMessage,
+  formatBookCopyUnavailableMessage,
   formatBookDetailsMessage,
+  formatBorrowSuccessMessage,
+  formatDueDatesMessage,
+  formatHistoryMessage,
+  formatInlineBookMessage,
+  formatInlineResultDescription,
+  formatLoanLimitMessage,
   formatMyBooksMessage,
   formatNoSearchResultsMessage,
+  formatRenewChoicesMessage,
+  formatRenewSuccessMessage,
+  formatReturnSuccessMessage,
   formatSearchResultsMessage,
-  GENERIC_ERROR,
-  NO_BORROWED_BOOKS,
-  SEARCH_ERROR,
-  USER_IDENTIFICATION_ERROR,
-  WELCOME_MESSAGE,
+  LOCATE_USAGE,
+  UNEXEMPT_USAGE,
+  WHOHAS_USAGE,
 } from "./bot/format-message";
 import * as schema from "./db/schema";
-import { isUserAdmin } from "./lib/admin";
-import { getBookDetails, getUserActiveLoans, searchBooks } from "./lib/book";
+import { isGroupAdmin, isUserAdmin } from "./lib/admin";
+import {
+  borrowBook,
+  type Database,
+  getAllLocations,
+  getBookCopyDetails,
+  getBookDetails,
+  getBookDetailsById,
+  getUserActiveLoans,
+  renewLoan,
+  returnBook,
+  searchBooks,
+} from "./lib/book";
+import { getCalendarFeedUrl } from "./lib/calendar";
+import { getGroupLocation, setGroupLocation } from "./lib/groups";
+import { getUserLoanHistory, setLoanHistoryEnabled } from "./lib/history";
+import { notifyHoldsReady, placeHold } from "./lib/holds";
+import { getUserLocale, setLanguageOverride } from "./lib/language";
+import {
+  subscribeToNewArrivals,
+  unsubscribeFromNewArrivals,
+} from "./lib/new-arrivals";
+import {
+  getMaxActiveLoans,
+  grantLoanLimitExemption,
+  revokeLoanLimitExemption,
+} from "./lib/loan-limits";
+import {
+  getCopyBorrowers,
+  getLocationStats,
+  getOverdueLoansByLocation,
+  locateBooks,
+} from "./lib/reports";
+import { telegramWebhookAuth } from "./middleware/webhook-auth";
+
+/**
+ * Work out which user an admin command targets: the author of the replied-to
+ * message, or a numeric Telegram user ID as the first argument.
+ * Returns the user ID and the remaining arguments.
+ */
+function parseTargetUser(ctx: Context, args: string) {
+  const repliedTo = ctx.message?.reply_to_message?.from;
+  if (repliedTo && !repliedTo.is_bot) {
+    return { userId: repliedTo.id, rest: args };
+  }
+
+  const match = args.match(/^(\d+)\s*(.*)$/s);
+  if (!match) {
+    return null;
+  }
+  return { userId: Number(match[1]), rest: match[2] };
+}
+
+/**
+ * Check whether the sender of an update is a library admin
+ */
+async function isAdminSender(ctx: BotContext) {
+  return (
+    !!ctx.from &&
+    isUserAdmin(ctx.env.BOT_TOKEN, ctx.env.ADMIN_GROUP_ID, ctx.from.id)
+  );
+}
+
+/**
+ * Check whether an update comes from a group chat rather than a private chat
+ */
+function isGroupChat(ctx: Context) {
+  return ctx.chat?.type === "group" || ctx.chat?.type === "supergroup";
+}
+
+/**
+ * Get the search query from a group message addressed to the bot: one that
+ * mentions it (the mention is dropped from the query) or replies to it.
+ * Returns null for group chatter the bot should ignore.
+ */
+function getGroupSearchQuery(ctx: Context, text: string) {
+  const mention = new RegExp(`@${ctx.me.username}\\b`, "gi");
+  const withoutMention = text.replace(mention, "").trim();
+  if (withoutMention !== text) {
+    return withoutMention;
+  }
+
+  if (ctx.message?.reply_to_message?.from?.id === ctx.me.id) {
+    return text;
+  }
+  return null;
+}
+
+/**
+ * Per-request dependencies, available on every update's context
+ */
+interface BotDependencies {
+  db: Database;
+  env: Env;
+  executionCtx: ExecutionContext;
+  // Where this worker is served from (taken from the webhook URL), for links back to it
+  origin: string;
+}
+
+/**
+ * The sender's language (their /language choice, else their Telegram client's),
+ * with the catalogue helpers bound to it
+ */
+type LocaleFlavor = Translator;
+
+export type BotContext = Context & BotDependencies & LocaleFlavor;
+
+// Carries the current webhook request's dependencies to the shared bot instance
+const requestDeps = new AsyncLocalStorage<BotDependencies>();
+
+// Telegram caches inline results per query (and offset) for this long
+const INLINE_CACHE_SECONDS = 300;
+const INLINE_PAGE_SIZE = 20;
+
+const SEARCH_PAGE_SIZE = 10;
+const SEARCH_BUTTONS_PER_ROW = 5;
+
+// Telegram rejects callback data longer than this many bytes
+const CALLBACK_DATA_LIMIT = 64;
+
+// ============================================================================
+// INLINE KEYBOARDS
+// ============================================================================
+
+// Callback data is `<action>_<id>`; see docs/BOT_SPEC.md (Button Logic)
+const borrowKeyboard = (qrCodeId: string, locale: Locale) =>
+  new InlineKeyboard().text(
+    getTranslator(locale).t("bot.button.borrow"),
+    `borrow_${qrCodeId}`,
+  );
+
+const returnKeyboard = (qrCodeId: string, locale: Locale) =>
+  new InlineKeyboard().text(
+    getTranslator(locale).t("bot.button.return"),
+    `return_${qrCodeId}`,
+  );
+
+const notifyKeyboard = (bookId: number, locale: Locale) =>
+  new InlineKeyboard().text(
+    getTranslator(locale).t("bot.button.notify"),
+    `hold_${bookId}`,
+  );
+
+/**
+ * One button per supported language (`lang_<code>`), plus one to go back to
+ * following the Telegram client (`lang_auto`)
+ */
+const languageKeyboard = (locale: Locale) => {
+  const keyboard = new InlineKeyboard();
+  for (const code of LOCALES) {
+    keyboard.text(LOCALE_NAMES[code], `lang_${code}`);
+  }
+  return keyboard
+    .row()
+    .text(getTranslator(locale).t("bot.language.auto"), "lang_auto");
+};
+
+/**
+ * Buttons for a page of search results: one numbered button per result that
+ * opens the book (`book_<book_id>`), then Prev/Next. The paging callback data
+ * carries the query and the offset of the page to show
+ * (`search_<offset>_<query>`); queries too long to fit in callback data only
+ * get their first page.
+ */
+function searchResultsKeyboard(
+  books: { id: number }[],
+  query: string,
+  offset: number,
+  total: number,
+  locale: Locale,
+) {
+  const { t } = getTranslator(locale);
+  const keyboard = new InlineKeyboard();
+  books.forEach((book, index) => {
+    if (index > 0 && index % SEARCH_BUTTONS_PER_ROW === 0) {
+      keyboard.row();
+    }
+    keyboard.text(String(offset + index + 1), `book_${book.id}`);
+  });
+
+  const pageData = (pageOffset: number) => `search_${pageOffset}_${query}`;
+  const hasPrev = offset > 0;
+  const hasNext = offset + SEARCH_PAGE_SIZE < total;
+  const fitsCallbackData =
+    new TextEncoder().encode(pageData(offset + SEARCH_PAGE_SIZE)).length <=
+    CALLBACK_DATA_LIMIT;
+
+  if ((hasPrev || hasNext) && fitsCallbackData) {
+    keyboard.row();
+    if (hasPrev) {
+      keyboard.text(
+        t("bot.button.prev"),
+        pageData(Math.max(0, offset - SEARCH_PAGE_SIZE)),
+      );
+    }
+    if (hasNext) {
+      keyboard.text(t("bot.button.next"), pageData(offset + SEARCH_PAGE_SIZE));
+    }
+  }
+
+  return keyboard;
+}
+
+/**
+ * Send a book's details (with its cover if it has one), plus Return or Notify me
+ * for the user and Manage Book for admins
+ */
+async function replyWithBookDetails(
+  ctx: BotContext,
+  bookDetails: NonNullable<Awaited<ReturnType<typeof getBookDetails>>>,
+) {
+  const message = formatBookDetailsMessage(bookDetails, ctx.locale);
+
+  // Return button if the user has a copy, Notify me if none are free.
+  // Groups only get Notify me, so the reply doesn't show who has which book.
+  let keyboard: InlineKeyboard | undefined;
+  if (isGroupChat(ctx)) {
+    if (bookDetails.totalCopies > 0 && bookDetails.availableCopies === 0) {
+      keyboard = notifyKeyboard(bookDetails.id, ctx.locale);
+    }
+  } else if (ctx.from) {
+    const activeLoans = await getUserActiveLoans(ctx.db, ctx.from.id);
+    const userLoan = activeLoans.find((loan) => loan.bookId === bookDetails.id);
+    if (userLoan) {
+      keyboard = returnKeyboard(userLoan.qrCodeId, ctx.locale);
+    } else if (
+      bookDetails.totalCopies > 0 &&
+      bookDetails.availableCopies === 0
+    ) {
+      keyboard = notifyKeyboard(bookDetails.id, ctx.locale);
+    }
+  }
+
+  // Admins also get a button to manage the book in the Mini App
+  if (ctx.env.MINIAPP_URL && !isGroupChat(ctx) && (await isAdminSender(ctx))) {
+    const url = `${ctx.env.MINIAPP_URL}?startapp=admin_${bookDetails.id}`;
+    keyboard = (keyboard ?? new InlineKeyboard())
+      .row()
+      .url(ctx.t("bot.button.manageBook"), url);
+  }
+
+  if (bookDetails.imageUrl) {
+    await ctx.replyWithPhoto(bookDetails.imageUrl, {
+      caption: message,
+      parse_mode: "MarkdownV2",
+      reply_markup: keyboard,
+    });
+  } else {
+    await ctx.reply(message, {
+      parse_mode: "MarkdownV2",
+      reply_markup: keyboard,
+    });
+  }
+}
+
+/**
+ * Build the message for a single copy along with the button for the user's
+ * next step: Borrow if it's on the shelf, Return if they have it, otherwise
+ * Notify me (places a hold on the book)
+ */
+async function getCopyView(
+  db: Database,
+  qrCodeId: string,
+  telegramUserId: number,
+  locale: Locale,
+) {
+  const copy = await getBookCopyDetails(db, qrCodeId);
+
+  if (!copy) {
+    return null;
+  }
+
+  const status = copy.status ?? "available";
+  let message: string;
+  let keyboard: InlineKeyboard;
+
+  if (copy.currentLoan?.telegramUserId === telegramUserId) {
+    message = formatBookCopyDetailsMessage(copy, locale);
+    keyboard = returnKeyboard(qrCodeId, locale);
+  } else if (copy.currentLoan) {
+    message = formatBookCopyBorrowedMessage(copy, locale);
+    keyboard = notifyKeyboard(copy.book.id, locale);
+  } else if (!CIRCULATING_COPY_STATUSES.includes(status)) {
+    message = formatBookCopyUnavailableMessage(
+      copy,
+      getTranslator(locale).t(`copyStatus.${status}`),
+      locale,
+    );
+    keyboard = notifyKeyboard(copy.book.id, locale);
+  } else {
+    message = formatBookCopyDetailsMessage(copy, locale);
+    keyboard = borrowKeyboard(qrCodeId, locale);
+  }
+
+  return { message, keyboard, imageUrl: copy.book.imageUrl };
+}
+
+/**
+ * Send a copy message, with the cover as a photo when there is one
+ */
+async function replyWithCopyView(
+  ctx: Context,
+  view: { message: string; keyboard: InlineKeyboard; imageUrl: string | null },
+) {
+  if (view.imageUrl) {
+    await ctx.replyWithPhoto(view.imageUrl, {
+      caption: view.message,
+      parse_mode: "MarkdownV2",
+      reply_markup: view.keyboard,
+    });
+  } else {
+    await ctx.reply(view.message, {
+      parse_mode: "MarkdownV2",
+      reply_markup: view.keyboard,
+    });
+  }
+}
+
+/**
+ * Point the sender of a personal command in a group chat to a private chat
+ * with the bot, so their loans aren't shown to the whole group. `startParam`
+ * is the /start deep link payload that picks the command up again there.
+ * Returns whether the command was redirected.
+ */
+async function redirectToPrivateChat(ctx: BotContext, startParam: string) {
+  if (!isGroupChat(ctx)) {
+    return false;
+  }
+
+  // Deep link payloads are limited to 64 letters, digits, _ and -
+  const url = /^[\w-]{1,64}$/.test(startParam)
+    ? `https://t.me/${ctx.me.username}?start=${startParam}`
+    : `https://t.me/${ctx.me.username}`;
+  await ctx.reply(ctx.t("bot.group.privateOnly"), {
+    reply_markup: new InlineKeyboard().url(
+      ctx.t("bot.button.openPrivateChat"),
+      url,
+    ),
+  });
+  return true;
+}
+
+/**
+ * Point an admin who runs a report command in a group other than the admin
+ * group to a private chat with the bot, so borrowers aren't named in front of
+ * that group. Returns whether the command was redirected.
+ */
+async function redirectToAdminChat(ctx: BotContext) {
+  if (!isGroupChat(ctx) || String(ctx.chat!.id) === ctx.env.ADMIN_GROUP_ID) {
+    return false;
+  }
+
+  await ctx.reply(ADMIN_CHAT_ONLY, {
+    reply_markup: new InlineKeyboard().url(
+      ctx.t("bot.button.openPrivateChat"),
+      `https://t.me/${ctx.me.username}`,
+    ),
+  });
+  return true;
+}
+
+/**
+ * Replace the text (or photo caption) and buttons of the message a button was pressed on
+ */
+async function editButtonMessage(
+  ctx: Context,
+  message: string,
+  keyboard?: InlineKeyboard,
+) {
+  const reply_markup = keyboard ?? new InlineKeyboard();
+
+  if (ctx.callbackQuery?.message?.photo) {
+    await ctx.editMessageCaption({
+      caption: message,
+      parse_mode: "MarkdownV2",
+      reply_markup,
+    });
+  } else {
+    await ctx.editMessageText(message, {
+      parse_mode: "MarkdownV2",
+      reply_markup,
+    });
+  }
+}
 
 // ============================================================================
 // BOT SETUP
 // ============================================================================
 
-export const botApp = new Hono<{ Bindings: Env }>().post("/", async (c) => {
-  const bot = new Bot(c.env.BOT_TOKEN, { botInfo: JSON.parse(c.env.BOT_INFO) });
-  const db = drizzle(c.env.DATABASE, { schema });
+/**
+ * Register every command, button and inline query handler on a new bot
+ */
+function createBot(token: string, botInfo: UserFromGetMe) {
+  const bot = new Bot<BotContext>(token, { botInfo });
+
+  // Hand the current request's dependencies to every handler
+  bot.use(async (ctx, next) => {
+    const deps = requestDeps.getStore();
+    if (!deps) {
+      throw new Error("Bot update handled outside of a webhook request");
+    }
+    Object.assign(ctx, deps);
+    await next();
+  });
 
-  // Set bot commands with descriptions
-  await bot.api.setMyCommands([
-    { command: "start", description: "Start the bot and view welcome message" },
-    { command: "mybooks", description: "View your currently borrowed books" },
-  ]);
+  // Talk to each user in their language
+  bot.use(async (ctx, next) => {
+    const locale = ctx.from
+      ? await getUserLocale(ctx.db, ctx.from.id, ctx.from.language_code)
+      : DEFAULT_LOCALE;
+    Object.assign(ctx, getTranslator(locale));
+    await next();
+  });
 
   // ========================================
   // COMMAND HANDLERS
   // ========================================
 
+  /**
+   * Save the sender's language choice ("auto" clears it) and confirm it in the
+   * newly chosen language
+   */
+  async function changeLanguage(ctx: BotContext, choice: Locale | "auto") {
+    const override = choice === "auto" ? null : choice;
+    await setLanguageOverride(ctx.db, ctx.from!.id, override);
+
+    const locale = await getUserLocale(
+      ctx.db,
+      ctx.from!.id,
+      ctx.from!.language_code,
+    );
+    return getTranslator(locale).t(
+      override ? "bot.language.set" : "bot.language.reset",
+    );
+  }
+
+  /**
+   * Reply with a copy's details and its Borrow/Return/Notify me button
+   */
+  async function showCopy(ctx: BotContext, qrCodeId: string) {
+    if (!ctx.from) {
+      await ctx.reply(ctx.t("bot.userIdentificationError"));
+      return;
+    }
+
+    try {
+      const view = await getCopyView(ctx.db, qrCodeId, ctx.from.id, ctx.locale);
+
+      if (!view) {
+        await ctx.reply(ctx.t("bot.bookCopyNotFound"));
+        return;
+      }
+
+      await replyWithCopyView(ctx, view);
+    } catch (error) {
+      console.error("Error fetching book copy details:", error);
+      await ctx.reply(ctx.t("bot.bookDetailsError"));
+    }
+  }
+
   /**
    * /start - Welcome message
+   * /start borrow_<qr_code_id> - Deep link from a book's QR code
+   * /start mybooks|due|renew|history|subscribe - Deep link from a personal command sent in a group
    */
-  bot.command("start", async (ctx: Context) => {
-    await ctx.reply(WELCOME_MESSAGE, {
+  bot.command("start", async (ctx) => {
+    const param = ctx.match.trim();
+    const deepLink = param.match(/^borrow_(.+)$/);
+    if (deepLink) {
+      await showCopy(ctx, deepLink[1]);
+      return;
+    }
+
+    if (param === "mybooks") {
+      await showMyBooks(ctx);
+      return;
+    }
+    if (param === "due") {
+      await showDueDates(ctx);
+      return;
+    }
+    if (param === "renew") {
+      await renew(ctx, "");
+      return;
+    }
+    if (param === "history") {
+      await showHistory(ctx, "");
+      return;
+    }
+    if (param === "subscribe") {
+      await subscribe(ctx);
+      return;
+    }
+
+    await ctx.reply(ctx.t("bot.welcome"), {
       parse_mode: "MarkdownV2",
     });
   });
 
+  /**
+   * /borrow <qr_code_id> - View a book copy with a button to borrow or return it
+   */
+  bot.command("borrow", async (ctx) => {
+    const qrCodeId = ctx.match.trim();
+
+    if (!qrCodeId) {
+      await ctx.reply(ctx.t("bot.borrowUsage"));
+      return;
+    }
+
+    if (await redirectToPrivateChat(ctx, `borrow_${qrCodeId}`)) {
+      return;
+    }
+
+    await showCopy(ctx, qrCodeId);
+  });
+
   /**
    * /book <isbn> - View book details
    */
   // Create a command group for book-related commands
-  const bookCommands = new CommandGroup();
+  const bookCommands = new CommandGroup<BotContext>();
   // Use regex to handle both /book <isbn> and /book<isbn> formats
   bookCommands.command(
     /^book\s*(.+)/,
     "View book details",
-    async (ctx: Context) => {
+    async (ctx: BotContext) => {
       // Extract ISBN from the message text directly
       const match = ctx.msg?.text?.match(/\/book\s*(.+)/);
       const isbn = match && match[1] ? match[1].trim() : "";
 
       if (!isbn) {
-        await ctx.reply(BOOK_USAGE);
+        await ctx.reply(ctx.t("bot.bookUsage"));
         return;
       }
 
       try {
-        const bookDetails = await getBookDetails(db, isbn);
+        const bookDetails = await getBookDetails(ctx.db, isbn);
 
         if (!bookDetails) {
-          await ctx.reply(BOOK_NOT_FOUND);
+          await ctx.reply(ctx.t("bot.bookNotFound"));
           return;
         }
 
-        const message = formatBookDetailsMessage(bookDetails);
-
-        // Check if user is admin to show manage button
-        let keyboard: InlineKeyboard | undefined;
-        if (ctx.from && c.env.MINIAPP_URL) {
-          const userIsAdmin = await isUserAdmin(
-            c.env.BOT_TOKEN,
-            c.env.ADMIN_GROUP_ID,
-            ctx.from.id,
-          );
-          if (userIsAdmin) {
-            const url = `${c.env.MINIAPP_URL}?startapp=admin_${bookDetails.id}`;
-            console.log("The URL ", url);
-            keyboard = new InlineKeyboard().url("Manage Book", url);
-          }
-        }
-
-        if (bookDetails.imageUrl) {
-          await ctx.replyWithPhoto(bookDetails.imageUrl, {
-            caption: message,
-            parse_mode: "MarkdownV2",
-            reply_markup: keyboard,
-          });
-        } else {
-          await ctx.reply(message, {
-            parse_mode: "MarkdownV2",
-            reply_markup: keyboard,
-          });
-        }
+        await replyWithBookDetails(ctx, bookDetails);
       } catch (error) {
         console.error("Error fetching book details:", error);
-        await ctx.reply(BOOK_DETAILS_ERROR);
+        await ctx.reply(ctx.t("bot.bookDetailsError"));
       }
     },
   );
@@ -114,50 +607,877 @@ export const botApp = new Hono<{ Bindings: Env }>().post("/", async (c) => {
   bot.use(bookCommands);
 
   /**
-   * /mybooks - View currently borrowed books
+   * Reply with the sender's active loans
    */
-  bot.command("mybooks", async (ctx: Context) => {
+  async function showMyBooks(ctx: BotContext) {
     if (!ctx.from) {
-      await ctx.reply(USER_IDENTIFICATION_ERROR);
+      await ctx.reply(ctx.t("bot.userIdentificationError"));
       return;
     }
 
     try {
-      const activeLoans = await getUserActiveLoans(db, ctx.from.id);
+      const activeLoans = await getUserActiveLoans(ctx.db, ctx.from.id);
 
       if (activeLoans.length === 0) {
-        await ctx.reply(NO_BORROWED_BOOKS);
+        await ctx.reply(ctx.t("bot.noBorrowedBooks"));
         return;
       }
 
-      const message = formatMyBooksMessage(activeLoans);
+      const message = formatMyBooksMessage(activeLoans, ctx.locale);
       await ctx.reply(message, { parse_mode: "MarkdownV2" });
     } catch (error) {
       console.error("Error fetching user loans:", error);
-      await ctx.reply(GENERIC_ERROR);
+      await ctx.reply(ctx.t("bot.genericError"));
+    }
+  }
+
+  /**
+   * /mybooks - View currently borrowed books
+   */
+  bot.command("mybooks", async (ctx: BotContext) => {
+    if (await redirectToPrivateChat(ctx, "mybooks")) {
+      return;
     }
+
+    await showMyBooks(ctx);
   });
 
+  /**
+   * Reply with the sender's due dates and the link to their calendar feed
+   */
+  async function showDueDates(ctx: BotContext) {
+    if (!ctx.from) {
+      await ctx.reply(ctx.t("bot.userIdentificationError"));
+      return;
+    }
+
+    try {
+      const activeLoans = await getUserActiveLoans(ctx.db, ctx.from.id);
+
+      if (activeLoans.length === 0) {
+        await ctx.reply(ctx.t("bot.noBorrowedBooks"));
+        return;
+      }
+
+      const calendarUrl = await getCalendarFeedUrl(
+        ctx.origin,
+        ctx.env.BOT_TOKEN,
+        ctx.from.id,
+      );
+      await ctx.reply(
+        formatDueDatesMessage(activeLoans, calendarUrl, new Date(), ctx.locale),
+        {
+          parse_mode: "MarkdownV2",
+          reply_markup: new InlineKeyboard().url(
+            ctx.t("bot.button.addToCalendar"),
+            calendarUrl,
+          ),
+          link_preview_options: { is_disabled: true },
+        },
+      );
+    } catch (error) {
+      console.error("Error fetching due dates:", error);
+      await ctx.reply(ctx.t("bot.genericError"));
+    }
+  }
+
+  /**
+   * /due - See when borrowed books are due, with a calendar feed of the dates
+   */
+  bot.command("due", async (ctx) => {
+    if (await redirectToPrivateChat(ctx, "due")) {
+      return;
+    }
+
+    await showDueDates(ctx);
+  });
+
+  /**
+   * Renew the sender's loan of a copy. Without a code, renews their only
+   * active loan or lists the loans to choose from.
+   */
+  async function renew(ctx: BotContext, qrCodeId: string) {
+    if (!ctx.from) {
+      await ctx.reply(ctx.t("bot.userIdentificationError"));
+      return;
+    }
+
+    try {
+      if (!qrCodeId) {
+        const activeLoans = await getUserActiveLoans(ctx.db, ctx.from.id);
+
+        if (activeLoans.length === 0) {
+          await ctx.reply(ctx.t("bot.noBorrowedBooks"));
+          return;
+        }
+
+        if (activeLoans.length > 1) {
+          await ctx.reply(formatRenewChoicesMessage(activeLoans, ctx.locale), {
+            parse_mode: "MarkdownV2",
+          });
+          return;
+        }
+
+        qrCodeId = activeLoans[0].qrCodeId;
+      }
+
+      const result = await renewLoan(ctx.db, qrCodeId, ctx.from.id);
+
+      if (!result.success) {
+        await ctx.reply(`❌ ${translateError(ctx.locale, result.error)}`);
+        return;
+      }
+
+      await ctx.reply(
+        formatRenewSuccessMessage(
+          {
+            book: result.book,
+            copyNumber: result.copyNumber,
+            loan: result.loan,
+            renewalsRemaining: result.renewalsRemaining,
+          },
+          ctx.locale,
+        ),
+        { parse_mode: "MarkdownV2" },
+      );
+    } catch (error) {
+      console.error("Error renewing loan:", error);
+      await ctx.reply(ctx.t("bot.renewError"));
+    }
+  }
+
+  /**
+   * /renew [qr_code_id] - Extend the due date of a borrowed book
+   */
+  bot.command("renew", async (ctx) => {
+    if (await redirectToPrivateChat(ctx, "renew")) {
+      return;
+    }
+
+    await renew(ctx, ctx.match.trim());
+  });
+
+  /**
+   * Reply with a page of the sender's past loans, or turn their reading
+   * history on or off
+   */
+  async function showHistory(ctx: BotContext, arg: string) {
+    if (!ctx.from) {
+      await ctx.reply(ctx.t("bot.userIdentificationError"));
+      return;
+    }
+
+    try {
+      if (arg === "on" || arg === "off") {
+        await setLoanHistoryEnabled(ctx.db, ctx.from.id, arg === "on");
+        await ctx.reply(
+          ctx.t(arg === "on" ? "bot.historyTurnedOn" : "bot.historyTurnedOff"),
+        );
+        return;
+      }
+
+      const page = parseInt(arg) || 1;
+      const history = await getUserLoanHistory(ctx.db, ctx.from.id, page);
+
+      if (history.total === 0) {
+        await ctx.reply(
+          ctx.t(history.enabled ? "bot.historyEmpty" : "bot.historyDisabled"),
+        );
+        return;
+      }
+
+      await ctx.reply(formatHistoryMessage(history, ctx.locale), {
+        parse_mode: "MarkdownV2",
+      });
+    } catch (error) {
+      console.error("Error fetching loan history:", error);
+      await ctx.reply(ctx.t("bot.genericError"));
+    }
+  }
+
+  /**
+   * /history [page|on|off] - View past loans, or turn reading history on or off
+   */
+  bot.command("history", async (ctx) => {
+    if (await redirectToPrivateChat(ctx, "history")) {
+      return;
+    }
+
+    await showHistory(ctx, ctx.match.trim().toLowerCase());
+  });
+
+  /**
+   * Sign the sender up for the weekly new-arrivals digest
+   */
+  async function subscribe(ctx: BotContext) {
+    if (!ctx.from) {
+      await ctx.reply(ctx.t("bot.userIdentificationError"));
+      return;
+    }
+
+    try {
+      const result = await subscribeToNewArrivals(ctx.db, ctx.from.id);
+      await ctx.reply(
+        ctx.t(
+          result.alreadySubscribed
+            ? "bot.subscribe.already"
+            : "bot.subscribe.done",
+        ),
+      );
+    } catch (error) {
+      console.error("Error subscribing to new arrivals:", error);
+      await ctx.reply(ctx.t("bot.genericError"));
+    }
+  }
+
+  /**
+   * /subscribe - Get the books added to the library each week
+   */
+  bot.command("subscribe", async (ctx) => {
+    // The digest is sent to the user, so sign up in a private chat
+    if (await redirectToPrivateChat(ctx, "subscribe")) {
+      return;
+    }
+
+    await subscribe(ctx);
+  });
+
+  /**
+   * /unsubscribe - Stop the weekly new-arrivals digest
+   */
+  bot.command("unsubscribe", async (ctx) => {
+    if (!ctx.from) {
+      await ctx.reply(ctx.t("bot.userIdentificationError"));
+      return;
+    }
+
+    try {
+      const result = await unsubscribeFromNewArrivals(ctx.db, ctx.from.id);
+      await ctx.reply(
+        ctx.t(
+          result.wasSubscribed
+            ? "bot.unsubscribe.done"
+            : "bot.unsubscribe.notSubscribed",
+        ),
+      );
+    } catch (error) {
+      console.error("Error unsubscribing from new arrivals:", error);
+      await ctx.reply(ctx.t("bot.genericError"));
+    }
+  });
+
+  /**
+   * /language [en|zh|ms|auto] - Pick the bot's language, or follow Telegram's again
+   */
+  bot.command("language", async (ctx) => {
+    if (!ctx.from) {
+      await ctx.reply(ctx.t("bot.userIdentificationError"));
+      return;
+    }
+
+    const arg = ctx.match.trim().toLowerCase();
+
+    // No (or an unknown) language: offer the choices
+    if (arg !== "auto" && !isLocale(arg)) {
+      await ctx.reply(ctx.t("bot.language.choose"), {
+        reply_markup: languageKeyboard(ctx.locale),
+      });
+      return;
+    }
+
+    try {
+      await ctx.reply(await changeLanguage(ctx, arg));
+    } catch (error) {
+      console.error("Error setting language:", error);
+      await ctx.reply(ctx.t("bot.genericError"));
+    }
+  });
+
+  /**
+   * /setlocation [location|all] - Group admins only: scope the group's searches
+   * to one location, or search all of them again. Without an argument, shows
+   * the current setting.
+   */
+  bot.command("setlocation", async (ctx) => {
+    if (!ctx.from || !isGroupChat(ctx)) {
+      await ctx.reply(ctx.t("bot.group.groupOnly"));
+      return;
+    }
+
+    try {
+      const arg = ctx.match.trim();
+      const locations = await getAllLocations(ctx.db);
+
+      if (!arg) {
+        const current = await getGroupLocation(ctx.db, ctx.chat.id);
+        const setting = current
+          ? ctx.t("bot.group.locationCurrent", { location: current.name })
+          : ctx.t("bot.group.locationAll");
+        const usage = ctx.t("bot.group.locationUsage", {
+          locations: locations.map((location) => location.name).join(", "),
+        });
+        await ctx.reply(`${setting}\n\n${usage}`);
+        return;
+      }
+
+      if (!(await isGroupAdmin(ctx.env.BOT_TOKEN, ctx.chat.id, ctx.from.id))) {
+        await ctx.reply(ctx.t("bot.group.adminOnly"));
+        return;
+      }
+
+      if (arg.toLowerCase() === "all") {
+        await setGroupLocation(ctx.db, ctx.chat.id, null, ctx.from.id);
+        await ctx.reply(ctx.t("bot.group.locationAll"));
+        return;
+      }
+
+      const location = locations.find(
+        (location) => location.name.toLowerCase() === arg.toLowerCase(),
+      );
+      if (!location) {
+        await ctx.reply(ctx.t("bot.group.locationNotFound", { name: arg }));
+        return;
+      }
+
+      await setGroupLocation(ctx.db, ctx.chat.id, location.id, ctx.from.id);
+      await ctx.reply(
+        ctx.t("bot.group.locationCurrent", { location: location.name }),
+      );
+    } catch (error) {
+      console.error("Error setting group location:", error);
+      await ctx.reply(ctx.t("bot.genericError"));
+    }
+  });
+
+  /**
+   * /exempt <user_id> [reason] - Admin only: let a user exceed the concurrent loan cap
+   */
+  bot.command("exempt", async (ctx) => {
+    if (!(await isAdminSender(ctx))) {
+      await ctx.reply(ctx.t("bot.adminOnly"));
+      return;
+    }
+
+    const target = parseTargetUser(ctx, ctx.match.trim());
+    if (!target) {
+      await ctx.reply(EXEMPT_USAGE);
+      return;
+    }
+
+    try {
+      await grantLoanLimitExemption(
+        ctx.db,
+        target.userId,
+        ctx.from!.id,
+        target.rest.trim() || null,
+      );
+      await ctx.reply(
+        `✅ User ${target.userId} can now borrow more than the usual limit.`,
+      );
+    } catch (error) {
+      console.error("Error granting loan limit exemption:", error);
+      await ctx.reply(ctx.t("bot.genericError"));
+    }
+  });
+
+  /**
+   * /unexempt <user_id> - Admin only: apply the concurrent loan cap to a user again
+   */
+  bot.command("unexempt", async (ctx) => {
+    if (!(await isAdminSender(ctx))) {
+      await ctx.reply(ctx.t("bot.adminOnly"));
+      return;
+    }
+
+    const target = parseTargetUser(ctx, ctx.match.trim());
+    if (!target) {
+      await ctx.reply(UNEXEMPT_USAGE);
+      return;
+    }
+
+    try {
+      const result = await revokeLoanLimitExemption(ctx.db, target.userId);
+      await ctx.reply(
+        result.success
+          ? `✅ The usual borrowing limit applies to user ${target.userId} again.`
+          : `❌ ${result.error}`,
+      );
+    } catch (error) {
+      console.error("Error revoking loan limit exemption:", error);
+      await ctx.reply(ctx.t("bot.genericError"));
+    }
+  });
+
+  /**
+   * /overdue - Admin only: list late loans by location, with their borrowers
+   */
+  bot.command("overdue", async (ctx) => {
+    if (!(await isAdminSender(ctx))) {
+      await ctx.reply(ctx.t("bot.adminOnly"));
+      return;
+    }
+    if (await redirectToAdminChat(ctx)) {
+      return;
+    }
+
+    try {
+      const now = new Date();
+      const overdue = await getOverdueLoansByLocation(ctx.db, now);
+      await ctx.reply(formatOverdueMessage(overdue, now), {
+        parse_mode: "MarkdownV2",
+      });
+    } catch (error) {
+      console.error("Error fetching overdue loans:", error);
+      await ctx.reply(ctx.t("bot.genericError"));
+    }
+  });
+
+  /**
+   * /whohas <isbn|qr_code_id> - Admin only: show the current borrower of each copy
+   */
+  bot.command("whohas", async (ctx) => {
+    if (!(await isAdminSender(ctx))) {
+      await ctx.reply(ctx.t("bot.adminOnly"));
+      return;
+    }
+    if (await redirectToAdminChat(ctx)) {
+      return;
+    }
+
+    const query = ctx.match.trim();
+    if (!query) {
+      await ctx.reply(WHOHAS_USAGE);
+      return;
+    }
+
+    try {
+      const result = await getCopyBorrowers(ctx.db, query);
+      if (!result) {
+        await ctx.reply(ctx.t("bot.bookNotFound"));
+        return;
+      }
+
+      await ctx.reply(formatWhoHasMessage(result.title, result.copies), {
+        parse_mode: "MarkdownV2",
+      });
+    } catch (error) {
+      console.error("Error fetching copy borrowers:", error);
+      await ctx.reply(ctx.t("bot.genericError"));
+    }
+  });
+
+  /**
+   * /stats - Admin only: copy and loan counts by location
+   */
+  bot.command("stats", async (ctx) => {
+    if (!(await isAdminSender(ctx))) {
+      await ctx.reply(ctx.t("bot.adminOnly"));
+      return;
+    }
+    if (await redirectToAdminChat(ctx)) {
+      return;
+    }
+
+    try {
+      const stats = await getLocationStats(ctx.db, new Date());
+      await ctx.reply(formatStatsMessage(stats), { parse_mode: "MarkdownV2" });
+    } catch (error) {
+      console.error("Error fetching library stats:", error);
+      await ctx.reply(ctx.t("bot.genericError"));
+    }
+  });
+
+  /**
+   * /locate <title> - Admin only: show which shelf each copy of a book is on
+   */
+  bot.command("locate", async (ctx) => {
+    if (!(await isAdminSender(ctx))) {
+      await ctx.reply(ctx.t("bot.adminOnly"));
+      return;
+    }
+    if (await redirectToAdminChat(ctx)) {
+      return;
+    }
+
+    const query = ctx.match.trim();
+    if (!query) {
+      await ctx.reply(LOCATE_USAGE);
+      return;
+    }
+
+    try {
+      const books = await locateBooks(ctx.db, query);
+      await ctx.reply(formatLocateMessage(query, books), {
+        parse_mode: "MarkdownV2",
+      });
+    } catch (error) {
+      console.error("Error locating books:", error);
+      await ctx.reply(ctx.t("bot.genericError"));
+    }
+  });
+
+  // ========================================
+  // CALLBACK QUERY HANDLERS
+  // ========================================
+
+  /**
+   * Borrow button - borrow the copy and switch the button to Return
+   */
+  bot.callbackQuery(/^borrow_(.+)$/, async (ctx) => {
+    const qrCodeId = ctx.match[1];
+
+    try {
+      const result = await borrowBook(
+        ctx.db,
+        qrCodeId,
+        ctx.from.id,
+        ctx.from.username,
+        getMaxActiveLoans(ctx.env),
+      );
+
+      if (!result.success) {
+        if (result.loanLimit) {
+          await ctx.answerCallbackQuery();
+          await ctx.reply(
+            formatLoanLimitMessage(result.loanLimit, ctx.locale),
+            {
+              parse_mode: "MarkdownV2",
+            },
+          );
+          return;
+        }
+        await ctx.answerCallbackQuery({
+          text: `❌ ${translateError(ctx.locale, result.error)}`,
+          show_alert: true,
+        });
+        return;
+      }
+
+      await ctx.answerCallbackQuery({ text: ctx.t("bot.borrowSuccess") });
+      await editButtonMessage(
+        ctx,
+        formatBorrowSuccessMessage(result, ctx.locale),
+        returnKeyboard(qrCodeId, ctx.locale),
+      );
+      ctx.executionCtx.waitUntil(notifyHoldsReady(ctx.api, result.readyHolds));
+    } catch (error) {
+      console.error("Error borrowing book:", error);
+      await ctx.answerCallbackQuery({
+        text: ctx.t("bot.genericError"),
+        show_alert: true,
+      });
+    }
+  });
+
+  /**
+   * Return button - return the copy and remove the button
+   */
+  bot.callbackQuery(/^return_(.+)$/, async (ctx) => {
+    const qrCodeId = ctx.match[1];
+
+    try {
+      const result = await returnBook(ctx.db, qrCodeId, ctx.from.id);
+
+      if (!result.success) {
+        await ctx.answerCallbackQuery({
+          text: `❌ ${translateError(ctx.locale, result.error)}`,
+          show_alert: true,
+        });
+        return;
+      }
+
+      await ctx.answerCallbackQuery({ text: ctx.t("bot.returnSuccess") });
+      await editButtonMessage(
+        ctx,
+        formatReturnSuccessMessage({ book: result.book }, ctx.locale),
+      );
+      ctx.executionCtx.waitUntil(
+        notifyHoldsReady(ctx.api, result.readyHolds ?? []),
+      );
+    } catch (error) {
+      console.error("Error returning book:", error);
+      await ctx.answerCallbackQuery({
+        text: ctx.t("bot.genericError"),
+        show_alert: true,
+      });
+    }
+  });
+
+  /**
+   * Notify me button - join the hold queue for the book
+   */
+  bot.callbackQuery(/^hold_(\d+)$/, async (ctx) => {
+    const bookId = parseInt(ctx.match[1]);
+
+    try {
+      const result = await placeHold(
+        ctx.db,
+        bookId,
+        ctx.from.id,
+        ctx.from.username,
+      );
+
+      if (!result.success) {
+        await ctx.answerCallbackQuery({
+          text: `❌ ${translateError(ctx.locale, result.error)}`,
+          show_alert: true,
+        });
+        return;
+      }
+
+      // The keyboard stays: in groups others use the same button, and it may
+      // hold other buttons (e.g. Manage Book for admins)
+      await ctx.answerCallbackQuery({
+        text: ctx.t("bot.holdPlaced", { position: result.position! }),
+        show_alert: true,
+      });
+    } catch (error) {
+      console.error("Error placing hold:", error);
+      await ctx.answerCallbackQuery({
+        text: ctx.t("bot.genericError"),
+        show_alert: true,
+      });
+    }
+  });
+
+  /**
+   * Language buttons - same as /language <code>
+   */
+  bot.callbackQuery(/^lang_(\w+)$/, async (ctx) => {
+    const choice = ctx.match[1];
+    if (choice !== "auto" && !isLocale(choice)) {
+      await ctx.answerCallbackQuery();
+      return;
+    }
+
+    try {
+      const message = await changeLanguage(ctx, choice);
+      await ctx.answerCallbackQuery();
+      await ctx.editMessageText(message);
+    } catch (error) {
+      console.error("Error setting language:", error);
+      await ctx.answerCallbackQuery({
+        text: ctx.t("bot.genericError"),
+        show_alert: true,
+      });
+    }
+  });
+
+  /**
+   * Search Prev/Next buttons - show another page of results in place
+   */
+  bot.callbackQuery(/^search_(\d+)_(.+)$/s, async (ctx) => {
+    const offset = Number(ctx.match[1]);
+    const query = ctx.match[2];
+
+    try {
+      const location = isGroupChat(ctx)
+        ? await getGroupLocation(ctx.db, ctx.chat!.id)
+        : null;
+      const { books, total } = await searchBooks(
+        ctx.db,
+        query,
+        SEARCH_PAGE_SIZE,
+        offset,
+        location?.id,
+      );
+
+      // The catalogue may have shrunk since the results were sent
+      if (books.length === 0) {
+        await ctx.answerCallbackQuery({ text: ctx.t("bot.noMoreResults") });
+        return;
+      }
+
+      await ctx.editMessageText(
+        formatSearchResultsMessage(books, query, offset, total, ctx.locale),
+        {
+          parse_mode: "MarkdownV2",
+          reply_markup: searchResultsKeyboard(
+            books,
+            query,
+            offset,
+            total,
+            ctx.locale,
+          ),
+        },
+      );
+      await ctx.answerCallbackQuery();
+    } catch (error) {
+      console.error("Error paging search results:", error);
+      await ctx.answerCallbackQuery({ text: ctx.t("bot.searchError") });
+    }
+  });
+
+  /**
+   * Search result button - send the book's details
+   */
+  bot.callbackQuery(/^book_(\d+)$/, async (ctx) => {
+    try {
+      const bookDetails = await getBookDetailsById(
+        ctx.db,
+        Number(ctx.match[1]),
+      );
+
+      if (!bookDetails) {
+        await ctx.answerCallbackQuery({ text: ctx.t("bot.bookNotFound") });
+        return;
+      }
+
+      await ctx.answerCallbackQuery();
+      await replyWithBookDetails(ctx, bookDetails);
+    } catch (error) {
+      console.error("Error fetching book details:", error);
+      await ctx.answerCallbackQuery({ text: ctx.t("bot.bookDetailsError") });
+    }
+  });
+
+  // ========================================
+  // INLINE MODE
+  // ========================================
+
+  /**
+   * @bot <query> - Search the catalogue from any chat.
+   * Books with a cover are sent as photos, the rest as text.
+   */
+  bot.on("inline_query", async (ctx) => {
+    const query = ctx.inlineQuery.query.trim();
+    const offset = parseInt(ctx.inlineQuery.offset) || 0;
+
+    if (query.length < 2) {
+      await ctx.answerInlineQuery([], { cache_time: INLINE_CACHE_SECONDS });
+      return;
+    }
+
+    try {
+      const { books, total } = await searchBooks(
+        ctx.db,
+        query,
+        INLINE_PAGE_SIZE,
+        offset,
+      );
+
+      const results = books.map((book) => {
+        const options = {
+          title: book.title,
+          description: formatInlineResultDescription(book, ctx.locale),
+          reply_markup: ctx.env.MINIAPP_URL
+            ? new InlineKeyboard().url(
+                ctx.t("bot.button.openInLibrary"),
+                `${ctx.env.MINIAPP_URL}?startapp=book_${book.id}`,
+              )
+            : undefined,
+        };
+        const message = formatInlineBookMessage(book, ctx.locale);
+
+        if (book.imageUrl) {
+          return InlineQueryResultBuilder.photo(
+            `book_${book.id}`,
+            book.imageUrl,
+            {
+              ...options,
+              thumbnail_url: book.imageUrl,
+              caption: message,
+              parse_mode: "MarkdownV2",
+            },
+          );
+        }
+
+        return InlineQueryResultBuilder.article(
+          `book_${book.id}`,
+          book.title,
+          options,
+        ).text(message, { parse_mode: "MarkdownV2" });
+      });
+
+      await ctx.answerInlineQuery(results, {
+        cache_time: INLINE_CACHE_SECONDS,
+        next_offset:
+          offset + INLINE_PAGE_SIZE < total
+            ? String(offset + INLINE_PAGE_SIZE)
+            : "",
+      });
+    } catch (error) {
+      console.error("Error answering inline query:", error);
+      await ctx.answerInlineQuery([], { cache_time: 0 });
+    }
+  });
+
+  /**
+   * Any other text - search the catalogue. In groups, only messages that
+   * mention or reply to the bot are searched, within the group's location.
+   */
   bot.on("message", async (ctx) => {
-    const query = ctx.message?.text?.trim();
-    if (!query || query.startsWith("/") || query.length < 2) {
+    const text = ctx.message?.text?.trim();
+    if (!text || text.startsWith("/")) {
+      return;
+    }
+
+    const query = isGroupChat(ctx) ? getGroupSearchQuery(ctx, text) : text;
+    if (!query || query.length < 2) {
       return;
     }
 
     try {
-      const results = await searchBooks(db, query, 10);
+      const location = isGroupChat(ctx)
+        ? await getGroupLocation(ctx.db, ctx.chat.id)
+        : null;
+      const { books, total } = await searchBooks(
+        ctx.db,
+        query,
+        SEARCH_PAGE_SIZE,
+        0,
+        location?.id,
+      );
 
-      if (results.length === 0) {
-        await ctx.reply(formatNoSearchResultsMessage(query));
+      if (books.length === 0) {
+        await ctx.reply(formatNoSearchResultsMessage(query, ctx.locale));
         return;
       }
 
-      const message = formatSearchResultsMessage(results, query);
-      await ctx.reply(message, { parse_mode: "MarkdownV2" });
+      const message = formatSearchResultsMessage(
+        books,
+        query,
+        0,
+        total,
+        ctx.locale,
+      );
+      await ctx.reply(message, {
+        parse_mode: "MarkdownV2",
+        reply_markup: searchResultsKeyboard(books, query, 0, total, ctx.locale),
+      });
     } catch (error) {
       console.error("Error searching books:", error);
-      await ctx.reply(SEARCH_ERROR);
+      await ctx.reply(ctx.t("bot.searchError"));
     }
   });
-  return webhookCallback(bot, "cloudflare-mod")(c.req.raw);
-});
+
+  return bot;
+}
+
+// Built on the first update an isolate receives (the token comes from the
+// request's env) and reused for every update after that
+let bot: Bot<BotContext> | undefined;
+
+function getBot(env: Env) {
+  bot ??= createBot(env.BOT_TOKEN, JSON.parse(env.BOT_INFO));
+  return bot;
+}
+
+export const botApp = new Hono<{ Bindings: Env }>().post(
+  "/",
+  telegramWebhookAuth,
+  async (c) => {
+    // grammY checks the secret header again and rejects it unless it knows the secret
+    const handleUpdate = webhookCallback(getBot(c.env), "cloudflare-mod", {
+      secretToken: c.env.WEBHOOK_SECRET,
+    });
+    const deps: BotDependencies = {
+      db: drizzle(c.env.DATABASE, { schema }),
+      env: c.env,
+      executionCtx: c.executionCtx,
+      origin: new URL(c.req.url).origin,
+    };
+
+    return requestDeps.run(deps, () => handleUpdate(c.req.raw));
+  },
+);
@@ -0,0 +1,148 @@
+/**
+ * Message formatting for the admin bot commands (/overdue, /whohas, /stats, /locate)
+ */
+
+import { COPY_STATUS_LABELS, type CopyStatus } from "@shared/copy-status";
+import {
+  formatBorrower,
+  formatOverdueSection,
+  limitLines,
+  type DigestLocation,
+} from "./format-digest";
+import { escapeMarkdown, formatDate } from "./format-message";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CopyReport {
+  qrCodeId: string;
+  copyNumber: number;
+  location: string;
+  status: CopyStatus;
+  loan: {
+    telegramUserId: number;
+    telegramUsername: string | null;
+    dueDate: Date;
+  } | null;
+}
+
+export interface LocationStats {
+  location: string;
+  copies: number;
+  onLoan: number;
+  overdue: number;
+  outOfCirculation: number;
+}
+
+export interface LocatedBook {
+  title: string;
+  author: string;
+  copies: CopyReport[];
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Where a copy is right now: with a borrower, or its status at its location
+ */
+function formatCopyWhereabouts(copy: CopyReport): string {
+  if (copy.loan) {
+    return `${formatBorrower(copy.loan)} · Due: ${formatDate(new Date(copy.loan.dueDate))}`;
+  }
+  return COPY_STATUS_LABELS[copy.status];
+}
+
+function formatCopyCount(count: number): string {
+  return `${count} ${count === 1 ? "copy" : "copies"}`;
+}
+
+// ============================================================================
+// MESSAGE FORMATTERS
+// ============================================================================
+
+/**
+ * Format the /overdue reply
+ */
+export function formatOverdueMessage(
+  overdue: DigestLocation[],
+  now: Date,
+): string {
+  return escapeMarkdown(formatOverdueSection(overdue, now));
+}
+
+/**
+ * Format the /whohas reply: the current borrower of each copy
+ */
+export function formatWhoHasMessage(
+  title: string,
+  copies: CopyReport[],
+): string {
+  if (copies.length === 0) {
+    return escapeMarkdown(`📚 ${title}\n\nThis book has no copies.`);
+  }
+
+  const lines = copies.map(
+    (copy) =>
+      `• Copy #${copy.copyNumber} (${copy.qrCodeId}) · ${copy.location} · ${formatCopyWhereabouts(copy)}`,
+  );
+
+  return escapeMarkdown(`📚 ${title}\n\n${limitLines(lines)}`);
+}
+
+/**
+ * Format the /stats reply: copy and loan counts per location
+ */
+export function formatStatsMessage(stats: LocationStats[]): string {
+  if (stats.length === 0) {
+    return escapeMarkdown("📊 No locations yet.");
+  }
+
+  const total = (key: keyof Omit<LocationStats, "location">) =>
+    stats.reduce((sum, location) => sum + location[key], 0);
+
+  const locationsText = stats
+    .map(
+      (location) =>
+        `📍 ${location.location}
+   ${formatCopyCount(location.copies)} · ${location.onLoan} on loan · ${location.overdue} overdue · ${location.outOfCirculation} out of circulation`,
+    )
+    .join("\n\n");
+
+  return escapeMarkdown(`📊 Library stats
+
+${locationsText}
+
+Total: ${formatCopyCount(total("copies"))} · ${total("onLoan")} on loan · ${total("overdue")} overdue`);
+}
+
+/**
+ * Format the /locate reply: where each copy of the matching books is shelved
+ */
+export function formatLocateMessage(
+  query: string,
+  books: LocatedBook[],
+): string {
+  if (books.length === 0) {
+    return escapeMarkdown(`❌ No books found matching "${query}".`);
+  }
+
+  const booksText = books
+    .map((book) => {
+      const copiesText =
+        book.copies.length > 0
+          ? book.copies
+              .map(
+                (copy) =>
+                  `   • Copy #${copy.copyNumber} · ${copy.location} · ${formatCopyWhereabouts(copy)}`,
+              )
+              .join("\n")
+          : "   No copies";
+      return `📚 ${book.title}\n   by ${book.author}\n${copiesText}`;
+    })
+    .join("\n\n");
+
+  return escapeMarkdown(booksText);
+}
@@ -0,0 +1,138 @@
+/**
+ * Message formatting for the daily admin digest
+ */
+
+import { COPY_STATUS_LABELS, type CopyStatus } from "@shared/copy-status";
+import { escapeMarkdown, formatDate } from "./format-message";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DigestOverdueLoan {
+  title: string;
+  copyNumber: number;
+  telegramUserId: number;
+  telegramUsername: string | null;
+  dueDate: Date;
+}
+
+export interface DigestLocation {
+  location: string;
+  loans: DigestOverdueLoan[];
+}
+
+export interface DigestFlaggedCopy {
+  title: string;
+  copyNumber: number;
+  location: string;
+  status: CopyStatus;
+}
+
+export interface AdminDigest {
+  /** The day the borrow/return counts cover */
+  day: Date;
+  now: Date;
+  overdue: DigestLocation[];
+  flaggedCopies: DigestFlaggedCopy[];
+  borrowed: number;
+  returned: number;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+// Keeps the digest well under Telegram's 4096 character message limit
+const DIGEST_LIST_LIMIT = 25;
+
+export function formatBorrower(loan: {
+  telegramUserId: number;
+  telegramUsername: string | null;
+}): string {
+  return loan.telegramUsername
+    ? `@${loan.telegramUsername}`
+    : `user ${loan.telegramUserId}`;
+}
+
+export function formatDaysOverdue(dueDate: Date, now: Date): string {
+  const days = Math.max(
+    0,
+    Math.floor(
+      (now.getTime() - new Date(dueDate).getTime()) / (24 * 60 * 60 * 1000),
+    ),
+  );
+  return days === 0 ? "due today" : `${days}d overdue`;
+}
+
+/**
+ * Join list lines, cutting the list off at DIGEST_LIST_LIMIT entries
+ */
+export function limitLines(lines: string[]): string {
+  if (lines.length <= DIGEST_LIST_LIMIT) {
+    return lines.join("\n");
+  }
+  return [
+    ...lines.slice(0, DIGEST_LIST_LIMIT),
+    `…and ${lines.length - DIGEST_LIST_LIMIT} more`,
+  ].join("\n");
+}
+
+// ============================================================================
+// MESSAGE FORMATTERS
+// ============================================================================
+
+/**
+ * Format overdue loans grouped by location (also the /overdue reply)
+ */
+export function formatOverdueSection(
+  overdue: DigestLocation[],
+  now: Date,
+): string {
+  const total = overdue.reduce((sum, group) => sum + group.loans.length, 0);
+
+  if (total === 0) {
+    return "⏰ Overdue loans: none";
+  }
+
+  const lines = overdue.flatMap((group) => [
+    `📍 ${group.location} (${group.loans.length})`,
+    ...group.loans.map(
+      (loan) =>
+        `• ${loan.title} · Copy #${loan.copyNumber} · ${formatBorrower(loan)} · ${formatDaysOverdue(loan.dueDate, now)}`,
+    ),
+  ]);
+
+  return `⏰ Overdue loans (${total}):\n${limitLines(lines)}`;
+}
+
+/**
+ * Format the lost and damaged copies section
+ */
+function formatFlaggedCopiesSection(digest: AdminDigest): string {
+  if (digest.flaggedCopies.length === 0) {
+    return "🩹 Lost or damaged copies: none";
+  }
+
+  const lines = digest.flaggedCopies.map(
+    (copy) =>
+      `• ${copy.title} · Copy #${copy.copyNumber} · ${copy.location} · ${COPY_STATUS_LABELS[copy.status]}`,
+  );
+
+  return `🩹 Lost or damaged copies (${digest.flaggedCopies.length}):\n${limitLines(lines)}`;
+}
+
+/**
+ * Format the daily digest posted to the admin group
+ */
+export function formatAdminDigestMessage(digest: AdminDigest): string {
+  const plainMessage = `📋 Library digest for ${formatDate(digest.day)}
+
+📚 Borrowed: ${digest.borrowed} · Returned: ${digest.returned}
+
+${formatOverdueSection(digest.overdue, digest.now)}
+
+${formatFlaggedCopiesSection(digest)}`;
+
+  return escapeMarkdown(plainMessage);
+}
@@ -2,6 +2,15 @@
  * Message formatting utilities for the Telegram bot
  */
 
+import { isCopyStatus } from "@shared/copy-status";
+import {
+  DEFAULT_LOCALE,
+  formatDate as formatLocaleDate,
+  getTranslator,
+  type Locale,
+} from "@shared/i18n";
+import type { LoanLimit } from "@shared/loan-limits";
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -12,17 +21,20 @@ export interface BookDetails {
   description: string;
   availableCopies: number;
   totalCopies: number;
+  waitingHolds?: number;
   imageUrl?: string | null;
   copies: Array<{
     copyNumber: number;
     isAvailable: boolean;
+    isReserved?: boolean;
+    status?: string | null;
     dueDate?: Date | null;
     location: string;
   }>;
 }
 
 export interface SearchResult {
-  isbn: string | null;
+  isbn: string;
   title: string;
   author: string;
   availableCopies: number;
@@ -51,6 +63,22 @@ export interface LoanDetails {
   dueDate: Date;
 }
 
+export interface RenewableLoan extends LoanDetails {
+  qrCodeId: string;
+  renewalsRemaining: number;
+}
+
+export interface RenewResult {
+  book: {
+    title: string;
+  };
+  copyNumber: number;
+  loan: {
+    dueDate: Date;
+  };
+  renewalsRemaining: number;
+}
+
 export interface BorrowResult {
   book: {
     title: string;
@@ -67,6 +95,39 @@ export interface ReturnResult {
   };
 }
 
+export interface HoldReady {
+  title: string;
+  copyNumber: number;
+  location: string;
+  expiresAt: Date;
+}
+
+export interface LoanHistoryPage {
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  total: number;
+  entries: Array<{
+    title: string;
+    author: string;
+    borrowedAt: Date;
+    returnedAt: Date;
+  }>;
+}
+
+export interface NewArrival {
+  title: string;
+  author: string;
+}
+
+export interface LoanReminder {
+  title: string;
+  author: string;
+  copyNumber: number;
+  dueDate: Date;
+  location: string;
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -74,69 +135,43 @@ export interface ReturnResult {
 /**
  * Escape special characters for Telegram Markdown
  */
-function escapeMarkdown(text: string): string {
+export function escapeMarkdown(text: string): string {
   return text.replace(/[_*[\]()~`>#+=|{}.!-]/g, "\\$&");
 }
 
 /**
  * Format date as dd/mm/yyyy consistently across all environments
  */
-function formatDate(date: Date): string {
-  return new Intl.DateTimeFormat("en-SG", {
-    day: "2-digit",
-    month: "2-digit",
-    year: "numeric",
-  }).format(date);
+export function formatDate(
+  date: Date,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  return formatLocaleDate(date, locale);
 }
 
 // ============================================================================
 // MESSAGE CONSTANTS
 // ============================================================================
 
-const DESCRIPTION_LENGTH_LIMIT = 800;
-
-export const WELCOME_MESSAGE = `📚 Welcome to the Community Library Bot\\!
+// User-facing messages live in the shared catalogue (shared/locales). The admin
+// commands below are only used by library staff and stay in English.
 
-To *search* for books, you can type the book or author's name:
-E\\.g\\. "ulysses"
-
-To *borrow or return* a book, scan the QR code on the physical book
-
-Available commands:
-\\/start \\- Start the bot and view this message
-\\/mybooks \\- View your currently borrowed books
-
-Visit our website [to view the full catalogue](https://library.zsheng.app)
-
-Scan a QR code on any book to borrow it\\!`;
-
-export const BOOK_USAGE =
-  "Usage: /book <isbn> or /book<isbn>\n\nExample: /book 9780674430006";
-
-export const BORROW_USAGE =
-  "Usage: /borrow <qr_code_id>\n\nScan the QR code on the physical book to get the ID.";
-
-export const BOOK_NOT_FOUND = "❌ Book not found.";
-
-export const BOOK_COPY_NOT_FOUND =
-  "❌ Book copy not found. Please check the QR code.";
-
-export const SEARCH_ERROR =
-  "❌ An error occurred while searching. Please try again.";
-
-export const BOOK_DETAILS_ERROR =
-  "❌ An error occurred while fetching book details. Please try again.";
+const DESCRIPTION_LENGTH_LIMIT = 800;
 
-export const GENERIC_ERROR = "❌ An error occurred. Please try again.";
+export const EXEMPT_USAGE =
+  "Usage: /exempt <telegram_user_id> [reason]\n\nOr reply to one of the user's messages with /exempt [reason].";
 
-export const USER_IDENTIFICATION_ERROR = "❌ Unable to identify user.";
+export const UNEXEMPT_USAGE =
+  "Usage: /unexempt <telegram_user_id>\n\nOr reply to one of the user's messages with /unexempt.";
 
-export const NO_BORROWED_BOOKS =
-  "📚 You don't have any borrowed books currently.";
+export const WHOHAS_USAGE =
+  "Usage: /whohas <isbn|qr_code_id>\n\nExample: /whohas 9780674430006 or /whohas COPY-ABCDEF";
 
-export const BORROW_SUCCESS = "✅ Book borrowed successfully!";
+export const ADMIN_CHAT_ONLY =
+  "🔒 This report names borrowers, so it's only sent in the admin group or a private chat with the bot.";
 
-export const RETURN_SUCCESS = "✅ Book returned successfully!";
+export const LOCATE_USAGE =
+  "Usage: /locate <title>\n\nExample: /locate ulysses";
 
 // ============================================================================
 // MESSAGE FORMATTING FUNCTIONS
@@ -153,28 +188,50 @@ function formatBookDetailsDescription(description: string): string {
 /**
  * Format book details message
  */
-export function formatBookDetailsMessage(bookDetails: BookDetails): string {
+export function formatBookDetailsMessage(
+  bookDetails: BookDetails,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t, tn } = getTranslator(locale);
+  const waitingHolds = bookDetails.waitingHolds ?? 0;
+  const holdsText =
+    waitingHolds > 0
+      ? `\n${t("bot.book.waiting", { people: tn("count.people", waitingHolds) })}`
+      : "";
+  const borrowHint =
+    bookDetails.availableCopies > 0
+      ? t("bot.book.borrowHint")
+      : t("bot.book.holdHint");
+
   const copiesText = bookDetails.copies
     .map((copy) => {
       const statusEmoji = copy.isAvailable ? "✅" : "📅";
       const statusText = copy.isAvailable
-        ? `Available at ${copy.location}`
-        : `Borrowed (due back ${formatDate(new Date(copy.dueDate!))})`;
-      return `📖 Copy ${copy.copyNumber}: ${statusEmoji} ${statusText}`;
+        ? t("bot.book.copyAvailable", { location: copy.location })
+        : copy.dueDate
+          ? t("bot.book.copyBorrowed", {
+              date: formatDate(new Date(copy.dueDate), locale),
+            })
+          : copy.isReserved
+            ? t("bot.book.copyReserved", { location: copy.location })
+            : copy.status && isCopyStatus(copy.status)
+              ? t(`copyStatus.${copy.status}`)
+              : t("bot.book.copyUnavailable");
+      return `📖 ${t("bot.book.copyLine", { number: copy.copyNumber })}: ${statusEmoji} ${statusText}`;
     })
     .join("\n");
 
   const plainMessage = `📚 ${bookDetails.title}
-by ${bookDetails.author}
+${t("bot.book.by", { author: bookDetails.author })}
 
 ${formatBookDetailsDescription(bookDetails.description)}
 
-📊 Availability: ${bookDetails.availableCopies} of ${bookDetails.totalCopies} ${bookDetails.totalCopies === 1 ? "copy" : "copies"} available
+${tn("bot.book.availability", bookDetails.totalCopies, { available: bookDetails.availableCopies })}${holdsText}
 
-Copies:
+${t("bot.book.copiesHeading")}
 ${copiesText}
 
-💡 To borrow, scan the QR code on the physical book`;
+${borrowHint}`;
 
   // Apply formatting after escaping
   const message = escapeMarkdown(plainMessage).replace(
@@ -191,31 +248,109 @@ ${copiesText}
 export function formatSearchResultsMessage(
   results: SearchResult[],
   query: string,
+  offset: number = 0,
+  total: number = results.length,
+  locale: Locale = DEFAULT_LOCALE,
 ): string {
+  const { t, tn } = getTranslator(locale);
   const resultText = results
     .map((book, index) => {
       const availability =
         book.availableCopies > 0
-          ? `${book.availableCopies} available`
-          : "none available";
+          ? t("bot.search.available", { count: book.availableCopies })
+          : t("bot.search.noneAvailable");
 
-      return `${index + 1}\\. 📚 *${escapeMarkdown(book.title)}*
-   by ${escapeMarkdown(book.author)}
-   ${book.totalCopies} ${book.totalCopies === 1 ? "copy" : "copies"} \\(${availability}\\)
-   /book${book.isbn}`;
+      return `${offset + index + 1}\\. 📚 *${escapeMarkdown(book.title)}*
+   ${escapeMarkdown(t("bot.book.by", { author: book.author }))}
+   ${escapeMarkdown(`${tn("count.copies", book.totalCopies)} (${availability})`)}
+   /book${escapeMarkdown(book.isbn)}`;
     })
     .join("\n\n");
 
-  const message = `🔍 Found ${results.length} result${results.length === 1 ? "" : "s"} for "${escapeMarkdown(query)}":\n\n${resultText}`;
+  const pageText =
+    total > results.length
+      ? `\n\n${escapeMarkdown(
+          t("bot.search.showing", {
+            from: offset + 1,
+            to: offset + results.length,
+            total,
+          }),
+        )}`
+      : "";
+
+  const message = `${escapeMarkdown(tn("bot.search.found", total, { query }))}\n\n${resultText}${pageText}\n\n${escapeMarkdown(t("bot.search.tapHint"))}`;
 
   return message;
 }
 
+/**
+ * Format the one-line summary shown under an inline query result
+ */
+export function formatInlineResultDescription(
+  book: SearchResult,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t } = getTranslator(locale);
+  const availability =
+    book.availableCopies > 0
+      ? t("bot.inline.availableOf", {
+          available: book.availableCopies,
+          total: book.totalCopies,
+        })
+      : t("bot.search.noneAvailable");
+
+  return `${t("bot.book.by", { author: book.author })} · ${availability}`;
+}
+
+/**
+ * Format the message sent into a chat when an inline query result is picked
+ */
+export function formatInlineBookMessage(
+  book: SearchResult,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t, tn } = getTranslator(locale);
+  let availability: string;
+  if (book.totalCopies === 0) {
+    availability = t("bot.inline.noCopies");
+  } else if (book.availableCopies > 0) {
+    availability = tn("bot.inline.available", book.totalCopies, {
+      available: book.availableCopies,
+    });
+  } else {
+    availability = tn("bot.inline.allOut", book.totalCopies);
+  }
+
+  return escapeMarkdown(`📚 ${book.title}
+${t("bot.book.by", { author: book.author })}
+
+${availability}`);
+}
+
 /**
  * Format no search results message
  */
-export function formatNoSearchResultsMessage(query: string): string {
-  return `🔍 No results found for "${query}"`;
+export function formatNoSearchResultsMessage(
+  query: string,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  return getTranslator(locale).t("bot.search.noResults", { query });
+}
+
+/**
+ * Format the title block shared by the book copy messages
+ */
+function formatCopyHeader(
+  copyDetails: BookCopyDetails,
+  status: string,
+  locale: Locale,
+): string {
+  const { t } = getTranslator(locale);
+  return `📚 ${copyDetails.book.title}
+${t("bot.book.by", { author: copyDetails.book.author })}
+
+${t("bot.copy.number", { number: copyDetails.copyNumber })}
+${t("bot.copy.status", { status })}`;
 }
 
 /**
@@ -223,15 +358,17 @@ export function formatNoSearchResultsMessage(query: string): string {
  */
 export function formatBookCopyDetailsMessage(
   copyDetails: BookCopyDetails,
+  locale: Locale = DEFAULT_LOCALE,
 ): string {
+  const { t } = getTranslator(locale);
   const isAvailable = !copyDetails.currentLoan;
-  const plainMessage = `📚 ${copyDetails.book.title}
-by ${copyDetails.book.author}
-
-Copy #${copyDetails.copyNumber}
-Status: ${isAvailable ? "✅ Available" : "📖 Borrowed by you"}
+  const plainMessage = `${formatCopyHeader(
+    copyDetails,
+    isAvailable ? t("bot.copy.available") : t("bot.copy.borrowedByYou"),
+    locale,
+  )}
 
-${isAvailable ? "" : `Once you've returned the book to ${copyDetails.location}, press the button below.`}
+${isAvailable ? "" : t("bot.copy.returnHint", { location: copyDetails.location })}
 `;
 
   return escapeMarkdown(plainMessage);
@@ -242,16 +379,33 @@ ${isAvailable ? "" : `Once you've returned the book to ${copyDetails.location},
  */
 export function formatBookCopyBorrowedMessage(
   copyDetails: BookCopyDetails,
+  locale: Locale = DEFAULT_LOCALE,
 ): string {
-  const dueDate = formatDate(new Date(copyDetails.currentLoan!.dueDate));
+  const { t } = getTranslator(locale);
+  const dueDate = formatDate(
+    new Date(copyDetails.currentLoan!.dueDate),
+    locale,
+  );
 
-  const plainMessage = `📚 ${copyDetails.book.title}
-by ${copyDetails.book.author}
+  const plainMessage = `${formatCopyHeader(copyDetails, t("bot.copy.borrowed"), locale)}
+
+${t("bot.copy.dueOn", { date: dueDate })}`;
+
+  return escapeMarkdown(plainMessage);
+}
 
-Copy #${copyDetails.copyNumber}
-Status: 📅 Currently borrowed
+/**
+ * Format book copy that is out of circulation (lost, damaged, in repair...)
+ */
+export function formatBookCopyUnavailableMessage(
+  copyDetails: BookCopyDetails,
+  statusLabel: string,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t } = getTranslator(locale);
+  const plainMessage = `${formatCopyHeader(copyDetails, `⛔ ${statusLabel}`, locale)}
 
-📅 This book is currently borrowed and due on ${dueDate}.`;
+${t("bot.copy.unavailableHint")}`;
 
   return escapeMarkdown(plainMessage);
 }
@@ -259,42 +413,79 @@ Status: 📅 Currently borrowed
 /**
  * Format borrowed books list message
  */
-export function formatMyBooksMessage(activeLoans: LoanDetails[]): string {
+export function formatMyBooksMessage(
+  activeLoans: LoanDetails[],
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t } = getTranslator(locale);
   const loanText = activeLoans
     .map((loan, index) => {
-      const dueDate = formatDate(new Date(loan.dueDate));
+      const dueDate = formatDate(new Date(loan.dueDate), locale);
       const isOverdue = new Date(loan.dueDate) < new Date();
-      const overdueIndicator = isOverdue ? " ⚠️ OVERDUE" : "";
+      const overdueIndicator = isOverdue ? ` ${t("bot.loan.overdue")}` : "";
 
       return `${index + 1}. ${loan.title}
-   by ${loan.author}
-   Copy #${loan.copyNumber}
-   Due: ${dueDate}${overdueIndicator}`;
+   ${t("bot.book.by", { author: loan.author })}
+   ${t("bot.copy.number", { number: loan.copyNumber })}
+   ${t("bot.loan.due", { date: dueDate })}${overdueIndicator}`;
     })
     .join("\n\n");
 
   const message = escapeMarkdown(
-    `📚 Your borrowed books (${activeLoans.length}):\n\n${loanText}\n\n💡 Scan the QR code to return a book`,
+    `${t("bot.myBooks.title", { count: activeLoans.length })}\n\n${loanText}\n\n${t("bot.myBooks.returnHint")}`,
   );
 
   return message;
 }
 
+/**
+ * Format the user's due dates, soonest first, with the link to their calendar
+ * feed
+ */
+export function formatDueDatesMessage(
+  activeLoans: LoanDetails[],
+  calendarUrl: string,
+  now: Date,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t } = getTranslator(locale);
+  const loanText = [...activeLoans]
+    .sort(
+      (a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime(),
+    )
+    .map((loan, index) => {
+      const dueDate = formatDate(new Date(loan.dueDate), locale);
+      const overdueIndicator =
+        new Date(loan.dueDate) < now ? ` ${t("bot.loan.overdue")}` : "";
+
+      return `${index + 1}. ${loan.title}
+   ${t("bot.loan.due", { date: dueDate })}${overdueIndicator}`;
+    })
+    .join("\n\n");
+
+  return escapeMarkdown(
+    `${t("bot.due.title")}\n\n${loanText}\n\n${t("bot.due.calendarHint")}\n${calendarUrl}`,
+  );
+}
+
 /**
  * Format borrow success message
  */
-export function formatBorrowSuccessMessage(result: BorrowResult): string {
-  const dueDate = formatDate(new Date(result.loan.dueDate));
+export function formatBorrowSuccessMessage(
+  result: BorrowResult,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t } = getTranslator(locale);
+  const dueDate = formatDate(new Date(result.loan.dueDate), locale);
 
-  const plainMessage = `✅ Book Borrowed Successfully!
+  const plainMessage = `${t("bot.borrow.title")}
 
 📚 ${result.book.title}
-Copy #${result.copyNumber}
+${t("bot.copy.number", { number: result.copyNumber })}
 
-📅 Due date: ${dueDate}
+${t("bot.borrow.dueDate", { date: dueDate })}
 
-Enjoy your reading!
-Remember to return it on time.`;
+${t("bot.borrow.enjoy")}`;
 
   return escapeMarkdown(plainMessage);
 }
@@ -302,12 +493,223 @@ Remember to return it on time.`;
 /**
  * Format return success message
  */
-export function formatReturnSuccessMessage(result: ReturnResult): string {
-  const plainMessage = `✅ Book Returned Successfully!
+export function formatReturnSuccessMessage(
+  result: ReturnResult,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t } = getTranslator(locale);
+  const plainMessage = `${t("bot.return.title")}
 
 📚 ${result.book.title}
 
-Thank you for returning the book!`;
+${t("bot.return.thanks")}`;
+
+  return escapeMarkdown(plainMessage);
+}
+
+/**
+ * Format reminder for a loan that is due soon
+ */
+export function formatDueSoonReminderMessage(
+  loan: LoanReminder,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t } = getTranslator(locale);
+  const dueDate = formatDate(new Date(loan.dueDate), locale);
+
+  const plainMessage = `${t("bot.reminder.dueSoon")}
+
+📚 ${loan.title}
+${t("bot.book.by", { author: loan.author })}
+${t("bot.copy.number", { number: loan.copyNumber })}
+
+${t("bot.borrow.dueDate", { date: dueDate })}
+
+${t("bot.reminder.dueSoonHint", { location: loan.location })}`;
 
   return escapeMarkdown(plainMessage);
 }
+
+/**
+ * Format reminder for a loan that is past its due date
+ */
+export function formatOverdueReminderMessage(
+  loan: LoanReminder,
+  now: Date,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t, tn } = getTranslator(locale);
+  const dueDate = formatDate(new Date(loan.dueDate), locale);
+  const daysOverdue = Math.max(
+    0,
+    Math.floor(
+      (now.getTime() - new Date(loan.dueDate).getTime()) /
+        (24 * 60 * 60 * 1000),
+    ),
+  );
+  const overdueText =
+    daysOverdue === 0
+      ? t("bot.reminder.dueToday")
+      : tn("bot.reminder.daysOverdue", daysOverdue);
+
+  const plainMessage = `${t("bot.reminder.overdue", { overdue: overdueText })}
+
+📚 ${loan.title}
+${t("bot.book.by", { author: loan.author })}
+${t("bot.copy.number", { number: loan.copyNumber })}
+
+${t("bot.reminder.wasDue", { date: dueDate })}
+
+${t("bot.reminder.overdueHint", { location: loan.location })}`;
+
+  return escapeMarkdown(plainMessage);
+}
+
+/**
+ * Format the list of loans to choose from when /renew is sent without a code
+ */
+export function formatRenewChoicesMessage(
+  activeLoans: RenewableLoan[],
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t } = getTranslator(locale);
+  const loanText = activeLoans
+    .map((loan, index) => {
+      const dueDate = formatDate(new Date(loan.dueDate), locale);
+      const renewText =
+        loan.renewalsRemaining > 0
+          ? `/renew ${loan.qrCodeId}`
+          : t("bot.renew.noneLeft");
+
+      return `${index + 1}. ${loan.title}
+   ${t("bot.copy.number", { number: loan.copyNumber })} · ${t("bot.loan.due", { date: dueDate })}
+   ${renewText}`;
+    })
+    .join("\n\n");
+
+  return escapeMarkdown(`${t("bot.renew.choose")}\n\n${loanText}`);
+}
+
+/**
+ * Format renew success message
+ */
+export function formatRenewSuccessMessage(
+  result: RenewResult,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t, tn } = getTranslator(locale);
+  const dueDate = formatDate(new Date(result.loan.dueDate), locale);
+  const renewalsText =
+    result.renewalsRemaining > 0
+      ? tn("bot.renew.remaining", result.renewalsRemaining)
+      : t("bot.renew.last");
+
+  const plainMessage = `${t("bot.renew.title")}
+
+📚 ${result.book.title}
+${t("bot.copy.number", { number: result.copyNumber })}
+
+${t("bot.renew.newDueDate", { date: dueDate })}
+
+${renewalsText}`;
+
+  return escapeMarkdown(plainMessage);
+}
+
+/**
+ * Format notification that a held book has been reserved for the user
+ */
+export function formatHoldReadyMessage(
+  hold: HoldReady,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t } = getTranslator(locale);
+  const expiresAt = formatDate(new Date(hold.expiresAt), locale);
+
+  const plainMessage = `${t("bot.holdReady.title")}
+
+📚 ${hold.title}
+${t("bot.holdReady.reserved", { number: hold.copyNumber, location: hold.location })}
+
+${t("bot.holdReady.pickUpBy", { date: expiresAt })}
+
+${t("bot.holdReady.scan")}`;
+
+  return escapeMarkdown(plainMessage);
+}
+
+/**
+ * Format the error shown when a user is at the concurrent loan cap,
+ * listing the books they need to return first
+ */
+export function formatLoanLimitMessage(
+  limit: LoanLimit,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t, tn } = getTranslator(locale);
+  const loanText = limit.loans
+    .map((loan, index) => {
+      const dueDate = formatDate(new Date(loan.dueDate), locale);
+      return `${index + 1}. ${loan.title}
+   ${t("bot.copy.number", { number: loan.copyNumber })} · ${t("bot.loan.due", { date: dueDate })}`;
+    })
+    .join("\n\n");
+
+  const plainMessage = `${tn("bot.loanLimit.title", limit.maxActiveLoans)}
+
+${t("bot.loanLimit.returnFirst")}
+
+${loanText}`;
+
+  return escapeMarkdown(plainMessage);
+}
+
+/**
+ * Format one page of the user's reading history
+ */
+export function formatHistoryMessage(
+  history: LoanHistoryPage,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t } = getTranslator(locale);
+  const firstIndex = (history.page - 1) * history.pageSize;
+  const entriesText = history.entries
+    .map((entry, index) => {
+      const borrowedAt = formatDate(new Date(entry.borrowedAt), locale);
+      const returnedAt = formatDate(new Date(entry.returnedAt), locale);
+      return `${firstIndex + index + 1}. ${entry.title}
+   ${t("bot.book.by", { author: entry.author })}
+   ${borrowedAt} → ${returnedAt}`;
+    })
+    .join("\n\n");
+
+  const morePages = history.page < history.totalPages;
+  const pageText =
+    history.totalPages > 1
+      ? `\n\n${t("bot.history.page", { page: history.page, totalPages: history.totalPages })}${morePages ? ` · ${t("bot.history.more", { page: history.page + 1 })}` : ""}`
+      : "";
+
+  return escapeMarkdown(
+    `${t("bot.history.title", { count: history.total })}\n\n${entriesText}${pageText}\n\n${t("bot.history.offHint")}`,
+  );
+}
+
+/**
+ * Format the weekly digest of books added to the library
+ */
+export function formatNewArrivalsMessage(
+  books: NewArrival[],
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const { t, tn } = getTranslator(locale);
+  const booksText = books
+    .map(
+      (book) => `📚 ${book.title}
+   ${t("bot.book.by", { author: book.author })}`,
+    )
+    .join("\n\n");
+
+  return escapeMarkdown(
+    `${tn("bot.newArrivals.title", books.length)}\n\n${booksText}\n\n${t("bot.newArrivals.hint")}`,
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * One-off bot configuration (webhook, commands, descriptions, menu button).
+ * Applied by scripts/setup-bot.ts on deploy rather than on every update.
+ */
+
+import { DEFAULT_LOCALE, LOCALES, translate, type Locale } from "@shared/i18n";
+import type { Api } from "grammy";
+import type { BotCommand } from "grammy/types";
+
+const USER_COMMANDS = [
+  "start",
+  "mybooks",
+  "due",
+  "renew",
+  "history",
+  "subscribe",
+  "language",
+] as const;
+
+/**
+ * The commands everyone sees, described in the given language
+ */
+export function getBotCommands(locale: Locale): BotCommand[] {
+  return USER_COMMANDS.map((command) => ({
+    command,
+    description: translate(locale, `bot.command.${command}`),
+  }));
+}
+
+export const BOT_COMMANDS = getBotCommands(DEFAULT_LOCALE);
+
+// Shown on top of BOT_COMMANDS in the admin group's command menu.
+// Admin commands stay in English.
+export const ADMIN_BOT_COMMANDS: BotCommand[] = [
+  { command: "overdue", description: "List overdue loans by location" },
+  { command: "whohas", description: "Show who has each copy of a book" },
+  { command: "stats", description: "Show copy and loan counts by location" },
+  { command: "locate", description: "Show which shelf each copy is on" },
+];
+
+// Shown on top of BOT_COMMANDS to administrators of any group the bot is in
+export const GROUP_ADMIN_BOT_COMMANDS: BotCommand[] = [
+  {
+    command: "setlocation",
+    description: "Pick the location this group searches",
+  },
+];
+
+// Shown in the empty chat before the user presses Start
+export const BOT_DESCRIPTION =
+  "Borrow and return books from the community library. Scan the QR code on a book to borrow it, or send a title or author to search the catalogue.";
+
+// Shown on the bot's profile and when it is shared
+export const BOT_SHORT_DESCRIPTION =
+  "Borrow, return and search books from the community library.";
+
+export interface BotSetupOptions {
+  /** Admin group chat ID, which also gets the admin commands in its menu */
+  adminGroupId?: string;
+  /** HTTPS URL of the Mini App page, used for the chat menu button */
+  miniAppWebUrl?: string;
+  /** Where Telegram should deliver updates, and the WEBHOOK_SECRET to send with them */
+  webhook?: {
+    url: string;
+    secretToken: string;
+  };
+}
+
+/**
+ * Set the bot's webhook, commands, descriptions and (optionally) menu button
+ */
+export async function setUpBot(api: Api, options: BotSetupOptions = {}) {
+  if (options.webhook) {
+    await api.setWebhook(options.webhook.url, {
+      secret_token: options.webhook.secretToken,
+    });
+  }
+
+  // Telegram shows each user the list for their app language, falling back to
+  // the one set without a language_code
+  for (const locale of LOCALES) {
+    const commands = getBotCommands(locale);
+    const language_code = locale === DEFAULT_LOCALE ? undefined : locale;
+
+    await api.setMyCommands(commands, { language_code });
+    await api.setMyCommands([...commands, ...GROUP_ADMIN_BOT_COMMANDS], {
+      scope: { type: "all_chat_administrators" },
+      language_code,
+    });
+    if (options.adminGroupId) {
+      await api.setMyCommands([...commands, ...ADMIN_BOT_COMMANDS], {
+        scope: { type: "chat", chat_id: options.adminGroupId },
+        language_code,
+      });
+    }
+  }
+  await api.setMyDescription(BOT_DESCRIPTION);
+  await api.setMyShortDescription(BOT_SHORT_DESCRIPTION);
+
+  if (options.miniAppWebUrl) {
+    await api.setChatMenuButton({
+      menu_button: {
+        type: "web_app",
+        text: "Library",
+        web_app: { url: options.miniAppWebUrl },
+      },
+    });
+  }
+}
@@ -1,15 +1,24 @@
-import { isNull, relations } from "drizzle-orm";
+import { isNull, relations, sql } from "drizzle-orm";
 import {
   index,
   integer,
+  primaryKey,
   sqliteTable,
   text,
   uniqueIndex,
 } from "drizzle-orm/sqlite-core";
+import { CONTRIBUTOR_ROLES } from "../../shared/authors";
+import { COPY_STATUSES } from "../../shared/copy-status";
+import { LOCALES } from "../../shared/i18n";
 
 export const locations = sqliteTable("locations", {
   id: integer().primaryKey({ autoIncrement: true }),
   name: text().notNull(),
+  // Loan policy for copies shelved at this location
+  loanPeriodDays: integer("loan_period_days").notNull().default(14),
+  maxRenewals: integer("max_renewals").notNull().default(2),
+  // Max active loans a user can have from this location (null = no limit)
+  maxLoansPerUser: integer("max_loans_per_user"),
 });
 
 export const books = sqliteTable("books", {
@@ -22,8 +31,69 @@ export const books = sqliteTable("books", {
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .$defaultFn(() => new Date()),
+  // Set when an admin deletes the book; it's hidden everywhere but can be restored
+  deletedAt: integer("deleted_at", { mode: "timestamp" }),
 });
 
+// Genres and subjects books are filed under (see shared/tags.ts)
+export const tags = sqliteTable("tags", {
+  id: integer().primaryKey({ autoIncrement: true }),
+  name: text().notNull(),
+  // Lowercased, URL-safe name; two names with the same slug are the same tag
+  slug: text().unique().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+export const bookTags = sqliteTable(
+  "book_tags",
+  {
+    bookId: integer("book_id")
+      .notNull()
+      .references(() => books.id),
+    tagId: integer("tag_id")
+      .notNull()
+      .references(() => tags.id),
+  },
+  (table) => [
+    primaryKey({ columns: [table.bookId, table.tagId] }),
+    index("idx_book_tags_tag").on(table.tagId),
+  ],
+);
+
+// People credited on books, parsed from books.author (see shared/authors.ts)
+export const authors = sqliteTable("authors", {
+  id: integer().primaryKey({ autoIncrement: true }),
+  name: text().notNull(),
+  // Lowercased, URL-safe name used for /author/:slug pages
+  slug: text().unique().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+// Who is credited on a book and how. books.author stays the display credit
+// line; these rows are rebuilt from it whenever it changes.
+export const bookAuthors = sqliteTable(
+  "book_authors",
+  {
+    bookId: integer("book_id")
+      .notNull()
+      .references(() => books.id),
+    authorId: integer("author_id")
+      .notNull()
+      .references(() => authors.id),
+    role: text({ enum: CONTRIBUTOR_ROLES }).notNull().default("author"),
+    // Order in the credit line
+    position: integer().notNull().default(0),
+  },
+  (table) => [
+    primaryKey({ columns: [table.bookId, table.authorId, table.role] }),
+    index("idx_book_authors_author").on(table.authorId),
+  ],
+);
+
 export const bookCopies = sqliteTable("book_copies", {
   qrCodeId: text("qr_code_id").primaryKey(),
   bookId: integer("book_id")
@@ -33,9 +103,35 @@ export const bookCopies = sqliteTable("book_copies", {
     .notNull()
     .references(() => locations.id),
   copyNumber: integer("copy_number").notNull(),
-  status: text().default("available"),
+  // Lifecycle state, changed by admins (see shared/copy-status.ts for the allowed transitions)
+  status: text({ enum: COPY_STATUSES }).default("available"),
+  // When the copy was added (null for copies added before this was recorded)
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(
+    () => new Date(),
+  ),
 });
 
+// Audit trail of copy lifecycle changes
+export const copyStatusChanges = sqliteTable(
+  "copy_status_changes",
+  {
+    id: integer().primaryKey({ autoIncrement: true }),
+    qrCodeId: text("qr_code_id")
+      .notNull()
+      .references(() => bookCopies.qrCodeId),
+    fromStatus: text("from_status", { enum: COPY_STATUSES }).notNull(),
+    toStatus: text("to_status", { enum: COPY_STATUSES }).notNull(),
+    // Telegram user ID of the admin, or null for automatic changes (e.g. holds)
+    changedBy: integer("changed_by"),
+    changedByUsername: text("changed_by_username"),
+    reason: text(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [index("idx_copy_status_changes_copy").on(table.qrCodeId)],
+);
+
 export const loans = sqliteTable(
   "loans",
   {
@@ -50,7 +146,12 @@ export const loans = sqliteTable(
       .$defaultFn(() => new Date()),
     dueDate: integer("due_date", { mode: "timestamp" }).notNull(),
     returnedAt: integer("returned_at", { mode: "timestamp" }),
+    renewalCount: integer("renewal_count").notNull().default(0),
     lastReminderSent: integer("last_reminder_sent", { mode: "timestamp" }),
+    // Set when the borrower removes the loan from their reading history
+    hiddenFromHistory: integer("hidden_from_history", { mode: "boolean" })
+      .notNull()
+      .default(false),
   },
   (table) => [
     index("idx_active_loans").on(table.qrCodeId, table.returnedAt),
@@ -62,12 +163,225 @@ export const loans = sqliteTable(
   ],
 );
 
+export const holdStatuses = [
+  "waiting",
+  "ready",
+  "fulfilled",
+  "cancelled",
+  "expired",
+] as const;
+
+export type HoldStatus = (typeof holdStatuses)[number];
+
+export const holds = sqliteTable(
+  "holds",
+  {
+    id: integer().primaryKey({ autoIncrement: true }),
+    bookId: integer("book_id")
+      .notNull()
+      .references(() => books.id),
+    telegramUserId: integer("telegram_user_id").notNull(),
+    telegramUsername: text("telegram_username"),
+    // waiting -> ready (copy reserved) -> fulfilled | expired, or cancelled at any point
+    status: text({ enum: holdStatuses }).notNull().default("waiting"),
+    // The copy set aside for this hold once it becomes ready
+    reservedQrCodeId: text("reserved_qr_code_id").references(
+      () => bookCopies.qrCodeId,
+    ),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    readyAt: integer("ready_at", { mode: "timestamp" }),
+    // End of the pickup window for a ready hold
+    expiresAt: integer("expires_at", { mode: "timestamp" }),
+    closedAt: integer("closed_at", { mode: "timestamp" }),
+  },
+  (table) => [
+    // FIFO queue lookups per book
+    index("idx_holds_queue").on(table.bookId, table.status, table.createdAt),
+    // A user can only have one open hold per book
+    uniqueIndex("idx_unique_open_hold")
+      .on(table.bookId, table.telegramUserId)
+      .where(sql`${table.status} in ('waiting', 'ready')`),
+  ],
+);
+
+export const loanOverrideActions = ["return", "extend", "reassign"] as const;
+
+export type LoanOverrideAction = (typeof loanOverrideActions)[number];
+
+// Audit trail of admin changes to loans on behalf of borrowers
+export const loanOverrides = sqliteTable(
+  "loan_overrides",
+  {
+    id: integer().primaryKey({ autoIncrement: true }),
+    loanId: integer("loan_id")
+      .notNull()
+      .references(() => loans.id),
+    action: text({ enum: loanOverrideActions }).notNull(),
+    adminTelegramUserId: integer("admin_telegram_user_id").notNull(),
+    adminTelegramUsername: text("admin_telegram_username"),
+    // Due date (extend) or borrower ID (reassign) before and after the change
+    previousValue: text("previous_value"),
+    newValue: text("new_value"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [index("idx_loan_overrides_loan").on(table.loanId)],
+);
+
+export const bookChangeActions = ["edit", "delete", "restore"] as const;
+
+export type BookChangeAction = (typeof bookChangeActions)[number];
+
+// The book fields admins can edit, as recorded in the change log
+export type BookFields = {
+  title: string;
+  author: string;
+  description: string;
+  imageUrl: string | null;
+  // Tag names, sorted by name
+  tags: string[];
+};
+
+// Change log of admin edits to book metadata, so bad edits can be reverted
+export const bookChanges = sqliteTable(
+  "book_changes",
+  {
+    id: integer().primaryKey({ autoIncrement: true }),
+    bookId: integer("book_id")
+      .notNull()
+      .references(() => books.id),
+    action: text({ enum: bookChangeActions }).notNull(),
+    // Values of the edited fields before and after the change (edits only)
+    previousValues: text("previous_values", { mode: "json" }).$type<
+      Partial<BookFields>
+    >(),
+    newValues: text("new_values", { mode: "json" }).$type<
+      Partial<BookFields>
+    >(),
+    // The change this one undid, for reverts
+    revertedChangeId: integer("reverted_change_id"),
+    adminTelegramUserId: integer("admin_telegram_user_id").notNull(),
+    adminTelegramUsername: text("admin_telegram_username"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [index("idx_book_changes_book").on(table.bookId)],
+);
+
+// Per-user preferences set from the bot or Mini App
+export const userSettings = sqliteTable("user_settings", {
+  telegramUserId: integer("telegram_user_id").primaryKey(),
+  // When off, returned loans are hidden from the user's reading history
+  keepLoanHistory: integer("keep_loan_history", { mode: "boolean" })
+    .notNull()
+    .default(true),
+  // Language picked with /language (null = follow the Telegram client)
+  language: text({ enum: LOCALES }),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+// Users allowed to exceed the per-user concurrent loan cap, granted by an admin
+export const loanLimitExemptions = sqliteTable("loan_limit_exemptions", {
+  telegramUserId: integer("telegram_user_id").primaryKey(),
+  grantedBy: integer("granted_by").notNull(),
+  reason: text(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+// Users who get the weekly new-arrivals digest (/subscribe)
+export const newArrivalSubscriptions = sqliteTable(
+  "new_arrival_subscriptions",
+  {
+    telegramUserId: integer("telegram_user_id").primaryKey(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    // Start of the last weekly digest sent (or tried), so each run of the
+    // digest picks up the subscribers it hasn't reached yet
+    lastDigestAt: integer("last_digest_at", { mode: "timestamp" }),
+  },
+);
+
+// Settings for group chats the bot has been added to, set by the group's admins
+export const groupSettings = sqliteTable("group_settings", {
+  chatId: integer("chat_id").primaryKey(),
+  // Location searches in the group are scoped to (null = all locations)
+  locationId: integer("location_id").references(() => locations.id),
+  updatedBy: integer("updated_by").notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+// ISBN lookups from the metadata provider, so re-scanning a book doesn't call it
+// again (title is null when the provider didn't know the ISBN)
+export const isbnMetadataCache = sqliteTable("isbn_metadata_cache", {
+  isbn: text().primaryKey(),
+  provider: text().notNull(),
+  title: text(),
+  authors: text({ mode: "json" }).$type<string[]>(),
+  description: text(),
+  coverUrl: text("cover_url"),
+  fetchedAt: integer("fetched_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
 export const locationsRelations = relations(locations, ({ many }) => ({
   bookCopies: many(bookCopies),
 }));
 
 export const booksRelations = relations(books, ({ many }) => ({
   bookCopies: many(bookCopies),
+  holds: many(holds),
+  changes: many(bookChanges),
+  bookTags: many(bookTags),
+  bookAuthors: many(bookAuthors),
+}));
+
+export const authorsRelations = relations(authors, ({ many }) => ({
+  bookAuthors: many(bookAuthors),
+}));
+
+export const bookAuthorsRelations = relations(bookAuthors, ({ one }) => ({
+  book: one(books, {
+    fields: [bookAuthors.bookId],
+    references: [books.id],
+  }),
+  author: one(authors, {
+    fields: [bookAuthors.authorId],
+    references: [authors.id],
+  }),
+}));
+
+export const tagsRelations = relations(tags, ({ many }) => ({
+  bookTags: many(bookTags),
+}));
+
+export const bookTagsRelations = relations(bookTags, ({ one }) => ({
+  book: one(books, {
+    fields: [bookTags.bookId],
+    references: [books.id],
+  }),
+  tag: one(tags, {
+    fields: [bookTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const bookChangesRelations = relations(bookChanges, ({ one }) => ({
+  book: one(books, {
+    fields: [bookChanges.bookId],
+    references: [books.id],
+  }),
 }));
 
 export const bookCopiesRelations = relations(bookCopies, ({ one, many }) => ({
@@ -80,11 +394,49 @@ export const bookCopiesRelations = relations(bookCopies, ({ one, many }) => ({
     references: [locations.id],
   }),
   loans: many(loans),
+  reservations: many(holds),
+  statusChanges: many(copyStatusChanges),
 }));
 
-export const loansRelations = relations(loans, ({ one }) => ({
+export const loansRelations = relations(loans, ({ one, many }) => ({
   bookCopy: one(bookCopies, {
     fields: [loans.qrCodeId],
     references: [bookCopies.qrCodeId],
   }),
+  overrides: many(loanOverrides),
+}));
+
+export const loanOverridesRelations = relations(loanOverrides, ({ one }) => ({
+  loan: one(loans, {
+    fields: [loanOverrides.loanId],
+    references: [loans.id],
+  }),
+}));
+
+export const holdsRelations = relations(holds, ({ one }) => ({
+  book: one(books, {
+    fields: [holds.bookId],
+    references: [books.id],
+  }),
+  reservedCopy: one(bookCopies, {
+    fields: [holds.reservedQrCodeId],
+    references: [bookCopies.qrCodeId],
+  }),
+}));
+
+export const copyStatusChangesRelations = relations(
+  copyStatusChanges,
+  ({ one }) => ({
+    copy: one(bookCopies, {
+      fields: [copyStatusChanges.qrCodeId],
+      references: [bookCopies.qrCodeId],
+    }),
+  }),
+);
+
+export const groupSettingsRelations = relations(groupSettings, ({ one }) => ({
+  location: one(locations, {
+    fields: [groupSettings.locationId],
+    references: [locations.id],
+  }),
 }));
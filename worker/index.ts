@@ -1,9 +1,29 @@
 /// <reference types="../worker-configuration.d.ts" />
-import { eq, isNull } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/d1";
+import { Api } from "grammy";
 import { Hono } from "hono";
 import { botApp } from "./bot.ts";
 import * as schema from "./db/schema.ts";
+import {
+  getAuthorBooks,
+  toContributors,
+  withContributors,
+} from "./lib/authors.ts";
+import { isListed } from "./lib/book.ts";
+import { ADMIN_DIGEST_CRON, sendAdminDigest } from "./lib/digest.ts";
+import {
+  activeReservation,
+  expireHolds,
+  notifyHoldsReady,
+} from "./lib/holds.ts";
+import {
+  NEW_ARRIVALS_CRON,
+  sendNewArrivalsDigest,
+} from "./lib/new-arrivals.ts";
+import { getReminderConfig, sendLoanReminders } from "./lib/reminders.ts";
+import { toTagNames, withTagNames } from "./lib/tags.ts";
+import { calendar } from "./routes/calendar.ts";
 import { miniApp } from "./routes/mini-app.ts";
 
 const app = new Hono<{
@@ -19,6 +39,7 @@ const route = app
     });
 
     const books = await db.query.books.findMany({
+      where: isListed(),
       columns: {
         id: true,
         isbn: true,
@@ -27,10 +48,17 @@ const route = app
         imageUrl: true,
         createdAt: true,
         description: false,
+        deletedAt: false,
       },
+      with: { bookTags: withTagNames },
     });
 
-    return c.json({ books });
+    return c.json({
+      books: books.map(({ bookTags, ...book }) => ({
+        ...book,
+        tags: toTagNames(bookTags),
+      })),
+    });
   })
   .get("/books/:id", async (c) => {
     const db = drizzle(c.env.DATABASE, {
@@ -40,7 +68,7 @@ const route = app
     const bookId = parseInt(c.req.param("id"));
 
     const book = await db.query.books.findFirst({
-      where: eq(schema.books.id, bookId),
+      where: and(eq(schema.books.id, bookId), isListed()),
       with: {
         bookCopies: {
           with: {
@@ -50,6 +78,8 @@ const route = app
             location: true,
           },
         },
+        bookTags: withTagNames,
+        bookAuthors: withContributors,
       },
     });
 
@@ -57,7 +87,27 @@ const route = app
       return c.json({ error: "Book not found" }, 404);
     }
 
-    return c.json({ book });
+    const { bookTags, bookAuthors, ...rest } = book;
+    return c.json({
+      book: {
+        ...rest,
+        tags: toTagNames(bookTags),
+        authors: toContributors(bookAuthors),
+      },
+    });
+  })
+  .get("/authors/:slug", async (c) => {
+    const db = drizzle(c.env.DATABASE, {
+      schema,
+    });
+
+    const result = await getAuthorBooks(db, c.req.param("slug"));
+
+    if (!result) {
+      return c.json({ error: "Author not found" }, 404);
+    }
+
+    return c.json(result);
   })
   .get("/copies/:qrCodeId", async (c) => {
     const db = drizzle(c.env.DATABASE, {
@@ -73,19 +123,68 @@ const route = app
         loans: {
           where: isNull(schema.loans.returnedAt),
         },
+        reservations: {
+          where: activeReservation(),
+          limit: 1,
+        },
       },
     });
 
-    if (!bookCopy) {
+    if (!bookCopy || bookCopy.book.deletedAt) {
       return c.json({ error: "Book copy not found" }, 404);
     }
-    const { book, ...copy } = bookCopy;
+    // Only expose when the reservation ends, not who it's for
+    const { book, reservations, ...copy } = bookCopy;
 
-    return c.json({ book, copy });
+    return c.json({
+      book,
+      copy: { ...copy, reservedUntil: reservations[0]?.expiresAt ?? null },
+    });
   })
   .route("/bot", botApp)
+  .route("/calendar", calendar)
   .route("/miniapp", miniApp);
 
-export default app;
+export default {
+  fetch: app.fetch,
+  /**
+   * Cron trigger handler - posts the daily admin digest, sends the weekly
+   * new-arrivals digest, or expires unclaimed holds and sends due-soon and
+   * overdue loan reminders
+   */
+  async scheduled(controller, env) {
+    const db = drizzle(env.DATABASE, { schema });
+    const api = new Api(env.BOT_TOKEN);
+    const now = new Date(controller.scheduledTime);
+
+    if (controller.cron === ADMIN_DIGEST_CRON) {
+      const sent = await sendAdminDigest(db, api, env.ADMIN_GROUP_ID, now);
+      console.log(`Admin digest: ${sent ? "sent" : "not sent"}`);
+      return;
+    }
+
+    if (controller.cron === NEW_ARRIVALS_CRON) {
+      const result = await sendNewArrivalsDigest(db, api, now);
+      console.log(
+        `New arrivals: ${result.books} books, ${result.sent} sent, ${result.failed} failed, ${result.unsubscribed} unsubscribed`,
+      );
+      return;
+    }
+
+    const holdsResult = await expireHolds(db, now);
+    await notifyHoldsReady(api, holdsResult.readyHolds);
+    console.log(
+      `Holds: ${holdsResult.expired} expired, ${holdsResult.readyHolds.length} passed on`,
+    );
+
+    const result = await sendLoanReminders(
+      db,
+      api,
+      now,
+      getReminderConfig(env),
+    );
+    console.log(`Loan reminders: ${result.sent} sent, ${result.failed} failed`);
+  },
+} satisfies ExportedHandler<Env>;
 // For type inference in the client
 export type AppType = typeof route;
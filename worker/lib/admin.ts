@@ -26,3 +26,22 @@ export async function isUserAdmin(
     return false;
   }
 }
+
+/**
+ * Check if a user can change a group chat's settings, i.e. is an administrator
+ * or the creator of that group.
+ */
+export async function isGroupAdmin(
+  botToken: string,
+  chatId: number,
+  userId: number,
+): Promise<boolean> {
+  try {
+    const api = new Api(botToken);
+    const member = await api.getChatMember(chatId, userId);
+
+    return ["administrator", "creator"].includes(member.status);
+  } catch {
+    return false;
+  }
+}
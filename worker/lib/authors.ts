@@ -0,0 +1,141 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import {
+  authorSlug,
+  parseContributors,
+  type ContributorRole,
+} from "@shared/authors";
+import { authors, bookAuthors, books } from "../db/schema";
+import { isListed, type Database } from "./book";
+
+/**
+ * Relational query options that load the people credited on a book,
+ * e.g. db.query.books.findFirst({ with: { bookAuthors: withContributors } })
+ */
+export const withContributors = {
+  columns: { role: true, position: true },
+  with: { author: { columns: { name: true, slug: true } } },
+} as const;
+
+/**
+ * Flatten the bookAuthors loaded with withContributors, in credit order
+ */
+export function toContributors(
+  rows: {
+    role: ContributorRole;
+    position: number;
+    author: { name: string; slug: string };
+  }[],
+) {
+  return [...rows]
+    .sort((a, b) => a.position - b.position)
+    .map((row) => ({
+      name: row.author.name,
+      slug: row.author.slug,
+      role: row.role,
+    }));
+}
+
+/**
+ * Prepare to rebuild a book's links to the people in its author credit,
+ * creating authors that don't exist yet. Returns the statements that relink
+ * the book, for the caller to batch with the change to books.author.
+ */
+export async function prepareBookAuthors(
+  db: Database,
+  bookId: number,
+  credit: string,
+): Promise<[BatchItem<"sqlite">, ...BatchItem<"sqlite">[]]> {
+  const contributors = parseContributors(credit).map((contributor) => ({
+    ...contributor,
+    slug: authorSlug(contributor.name),
+  }));
+  const slugs = [...new Set(contributors.map((c) => c.slug))];
+
+  if (slugs.length > 0) {
+    await db
+      .insert(authors)
+      .values(
+        contributors.map((contributor) => ({
+          name: contributor.name,
+          slug: contributor.slug,
+        })),
+      )
+      .onConflictDoNothing({ target: authors.slug });
+  }
+
+  const authorRows =
+    slugs.length > 0
+      ? await db
+          .select({ id: authors.id, slug: authors.slug })
+          .from(authors)
+          .where(inArray(authors.slug, slugs))
+      : [];
+  const authorIds = new Map(authorRows.map((row) => [row.slug, row.id]));
+
+  const unlink = db.delete(bookAuthors).where(eq(bookAuthors.bookId, bookId));
+  if (contributors.length === 0) {
+    return [unlink];
+  }
+
+  return [
+    unlink,
+    db.insert(bookAuthors).values(
+      contributors.map((contributor, position) => ({
+        bookId,
+        authorId: authorIds.get(contributor.slug)!,
+        role: contributor.role,
+        position,
+      })),
+    ),
+  ];
+}
+
+/**
+ * Rebuild a book's links to the people in its author credit, creating authors
+ * that don't exist yet. Called whenever books.author is set.
+ *
+ * NOTE: See borrowBook() for explanation of D1 transaction limitations.
+ * The old links are removed and the new ones added in one batch, which D1 runs
+ * atomically. The links are derived from books.author, so running this again
+ * repairs a failure before the batch.
+ */
+export async function setBookAuthors(
+  db: Database,
+  bookId: number,
+  credit: string,
+) {
+  await db.batch(await prepareBookAuthors(db, bookId, credit));
+}
+
+/**
+ * Get an author and the books they're credited on (with their role),
+ * sorted by title. Deleted books are left out.
+ */
+export async function getAuthorBooks(db: Database, slug: string) {
+  const author = await db.query.authors.findFirst({
+    where: eq(authors.slug, slug),
+    columns: { id: true, name: true, slug: true },
+  });
+
+  if (!author) {
+    return null;
+  }
+
+  const rows = await db
+    .select({
+      id: books.id,
+      isbn: books.isbn,
+      title: books.title,
+      author: books.author,
+      imageUrl: books.imageUrl,
+      createdAt: books.createdAt,
+      role: bookAuthors.role,
+    })
+    .from(bookAuthors)
+    .innerJoin(books, eq(bookAuthors.bookId, books.id))
+    .where(and(eq(bookAuthors.authorId, author.id), isListed()))
+    .orderBy(asc(books.title));
+
+  return { author, books: rows };
+}
@@ -0,0 +1,406 @@
+import {
+  and,
+  count,
+  desc,
+  eq,
+  exists,
+  isNotNull,
+  isNull,
+  notExists,
+  type SQL,
+} from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { tagSlug } from "@shared/tags";
+import {
+  bookChanges,
+  bookCopies,
+  books,
+  loans,
+  type BookChangeAction,
+  type BookFields,
+} from "../db/schema";
+import { insertValue, isListed, type Database } from "./book";
+import { prepareBookAuthors } from "./authors";
+import type { AdminActor } from "./copies";
+import { cancelBookHoldsQuery, releaseReservedCopies } from "./holds";
+import { prepareBookTags, toTagNames, withTagNames } from "./tags";
+
+const BOOK_FIELDS = [
+  "title",
+  "author",
+  "description",
+  "imageUrl",
+  "tags",
+] as const;
+
+const FIELD_LABELS: Record<keyof BookFields, string> = {
+  title: "title",
+  author: "author",
+  description: "description",
+  imageUrl: "cover",
+  tags: "genres",
+};
+
+type BookWithTags = typeof books.$inferSelect & { tags: string[] };
+
+/**
+ * Whether two values of a field are the same. Tag lists are compared by slug,
+ * ignoring order.
+ */
+function isSameValue(
+  a: BookFields[keyof BookFields] | undefined,
+  b: BookFields[keyof BookFields] | undefined,
+) {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const key = (names: string[]) => names.map(tagSlug).sort().join("\n");
+    return key(a) === key(b);
+  }
+  return a === b;
+}
+
+/**
+ * Find a book that hasn't been deleted, with its tag names
+ */
+async function findListedBook(
+  db: Database,
+  bookId: number,
+): Promise<BookWithTags | undefined> {
+  const book = await db.query.books.findFirst({
+    where: and(eq(books.id, bookId), isListed()),
+    with: { bookTags: withTagNames },
+  });
+
+  if (!book) {
+    return undefined;
+  }
+
+  const { bookTags, ...columns } = book;
+  return { ...columns, tags: toTagNames(bookTags) };
+}
+
+/**
+ * Statement logging an admin change to a book, for the caller to batch with
+ * the change itself. With a condition, the entry is only written if the book
+ * matches it when the statement runs.
+ */
+function recordChange(
+  db: Database,
+  bookId: number,
+  action: BookChangeAction,
+  actor: AdminActor,
+  values: {
+    previousValues?: Partial<BookFields>;
+    newValues?: Partial<BookFields>;
+    revertedChangeId?: number;
+  } = {},
+  condition?: SQL,
+) {
+  return db
+    .insert(bookChanges)
+    .select(
+      db
+        .select({
+          id: insertValue(null, bookChanges.id),
+          bookId: books.id,
+          action: insertValue(action, bookChanges.action),
+          previousValues: insertValue(
+            values.previousValues ?? null,
+            bookChanges.previousValues,
+          ),
+          newValues: insertValue(
+            values.newValues ?? null,
+            bookChanges.newValues,
+          ),
+          revertedChangeId: insertValue(
+            values.revertedChangeId ?? null,
+            bookChanges.revertedChangeId,
+          ),
+          adminTelegramUserId: insertValue(
+            actor.telegramUserId,
+            bookChanges.adminTelegramUserId,
+          ),
+          adminTelegramUsername: insertValue(
+            actor.telegramUsername || null,
+            bookChanges.adminTelegramUsername,
+          ),
+          createdAt: insertValue(new Date(), bookChanges.createdAt),
+        })
+        .from(books)
+        .where(and(eq(books.id, bookId), condition)),
+    )
+    .returning();
+}
+
+/**
+ * Apply an edit to the fields that actually change, and log it.
+ *
+ * NOTE: See borrowBook() for explanation of D1 transaction limitations.
+ * The book's columns, its author and genre links and the log entry are
+ * written in one batch, which D1 runs atomically, so an edit is never applied
+ * without being logged (or the other way round). A failure before the batch
+ * can leave newly created authors or tags unused.
+ */
+async function applyEdit(
+  db: Database,
+  book: BookWithTags,
+  updates: Partial<BookFields>,
+  actor: AdminActor,
+  revertedChangeId?: number,
+) {
+  const previousValues: Partial<BookFields> = {};
+  const newValues: Partial<BookFields> = {};
+  for (const field of BOOK_FIELDS) {
+    const value = updates[field];
+    if (value !== undefined && !isSameValue(value, book[field])) {
+      Object.assign(previousValues, { [field]: book[field] });
+      Object.assign(newValues, { [field]: value });
+    }
+  }
+
+  if (Object.keys(newValues).length === 0) {
+    return { success: false as const, error: "Nothing to change" };
+  }
+
+  const { tags: newTags, ...columns } = newValues;
+  const statements: BatchItem<"sqlite">[] = [];
+  if (Object.keys(columns).length > 0) {
+    statements.push(db.update(books).set(columns).where(eq(books.id, book.id)));
+  }
+
+  if (newValues.author !== undefined) {
+    statements.push(
+      ...(await prepareBookAuthors(db, book.id, newValues.author)),
+    );
+  }
+
+  if (newTags !== undefined) {
+    const prepared = await prepareBookTags(db, book.id, newTags);
+    // Log the tags as stored, which reuse existing spellings
+    newValues.tags = prepared.names;
+    statements.push(...prepared.statements);
+  }
+
+  const [[change]] = await db.batch([
+    recordChange(db, book.id, "edit", actor, {
+      previousValues,
+      newValues,
+      revertedChangeId,
+    }),
+    ...statements,
+  ]);
+
+  return {
+    success: true as const,
+    book: { ...book, ...columns, tags: newValues.tags ?? book.tags },
+    change,
+  };
+}
+
+/**
+ * Edit a book's title, author, description, cover or tags.
+ * Only fields that differ from the current values are changed and logged.
+ */
+export async function updateBook(
+  db: Database,
+  bookId: number,
+  updates: Partial<BookFields>,
+  actor: AdminActor,
+) {
+  const book = await findListedBook(db, bookId);
+
+  if (!book) {
+    return { success: false as const, error: "Book not found" };
+  }
+
+  return applyEdit(db, book, updates, actor);
+}
+
+/**
+ * Count a book's copies that are out on loan
+ */
+async function countActiveLoans(db: Database, bookId: number) {
+  const [row] = await db
+    .select({ value: count() })
+    .from(loans)
+    .innerJoin(bookCopies, eq(loans.qrCodeId, bookCopies.qrCodeId))
+    .where(and(eq(bookCopies.bookId, bookId), isNull(loans.returnedAt)));
+
+  return row.value;
+}
+
+/**
+ * Soft-delete a book: it's hidden from the catalogue, search and borrowing,
+ * but kept (with its copies and loan history) so it can be restored.
+ * Fails while any copy is on loan. Open holds on the book are cancelled.
+ *
+ * NOTE: See borrowBook() for explanation of D1 transaction limitations.
+ * The "no copies on loan" check is part of the conditional update, so the
+ * book is deleted at most once and never while a loan is open. The holds are
+ * cancelled and the change logged in the same batch, on the same condition.
+ * Copies reserved for the cancelled holds are moved off the hold shelf after
+ * the batch.
+ */
+export async function deleteBook(
+  db: Database,
+  bookId: number,
+  actor: AdminActor,
+  revertedChangeId?: number,
+) {
+  // Every statement checks the book as it was before the batch, so the holds
+  // are cancelled and the change logged only if the update deletes the book
+  const deletable = and(
+    isListed(),
+    notExists(
+      db
+        .select({ id: loans.id })
+        .from(loans)
+        .innerJoin(bookCopies, eq(loans.qrCodeId, bookCopies.qrCodeId))
+        .where(and(eq(bookCopies.bookId, bookId), isNull(loans.returnedAt))),
+    ),
+  );
+
+  const [cancelled, [change], result] = await db.batch([
+    cancelBookHoldsQuery(
+      db,
+      bookId,
+      exists(
+        db
+          .select({ id: books.id })
+          .from(books)
+          .where(and(eq(books.id, bookId), deletable)),
+      ),
+    ),
+    recordChange(db, bookId, "delete", actor, { revertedChangeId }, deletable),
+    db
+      .update(books)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(books.id, bookId), deletable))
+      .returning(),
+  ]);
+
+  if (result.length === 0) {
+    const activeLoans = await countActiveLoans(db, bookId);
+    if (activeLoans > 0) {
+      return {
+        success: false as const,
+        error: `Can't delete a book with copies on loan (${activeLoans} still out)`,
+      };
+    }
+    return { success: false as const, error: "Book not found" };
+  }
+
+  await releaseReservedCopies(db, cancelled);
+  return { success: true as const, book: result[0], change };
+}
+
+/**
+ * Bring back a deleted book.
+ * Holds cancelled when it was deleted stay cancelled; readers place them again.
+ * The restore is logged in the same batch, on the same condition.
+ */
+export async function restoreBook(
+  db: Database,
+  bookId: number,
+  actor: AdminActor,
+  revertedChangeId?: number,
+) {
+  const [[change], result] = await db.batch([
+    recordChange(
+      db,
+      bookId,
+      "restore",
+      actor,
+      { revertedChangeId },
+      isNotNull(books.deletedAt),
+    ),
+    db
+      .update(books)
+      .set({ deletedAt: null })
+      .where(and(eq(books.id, bookId), isNotNull(books.deletedAt)))
+      .returning(),
+  ]);
+
+  if (result.length === 0) {
+    return { success: false as const, error: "No deleted book found" };
+  }
+
+  return { success: true as const, book: result[0], change };
+}
+
+/**
+ * Get the books admins have deleted, most recently deleted first,
+ * so they can be found and restored
+ */
+export async function getDeletedBooks(db: Database) {
+  return db
+    .select({
+      id: books.id,
+      isbn: books.isbn,
+      title: books.title,
+      author: books.author,
+      imageUrl: books.imageUrl,
+      deletedAt: books.deletedAt,
+    })
+    .from(books)
+    .where(isNotNull(books.deletedAt))
+    .orderBy(desc(books.deletedAt), desc(books.id));
+}
+
+/**
+ * Get the change log for a book, newest first
+ */
+export async function getBookChanges(db: Database, bookId: number) {
+  return db.query.bookChanges.findMany({
+    where: eq(bookChanges.bookId, bookId),
+    orderBy: [desc(bookChanges.createdAt), desc(bookChanges.id)],
+  });
+}
+
+/**
+ * Undo a logged change. An edit is undone by putting back the previous values
+ * (itself logged as an edit), a delete by restoring the book and a restore by
+ * deleting it again. An edit can't be undone if a later edit has changed the
+ * same fields since; undo that one first.
+ */
+export async function revertBookChange(
+  db: Database,
+  bookId: number,
+  changeId: number,
+  actor: AdminActor,
+) {
+  const change = await db.query.bookChanges.findFirst({
+    where: and(eq(bookChanges.id, changeId), eq(bookChanges.bookId, bookId)),
+  });
+
+  if (!change) {
+    return { success: false as const, error: "Change not found" };
+  }
+
+  if (change.action === "delete") {
+    return restoreBook(db, bookId, actor, change.id);
+  }
+
+  if (change.action === "restore") {
+    return deleteBook(db, bookId, actor, change.id);
+  }
+
+  const book = await findListedBook(db, bookId);
+
+  if (!book) {
+    return { success: false as const, error: "Book not found" };
+  }
+
+  const newValues = change.newValues ?? {};
+  const editedSince = BOOK_FIELDS.filter(
+    (field) =>
+      field in newValues && !isSameValue(newValues[field], book[field]),
+  );
+  if (editedSince.length > 0) {
+    return {
+      success: false as const,
+      error: `The ${editedSince.map((field) => FIELD_LABELS[field]).join(" and ")} changed again since this edit. Undo the later edit first.`,
+    };
+  }
+
+  return applyEdit(db, book, change.previousValues ?? {}, actor, change.id);
+}
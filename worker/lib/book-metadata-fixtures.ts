@@ -0,0 +1,39 @@
+import type { BookMetadata } from "./book-metadata";
+
+/**
+ * Canned ISBN lookups for the fixture provider, used by tests and local dev
+ * (ISBN_METADATA_PROVIDER=fixture) so scanning a book works offline
+ */
+export const BOOK_METADATA_FIXTURES: Record<string, BookMetadata> = {
+  "9780547928227": {
+    isbn: "9780547928227",
+    title: "The Hobbit",
+    authors: ["J.R.R. Tolkien"],
+    description:
+      "Bilbo Baggins is swept into a quest to reclaim a dwarf kingdom from the dragon Smaug.",
+    coverUrl: "https://covers.openlibrary.org/b/isbn/9780547928227-L.jpg",
+  },
+  "9780062316097": {
+    isbn: "9780062316097",
+    title: "Sapiens: A Brief History of Humankind",
+    authors: ["Yuval Noah Harari"],
+    description:
+      "How Homo sapiens came to dominate the planet, from the cognitive revolution to the present day.",
+    coverUrl: "https://covers.openlibrary.org/b/isbn/9780062316097-L.jpg",
+  },
+  "9780132350884": {
+    isbn: "9780132350884",
+    title: "Clean Code: A Handbook of Agile Software Craftsmanship",
+    authors: ["Robert C. Martin"],
+    description: null,
+    coverUrl: "https://covers.openlibrary.org/b/isbn/9780132350884-L.jpg",
+  },
+  "9780135957059": {
+    isbn: "9780135957059",
+    title: "The Pragmatic Programmer",
+    authors: ["David Thomas", "Andrew Hunt"],
+    description:
+      "Practical advice for software developers, updated for its 20th anniversary edition.",
+    coverUrl: null,
+  },
+};
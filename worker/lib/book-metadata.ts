@@ -0,0 +1,220 @@
+import { normalizeISBN } from "@shared/isbn";
+import { eq } from "drizzle-orm";
+import { isbnMetadataCache } from "../db/schema";
+import type { Database } from "./book";
+import { BOOK_METADATA_FIXTURES } from "./book-metadata-fixtures";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// How long a lookup is reused before asking the provider again. ISBNs the
+// provider didn't know are retried sooner, since catalogues get filled in.
+const FOUND_CACHE_DAYS = 30;
+const NOT_FOUND_CACHE_DAYS = 1;
+
+// Give up on a slow provider rather than leave the add title form waiting
+const LOOKUP_TIMEOUT_MS = 5000;
+
+const OPEN_LIBRARY_URL = "https://openlibrary.org";
+const OPEN_LIBRARY_COVERS_URL = "https://covers.openlibrary.org";
+
+/**
+ * What a provider knows about an ISBN, used to prefill a new title
+ */
+export interface BookMetadata {
+  isbn: string;
+  title: string;
+  authors: string[];
+  description: string | null;
+  coverUrl: string | null;
+}
+
+/**
+ * Resolves ISBNs to book metadata. lookup() resolves with null when the
+ * provider doesn't know the ISBN, and throws when it can't be reached.
+ */
+export interface BookMetadataProvider {
+  name: string;
+  lookup(isbn: string): Promise<BookMetadata | null>;
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+// Response of the Open Library Books API with jscmd=details
+type OpenLibraryBooksResponse = Record<
+  string,
+  {
+    details?: {
+      title?: string;
+      subtitle?: string;
+      authors?: { name: string }[];
+      by_statement?: string;
+      description?: string | { value: string };
+      covers?: number[];
+    };
+  }
+>;
+
+/**
+ * Look ISBNs up with the Open Library Books API
+ * https://openlibrary.org/dev/docs/api/books
+ */
+export function createOpenLibraryProvider(
+  baseUrl = OPEN_LIBRARY_URL,
+): BookMetadataProvider {
+  return {
+    name: "openlibrary",
+    async lookup(isbn) {
+      const url = new URL("/api/books", baseUrl);
+      url.searchParams.set("bibkeys", `ISBN:${isbn}`);
+      url.searchParams.set("format", "json");
+      url.searchParams.set("jscmd", "details");
+
+      const response = await fetch(url, {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Open Library returned ${response.status}`);
+      }
+
+      const data = await response.json<OpenLibraryBooksResponse>();
+      const details = data[`ISBN:${isbn}`]?.details;
+      if (!details?.title) {
+        return null;
+      }
+
+      const description =
+        typeof details.description === "string"
+          ? details.description
+          : (details.description?.value ?? null);
+      // Negative IDs are placeholders for covers that were removed
+      const coverId = details.covers?.find((id) => id > 0);
+
+      return {
+        isbn,
+        title: details.subtitle
+          ? `${details.title}: ${details.subtitle}`
+          : details.title,
+        authors:
+          details.authors?.map((author) => author.name) ??
+          (details.by_statement ? [details.by_statement] : []),
+        description: description?.trim() || null,
+        coverUrl: coverId
+          ? `${OPEN_LIBRARY_COVERS_URL}/b/id/${coverId}-L.jpg`
+          : null,
+      };
+    },
+  };
+}
+
+/**
+ * Look ISBNs up in a fixed set of records, for tests and offline local dev
+ */
+export function createFixtureProvider(
+  fixtures: Record<string, BookMetadata> = BOOK_METADATA_FIXTURES,
+): BookMetadataProvider {
+  return {
+    name: "fixture",
+    async lookup(isbn) {
+      return fixtures[isbn] ?? null;
+    },
+  };
+}
+
+/**
+ * Pick the provider named by ISBN_METADATA_PROVIDER (Open Library by default)
+ */
+export function getBookMetadataProvider(env: {
+  ISBN_METADATA_PROVIDER?: string;
+}): BookMetadataProvider {
+  return env.ISBN_METADATA_PROVIDER === "fixture"
+    ? createFixtureProvider()
+    : createOpenLibraryProvider();
+}
+
+// ============================================================================
+// CACHED LOOKUP
+// ============================================================================
+
+function fromCache(
+  entry: typeof isbnMetadataCache.$inferSelect,
+): BookMetadata | null {
+  if (entry.title === null) {
+    return null;
+  }
+  return {
+    isbn: entry.isbn,
+    title: entry.title,
+    authors: entry.authors ?? [],
+    description: entry.description,
+    coverUrl: entry.coverUrl,
+  };
+}
+
+/**
+ * Look up an ISBN, reusing the cached result in D1 while it's fresh.
+ * metadata is null when the provider doesn't know the ISBN. If the provider
+ * can't be reached, a stale cached result is returned instead when there is one;
+ * otherwise the failure is flagged `unavailable`, unlike an invalid ISBN.
+ */
+export async function lookupBookMetadata(
+  db: Database,
+  provider: BookMetadataProvider,
+  rawIsbn: string,
+  now = new Date(),
+): Promise<
+  | { success: true; metadata: BookMetadata | null; cached: boolean }
+  | { success: false; error: string; unavailable?: boolean }
+> {
+  const isbn = normalizeISBN(rawIsbn);
+  if (!isbn) {
+    return { success: false, error: "Invalid ISBN" };
+  }
+
+  const cached = await db.query.isbnMetadataCache.findFirst({
+    where: eq(isbnMetadataCache.isbn, isbn),
+  });
+
+  if (cached) {
+    const maxAgeDays =
+      cached.title === null ? NOT_FOUND_CACHE_DAYS : FOUND_CACHE_DAYS;
+    if (now.getTime() - cached.fetchedAt.getTime() < maxAgeDays * MS_PER_DAY) {
+      return { success: true, metadata: fromCache(cached), cached: true };
+    }
+  }
+
+  let metadata: BookMetadata | null;
+  try {
+    metadata = await provider.lookup(isbn);
+  } catch (error) {
+    console.error(
+      `Failed to look up ISBN ${isbn} with ${provider.name}:`,
+      error,
+    );
+    if (cached) {
+      return { success: true, metadata: fromCache(cached), cached: true };
+    }
+    return {
+      success: false,
+      error: "Book lookup is unavailable right now",
+      unavailable: true,
+    };
+  }
+
+  const values = {
+    provider: provider.name,
+    title: metadata?.title ?? null,
+    authors: metadata?.authors ?? null,
+    description: metadata?.description ?? null,
+    coverUrl: metadata?.coverUrl ?? null,
+    fetchedAt: now,
+  };
+  await db
+    .insert(isbnMetadataCache)
+    .values({ isbn, ...values })
+    .onConflictDoUpdate({ target: isbnMetadataCache.isbn, set: values });
+
+  return { success: true, metadata, cached: false };
+}
@@ -1,15 +1,115 @@
-import { and, desc, eq, isNull, like, max, or } from "drizzle-orm";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  inArray,
+  isNull,
+  like,
+  max,
+  notExists,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
 import { DrizzleD1Database } from "drizzle-orm/d1";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+import { CIRCULATING_COPY_STATUSES } from "@shared/copy-status";
+import type { UserError } from "@shared/i18n";
+import { normalizeISBN } from "@shared/isbn";
+import type { LoanLimit } from "@shared/loan-limits";
 import * as schema from "../db/schema";
-import { bookCopies, books, loans, locations } from "../db/schema";
+import {
+  authors,
+  bookAuthors,
+  bookCopies,
+  books,
+  holds,
+  loans,
+  locations,
+} from "../db/schema";
+import { setBookAuthors } from "./authors";
+import { setCopyStatus } from "./copies";
+import { applyHistoryRetention } from "./history";
+import {
+  activeReservation,
+  assignNextHold,
+  countWaitingHolds,
+  fulfillHold,
+  type ReadyHold,
+} from "./holds";
+import { DEFAULT_MAX_ACTIVE_LOANS, isExemptFromLoanLimit } from "./loan-limits";
 
 // Type for database with schema
 export type Database = DrizzleD1Database<typeof schema>;
 
+/**
+ * Loan rules for the copies shelved at a location
+ */
+export interface LoanPolicy {
+  /** Loan period in days, used for both new loans and renewals */
+  loanPeriodDays: number;
+  /** Maximum number of times a single loan can be renewed */
+  maxRenewals: number;
+  /** Maximum active loans a user can have from this location (null = no limit) */
+  maxLoansPerUser: number | null;
+}
+
+/**
+ * Pick the loan policy columns out of a location row
+ */
+export function getLoanPolicy(location: LoanPolicy): LoanPolicy {
+  return {
+    loanPeriodDays: location.loanPeriodDays,
+    maxRenewals: location.maxRenewals,
+    maxLoansPerUser: location.maxLoansPerUser,
+  };
+}
+
 // ============================================================================
 // BACKEND FUNCTIONS
 // ============================================================================
 
+/**
+ * A copy can be borrowed when it is on the shelf, not on loan and not
+ * reserved for someone's hold
+ */
+function isCopyAvailable(copy: {
+  status: string | null;
+  loans: unknown[];
+  reservations: unknown[];
+}) {
+  return (
+    copy.status === "available" &&
+    copy.loans.length === 0 &&
+    copy.reservations.length === 0
+  );
+}
+
+/**
+ * Withdrawn copies have left the collection and don't count towards a book's copies
+ */
+function isInCollection(copy: { status: string | null }) {
+  return copy.status !== "withdrawn";
+}
+
+/**
+ * Condition for books that haven't been deleted by an admin (see deleteBook)
+ */
+export function isListed() {
+  return isNull(books.deletedAt);
+}
+
+/**
+ * A value for an INSERT ... SELECT, encoded the way `column` encodes it.
+ * Lets an audit row be written in the same batch as the change it records,
+ * selected on the same condition (see setCopyStatus).
+ */
+export function insertValue<T>(value: T, column: SQLiteColumn) {
+  return sql`${sql.param(value, column)}`.as(column.name);
+}
+
 /**
  * Get book copy details with joined book info and current loan status
  * Used by /borrow command
@@ -27,7 +127,7 @@ export async function getBookCopyDetails(db: Database, qrCodeId: string) {
     },
   });
 
-  if (!bookCopy) {
+  if (!bookCopy || bookCopy.book.deletedAt) {
     return null;
   }
 
@@ -46,8 +146,19 @@ export async function getBookCopyDetails(db: Database, qrCodeId: string) {
  * Used by /book command
  */
 export async function getBookDetails(db: Database, isbn: string) {
+  return findBookDetails(db, eq(books.isbn, isbn));
+}
+
+/**
+ * Get book details by book ID, for search results that link to a book
+ */
+export async function getBookDetailsById(db: Database, bookId: number) {
+  return findBookDetails(db, eq(books.id, bookId));
+}
+
+async function findBookDetails(db: Database, where: SQL) {
   const book = await db.query.books.findFirst({
-    where: eq(books.isbn, isbn),
+    where: and(where, isListed()),
     with: {
       bookCopies: {
         with: {
@@ -55,6 +166,10 @@ export async function getBookDetails(db: Database, isbn: string) {
             where: isNull(loans.returnedAt),
             limit: 1,
           },
+          reservations: {
+            where: activeReservation(),
+            limit: 1,
+          },
           location: true,
         },
       },
@@ -66,16 +181,17 @@ export async function getBookDetails(db: Database, isbn: string) {
   }
 
   // Calculate availability summary
-  const totalCopies = book.bookCopies.length;
-  const availableCopies = book.bookCopies.filter(
-    (copy) => copy.status === "available" && copy.loans.length === 0,
-  ).length;
+  const copies = book.bookCopies.filter(isInCollection);
+  const totalCopies = copies.length;
+  const availableCopies = copies.filter(isCopyAvailable).length;
+  const waitingHolds = await countWaitingHolds(db, book.id);
 
   // Map copies with their loan info (but don't expose QR codes)
-  const copiesInfo = book.bookCopies.map((copy) => ({
+  const copiesInfo = copies.map((copy) => ({
     copyNumber: copy.copyNumber,
     status: copy.status,
-    isAvailable: copy.status === "available" && copy.loans.length === 0,
+    isAvailable: isCopyAvailable(copy),
+    isReserved: copy.reservations.length > 0,
     dueDate: copy.loans[0]?.dueDate || null,
     location: copy.location.name,
   }));
@@ -89,6 +205,7 @@ export async function getBookDetails(db: Database, isbn: string) {
     imageUrl: book.imageUrl,
     totalCopies,
     availableCopies,
+    waitingHolds,
     copies: copiesInfo,
   };
 }
@@ -101,18 +218,34 @@ export async function getBookDetails(db: Database, isbn: string) {
  * Instead, we rely on a unique partial index on (qrCodeId, returnedAt) WHERE returnedAt IS NULL
  * to ensure that only one active loan can exist per book copy. If two users try to borrow
  * simultaneously, the database constraint will cause one insert to fail, preventing race conditions.
+ *
+ * When the user is at the concurrent loan cap (and not exempted by an admin), the error
+ * includes `loanLimit` listing the books they need to return first.
  */
 export async function borrowBook(
   db: Database,
   qrCodeId: string,
   telegramUserId: number,
   telegramUsername: string | undefined,
-) {
+  maxActiveLoans: number = DEFAULT_MAX_ACTIVE_LOANS,
+): Promise<
+  | {
+      success: true;
+      loan: typeof loans.$inferSelect;
+      book: typeof books.$inferSelect;
+      copyNumber: number;
+      location: string;
+      policy: LoanPolicy;
+      readyHolds: ReadyHold[];
+    }
+  | { success: false; error: UserError; loanLimit?: LoanLimit }
+> {
   // 1. Verify book copy exists and is available
   const bookCopy = await db.query.bookCopies.findFirst({
     where: eq(bookCopies.qrCodeId, qrCodeId),
     with: {
       book: true,
+      location: true,
       loans: {
         where: isNull(loans.returnedAt),
         limit: 1,
@@ -120,24 +253,103 @@ export async function borrowBook(
     },
   });
 
-  if (!bookCopy) {
-    return { success: false, error: "Book copy not found" };
+  if (!bookCopy || bookCopy.book.deletedAt) {
+    return { success: false, error: { code: "copyNotFound" } };
+  }
+
+  const policy = getLoanPolicy(bookCopy.location);
+
+  const status = bookCopy.status ?? "available";
+  if (!CIRCULATING_COPY_STATUSES.includes(status)) {
+    return {
+      success: false,
+      error: {
+        code: "copyNotCirculating",
+        params: { status: { copyStatus: status } },
+      },
+    };
   }
 
   if (bookCopy.loans.length > 0) {
     const currentLoan = bookCopy.loans[0];
     if (currentLoan.telegramUserId === telegramUserId) {
-      return { success: false, error: "You have already borrowed this book" };
+      return { success: false, error: { code: "alreadyBorrowed" } };
     }
     return {
       success: false,
-      error: `This book is currently borrowed (due back ${new Date(currentLoan.dueDate).toLocaleDateString()})`,
+      error: { code: "copyOnLoan", params: { date: currentLoan.dueDate } },
+    };
+  }
+
+  // 2. Copies reserved for someone else's hold can't be borrowed during the pickup window
+  const reservation = await db.query.holds.findFirst({
+    where: and(eq(holds.reservedQrCodeId, qrCodeId), activeReservation()),
+  });
+
+  // Active reservations always have an end to their pickup window
+  if (reservation?.expiresAt && reservation.telegramUserId !== telegramUserId) {
+    return {
+      success: false,
+      error: {
+        code: "copyReserved",
+        params: { date: reservation.expiresAt },
+      },
+    };
+  }
+
+  // 3. Enforce the per-user cap on concurrent loans across all locations
+  const activeLoans = await getUserActiveLoans(db, telegramUserId);
+  if (
+    activeLoans.length >= maxActiveLoans &&
+    !(await isExemptFromLoanLimit(db, telegramUserId))
+  ) {
+    return {
+      success: false,
+      error: { code: "loanLimit", params: { count: maxActiveLoans } },
+      loanLimit: {
+        maxActiveLoans,
+        loans: activeLoans.map((loan) => ({
+          qrCodeId: loan.qrCodeId,
+          title: loan.title,
+          author: loan.author,
+          copyNumber: loan.copyNumber,
+          dueDate: loan.dueDate,
+        })),
+      },
     };
   }
 
-  // 2. Create loan record with concurrency protection via unique constraint
+  // 4. Enforce the location's cap on concurrent loans
+  if (policy.maxLoansPerUser !== null) {
+    const [activeAtLocation] = await db
+      .select({ value: count() })
+      .from(loans)
+      .innerJoin(bookCopies, eq(loans.qrCodeId, bookCopies.qrCodeId))
+      .where(
+        and(
+          eq(loans.telegramUserId, telegramUserId),
+          isNull(loans.returnedAt),
+          eq(bookCopies.locationId, bookCopy.locationId),
+        ),
+      );
+
+    if ((activeAtLocation?.value ?? 0) >= policy.maxLoansPerUser) {
+      return {
+        success: false,
+        error: {
+          code: "locationLoanLimit",
+          params: {
+            count: policy.maxLoansPerUser,
+            location: bookCopy.location.name,
+          },
+        },
+      };
+    }
+  }
+
+  // 5. Create loan record with concurrency protection via unique constraint
   const dueDate = new Date();
-  dueDate.setDate(dueDate.getDate() + 14); // 2-week loan period
+  dueDate.setDate(dueDate.getDate() + policy.loanPeriodDays);
 
   try {
     const [loan] = await db
@@ -151,25 +363,49 @@ export async function borrowBook(
       })
       .returning();
 
+    // 6. Close the borrower's hold on this book, if they had one
+    const readyHolds = await fulfillHold(
+      db,
+      bookCopy.bookId,
+      telegramUserId,
+      qrCodeId,
+    );
+
+    // The copy has left the hold shelf with its holder
+    if (status === "on_hold_shelf") {
+      await setCopyStatus(
+        db,
+        qrCodeId,
+        "on_hold_shelf",
+        "available",
+        null,
+        "Borrowed from the hold shelf",
+      );
+    }
+
     return {
       success: true,
       loan,
       book: bookCopy.book,
       copyNumber: bookCopy.copyNumber,
+      location: bookCopy.location.name,
+      policy,
+      readyHolds,
     };
   } catch (error) {
     // If unique constraint fails, someone borrowed it between our check and insert
     console.error(error);
     return {
       success: false,
-      error: "This book was just borrowed by someone else. Please try again.",
+      error: { code: "borrowRace" },
     };
   }
 }
 
 /**
  * Return a book copy
- * Validates the user has an active loan for this book
+ * Validates the user has an active loan for this book, then reserves the copy
+ * for the next person in the hold queue (the caller notifies them)
  *
  * NOTE: See borrowBook() for explanation of D1 transaction limitations.
  * We use conditional updates to ensure safe concurrent operations.
@@ -178,7 +414,16 @@ export async function returnBook(
   db: Database,
   qrCodeId: string,
   telegramUserId: number,
-) {
+): Promise<
+  | {
+      success: true;
+      book: typeof books.$inferSelect;
+      borrowedAt: Date;
+      returnedAt: Date;
+      readyHolds: ReadyHold[];
+    }
+  | { success: false; error: UserError }
+> {
   const returnedAt = new Date();
 
   // Conditional update: only update if returnedAt IS NULL
@@ -195,10 +440,11 @@ export async function returnBook(
     .returning();
 
   if (result.length === 0) {
-    return { success: false, error: "No active loan found for this book" };
+    return { success: false, error: { code: "noActiveLoan" } };
   }
 
   const [updatedLoan] = result;
+  await applyHistoryRetention(db, updatedLoan.id, telegramUserId);
 
   // Fetch book details
   const bookCopy = await db.query.bookCopies.findFirst({
@@ -208,56 +454,218 @@ export async function returnBook(
     },
   });
 
+  // Reserve the returned copy for the next person waiting for this book
+  const readyHold = await assignNextHold(db, qrCodeId, returnedAt);
+  const readyHolds: ReadyHold[] = readyHold ? [readyHold] : [];
+
   return {
     success: true,
     book: bookCopy!.book,
     borrowedAt: updatedLoan.borrowedAt,
     returnedAt,
+    readyHolds,
+  };
+}
+
+/**
+ * Renew an active loan, pushing the due date forward by another loan period
+ * of the copy's location. Refuses once the location's renewal cap has been
+ * reached or when someone is waiting for the book.
+ *
+ * NOTE: See borrowBook() for explanation of D1 transaction limitations.
+ * The update is conditional on the renewal count we read, so two concurrent
+ * renewals cannot both succeed and exceed the cap, and on nobody waiting, so
+ * a hold placed after the check above still blocks the renewal.
+ */
+export async function renewLoan(
+  db: Database,
+  qrCodeId: string,
+  telegramUserId: number,
+): Promise<
+  | {
+      success: true;
+      loan: typeof loans.$inferSelect;
+      book: typeof books.$inferSelect;
+      copyNumber: number;
+      renewalsRemaining: number;
+    }
+  | { success: false; error: UserError }
+> {
+  const loan = await db.query.loans.findFirst({
+    where: and(
+      eq(loans.qrCodeId, qrCodeId),
+      eq(loans.telegramUserId, telegramUserId),
+      isNull(loans.returnedAt),
+    ),
+    with: {
+      bookCopy: {
+        with: {
+          book: true,
+          location: true,
+        },
+      },
+    },
+  });
+
+  if (!loan) {
+    return { success: false, error: { code: "noActiveLoan" } };
+  }
+
+  const policy = getLoanPolicy(loan.bookCopy.location);
+
+  if (loan.renewalCount >= policy.maxRenewals) {
+    return {
+      success: false,
+      error:
+        policy.maxRenewals === 0
+          ? {
+              code: "notRenewable",
+              params: { location: loan.bookCopy.location.name },
+            }
+          : { code: "maxRenewals", params: { count: policy.maxRenewals } },
+    };
+  }
+
+  // Someone else is waiting for this book, so it needs to come back
+  const waitingHolds = await countWaitingHolds(db, loan.bookCopy.bookId);
+  if (waitingHolds > 0) {
+    return {
+      success: false,
+      error: { code: "holdBlocksRenewal" },
+    };
+  }
+
+  // Extend from the current due date, or from today if the loan is overdue
+  const now = new Date();
+  const dueDate = new Date(Math.max(loan.dueDate.getTime(), now.getTime()));
+  dueDate.setDate(dueDate.getDate() + policy.loanPeriodDays);
+
+  const result = await db
+    .update(loans)
+    .set({
+      dueDate,
+      renewalCount: loan.renewalCount + 1,
+      // Re-arm the reminders for the new due date
+      lastReminderSent: null,
+    })
+    .where(
+      and(
+        eq(loans.id, loan.id),
+        eq(loans.renewalCount, loan.renewalCount),
+        isNull(loans.returnedAt),
+        notExists(
+          db
+            .select({ id: holds.id })
+            .from(holds)
+            .where(
+              and(
+                eq(holds.bookId, loan.bookCopy.bookId),
+                eq(holds.status, "waiting"),
+              ),
+            ),
+        ),
+      ),
+    )
+    .returning();
+
+  if (result.length === 0) {
+    return {
+      success: false,
+      error: { code: "loanChanged" },
+    };
+  }
+
+  const [updatedLoan] = result;
+
+  return {
+    success: true,
+    loan: updatedLoan,
+    book: loan.bookCopy.book,
+    copyNumber: loan.bookCopy.copyNumber,
+    renewalsRemaining: policy.maxRenewals - updatedLoan.renewalCount,
   };
 }
 
 /**
- * Search books by title or author
- * Returns books with availability info
+ * Search books by title, author credit or the name of anyone credited on them
+ * Returns one page of books with availability info, ordered by title so pages
+ * are stable, and the total number of matches.
+ * With a locationId, only books shelved there are matched and only copies
+ * there are counted.
  */
 export async function searchBooks(
   db: Database,
   query: string,
   limit: number = 10,
+  offset: number = 0,
+  locationId?: number | null,
 ) {
   const searchPattern = `%${query}%`;
+  const matchesQuery = and(
+    isListed(),
+    or(
+      like(books.title, searchPattern),
+      like(books.author, searchPattern),
+      inArray(
+        books.id,
+        db
+          .select({ bookId: bookAuthors.bookId })
+          .from(bookAuthors)
+          .innerJoin(authors, eq(bookAuthors.authorId, authors.id))
+          .where(like(authors.name, searchPattern)),
+      ),
+    ),
+    locationId
+      ? inArray(
+          books.id,
+          db
+            .select({ bookId: bookCopies.bookId })
+            .from(bookCopies)
+            .where(eq(bookCopies.locationId, locationId)),
+        )
+      : undefined,
+  );
 
   // LIKE-based search is acceptable here since we're dealing with hundreds of books.
   // Full table scans are fast at this scale (~milliseconds), and this approach keeps
   // the codebase simple without needing FTS5 or additional indexes. We can revisit
   // if the library grows to thousands of books or if search performance / number of row
   // reads becomes an issue.
+  const [totalRow] = await db
+    .select({ value: count() })
+    .from(books)
+    .where(matchesQuery);
+
   const results = await db.query.books.findMany({
-    where: or(
-      like(books.title, searchPattern),
-      like(books.author, searchPattern),
-    ),
+    where: matchesQuery,
+    orderBy: [asc(books.title), asc(books.id)],
     limit,
+    offset,
     with: {
       bookCopies: {
+        where: locationId ? eq(bookCopies.locationId, locationId) : undefined,
         with: {
           loans: {
             where: isNull(loans.returnedAt),
             limit: 1,
           },
+          reservations: {
+            where: activeReservation(),
+            limit: 1,
+          },
         },
       },
     },
   });
 
   // Transform results to include availability
-  return results.map((book) => {
-    const totalCopies = book.bookCopies.length;
-    const availableCopies = book.bookCopies.filter(
-      (copy) => copy.status === "available" && copy.loans.length === 0,
-    ).length;
+  const page = results.map((book) => {
+    const copies = book.bookCopies.filter(isInCollection);
+    const totalCopies = copies.length;
+    const availableCopies = copies.filter(isCopyAvailable).length;
 
     return {
+      id: book.id,
       isbn: book.isbn,
       title: book.title,
       author: book.author,
@@ -266,6 +674,8 @@ export async function searchBooks(
       availableCopies,
     };
   });
+
+  return { books: page, total: totalRow?.value ?? 0 };
 }
 
 /**
@@ -282,6 +692,7 @@ export async function getUserActiveLoans(db: Database, telegramUserId: number) {
       bookCopy: {
         with: {
           book: true,
+          location: true,
         },
       },
     },
@@ -290,12 +701,17 @@ export async function getUserActiveLoans(db: Database, telegramUserId: number) {
 
   return activeLoans.map((loan) => ({
     qrCodeId: loan.qrCodeId,
+    bookId: loan.bookCopy.bookId,
     title: loan.bookCopy.book.title,
     author: loan.bookCopy.book.author,
     copyNumber: loan.bookCopy.copyNumber,
     borrowedAt: loan.borrowedAt,
     dueDate: loan.dueDate,
     imageUrl: loan.bookCopy.book.imageUrl,
+    renewalsRemaining: Math.max(
+      0,
+      loan.bookCopy.location.maxRenewals - loan.renewalCount,
+    ),
   }));
 }
 
@@ -306,6 +722,98 @@ export async function getAllLocations(db: Database) {
   return db.query.locations.findMany();
 }
 
+/**
+ * Update the loan policy of a location
+ * Only the provided fields are changed; existing loans keep their due dates
+ */
+export async function updateLocationPolicy(
+  db: Database,
+  locationId: number,
+  policy: Partial<LoanPolicy>,
+) {
+  if (Object.keys(policy).length === 0) {
+    return { success: false, error: "No policy fields to update" };
+  }
+
+  const result = await db
+    .update(locations)
+    .set(policy)
+    .where(eq(locations.id, locationId))
+    .returning();
+
+  if (result.length === 0) {
+    return { success: false, error: "Location not found" };
+  }
+
+  return { success: true, location: result[0] };
+}
+
+/**
+ * Add a new title to the catalogue
+ * The ISBN is stored in its normalized ISBN-13 form, the same as books imported
+ * by the pipeline. Copies are added separately with addBookCopy.
+ */
+export async function addBook(
+  db: Database,
+  input: {
+    isbn: string;
+    title: string;
+    author: string;
+    description?: string;
+    imageUrl?: string | null;
+  },
+): Promise<
+  | { success: true; book: typeof books.$inferSelect }
+  | { success: false; error: string; bookId?: number; deleted?: boolean }
+> {
+  const isbn = normalizeISBN(input.isbn);
+
+  if (!isbn) {
+    return { success: false, error: "Invalid ISBN" };
+  }
+
+  const existingBook = await db.query.books.findFirst({
+    where: eq(books.isbn, isbn),
+  });
+
+  if (existingBook) {
+    return {
+      success: false,
+      error: existingBook.deletedAt
+        ? "A deleted book has this ISBN"
+        : "A book with this ISBN is already in the library",
+      bookId: existingBook.id,
+      deleted: !!existingBook.deletedAt,
+    };
+  }
+
+  let book: typeof books.$inferSelect;
+  try {
+    [book] = await db
+      .insert(books)
+      .values({
+        isbn,
+        title: input.title,
+        author: input.author,
+        description: input.description ?? "",
+        imageUrl: input.imageUrl || null,
+      })
+      .returning();
+  } catch (error) {
+    console.error("Failed to add book:", error);
+    return { success: false, error: "Failed to add book" };
+  }
+
+  // The book is added either way; editing its author later relinks it
+  try {
+    await setBookAuthors(db, book.id, book.author);
+  } catch (error) {
+    console.error(`Failed to link authors of book ${book.id}:`, error);
+  }
+
+  return { success: true, book };
+}
+
 /**
  * Add a new book copy
  * Automatically assigns the next copy number for the book
@@ -321,7 +829,7 @@ export async function addBookCopy(
 > {
   // Verify the book exists
   const book = await db.query.books.findFirst({
-    where: eq(books.id, bookId),
+    where: and(eq(books.id, bookId), isListed()),
   });
 
   if (!book) {
@@ -0,0 +1,275 @@
+import { getTranslator, type Locale } from "@shared/i18n";
+import { toLibraryDate } from "@shared/library-time";
+import { and, asc, count, eq, inArray, isNull } from "drizzle-orm";
+import { loanOverrides, loans } from "../db/schema";
+import type { Database } from "./book";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const PRODID = "-//Community Library//Due Dates//EN";
+
+// How often subscribed calendar apps should fetch the feed again
+const REFRESH_INTERVAL = "PT6H";
+
+// Due dates are all-day events, so this is 9am the day before in the
+// calendar's own time zone
+const ALARM_TRIGGER = "-PT15H";
+
+// iCalendar lines longer than this many bytes must be folded
+const LINE_LIMIT = 75;
+
+export interface CalendarLoan {
+  id: number;
+  title: string;
+  author: string;
+  copyNumber: number;
+  location: string;
+  dueDate: Date;
+  // How many times the due date has moved (renewals and admin extensions),
+  // used as the event's SEQUENCE
+  sequence: number;
+}
+
+// ============================================================================
+// SIGNED FEED URLS
+// ============================================================================
+
+function toBase64Url(bytes: ArrayBuffer) {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * HMAC key for feed signatures. It is derived from the bot token, so rotating
+ * the token also changes every feed URL.
+ */
+function getSigningKey(botToken: string) {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(botToken),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+const feedPayload = (telegramUserId: number) =>
+  new TextEncoder().encode(`calendar:${telegramUserId}`);
+
+/**
+ * Sign a user's calendar feed, so only they (and whoever they share the URL
+ * with) can read it
+ */
+export async function signCalendarFeed(
+  botToken: string,
+  telegramUserId: number,
+) {
+  const key = await getSigningKey(botToken);
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    feedPayload(telegramUserId),
+  );
+  return toBase64Url(signature);
+}
+
+/**
+ * Check the signature in a calendar feed URL
+ */
+export async function verifyCalendarFeed(
+  botToken: string,
+  telegramUserId: number,
+  signature: string,
+) {
+  try {
+    const key = await getSigningKey(botToken);
+    return await crypto.subtle.verify(
+      "HMAC",
+      key,
+      fromBase64Url(signature),
+      feedPayload(telegramUserId),
+    );
+  } catch {
+    // Not valid base64
+    return false;
+  }
+}
+
+/**
+ * Get the URL calendar apps can subscribe to for a user's due dates
+ */
+export async function getCalendarFeedUrl(
+  origin: string,
+  botToken: string,
+  telegramUserId: number,
+) {
+  const signature = await signCalendarFeed(botToken, telegramUserId);
+  return `${origin}/api/calendar/${telegramUserId}/${signature}/due-dates.ics`;
+}
+
+// ============================================================================
+// ICALENDAR
+// ============================================================================
+
+/**
+ * Get a user's active loans with what the calendar shows for each
+ */
+export async function getCalendarLoans(
+  db: Database,
+  telegramUserId: number,
+): Promise<CalendarLoan[]> {
+  const activeLoans = await db.query.loans.findMany({
+    where: and(
+      eq(loans.telegramUserId, telegramUserId),
+      isNull(loans.returnedAt),
+    ),
+    with: {
+      bookCopy: {
+        with: {
+          book: true,
+          location: true,
+        },
+      },
+    },
+    orderBy: [asc(loans.dueDate)],
+  });
+
+  // Admin extensions move the due date without counting as renewals
+  const extensions =
+    activeLoans.length > 0
+      ? await db
+          .select({ loanId: loanOverrides.loanId, value: count() })
+          .from(loanOverrides)
+          .where(
+            and(
+              inArray(
+                loanOverrides.loanId,
+                activeLoans.map((loan) => loan.id),
+              ),
+              eq(loanOverrides.action, "extend"),
+            ),
+          )
+          .groupBy(loanOverrides.loanId)
+      : [];
+  const extensionCounts = new Map(
+    extensions.map((row) => [row.loanId, row.value]),
+  );
+
+  return activeLoans.map((loan) => ({
+    id: loan.id,
+    title: loan.bookCopy.book.title,
+    author: loan.bookCopy.book.author,
+    copyNumber: loan.bookCopy.copyNumber,
+    location: loan.bookCopy.location.name,
+    dueDate: loan.dueDate,
+    sequence: loan.renewalCount + (extensionCounts.get(loan.id) ?? 0),
+  }));
+}
+
+function escapeText(text: string) {
+  return text.replace(/[\\;,]/g, "\\$&").replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line into chunks of at most 75 bytes, without splitting a
+ * multi-byte character
+ */
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = "";
+  let chunkBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? LINE_LIMIT : LINE_LIMIT - 1;
+    if (chunkBytes + charBytes > limit) {
+      chunks.push(chunk);
+      chunk = "";
+      chunkBytes = 0;
+    }
+    chunk += char;
+    chunkBytes += charBytes;
+  }
+  chunks.push(chunk);
+
+  return chunks.join("\r\n ");
+}
+
+// 20250305, the date in the library's time zone
+function formatDateValue(date: Date) {
+  return toLibraryDate(date).replace(/-/g, "");
+}
+
+// 20250305T093000Z
+function formatDateTimeValue(date: Date) {
+  return date
+    .toISOString()
+    .replace(/\.\d{3}/, "")
+    .replace(/[-:]/g, "");
+}
+
+/**
+ * Build an iCalendar file with one all-day event per active loan on its due
+ * date, each with an alarm the day before. Event UIDs stay the same when a
+ * loan's due date moves (SEQUENCE goes up instead), and returned loans drop out
+ * of the feed, so subscribed calendars follow renewals, extensions and returns.
+ */
+export function buildDueDatesCalendar(
+  activeLoans: CalendarLoan[],
+  now: Date,
+  locale: Locale,
+) {
+  const { t } = getTranslator(locale);
+  const stamp = formatDateTimeValue(now);
+
+  const events = activeLoans.flatMap((loan) => {
+    const dueDay = new Date(loan.dueDate);
+    const description = [
+      t("bot.book.by", { author: loan.author }),
+      t("bot.copy.number", { number: loan.copyNumber }),
+    ].join("\n");
+
+    return [
+      "BEGIN:VEVENT",
+      `UID:loan-${loan.id}@community-library`,
+      `SEQUENCE:${loan.sequence}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDateValue(dueDay)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(new Date(dueDay.getTime() + MS_PER_DAY))}`,
+      `SUMMARY:${escapeText(t("calendar.event", { title: loan.title }))}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `LOCATION:${escapeText(loan.location)}`,
+      "TRANSP:TRANSPARENT",
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `TRIGGER:${ALARM_TRIGGER}`,
+      `DESCRIPTION:${escapeText(t("calendar.alarm", { title: loan.title }))}`,
+      "END:VALARM",
+      "END:VEVENT",
+    ];
+  });
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(t("calendar.name"))}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...events,
+    "END:VCALENDAR",
+  ];
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,131 @@
+import { canTransitionCopyStatus, type CopyStatus } from "@shared/copy-status";
+import type { UserError } from "@shared/i18n";
+import { and, desc, eq } from "drizzle-orm";
+import { bookCopies, copyStatusChanges } from "../db/schema";
+import { insertValue, type Database } from "./book";
+import { assignNextHold, requeueReservedHold, type ReadyHold } from "./holds";
+
+/**
+ * An admin acting on a copy or loan
+ */
+export interface AdminActor {
+  telegramUserId: number;
+  telegramUsername?: string;
+}
+
+/**
+ * Move a copy from one status to another and record the change.
+ * Pass a null actor for changes the system makes itself (e.g. for holds).
+ * Returns false if the copy was no longer in `from` (someone else changed it first).
+ *
+ * NOTE: See borrowBook() for explanation of D1 transaction limitations.
+ * The update is conditional on the current status, so concurrent changes can't
+ * both apply. The change is recorded in the same batch, on the same condition,
+ * so it's never applied without its history entry.
+ */
+export async function setCopyStatus(
+  db: Database,
+  qrCodeId: string,
+  from: CopyStatus,
+  to: CopyStatus,
+  actor: AdminActor | null,
+  reason: string | null,
+) {
+  const inFrom = and(
+    eq(bookCopies.qrCodeId, qrCodeId),
+    eq(bookCopies.status, from),
+  );
+
+  // Both statements check the copy as it was before the batch
+  const [, result] = await db.batch([
+    db.insert(copyStatusChanges).select(
+      db
+        .select({
+          id: insertValue(null, copyStatusChanges.id),
+          qrCodeId: bookCopies.qrCodeId,
+          fromStatus: insertValue(from, copyStatusChanges.fromStatus),
+          toStatus: insertValue(to, copyStatusChanges.toStatus),
+          changedBy: insertValue(
+            actor?.telegramUserId ?? null,
+            copyStatusChanges.changedBy,
+          ),
+          changedByUsername: insertValue(
+            actor?.telegramUsername || null,
+            copyStatusChanges.changedByUsername,
+          ),
+          reason: insertValue(reason, copyStatusChanges.reason),
+          createdAt: insertValue(new Date(), copyStatusChanges.createdAt),
+        })
+        .from(bookCopies)
+        .where(inFrom),
+    ),
+    db.update(bookCopies).set({ status: to }).where(inFrom).returning(),
+  ]);
+
+  return result.length > 0;
+}
+
+/**
+ * Admin transition of a copy's lifecycle state.
+ * Putting a copy back into circulation offers it to the next person in the hold queue.
+ * Taking a reserved copy off the hold shelf puts its hold back in the queue.
+ */
+export async function changeCopyStatus(
+  db: Database,
+  qrCodeId: string,
+  to: CopyStatus,
+  actor: AdminActor,
+  reason: string,
+): Promise<
+  | { success: true; status: CopyStatus; readyHolds: ReadyHold[] }
+  | { success: false; error: UserError }
+> {
+  const copy = await db.query.bookCopies.findFirst({
+    where: eq(bookCopies.qrCodeId, qrCodeId),
+  });
+
+  if (!copy) {
+    return { success: false, error: { code: "copyNotFound" } };
+  }
+
+  const from = copy.status ?? "available";
+  if (!canTransitionCopyStatus(from, to)) {
+    return {
+      success: false,
+      error: {
+        code: "statusTransition",
+        params: { from: { copyStatus: from }, to: { copyStatus: to } },
+      },
+    };
+  }
+
+  const changed = await setCopyStatus(db, qrCodeId, from, to, actor, reason);
+  if (!changed) {
+    return {
+      success: false,
+      error: { code: "copyChanged" },
+    };
+  }
+
+  const readyHolds: ReadyHold[] = [];
+  if (to === "available") {
+    const next = await assignNextHold(db, qrCodeId);
+    if (next) {
+      readyHolds.push(next);
+    }
+  } else if (from === "on_hold_shelf") {
+    readyHolds.push(...(await requeueReservedHold(db, qrCodeId)));
+  }
+
+  return { success: true, status: to, readyHolds };
+}
+
+/**
+ * Get the status change history of a copy, newest first
+ */
+export async function getCopyStatusHistory(db: Database, qrCodeId: string) {
+  return db.query.copyStatusChanges.findMany({
+    where: eq(copyStatusChanges.qrCodeId, qrCodeId),
+    orderBy: [desc(copyStatusChanges.createdAt), desc(copyStatusChanges.id)],
+  });
+}
@@ -0,0 +1,99 @@
+import { startOfLibraryDay } from "@shared/library-time";
+import { and, count, gte, inArray, lt } from "drizzle-orm";
+import type { Api } from "grammy";
+import {
+  formatAdminDigestMessage,
+  type AdminDigest,
+} from "../bot/format-digest";
+import { bookCopies, loans } from "../db/schema";
+import type { Database } from "./book";
+import { getOverdueLoansByLocation } from "./reports";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Must match the digest schedule in wrangler.jsonc (8am SGT)
+export const ADMIN_DIGEST_CRON = "0 0 * * *";
+
+/**
+ * Start of the library's local day before `now`. The digest runs at 8am in
+ * Singapore, so this is yesterday there, midnight to midnight.
+ */
+function startOfPreviousDay(now: Date) {
+  return new Date(startOfLibraryDay(now).getTime() - MS_PER_DAY);
+}
+
+/**
+ * Count loans whose timestamp column falls within [from, to)
+ */
+async function countLoansBetween(
+  db: Database,
+  column: typeof loans.borrowedAt | typeof loans.returnedAt,
+  from: Date,
+  to: Date,
+) {
+  const [row] = await db
+    .select({ value: count() })
+    .from(loans)
+    .where(and(gte(column, from), lt(column, to)));
+  return row?.value ?? 0;
+}
+
+/**
+ * Collect everything the daily admin digest reports on
+ */
+export async function getAdminDigest(
+  db: Database,
+  now: Date,
+): Promise<AdminDigest> {
+  const day = startOfPreviousDay(now);
+  const dayEnd = new Date(day.getTime() + MS_PER_DAY);
+
+  const flaggedCopies = await db.query.bookCopies.findMany({
+    where: inArray(bookCopies.status, ["lost", "damaged"]),
+    with: {
+      book: true,
+      location: true,
+    },
+  });
+
+  return {
+    day,
+    now,
+    overdue: await getOverdueLoansByLocation(db, now),
+    flaggedCopies: flaggedCopies.map((copy) => ({
+      title: copy.book.title,
+      copyNumber: copy.copyNumber,
+      location: copy.location.name,
+      status: copy.status ?? "available",
+    })),
+    borrowed: await countLoansBetween(db, loans.borrowedAt, day, dayEnd),
+    returned: await countLoansBetween(db, loans.returnedAt, day, dayEnd),
+  };
+}
+
+/**
+ * Post the daily digest to the admin group. Run from the scheduled handler.
+ */
+export async function sendAdminDigest(
+  db: Database,
+  api: Api,
+  adminGroupId: string,
+  now: Date,
+) {
+  if (!adminGroupId) {
+    return false;
+  }
+
+  const digest = await getAdminDigest(db, now);
+
+  try {
+    await api.sendMessage(adminGroupId, formatAdminDigestMessage(digest), {
+      parse_mode: "MarkdownV2",
+    });
+    return true;
+  } catch (error) {
+    // Usually the bot was removed from the admin group
+    console.error("Failed to send admin digest:", error);
+    return false;
+  }
+}
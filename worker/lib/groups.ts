@@ -0,0 +1,35 @@
+import { eq } from "drizzle-orm";
+import { groupSettings } from "../db/schema";
+import type { Database } from "./book";
+
+/**
+ * Get the location searches in a group chat are scoped to, or null when the
+ * group searches all locations
+ */
+export async function getGroupLocation(db: Database, chatId: number) {
+  const settings = await db.query.groupSettings.findFirst({
+    where: eq(groupSettings.chatId, chatId),
+    with: { location: true },
+  });
+
+  return settings?.location ?? null;
+}
+
+/**
+ * Scope searches in a group chat to a location, or clear it (null) to search
+ * all locations
+ */
+export async function setGroupLocation(
+  db: Database,
+  chatId: number,
+  locationId: number | null,
+  updatedBy: number,
+) {
+  const values = { locationId, updatedBy, updatedAt: new Date() };
+  await db
+    .insert(groupSettings)
+    .values({ chatId, ...values })
+    .onConflictDoUpdate({ target: groupSettings.chatId, set: values });
+
+  return { success: true, locationId };
+}
@@ -0,0 +1,146 @@
+import { and, count, desc, eq, isNotNull } from "drizzle-orm";
+import { loans, userSettings } from "../db/schema";
+import type { Database } from "./book";
+
+export const HISTORY_PAGE_SIZE = 10;
+
+/**
+ * Condition matching the returned loans shown in a user's reading history
+ */
+function visibleHistory(telegramUserId: number) {
+  return and(
+    eq(loans.telegramUserId, telegramUserId),
+    isNotNull(loans.returnedAt),
+    eq(loans.hiddenFromHistory, false),
+  );
+}
+
+/**
+ * Check whether the user keeps a reading history (on unless they turned it off)
+ */
+export async function isLoanHistoryEnabled(
+  db: Database,
+  telegramUserId: number,
+) {
+  const settings = await db.query.userSettings.findFirst({
+    where: eq(userSettings.telegramUserId, telegramUserId),
+  });
+
+  return settings?.keepLoanHistory ?? true;
+}
+
+/**
+ * Get a page of the user's returned loans, most recently returned first
+ */
+export async function getUserLoanHistory(
+  db: Database,
+  telegramUserId: number,
+  page: number = 1,
+  pageSize: number = HISTORY_PAGE_SIZE,
+) {
+  const enabled = await isLoanHistoryEnabled(db, telegramUserId);
+
+  const [totalRow] = await db
+    .select({ value: count() })
+    .from(loans)
+    .where(visibleHistory(telegramUserId));
+  const total = totalRow?.value ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const currentPage = Math.min(Math.max(1, page), totalPages);
+
+  const pastLoans = await db.query.loans.findMany({
+    where: visibleHistory(telegramUserId),
+    with: {
+      bookCopy: {
+        with: {
+          book: true,
+        },
+      },
+    },
+    orderBy: [desc(loans.returnedAt), desc(loans.id)],
+    limit: pageSize,
+    offset: (currentPage - 1) * pageSize,
+  });
+
+  return {
+    enabled,
+    page: currentPage,
+    pageSize,
+    totalPages,
+    total,
+    entries: pastLoans.map((loan) => ({
+      id: loan.id,
+      title: loan.bookCopy.book.title,
+      author: loan.bookCopy.book.author,
+      imageUrl: loan.bookCopy.book.imageUrl,
+      copyNumber: loan.bookCopy.copyNumber,
+      borrowedAt: loan.borrowedAt,
+      returnedAt: loan.returnedAt!,
+    })),
+  };
+}
+
+/**
+ * Remove one returned loan from the user's reading history
+ */
+export async function hideHistoryEntry(
+  db: Database,
+  loanId: number,
+  telegramUserId: number,
+) {
+  const result = await db
+    .update(loans)
+    .set({ hiddenFromHistory: true })
+    .where(and(eq(loans.id, loanId), visibleHistory(telegramUserId)))
+    .returning();
+
+  if (result.length === 0) {
+    return { success: false, error: "History entry not found" };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Turn reading history on or off for a user.
+ * Turning it off also hides everything already in their history and drops the
+ * username stored on those loans.
+ */
+export async function setLoanHistoryEnabled(
+  db: Database,
+  telegramUserId: number,
+  enabled: boolean,
+) {
+  const values = { keepLoanHistory: enabled, updatedAt: new Date() };
+  await db
+    .insert(userSettings)
+    .values({ telegramUserId, ...values })
+    .onConflictDoUpdate({ target: userSettings.telegramUserId, set: values });
+
+  if (!enabled) {
+    await db
+      .update(loans)
+      .set({ hiddenFromHistory: true, telegramUsername: null })
+      .where(visibleHistory(telegramUserId));
+  }
+
+  return { success: true, enabled };
+}
+
+/**
+ * Hide a just-returned loan straight away if the borrower has turned history off
+ */
+export async function applyHistoryRetention(
+  db: Database,
+  loanId: number,
+  telegramUserId: number,
+) {
+  if (await isLoanHistoryEnabled(db, telegramUserId)) {
+    return;
+  }
+
+  await db
+    .update(loans)
+    .set({ hiddenFromHistory: true, telegramUsername: null })
+    .where(eq(loans.id, loanId));
+}
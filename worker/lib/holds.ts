@@ -0,0 +1,521 @@
+import type { Locale, UserError } from "@shared/i18n";
+import {
+  and,
+  asc,
+  count,
+  eq,
+  gt,
+  inArray,
+  isNull,
+  lt,
+  type SQL,
+} from "drizzle-orm";
+import type { Api } from "grammy";
+import { formatHoldReadyMessage } from "../bot/format-message";
+import { bookCopies, books, holds, loans } from "../db/schema";
+import { isListed, type Database } from "./book";
+import { setCopyStatus } from "./copies";
+import { getUserLocale } from "./language";
+
+// How long a reserved copy is kept for the person at the front of the queue
+export const HOLD_PICKUP_DAYS = 3;
+
+const OPEN_HOLD_STATUSES = ["waiting", "ready"] as const;
+
+/**
+ * A hold that has just had a copy reserved for it.
+ * Returned by operations that free up copies so the caller can notify the holder.
+ */
+export interface ReadyHold {
+  holdId: number;
+  telegramUserId: number;
+  title: string;
+  copyNumber: number;
+  location: string;
+  expiresAt: Date;
+  // Language to notify the holder in
+  locale: Locale;
+}
+
+/**
+ * Condition matching reservations that are still inside their pickup window
+ */
+export function activeReservation(now: Date = new Date()) {
+  return and(eq(holds.status, "ready"), gt(holds.expiresAt, now));
+}
+
+/**
+ * Place a hold on a book that has no copies available
+ */
+export async function placeHold(
+  db: Database,
+  bookId: number,
+  telegramUserId: number,
+  telegramUsername: string | undefined,
+): Promise<
+  | { success: true; hold: typeof holds.$inferSelect; position: number }
+  | { success: false; error: UserError }
+> {
+  const now = new Date();
+  const book = await db.query.books.findFirst({
+    where: and(eq(books.id, bookId), isListed()),
+    with: {
+      bookCopies: {
+        with: {
+          loans: {
+            where: isNull(loans.returnedAt),
+            limit: 1,
+          },
+          reservations: {
+            where: activeReservation(now),
+            limit: 1,
+          },
+        },
+      },
+    },
+  });
+
+  if (!book) {
+    return { success: false, error: { code: "bookNotFound" } };
+  }
+
+  if (book.bookCopies.every((copy) => copy.status === "withdrawn")) {
+    return { success: false, error: { code: "noCopiesToHold" } };
+  }
+
+  if (
+    book.bookCopies.some(
+      (copy) => copy.loans[0]?.telegramUserId === telegramUserId,
+    )
+  ) {
+    return { success: false, error: { code: "alreadyBorrowed" } };
+  }
+
+  const hasAvailableCopy = book.bookCopies.some(
+    (copy) =>
+      copy.status === "available" &&
+      copy.loans.length === 0 &&
+      copy.reservations.length === 0,
+  );
+  if (hasAvailableCopy) {
+    return {
+      success: false,
+      error: { code: "copyAvailable" },
+    };
+  }
+
+  const openHold = await db.query.holds.findFirst({
+    where: and(
+      eq(holds.bookId, bookId),
+      eq(holds.telegramUserId, telegramUserId),
+      inArray(holds.status, OPEN_HOLD_STATUSES),
+    ),
+  });
+  if (openHold) {
+    return { success: false, error: { code: "alreadyOnHold" } };
+  }
+
+  let hold: typeof holds.$inferSelect;
+  try {
+    [hold] = await db
+      .insert(holds)
+      .values({
+        bookId,
+        telegramUserId,
+        telegramUsername: telegramUsername || null,
+        createdAt: now,
+      })
+      .returning();
+  } catch (error) {
+    // The unique partial index rejects a second open hold placed at the same time
+    if (isUniqueViolation(error)) {
+      return { success: false, error: { code: "alreadyOnHold" } };
+    }
+    console.error("Failed to place hold:", error);
+    return { success: false, error: { code: "holdFailed" } };
+  }
+
+  const position = await getQueuePosition(db, hold);
+  return { success: true, hold, position };
+}
+
+/**
+ * Check whether a failed query was rejected by a unique index.
+ * Drizzle wraps the D1 error, so look at its cause too.
+ */
+function isUniqueViolation(error: unknown) {
+  const cause =
+    error instanceof Error && error.cause instanceof Error
+      ? error.cause
+      : error;
+  return (
+    cause instanceof Error && cause.message.includes("UNIQUE constraint failed")
+  );
+}
+
+/**
+ * Cancel one of the user's open holds.
+ * If a copy was reserved for it, the copy is passed on to the next person in the queue.
+ */
+export async function cancelHold(
+  db: Database,
+  holdId: number,
+  telegramUserId: number,
+): Promise<
+  | {
+      success: true;
+      hold: typeof holds.$inferSelect;
+      readyHolds: ReadyHold[];
+    }
+  | { success: false; error: UserError }
+> {
+  const result = await db
+    .update(holds)
+    .set({ status: "cancelled", closedAt: new Date() })
+    .where(
+      and(
+        eq(holds.id, holdId),
+        eq(holds.telegramUserId, telegramUserId),
+        inArray(holds.status, OPEN_HOLD_STATUSES),
+      ),
+    )
+    .returning();
+
+  if (result.length === 0) {
+    return { success: false, error: { code: "noOpenHold" } };
+  }
+
+  const [hold] = result;
+  const readyHolds: ReadyHold[] = [];
+  if (hold.reservedQrCodeId) {
+    const next = await assignNextHold(db, hold.reservedQrCodeId);
+    if (next) {
+      readyHolds.push(next);
+    }
+  }
+
+  return { success: true, hold, readyHolds };
+}
+
+/**
+ * Statement cancelling every open hold on a book, e.g. when the book is
+ * deleted, for the caller to batch with that change. Pass the cancelled holds
+ * to releaseReservedCopies() afterwards.
+ */
+export function cancelBookHoldsQuery(
+  db: Database,
+  bookId: number,
+  condition?: SQL,
+) {
+  return db
+    .update(holds)
+    .set({ status: "cancelled", closedAt: new Date() })
+    .where(
+      and(
+        eq(holds.bookId, bookId),
+        inArray(holds.status, OPEN_HOLD_STATUSES),
+        condition,
+      ),
+    )
+    .returning();
+}
+
+/**
+ * Put the copies reserved for cancelled holds back into circulation
+ */
+export async function releaseReservedCopies(
+  db: Database,
+  cancelled: { reservedQrCodeId: string | null }[],
+) {
+  for (const hold of cancelled) {
+    if (hold.reservedQrCodeId) {
+      // Nobody is left waiting, so this moves the copy off the hold shelf
+      await assignNextHold(db, hold.reservedQrCodeId);
+    }
+  }
+}
+
+/**
+ * Get the 1-based position of a waiting hold in its book's queue
+ */
+async function getQueuePosition(
+  db: Database,
+  hold: { id: number; bookId: number },
+) {
+  const waiting = await db
+    .select({ id: holds.id })
+    .from(holds)
+    .where(and(eq(holds.bookId, hold.bookId), eq(holds.status, "waiting")))
+    .orderBy(asc(holds.createdAt), asc(holds.id));
+
+  return waiting.findIndex((row) => row.id === hold.id) + 1;
+}
+
+/**
+ * Count the people waiting for a book
+ */
+export async function countWaitingHolds(db: Database, bookId: number) {
+  const [row] = await db
+    .select({ value: count() })
+    .from(holds)
+    .where(and(eq(holds.bookId, bookId), eq(holds.status, "waiting")));
+
+  return row?.value ?? 0;
+}
+
+/**
+ * Get the user's open holds with their queue position or reserved copy
+ */
+export async function getUserHolds(db: Database, telegramUserId: number) {
+  const userHolds = await db.query.holds.findMany({
+    where: and(
+      eq(holds.telegramUserId, telegramUserId),
+      inArray(holds.status, OPEN_HOLD_STATUSES),
+    ),
+    with: {
+      book: true,
+      reservedCopy: {
+        with: {
+          location: true,
+        },
+      },
+    },
+    orderBy: [asc(holds.createdAt)],
+  });
+
+  return Promise.all(
+    userHolds.map(async (hold) => ({
+      id: hold.id,
+      bookId: hold.bookId,
+      title: hold.book.title,
+      author: hold.book.author,
+      imageUrl: hold.book.imageUrl,
+      status: hold.status,
+      position:
+        hold.status === "waiting" ? await getQueuePosition(db, hold) : null,
+      reservedQrCodeId: hold.reservedQrCodeId,
+      reservedCopyNumber: hold.reservedCopy?.copyNumber ?? null,
+      location: hold.reservedCopy?.location.name ?? null,
+      createdAt: hold.createdAt,
+      expiresAt: hold.expiresAt,
+    })),
+  );
+}
+
+/**
+ * Reserve a copy that has just become free for the next person in its book's queue,
+ * moving it to the hold shelf. If nobody is waiting, a copy on the hold shelf goes
+ * back into general circulation.
+ * Returns the hold to notify, or null if the copy can't be reserved or nobody is waiting.
+ *
+ * NOTE: See borrowBook() for explanation of D1 transaction limitations.
+ * Each hold is claimed with a conditional update on status = 'waiting', so two
+ * copies freed at the same time can never be reserved for the same hold.
+ */
+export async function assignNextHold(
+  db: Database,
+  qrCodeId: string,
+  now: Date = new Date(),
+): Promise<ReadyHold | null> {
+  const copy = await db.query.bookCopies.findFirst({
+    where: eq(bookCopies.qrCodeId, qrCodeId),
+    with: {
+      book: true,
+      location: true,
+      loans: {
+        where: isNull(loans.returnedAt),
+        limit: 1,
+      },
+      reservations: {
+        where: activeReservation(now),
+        limit: 1,
+      },
+    },
+  });
+
+  if (
+    !copy ||
+    (copy.status !== "available" && copy.status !== "on_hold_shelf") ||
+    copy.loans.length > 0 ||
+    copy.reservations.length > 0
+  ) {
+    return null;
+  }
+
+  const queue = await db.query.holds.findMany({
+    where: and(eq(holds.bookId, copy.bookId), eq(holds.status, "waiting")),
+    orderBy: [asc(holds.createdAt), asc(holds.id)],
+  });
+
+  const expiresAt = new Date(now);
+  expiresAt.setDate(expiresAt.getDate() + HOLD_PICKUP_DAYS);
+
+  for (const hold of queue) {
+    const claimed = await db
+      .update(holds)
+      .set({
+        status: "ready",
+        reservedQrCodeId: qrCodeId,
+        readyAt: now,
+        expiresAt,
+      })
+      .where(and(eq(holds.id, hold.id), eq(holds.status, "waiting")))
+      .returning();
+
+    if (claimed.length > 0) {
+      if (copy.status === "available") {
+        await setCopyStatus(
+          db,
+          qrCodeId,
+          "available",
+          "on_hold_shelf",
+          null,
+          `Reserved for hold #${hold.id}`,
+        );
+      }
+      return {
+        holdId: hold.id,
+        telegramUserId: hold.telegramUserId,
+        title: copy.book.title,
+        copyNumber: copy.copyNumber,
+        location: copy.location.name,
+        expiresAt,
+        locale: await getUserLocale(db, hold.telegramUserId),
+      };
+    }
+  }
+
+  if (copy.status === "on_hold_shelf") {
+    await setCopyStatus(
+      db,
+      qrCodeId,
+      "on_hold_shelf",
+      "available",
+      null,
+      "Nobody else is waiting for this book",
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Mark the user's open hold on a book as fulfilled after they borrow a copy of it.
+ * If a different copy had been reserved for them, pass that copy on to the next person.
+ */
+export async function fulfillHold(
+  db: Database,
+  bookId: number,
+  telegramUserId: number,
+  borrowedQrCodeId: string,
+): Promise<ReadyHold[]> {
+  const fulfilled = await db
+    .update(holds)
+    .set({ status: "fulfilled", closedAt: new Date() })
+    .where(
+      and(
+        eq(holds.bookId, bookId),
+        eq(holds.telegramUserId, telegramUserId),
+        inArray(holds.status, OPEN_HOLD_STATUSES),
+      ),
+    )
+    .returning();
+
+  const readyHolds: ReadyHold[] = [];
+  for (const hold of fulfilled) {
+    if (hold.reservedQrCodeId && hold.reservedQrCodeId !== borrowedQrCodeId) {
+      const next = await assignNextHold(db, hold.reservedQrCodeId);
+      if (next) {
+        readyHolds.push(next);
+      }
+    }
+  }
+
+  return readyHolds;
+}
+
+/**
+ * Expire ready holds whose pickup window has passed and pass their copies on
+ * to the next person in each queue. Run from the scheduled handler.
+ */
+export async function expireHolds(db: Database, now: Date) {
+  const expired = await db
+    .update(holds)
+    .set({ status: "expired", closedAt: now })
+    .where(and(eq(holds.status, "ready"), lt(holds.expiresAt, now)))
+    .returning();
+
+  const readyHolds: ReadyHold[] = [];
+  for (const hold of expired) {
+    if (hold.reservedQrCodeId) {
+      const next = await assignNextHold(db, hold.reservedQrCodeId, now);
+      if (next) {
+        readyHolds.push(next);
+      }
+    }
+  }
+
+  return { expired: expired.length, readyHolds };
+}
+
+/**
+ * Put a hold back in the queue when the copy reserved for it leaves circulation
+ * (lost, damaged or withdrawn), and offer the holder another free copy of the
+ * book if there is one. The hold keeps its place at the front of the queue,
+ * since the queue is ordered by when each hold was placed.
+ */
+export async function requeueReservedHold(
+  db: Database,
+  qrCodeId: string,
+  now: Date = new Date(),
+): Promise<ReadyHold[]> {
+  const requeued = await db
+    .update(holds)
+    .set({
+      status: "waiting",
+      reservedQrCodeId: null,
+      readyAt: null,
+      expiresAt: null,
+    })
+    .where(and(eq(holds.reservedQrCodeId, qrCodeId), eq(holds.status, "ready")))
+    .returning();
+
+  const readyHolds: ReadyHold[] = [];
+  for (const hold of requeued) {
+    const freeCopies = await db.query.bookCopies.findMany({
+      where: and(
+        eq(bookCopies.bookId, hold.bookId),
+        eq(bookCopies.status, "available"),
+      ),
+      columns: { qrCodeId: true },
+    });
+
+    for (const copy of freeCopies) {
+      const next = await assignNextHold(db, copy.qrCodeId, now);
+      if (next) {
+        readyHolds.push(next);
+        break;
+      }
+    }
+  }
+
+  return readyHolds;
+}
+
+/**
+ * DM each holder that a copy is waiting for them
+ */
+export async function notifyHoldsReady(api: Api, readyHolds: ReadyHold[]) {
+  for (const hold of readyHolds) {
+    try {
+      await api.sendMessage(
+        hold.telegramUserId,
+        formatHoldReadyMessage(hold, hold.locale),
+        { parse_mode: "MarkdownV2" },
+      );
+    } catch (error) {
+      // Usually the user has blocked the bot or never started a chat with it
+      console.error(`Failed to notify hold ${hold.holdId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { resolveLocale, type Locale } from "@shared/i18n";
+import { eq, inArray } from "drizzle-orm";
+import { userSettings } from "../db/schema";
+import type { Database } from "./book";
+
+/**
+ * Get the language the user picked with /language, if any
+ */
+export async function getLanguageOverride(
+  db: Database,
+  telegramUserId: number,
+): Promise<Locale | null> {
+  const settings = await db.query.userSettings.findFirst({
+    where: eq(userSettings.telegramUserId, telegramUserId),
+  });
+
+  return settings?.language ?? null;
+}
+
+/**
+ * Pick the locale to talk to a user in: their /language choice, else the
+ * language of their Telegram client
+ */
+export async function getUserLocale(
+  db: Database,
+  telegramUserId: number,
+  languageCode?: string | null,
+): Promise<Locale> {
+  return (
+    (await getLanguageOverride(db, telegramUserId)) ??
+    resolveLocale(languageCode)
+  );
+}
+
+/**
+ * Get the locale for each user we message outside of a conversation (reminders,
+ * hold notifications). Telegram only tells us a user's client language when
+ * they write to the bot, so users without a /language choice get English.
+ */
+export async function getUserLocales(
+  db: Database,
+  telegramUserIds: number[],
+): Promise<Map<number, Locale>> {
+  const locales = new Map<number, Locale>(
+    telegramUserIds.map((id) => [id, resolveLocale(null)]),
+  );
+  if (telegramUserIds.length === 0) {
+    return locales;
+  }
+
+  const settings = await db.query.userSettings.findMany({
+    where: inArray(userSettings.telegramUserId, telegramUserIds),
+  });
+  for (const { telegramUserId, language } of settings) {
+    if (language) {
+      locales.set(telegramUserId, language);
+    }
+  }
+
+  return locales;
+}
+
+/**
+ * Set the user's language, or clear it (null) to follow their Telegram client
+ */
+export async function setLanguageOverride(
+  db: Database,
+  telegramUserId: number,
+  language: Locale | null,
+) {
+  const values = { language, updatedAt: new Date() };
+  await db
+    .insert(userSettings)
+    .values({ telegramUserId, ...values })
+    .onConflictDoUpdate({ target: userSettings.telegramUserId, set: values });
+
+  return { success: true, language };
+}
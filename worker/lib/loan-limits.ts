@@ -0,0 +1,80 @@
+import { desc, eq } from "drizzle-orm";
+import { loanLimitExemptions } from "../db/schema";
+import type { Database } from "./book";
+
+export const DEFAULT_MAX_ACTIVE_LOANS = 5;
+
+/**
+ * Read the per-user concurrent loan cap from the worker environment
+ */
+export function getMaxActiveLoans(env: Pick<Env, "MAX_ACTIVE_LOANS">): number {
+  const parsed = Number(env.MAX_ACTIVE_LOANS);
+  return Number.isInteger(parsed) && parsed > 0
+    ? parsed
+    : DEFAULT_MAX_ACTIVE_LOANS;
+}
+
+/**
+ * Check whether an admin has exempted the user from the concurrent loan cap
+ */
+export async function isExemptFromLoanLimit(
+  db: Database,
+  telegramUserId: number,
+) {
+  const exemption = await db.query.loanLimitExemptions.findFirst({
+    where: eq(loanLimitExemptions.telegramUserId, telegramUserId),
+  });
+
+  return exemption !== undefined;
+}
+
+/**
+ * Get all users exempted from the concurrent loan cap, newest first
+ */
+export async function getLoanLimitExemptions(db: Database) {
+  return db.query.loanLimitExemptions.findMany({
+    orderBy: [desc(loanLimitExemptions.createdAt)],
+  });
+}
+
+/**
+ * Exempt a user from the concurrent loan cap
+ * Granting again replaces the previous reason and granting admin
+ */
+export async function grantLoanLimitExemption(
+  db: Database,
+  telegramUserId: number,
+  grantedBy: number,
+  reason: string | null,
+) {
+  const values = { grantedBy, reason, createdAt: new Date() };
+  const [exemption] = await db
+    .insert(loanLimitExemptions)
+    .values({ telegramUserId, ...values })
+    .onConflictDoUpdate({
+      target: loanLimitExemptions.telegramUserId,
+      set: values,
+    })
+    .returning();
+
+  return exemption;
+}
+
+/**
+ * Remove a user's exemption so the concurrent loan cap applies again
+ */
+export async function revokeLoanLimitExemption(
+  db: Database,
+  telegramUserId: number,
+) {
+  const result = await db
+    .delete(loanLimitExemptions)
+    .where(eq(loanLimitExemptions.telegramUserId, telegramUserId))
+    .returning();
+
+  if (result.length === 0) {
+    return { success: false, error: "This user has no exemption" };
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,197 @@
+import { and, eq, isNull, type SQL } from "drizzle-orm";
+import { loanOverrides, loans, type LoanOverrideAction } from "../db/schema";
+import { insertValue, type Database } from "./book";
+import type { AdminActor } from "./copies";
+import { applyHistoryRetention } from "./history";
+import { assignNextHold, type ReadyHold } from "./holds";
+
+/**
+ * Statement recording an admin change to a loan, for the caller to batch with
+ * the change itself. It's only written if the loan matches `condition` when
+ * the statement runs, so give it the condition of the change's update.
+ */
+function recordOverride(
+  db: Database,
+  condition: SQL | undefined,
+  action: LoanOverrideAction,
+  actor: AdminActor,
+  previousValue: string | null = null,
+  newValue: string | null = null,
+) {
+  return db.insert(loanOverrides).select(
+    db
+      .select({
+        id: insertValue(null, loanOverrides.id),
+        loanId: loans.id,
+        action: insertValue(action, loanOverrides.action),
+        adminTelegramUserId: insertValue(
+          actor.telegramUserId,
+          loanOverrides.adminTelegramUserId,
+        ),
+        adminTelegramUsername: insertValue(
+          actor.telegramUsername || null,
+          loanOverrides.adminTelegramUsername,
+        ),
+        previousValue: insertValue(previousValue, loanOverrides.previousValue),
+        newValue: insertValue(newValue, loanOverrides.newValue),
+        createdAt: insertValue(new Date(), loanOverrides.createdAt),
+      })
+      .from(loans)
+      .where(condition),
+  );
+}
+
+/**
+ * Get an active loan by ID
+ */
+async function findActiveLoan(db: Database, loanId: number) {
+  return db.query.loans.findFirst({
+    where: and(eq(loans.id, loanId), isNull(loans.returnedAt)),
+  });
+}
+
+/**
+ * Close a loan on the borrower's behalf, e.g. when a book was left in the
+ * return box. Reserves the copy for the next person in the hold queue.
+ *
+ * NOTE: See borrowBook() for explanation of D1 transaction limitations.
+ * We use a conditional update so a loan can only be closed once, and record
+ * the override in the same batch on the same condition.
+ */
+export async function forceReturnLoan(
+  db: Database,
+  loanId: number,
+  actor: AdminActor,
+): Promise<
+  | {
+      success: true;
+      loan: typeof loans.$inferSelect;
+      readyHolds: ReadyHold[];
+    }
+  | { success: false; error: string }
+> {
+  const returnedAt = new Date();
+  const active = and(eq(loans.id, loanId), isNull(loans.returnedAt));
+  const [, result] = await db.batch([
+    recordOverride(db, active, "return", actor),
+    db.update(loans).set({ returnedAt }).where(active).returning(),
+  ]);
+
+  if (result.length === 0) {
+    return { success: false, error: "No active loan found" };
+  }
+
+  const [loan] = result;
+  await applyHistoryRetention(db, loanId, loan.telegramUserId);
+
+  const readyHold = await assignNextHold(db, loan.qrCodeId, returnedAt);
+  return { success: true, loan, readyHolds: readyHold ? [readyHold] : [] };
+}
+
+/**
+ * Move an active loan's due date. Unlike a renewal this ignores the location's
+ * renewal cap and any holds on the book. Fails if the due date changed since
+ * it was read, so the override logs the date it actually replaced.
+ */
+export async function extendLoanDueDate(
+  db: Database,
+  loanId: number,
+  dueDate: Date,
+  actor: AdminActor,
+) {
+  const loan = await findActiveLoan(db, loanId);
+
+  if (!loan) {
+    return { success: false, error: "No active loan found" };
+  }
+
+  if (dueDate.getTime() <= Date.now()) {
+    return { success: false, error: "The new due date must be in the future" };
+  }
+
+  const unchanged = and(
+    eq(loans.id, loanId),
+    eq(loans.dueDate, loan.dueDate),
+    isNull(loans.returnedAt),
+  );
+  const [, result] = await db.batch([
+    recordOverride(
+      db,
+      unchanged,
+      "extend",
+      actor,
+      loan.dueDate.toISOString(),
+      dueDate.toISOString(),
+    ),
+    db
+      .update(loans)
+      // Re-arm the reminders for the new due date
+      .set({ dueDate, lastReminderSent: null })
+      .where(unchanged)
+      .returning(),
+  ]);
+
+  if (result.length === 0) {
+    return {
+      success: false,
+      error: "This loan was just updated. Please try again.",
+    };
+  }
+
+  return { success: true, loan: result[0] };
+}
+
+/**
+ * Hand an active loan to a different user, e.g. when a friend borrowed the book
+ * on someone else's phone. The due date is unchanged.
+ */
+export async function reassignLoan(
+  db: Database,
+  loanId: number,
+  telegramUserId: number,
+  telegramUsername: string | null,
+  actor: AdminActor,
+) {
+  const loan = await findActiveLoan(db, loanId);
+
+  if (!loan) {
+    return { success: false, error: "No active loan found" };
+  }
+
+  if (loan.telegramUserId === telegramUserId) {
+    return {
+      success: false,
+      error: "This loan already belongs to that user",
+    };
+  }
+
+  const unchanged = and(
+    eq(loans.id, loanId),
+    eq(loans.telegramUserId, loan.telegramUserId),
+    isNull(loans.returnedAt),
+  );
+  const [, result] = await db.batch([
+    recordOverride(
+      db,
+      unchanged,
+      "reassign",
+      actor,
+      String(loan.telegramUserId),
+      String(telegramUserId),
+    ),
+    db
+      .update(loans)
+      .set({ telegramUserId, telegramUsername, lastReminderSent: null })
+      .where(unchanged)
+      .returning(),
+  ]);
+
+  if (result.length === 0) {
+    return {
+      success: false,
+      error: "This loan was just updated. Please try again.",
+    };
+  }
+
+  return { success: true, loan: result[0] };
+}
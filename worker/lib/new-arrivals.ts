@@ -0,0 +1,226 @@
+import {
+  and,
+  asc,
+  eq,
+  exists,
+  gte,
+  inArray,
+  isNull,
+  lt,
+  ne,
+  or,
+  sql,
+} from "drizzle-orm";
+import { GrammyError, InputMediaBuilder, type Api } from "grammy";
+import { formatNewArrivalsMessage } from "../bot/format-message";
+import { bookCopies, books, newArrivalSubscriptions } from "../db/schema";
+import { isListed, type Database } from "./book";
+import { getUserLocales } from "./language";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Must match the new-arrivals schedule in wrangler.jsonc: every 5 minutes on
+// Mondays from 10am SGT, each run sending the digest to the next few subscribers
+export const NEW_ARRIVALS_CRON = "*/5 2-9 * * 1";
+
+// Hour (UTC) of the week's first run, which sets the week the digest covers
+const DIGEST_HOUR_UTC = 2;
+
+// Each subscriber takes up to 3 Bot API calls and a database write, so this
+// keeps a run well inside the Workers limit of 50 subrequests
+const SUBSCRIBERS_PER_RUN = 10;
+
+// How far back the weekly digest looks for new books
+const NEW_ARRIVALS_DAYS = 7;
+
+// Telegram sends at most 10 photos in one media group
+const MEDIA_GROUP_LIMIT = 10;
+
+// Telegram allows about 30 messages a second when messaging many users, so
+// pause between subscribers to stay well under it
+const SEND_INTERVAL_MS = 100;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Sign a user up for the weekly new-arrivals digest
+ */
+export async function subscribeToNewArrivals(
+  db: Database,
+  telegramUserId: number,
+) {
+  const result = await db
+    .insert(newArrivalSubscriptions)
+    .values({ telegramUserId })
+    .onConflictDoNothing()
+    .returning();
+
+  return { success: true, alreadySubscribed: result.length === 0 };
+}
+
+/**
+ * Stop sending a user the weekly new-arrivals digest
+ */
+export async function unsubscribeFromNewArrivals(
+  db: Database,
+  telegramUserId: number,
+) {
+  const result = await db
+    .delete(newArrivalSubscriptions)
+    .where(eq(newArrivalSubscriptions.telegramUserId, telegramUserId))
+    .returning();
+
+  return { success: true, wasSubscribed: result.length > 0 };
+}
+
+/**
+ * Get the books added since `since`: the book itself is new, or its first
+ * copy was shelved since then (e.g. a title that was catalogued earlier).
+ * Titles without a copy in the collection yet are left out, as there's
+ * nothing to borrow.
+ */
+export async function getNewArrivals(db: Database, since: Date) {
+  // Copies from before created_at was recorded count as old
+  const firstCopiedSince = db
+    .select({ bookId: bookCopies.bookId })
+    .from(bookCopies)
+    .groupBy(bookCopies.bookId)
+    .having(
+      sql`min(coalesce(${bookCopies.createdAt}, 0)) >= ${Math.floor(since.getTime() / 1000)}`,
+    );
+
+  return db.query.books.findMany({
+    columns: { id: true, title: true, author: true, imageUrl: true },
+    where: and(
+      isListed(),
+      or(gte(books.createdAt, since), inArray(books.id, firstCopiedSince)),
+      exists(
+        db
+          .select({ qrCodeId: bookCopies.qrCodeId })
+          .from(bookCopies)
+          .where(
+            and(
+              eq(bookCopies.bookId, books.id),
+              or(isNull(bookCopies.status), ne(bookCopies.status, "withdrawn")),
+            ),
+          ),
+      ),
+    ),
+    orderBy: [asc(books.title), asc(books.id)],
+  });
+}
+
+/**
+ * Run a Bot API call, waiting and trying once more if Telegram says we're
+ * sending too fast (429 with retry_after)
+ */
+async function withRateLimitRetry<T>(call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    const retryAfter =
+      error instanceof GrammyError ? error.parameters.retry_after : undefined;
+    if (retryAfter === undefined) {
+      throw error;
+    }
+    await sleep(retryAfter * 1000);
+    return call();
+  }
+}
+
+/**
+ * Start of the week's digest: the first run on the Monday of `now`. Every run
+ * that week covers the same books and marks subscribers with this time.
+ */
+function getDigestStart(now: Date) {
+  const start = new Date(now);
+  start.setUTCHours(DIGEST_HOUR_UTC, 0, 0, 0);
+  return start;
+}
+
+/**
+ * Send the weekly digest of new books to the next subscribers who haven't had
+ * this week's yet: the covers as a media group, then the list of titles.
+ * Run from the scheduled handler; the week's later runs carry on where the
+ * last one stopped, so no run sends more than SUBSCRIBERS_PER_RUN digests.
+ * Subscribers who blocked the bot (403) are unsubscribed. Other failures
+ * aren't retried until next week.
+ */
+export async function sendNewArrivalsDigest(db: Database, api: Api, now: Date) {
+  const digestStart = getDigestStart(now);
+  const since = new Date(
+    digestStart.getTime() - NEW_ARRIVALS_DAYS * MS_PER_DAY,
+  );
+  const newBooks = await getNewArrivals(db, since);
+  let sent = 0;
+  let failed = 0;
+  let unsubscribed = 0;
+
+  if (newBooks.length === 0) {
+    return { books: 0, sent, failed, unsubscribed };
+  }
+
+  const subscribers = await db.query.newArrivalSubscriptions.findMany({
+    where: or(
+      isNull(newArrivalSubscriptions.lastDigestAt),
+      lt(newArrivalSubscriptions.lastDigestAt, digestStart),
+    ),
+    orderBy: asc(newArrivalSubscriptions.telegramUserId),
+    limit: SUBSCRIBERS_PER_RUN,
+  });
+  const locales = await getUserLocales(
+    db,
+    subscribers.map((subscriber) => subscriber.telegramUserId),
+  );
+  const covers = newBooks
+    .filter((book) => book.imageUrl)
+    .slice(0, MEDIA_GROUP_LIMIT)
+    .map((book) =>
+      InputMediaBuilder.photo(book.imageUrl!, { caption: book.title }),
+    );
+
+  for (const [index, { telegramUserId }] of subscribers.entries()) {
+    if (index > 0) {
+      await sleep(SEND_INTERVAL_MS);
+    }
+
+    try {
+      // A media group needs at least two photos
+      if (covers.length > 1) {
+        await withRateLimitRetry(() =>
+          api.sendMediaGroup(telegramUserId, covers),
+        );
+      } else if (covers.length === 1) {
+        await withRateLimitRetry(() =>
+          api.sendPhoto(telegramUserId, covers[0].media, {
+            caption: covers[0].caption,
+          }),
+        );
+      }
+      await withRateLimitRetry(() =>
+        api.sendMessage(
+          telegramUserId,
+          formatNewArrivalsMessage(newBooks, locales.get(telegramUserId)),
+          { parse_mode: "MarkdownV2" },
+        ),
+      );
+      sent++;
+    } catch (error) {
+      if (error instanceof GrammyError && error.error_code === 403) {
+        // Blocked the bot or deleted their account; stop trying every week
+        await unsubscribeFromNewArrivals(db, telegramUserId);
+        unsubscribed++;
+        continue;
+      }
+      console.error(`Failed to send new arrivals to ${telegramUserId}:`, error);
+      failed++;
+    }
+
+    await db
+      .update(newArrivalSubscriptions)
+      .set({ lastDigestAt: digestStart })
+      .where(eq(newArrivalSubscriptions.telegramUserId, telegramUserId));
+  }
+
+  return { books: newBooks.length, sent, failed, unsubscribed };
+}
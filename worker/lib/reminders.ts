@@ -0,0 +1,168 @@
+import { and, eq, isNull, lte } from "drizzle-orm";
+import type { Api } from "grammy";
+import {
+  formatDueSoonReminderMessage,
+  formatOverdueReminderMessage,
+} from "../bot/format-message";
+import { loans } from "../db/schema";
+import type { Database } from "./book";
+import { getUserLocales } from "./language";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface ReminderConfig {
+  /** How many days before the due date the "due soon" reminder is sent */
+  daysBeforeDue: number;
+  /** How many days to wait between reminders once a loan is overdue */
+  overdueIntervalDays: number;
+}
+
+export const DEFAULT_REMINDER_CONFIG: ReminderConfig = {
+  daysBeforeDue: 2,
+  overdueIntervalDays: 3,
+};
+
+export type ReminderKind = "due-soon" | "overdue";
+
+/**
+ * Parse a positive number from an environment variable, falling back to the default
+ */
+function parseDays(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Read the reminder windows from the worker environment
+ */
+export function getReminderConfig(
+  env: Pick<Env, "REMINDER_DAYS_BEFORE_DUE" | "REMINDER_OVERDUE_INTERVAL_DAYS">,
+): ReminderConfig {
+  return {
+    daysBeforeDue: parseDays(
+      env.REMINDER_DAYS_BEFORE_DUE,
+      DEFAULT_REMINDER_CONFIG.daysBeforeDue,
+    ),
+    overdueIntervalDays: parseDays(
+      env.REMINDER_OVERDUE_INTERVAL_DAYS,
+      DEFAULT_REMINDER_CONFIG.overdueIntervalDays,
+    ),
+  };
+}
+
+/**
+ * Decide which reminder (if any) a loan should receive right now.
+ *
+ * - One "due soon" reminder once the loan enters the window before its due date.
+ * - Once overdue, a reminder as soon as the due date passes, then one every
+ *   `overdueIntervalDays` until the book is returned.
+ */
+export function getReminderKind(
+  loan: { dueDate: Date; lastReminderSent: Date | null },
+  now: Date,
+  config: ReminderConfig,
+): ReminderKind | null {
+  const dueTime = loan.dueDate.getTime();
+  const lastSentTime = loan.lastReminderSent?.getTime() ?? null;
+
+  if (dueTime <= now.getTime()) {
+    // Reminders sent before the due date don't count towards the overdue schedule
+    if (lastSentTime === null || lastSentTime < dueTime) {
+      return "overdue";
+    }
+    const sinceLastReminder = now.getTime() - lastSentTime;
+    return sinceLastReminder >= config.overdueIntervalDays * MS_PER_DAY
+      ? "overdue"
+      : null;
+  }
+
+  const windowStart = dueTime - config.daysBeforeDue * MS_PER_DAY;
+  if (now.getTime() < windowStart) {
+    return null;
+  }
+
+  // Only one reminder per due-soon window
+  if (lastSentTime !== null && lastSentTime >= windowStart) {
+    return null;
+  }
+  return "due-soon";
+}
+
+/**
+ * Get all active loans that should be reminded about right now
+ */
+export async function getLoansNeedingReminder(
+  db: Database,
+  now: Date,
+  config: ReminderConfig,
+) {
+  const horizon = new Date(now.getTime() + config.daysBeforeDue * MS_PER_DAY);
+
+  const candidates = await db.query.loans.findMany({
+    where: and(isNull(loans.returnedAt), lte(loans.dueDate, horizon)),
+    with: {
+      bookCopy: {
+        with: {
+          book: true,
+          location: true,
+        },
+      },
+    },
+  });
+
+  return candidates.flatMap((loan) => {
+    const kind = getReminderKind(loan, now, config);
+    return kind ? [{ kind, loan }] : [];
+  });
+}
+
+/**
+ * Send due-soon and overdue reminders to borrowers via the bot.
+ * Records lastReminderSent on each loan that was successfully reminded, so the
+ * next run doesn't send the same reminder again.
+ */
+export async function sendLoanReminders(
+  db: Database,
+  api: Api,
+  now: Date,
+  config: ReminderConfig,
+) {
+  const pending = await getLoansNeedingReminder(db, now, config);
+  const locales = await getUserLocales(db, [
+    ...new Set(pending.map(({ loan }) => loan.telegramUserId)),
+  ]);
+  let sent = 0;
+  let failed = 0;
+
+  for (const { kind, loan } of pending) {
+    const details = {
+      title: loan.bookCopy.book.title,
+      author: loan.bookCopy.book.author,
+      copyNumber: loan.bookCopy.copyNumber,
+      dueDate: loan.dueDate,
+      location: loan.bookCopy.location.name,
+    };
+    const locale = locales.get(loan.telegramUserId);
+    const message =
+      kind === "overdue"
+        ? formatOverdueReminderMessage(details, now, locale)
+        : formatDueSoonReminderMessage(details, locale);
+
+    try {
+      await api.sendMessage(loan.telegramUserId, message, {
+        parse_mode: "MarkdownV2",
+      });
+      await db
+        .update(loans)
+        .set({ lastReminderSent: now })
+        .where(eq(loans.id, loan.id));
+      sent++;
+    } catch (error) {
+      // Usually the user has blocked the bot or never started a chat with it
+      console.error(`Failed to send reminder for loan ${loan.id}:`, error);
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
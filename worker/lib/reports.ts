@@ -0,0 +1,176 @@
+import { CIRCULATING_COPY_STATUSES } from "@shared/copy-status";
+import { isValidBookCode } from "@shared/qr";
+import { and, asc, eq, isNull, like, lt } from "drizzle-orm";
+import type { DigestLocation } from "../bot/format-digest";
+import { bookCopies, books, loans } from "../db/schema";
+import { isListed, type Database } from "./book";
+
+// Books listed per /locate reply
+const LOCATE_LIMIT = 5;
+
+/**
+ * Copies with their location and current loan (if any)
+ */
+const copiesWithLoan = {
+  with: {
+    location: true as const,
+    loans: {
+      where: isNull(loans.returnedAt),
+      limit: 1,
+    },
+  },
+  orderBy: [asc(bookCopies.copyNumber)],
+};
+
+type CopyWithLoan = typeof bookCopies.$inferSelect & {
+  location: { name: string };
+  loans: (typeof loans.$inferSelect)[];
+};
+
+function toCopyReport(copy: CopyWithLoan) {
+  const loan = copy.loans[0];
+  return {
+    qrCodeId: copy.qrCodeId,
+    copyNumber: copy.copyNumber,
+    location: copy.location.name,
+    status: copy.status ?? "available",
+    loan: loan
+      ? {
+          telegramUserId: loan.telegramUserId,
+          telegramUsername: loan.telegramUsername,
+          dueDate: loan.dueDate,
+        }
+      : null,
+  };
+}
+
+/**
+ * Get active loans past their due date, grouped by the location of the copy.
+ * Locations are sorted by name, with the most overdue loans first in each.
+ */
+export async function getOverdueLoansByLocation(
+  db: Database,
+  now: Date,
+): Promise<DigestLocation[]> {
+  const overdueLoans = await db.query.loans.findMany({
+    where: and(isNull(loans.returnedAt), lt(loans.dueDate, now)),
+    with: {
+      bookCopy: {
+        with: {
+          book: true,
+          location: true,
+        },
+      },
+    },
+    orderBy: [asc(loans.dueDate)],
+  });
+
+  const overdueByLocation = new Map<string, DigestLocation>();
+  for (const loan of overdueLoans) {
+    const location = loan.bookCopy.location.name;
+    const group = overdueByLocation.get(location) ?? { location, loans: [] };
+    group.loans.push({
+      title: loan.bookCopy.book.title,
+      copyNumber: loan.bookCopy.copyNumber,
+      telegramUserId: loan.telegramUserId,
+      telegramUsername: loan.telegramUsername,
+      dueDate: loan.dueDate,
+    });
+    overdueByLocation.set(location, group);
+  }
+
+  return [...overdueByLocation.values()].sort((a, b) =>
+    a.location.localeCompare(b.location),
+  );
+}
+
+/**
+ * Find who has each copy of a book, looked up by ISBN or by one copy's
+ * QR code ID (COPY-XXXXXX). A QR code only reports that copy.
+ */
+export async function getCopyBorrowers(db: Database, isbnOrCode: string) {
+  const query = isbnOrCode.trim();
+
+  if (isValidBookCode(query.toUpperCase())) {
+    const copy = await db.query.bookCopies.findFirst({
+      where: eq(bookCopies.qrCodeId, query.toUpperCase()),
+      with: {
+        book: true,
+        ...copiesWithLoan.with,
+      },
+    });
+
+    if (!copy) {
+      return null;
+    }
+
+    return { title: copy.book.title, copies: [toCopyReport(copy)] };
+  }
+
+  const book = await db.query.books.findFirst({
+    where: and(eq(books.isbn, query), isListed()),
+    with: {
+      bookCopies: copiesWithLoan,
+    },
+  });
+
+  if (!book) {
+    return null;
+  }
+
+  return { title: book.title, copies: book.bookCopies.map(toCopyReport) };
+}
+
+/**
+ * Count copies and loans at each location, sorted by location name
+ */
+export async function getLocationStats(db: Database, now: Date) {
+  const allLocations = await db.query.locations.findMany({
+    with: {
+      bookCopies: {
+        with: {
+          loans: {
+            where: isNull(loans.returnedAt),
+            limit: 1,
+          },
+        },
+      },
+    },
+  });
+
+  return allLocations
+    .map((location) => {
+      const activeLoans = location.bookCopies.flatMap((copy) => copy.loans);
+      return {
+        location: location.name,
+        copies: location.bookCopies.length,
+        onLoan: activeLoans.length,
+        overdue: activeLoans.filter((loan) => loan.dueDate < now).length,
+        outOfCirculation: location.bookCopies.filter(
+          (copy) =>
+            !CIRCULATING_COPY_STATUSES.includes(copy.status ?? "available"),
+        ).length,
+      };
+    })
+    .sort((a, b) => a.location.localeCompare(b.location));
+}
+
+/**
+ * Find books by title and where each of their copies is shelved
+ */
+export async function locateBooks(db: Database, title: string) {
+  const results = await db.query.books.findMany({
+    where: and(like(books.title, `%${title}%`), isListed()),
+    orderBy: [asc(books.title), asc(books.id)],
+    limit: LOCATE_LIMIT,
+    with: {
+      bookCopies: copiesWithLoan,
+    },
+  });
+
+  return results.map((book) => ({
+    title: book.title,
+    author: book.author,
+    copies: book.bookCopies.map(toCopyReport),
+  }));
+}
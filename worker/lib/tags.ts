@@ -0,0 +1,86 @@
+import { asc, eq, inArray } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { normalizeTagNames, tagSlug } from "@shared/tags";
+import { bookTags, tags } from "../db/schema";
+import type { Database } from "./book";
+
+/**
+ * Relational query options that load a book's tag names,
+ * e.g. db.query.books.findMany({ with: { bookTags: withTagNames } })
+ */
+export const withTagNames = {
+  columns: {},
+  with: { tag: { columns: { name: true } } },
+} as const;
+
+/**
+ * Flatten the bookTags loaded with withTagNames into sorted tag names
+ */
+export function toTagNames(rows: { tag: { name: string } }[]): string[] {
+  return rows.map((row) => row.tag.name).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Get the tag names of a book, sorted by name
+ */
+export async function getBookTags(db: Database, bookId: number) {
+  const rows = await db
+    .select({ name: tags.name })
+    .from(bookTags)
+    .innerJoin(tags, eq(bookTags.tagId, tags.id))
+    .where(eq(bookTags.bookId, bookId))
+    .orderBy(asc(tags.name));
+
+  return rows.map((row) => row.name);
+}
+
+/**
+ * Prepare to replace a book's tags, creating tags that don't exist yet.
+ * Names matching an existing tag's slug reuse that tag (and its spelling).
+ * Returns the book's new tag names, sorted by name, and the statements that
+ * relink it, for the caller to batch with its other changes.
+ *
+ * NOTE: See borrowBook() for explanation of D1 transaction limitations.
+ * Running the statements in one batch, which D1 runs atomically, means
+ * concurrent edits can't collide or leave a book half-tagged. A failure before
+ * the batch can leave newly created tags unused.
+ */
+export async function prepareBookTags(
+  db: Database,
+  bookId: number,
+  names: string[],
+) {
+  const normalized = normalizeTagNames(names);
+  const slugs = normalized.map(tagSlug);
+
+  if (normalized.length > 0) {
+    await db
+      .insert(tags)
+      .values(normalized.map((name, i) => ({ name, slug: slugs[i] })))
+      .onConflictDoNothing({ target: tags.slug });
+  }
+
+  const tagRows =
+    slugs.length > 0
+      ? await db
+          .select({ id: tags.id, name: tags.name })
+          .from(tags)
+          .where(inArray(tags.slug, slugs))
+      : [];
+
+  const unlink = db.delete(bookTags).where(eq(bookTags.bookId, bookId));
+  const statements: [BatchItem<"sqlite">, ...BatchItem<"sqlite">[]] =
+    tagRows.length > 0
+      ? [
+          unlink,
+          db
+            .insert(bookTags)
+            .values(tagRows.map((tag) => ({ bookId, tagId: tag.id }))),
+        ]
+      : [unlink];
+
+  return {
+    names: tagRows.map((tag) => tag.name).sort((a, b) => a.localeCompare(b)),
+    statements,
+  };
+}
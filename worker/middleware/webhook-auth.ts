@@ -0,0 +1,34 @@
+import { createMiddleware } from "hono/factory";
+
+/**
+ * Compare two strings without leaking where they differ through timing
+ */
+function secretsMatch(received: string, expected: string) {
+  if (received.length !== expected.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= received.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Telegram webhook authentication middleware.
+ * Telegram sends the secret registered with setWebhook in the
+ * X-Telegram-Bot-Api-Secret-Token header; anything else is a forged update.
+ */
+export const telegramWebhookAuth = createMiddleware<{ Bindings: Env }>(
+  async (c, next) => {
+    const secret = c.req.header("X-Telegram-Bot-Api-Secret-Token") ?? "";
+
+    // Reject everything if the secret was never configured
+    if (!c.env.WEBHOOK_SECRET || !secretsMatch(secret, c.env.WEBHOOK_SECRET)) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    await next();
+  },
+);
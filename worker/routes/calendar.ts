@@ -0,0 +1,44 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import * as schema from "../db/schema";
+import {
+  buildDueDatesCalendar,
+  getCalendarLoans,
+  verifyCalendarFeed,
+} from "../lib/calendar";
+import { getUserLocale } from "../lib/language";
+
+/**
+ * Due-date calendar feeds.
+ * Calendar apps can't send Telegram initData, so each feed URL carries a
+ * signature of the user ID instead (see getCalendarFeedUrl).
+ */
+export const calendar = new Hono<{ Bindings: Env }>().get(
+  "/:userId/:signature/due-dates.ics",
+  async (c) => {
+    const telegramUserId = Number(c.req.param("userId"));
+
+    if (
+      !Number.isSafeInteger(telegramUserId) ||
+      !(await verifyCalendarFeed(
+        c.env.BOT_TOKEN,
+        telegramUserId,
+        c.req.param("signature"),
+      ))
+    ) {
+      return c.json({ error: "Calendar not found" }, 404);
+    }
+
+    const db = drizzle(c.env.DATABASE, { schema });
+    const [loans, locale] = await Promise.all([
+      getCalendarLoans(db, telegramUserId),
+      getUserLocale(db, telegramUserId),
+    ]);
+
+    return c.body(buildDueDatesCalendar(loans, new Date(), locale), 200, {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="due-dates.ics"',
+      "Cache-Control": "private, no-cache",
+    });
+  },
+);
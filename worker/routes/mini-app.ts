@@ -1,19 +1,97 @@
 import { zValidator } from "@hono/zod-validator";
+import { COPY_STATUSES } from "@shared/copy-status";
+import { translateError, type UserError } from "@shared/i18n";
 import { extractBookCodeFromLink } from "@shared/qr";
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_BOOK } from "@shared/tags";
+import type { InitData } from "@tma.js/init-data-node";
 import { drizzle } from "drizzle-orm/d1";
+import { Api } from "grammy";
 import { Hono } from "hono";
 import { z } from "zod";
 import * as schema from "../db/schema";
 import {
+  addBook,
   addBookCopy,
   borrowBook,
+  type Database,
   getAllLocations,
   getUserActiveLoans,
+  renewLoan,
   returnBook,
+  updateLocationPolicy,
 } from "../lib/book";
+import {
+  deleteBook,
+  getBookChanges,
+  getDeletedBooks,
+  restoreBook,
+  revertBookChange,
+  updateBook,
+} from "../lib/book-changes";
+import {
+  getBookMetadataProvider,
+  lookupBookMetadata,
+} from "../lib/book-metadata";
+import { getCalendarFeedUrl } from "../lib/calendar";
+import { changeCopyStatus, getCopyStatusHistory } from "../lib/copies";
+import {
+  getUserLoanHistory,
+  hideHistoryEntry,
+  setLoanHistoryEnabled,
+} from "../lib/history";
+import {
+  cancelHold,
+  getUserHolds,
+  notifyHoldsReady,
+  placeHold,
+  type ReadyHold,
+} from "../lib/holds";
+import { getUserLocale } from "../lib/language";
+import {
+  extendLoanDueDate,
+  forceReturnLoan,
+  reassignLoan,
+} from "../lib/loan-overrides";
+import {
+  getLoanLimitExemptions,
+  getMaxActiveLoans,
+  grantLoanLimitExemption,
+  revokeLoanLimitExemption,
+} from "../lib/loan-limits";
 import { adminCheck, requireAdmin } from "../middleware/admin-auth";
 import { telegramAuth } from "../middleware/telegram-auth";
 
+/**
+ * Notify holders whose reserved copy is ready without delaying the response
+ */
+function notifyInBackground(
+  c: { env: Env; executionCtx: ExecutionContext },
+  readyHolds: ReadyHold[],
+) {
+  if (readyHolds.length === 0) {
+    return;
+  }
+  c.executionCtx.waitUntil(
+    notifyHoldsReady(new Api(c.env.BOT_TOKEN), readyHolds),
+  );
+}
+
+/**
+ * Put a refusal from the lib into the requesting user's language
+ */
+async function describeError(
+  db: Database,
+  initData: InitData,
+  error: UserError,
+) {
+  const locale = await getUserLocale(
+    db,
+    initData.user!.id,
+    initData.user?.language_code,
+  );
+  return translateError(locale, error);
+}
+
 /**
  * Mini App API routes.
  * All routes require Telegram initData authentication.
@@ -32,6 +110,9 @@ export const miniApp = new Hono<{ Bindings: Env }>()
       return c.json({ error: "User not found in init data" }, 400);
     }
 
+    const db = drizzle(c.env.DATABASE, { schema });
+    const locale = await getUserLocale(db, user.id, user.language_code);
+
     return c.json({
       user: {
         id: user.id,
@@ -41,6 +122,7 @@ export const miniApp = new Hono<{ Bindings: Env }>()
         photoUrl: user.photo_url,
       },
       isAdmin,
+      locale,
     });
   })
   .get("/locations", async (c) => {
@@ -48,6 +130,55 @@ export const miniApp = new Hono<{ Bindings: Env }>()
     const locations = await getAllLocations(db);
     return c.json({ locations });
   })
+  .patch(
+    "/locations/:locationId",
+    adminCheck,
+    requireAdmin,
+    zValidator(
+      "json",
+      z
+        .object({
+          loanPeriodDays: z
+            .number()
+            .int()
+            .min(1, "loanPeriodDays must be at least 1"),
+          maxRenewals: z
+            .number()
+            .int()
+            .min(0, "maxRenewals cannot be negative"),
+          maxLoansPerUser: z
+            .number()
+            .int()
+            .positive("maxLoansPerUser must be positive")
+            .nullable(),
+        })
+        .partial(),
+      (result, c) => {
+        if (!result.success) {
+          return c.json(
+            {
+              success: false,
+              error: result.error.issues[0]?.message ?? "Invalid request body",
+            },
+            400,
+          );
+        }
+      },
+    ),
+    async (c) => {
+      const { locationId } = c.req.param();
+      const body = c.req.valid("json");
+
+      const db = drizzle(c.env.DATABASE, { schema });
+      const result = await updateLocationPolicy(db, parseInt(locationId), body);
+
+      if (result.success) {
+        return c.json({ success: true, location: result.location });
+      }
+
+      return c.json({ success: false, error: result.error }, 400);
+    },
+  )
   .get("/loans", async (c) => {
     const initData = c.get("initData");
     const telegramUserId = initData.user?.id;
@@ -61,6 +192,22 @@ export const miniApp = new Hono<{ Bindings: Env }>()
 
     return c.json({ loans });
   })
+  .get("/calendar", async (c) => {
+    const initData = c.get("initData");
+    const telegramUserId = initData.user?.id;
+
+    if (!telegramUserId) {
+      return c.json({ error: "User ID not found in init data" }, 400);
+    }
+
+    const url = await getCalendarFeedUrl(
+      new URL(c.req.url).origin,
+      c.env.BOT_TOKEN,
+      telegramUserId,
+    );
+
+    return c.json({ url });
+  })
   .post("/books/:qrCodeId/borrow", async (c) => {
     const initData = c.get("initData");
     const telegramUserId = initData.user?.id;
@@ -78,9 +225,12 @@ export const miniApp = new Hono<{ Bindings: Env }>()
       qrCodeId,
       telegramUserId,
       telegramUsername,
+      getMaxActiveLoans(c.env),
     );
 
-    if (result.success && result.loan && result.book) {
+    if (result.success) {
+      notifyInBackground(c, result.readyHolds);
+
       return c.json({
         success: true,
         loan: {
@@ -94,11 +244,20 @@ export const miniApp = new Hono<{ Bindings: Env }>()
           imageUrl: result.book.imageUrl,
         },
         copyNumber: result.copyNumber,
+        policy: {
+          location: result.location,
+          loanPeriodDays: result.policy.loanPeriodDays,
+          maxRenewals: result.policy.maxRenewals,
+        },
       });
     }
 
     return c.json(
-      { success: false, error: result.error || "Failed to borrow book" },
+      {
+        success: false,
+        error: await describeError(db, initData, result.error),
+        loanLimit: result.loanLimit ?? null,
+      },
       400,
     );
   })
@@ -115,7 +274,9 @@ export const miniApp = new Hono<{ Bindings: Env }>()
 
     const result = await returnBook(db, qrCodeId, telegramUserId);
 
-    if (result.success && result.book) {
+    if (result.success) {
+      notifyInBackground(c, result.readyHolds);
+
       return c.json({
         success: true,
         book: {
@@ -128,10 +289,642 @@ export const miniApp = new Hono<{ Bindings: Env }>()
     }
 
     return c.json(
-      { success: false, error: result.error || "Failed to return book" },
+      {
+        success: false,
+        error: await describeError(db, initData, result.error),
+      },
       400,
     );
   })
+  .post("/books/:qrCodeId/renew", async (c) => {
+    const initData = c.get("initData");
+    const telegramUserId = initData.user?.id;
+
+    if (!telegramUserId) {
+      return c.json({ error: "User ID not found in init data" }, 400);
+    }
+
+    const { qrCodeId } = c.req.param();
+    const db = drizzle(c.env.DATABASE, { schema });
+
+    const result = await renewLoan(db, qrCodeId, telegramUserId);
+
+    if (result.success) {
+      return c.json({
+        success: true,
+        loan: {
+          id: result.loan.id,
+          borrowedAt: result.loan.borrowedAt,
+          dueDate: result.loan.dueDate,
+          renewalCount: result.loan.renewalCount,
+        },
+        book: {
+          title: result.book.title,
+          author: result.book.author,
+        },
+        renewalsRemaining: result.renewalsRemaining,
+      });
+    }
+
+    return c.json(
+      {
+        success: false,
+        error: await describeError(db, initData, result.error),
+      },
+      400,
+    );
+  })
+  .get(
+    "/history",
+    zValidator(
+      "query",
+      z.object({
+        page: z.coerce.number().int().positive().optional(),
+      }),
+    ),
+    async (c) => {
+      const initData = c.get("initData");
+      const telegramUserId = initData.user?.id;
+
+      if (!telegramUserId) {
+        return c.json({ error: "User ID not found in init data" }, 400);
+      }
+
+      const { page } = c.req.valid("query");
+      const db = drizzle(c.env.DATABASE, { schema });
+      const history = await getUserLoanHistory(db, telegramUserId, page);
+
+      return c.json(history);
+    },
+  )
+  .post("/history/:loanId/hide", async (c) => {
+    const initData = c.get("initData");
+    const telegramUserId = initData.user?.id;
+
+    if (!telegramUserId) {
+      return c.json({ error: "User ID not found in init data" }, 400);
+    }
+
+    const { loanId } = c.req.param();
+    const db = drizzle(c.env.DATABASE, { schema });
+
+    const result = await hideHistoryEntry(db, parseInt(loanId), telegramUserId);
+
+    if (result.success) {
+      return c.json({ success: true });
+    }
+
+    return c.json(
+      { success: false, error: result.error || "Failed to hide entry" },
+      400,
+    );
+  })
+  .put(
+    "/history/settings",
+    zValidator("json", z.object({ enabled: z.boolean() })),
+    async (c) => {
+      const initData = c.get("initData");
+      const telegramUserId = initData.user?.id;
+
+      if (!telegramUserId) {
+        return c.json({ error: "User ID not found in init data" }, 400);
+      }
+
+      const { enabled } = c.req.valid("json");
+      const db = drizzle(c.env.DATABASE, { schema });
+      const result = await setLoanHistoryEnabled(db, telegramUserId, enabled);
+
+      return c.json(result);
+    },
+  )
+  .get("/holds", async (c) => {
+    const initData = c.get("initData");
+    const telegramUserId = initData.user?.id;
+
+    if (!telegramUserId) {
+      return c.json({ error: "User ID not found in init data" }, 400);
+    }
+
+    const db = drizzle(c.env.DATABASE, { schema });
+    const holds = await getUserHolds(db, telegramUserId);
+
+    return c.json({ holds });
+  })
+  .post("/books/:bookId/holds", async (c) => {
+    const initData = c.get("initData");
+    const telegramUserId = initData.user?.id;
+    const telegramUsername = initData.user?.username;
+
+    if (!telegramUserId) {
+      return c.json({ error: "User ID not found in init data" }, 400);
+    }
+
+    const { bookId } = c.req.param();
+    const db = drizzle(c.env.DATABASE, { schema });
+
+    const result = await placeHold(
+      db,
+      parseInt(bookId),
+      telegramUserId,
+      telegramUsername,
+    );
+
+    if (result.success) {
+      return c.json({
+        success: true,
+        hold: {
+          id: result.hold.id,
+          bookId: result.hold.bookId,
+          status: result.hold.status,
+          createdAt: result.hold.createdAt,
+        },
+        position: result.position,
+      });
+    }
+
+    return c.json(
+      {
+        success: false,
+        error: await describeError(db, initData, result.error),
+      },
+      400,
+    );
+  })
+  .post("/holds/:holdId/cancel", async (c) => {
+    const initData = c.get("initData");
+    const telegramUserId = initData.user?.id;
+
+    if (!telegramUserId) {
+      return c.json({ error: "User ID not found in init data" }, 400);
+    }
+
+    const { holdId } = c.req.param();
+    const db = drizzle(c.env.DATABASE, { schema });
+
+    const result = await cancelHold(db, parseInt(holdId), telegramUserId);
+
+    if (result.success) {
+      notifyInBackground(c, result.readyHolds);
+      return c.json({ success: true });
+    }
+
+    return c.json(
+      {
+        success: false,
+        error: await describeError(db, initData, result.error),
+      },
+      400,
+    );
+  })
+  .get("/admin/loan-limit-exemptions", adminCheck, requireAdmin, async (c) => {
+    const db = drizzle(c.env.DATABASE, { schema });
+    const exemptions = await getLoanLimitExemptions(db);
+    return c.json({ exemptions });
+  })
+  .put(
+    "/admin/loan-limit-exemptions/:telegramUserId",
+    adminCheck,
+    requireAdmin,
+    zValidator(
+      "json",
+      z.object({
+        reason: z.string().trim().max(200).nullable().optional(),
+      }),
+      (result, c) => {
+        if (!result.success) {
+          return c.json(
+            {
+              success: false,
+              error: result.error.issues[0]?.message ?? "Invalid request body",
+            },
+            400,
+          );
+        }
+      },
+    ),
+    async (c) => {
+      const initData = c.get("initData");
+      const { telegramUserId } = c.req.param();
+      const body = c.req.valid("json");
+
+      const db = drizzle(c.env.DATABASE, { schema });
+      const exemption = await grantLoanLimitExemption(
+        db,
+        parseInt(telegramUserId),
+        initData.user!.id,
+        body.reason || null,
+      );
+
+      return c.json({ success: true, exemption });
+    },
+  )
+  .delete(
+    "/admin/loan-limit-exemptions/:telegramUserId",
+    adminCheck,
+    requireAdmin,
+    async (c) => {
+      const { telegramUserId } = c.req.param();
+
+      const db = drizzle(c.env.DATABASE, { schema });
+      const result = await revokeLoanLimitExemption(
+        db,
+        parseInt(telegramUserId),
+      );
+
+      if (result.success) {
+        return c.json({ success: true });
+      }
+
+      return c.json({ success: false, error: result.error }, 400);
+    },
+  )
+  .post(
+    "/admin/copies/:qrCodeId/status",
+    adminCheck,
+    requireAdmin,
+    zValidator(
+      "json",
+      z.object({
+        status: z.enum(COPY_STATUSES, {
+          message: `status must be one of: ${COPY_STATUSES.join(", ")}`,
+        }),
+        reason: z
+          .string()
+          .trim()
+          .min(1, "Please give a reason for the change")
+          .max(500),
+      }),
+      (result, c) => {
+        if (!result.success) {
+          return c.json(
+            {
+              success: false,
+              error: result.error.issues[0]?.message ?? "Invalid request body",
+            },
+            400,
+          );
+        }
+      },
+    ),
+    async (c) => {
+      const initData = c.get("initData");
+      const { qrCodeId } = c.req.param();
+      const body = c.req.valid("json");
+
+      const db = drizzle(c.env.DATABASE, { schema });
+      const result = await changeCopyStatus(
+        db,
+        qrCodeId,
+        body.status,
+        {
+          telegramUserId: initData.user!.id,
+          telegramUsername: initData.user!.username,
+        },
+        body.reason,
+      );
+
+      if (result.success) {
+        notifyInBackground(c, result.readyHolds);
+        return c.json({ success: true, status: result.status });
+      }
+
+      return c.json(
+        {
+          success: false,
+          error: await describeError(db, initData, result.error),
+        },
+        400,
+      );
+    },
+  )
+  .get(
+    "/admin/copies/:qrCodeId/status-history",
+    adminCheck,
+    requireAdmin,
+    async (c) => {
+      const { qrCodeId } = c.req.param();
+      const db = drizzle(c.env.DATABASE, { schema });
+      const history = await getCopyStatusHistory(db, qrCodeId);
+      return c.json({ history });
+    },
+  )
+  .post("/admin/loans/:loanId/return", adminCheck, requireAdmin, async (c) => {
+    const initData = c.get("initData");
+    const { loanId } = c.req.param();
+
+    const db = drizzle(c.env.DATABASE, { schema });
+    const result = await forceReturnLoan(db, parseInt(loanId), {
+      telegramUserId: initData.user!.id,
+      telegramUsername: initData.user!.username,
+    });
+
+    if (result.success) {
+      notifyInBackground(c, result.readyHolds);
+      return c.json({
+        success: true,
+        loan: { id: result.loan.id, returnedAt: result.loan.returnedAt },
+      });
+    }
+
+    return c.json({ success: false, error: result.error }, 400);
+  })
+  .post(
+    "/admin/loans/:loanId/extend",
+    adminCheck,
+    requireAdmin,
+    zValidator(
+      "json",
+      z.object({
+        dueDate: z.coerce.date({ message: "dueDate must be a valid date" }),
+      }),
+      (result, c) => {
+        if (!result.success) {
+          return c.json(
+            {
+              success: false,
+              error: result.error.issues[0]?.message ?? "Invalid request body",
+            },
+            400,
+          );
+        }
+      },
+    ),
+    async (c) => {
+      const initData = c.get("initData");
+      const { loanId } = c.req.param();
+      const body = c.req.valid("json");
+
+      const db = drizzle(c.env.DATABASE, { schema });
+      const result = await extendLoanDueDate(
+        db,
+        parseInt(loanId),
+        body.dueDate,
+        {
+          telegramUserId: initData.user!.id,
+          telegramUsername: initData.user!.username,
+        },
+      );
+
+      if (result.success && result.loan) {
+        return c.json({
+          success: true,
+          loan: { id: result.loan.id, dueDate: result.loan.dueDate },
+        });
+      }
+
+      return c.json(
+        { success: false, error: result.error || "Failed to extend loan" },
+        400,
+      );
+    },
+  )
+  .post(
+    "/admin/loans/:loanId/reassign",
+    adminCheck,
+    requireAdmin,
+    zValidator(
+      "json",
+      z.object({
+        telegramUserId: z
+          .number()
+          .int()
+          .positive("telegramUserId must be a Telegram user ID"),
+        telegramUsername: z
+          .string()
+          .trim()
+          .transform((value) => value.replace(/^@/, ""))
+          .nullable()
+          .optional(),
+      }),
+      (result, c) => {
+        if (!result.success) {
+          return c.json(
+            {
+              success: false,
+              error: result.error.issues[0]?.message ?? "Invalid request body",
+            },
+            400,
+          );
+        }
+      },
+    ),
+    async (c) => {
+      const initData = c.get("initData");
+      const { loanId } = c.req.param();
+      const body = c.req.valid("json");
+
+      const db = drizzle(c.env.DATABASE, { schema });
+      const result = await reassignLoan(
+        db,
+        parseInt(loanId),
+        body.telegramUserId,
+        body.telegramUsername || null,
+        {
+          telegramUserId: initData.user!.id,
+          telegramUsername: initData.user!.username,
+        },
+      );
+
+      if (result.success && result.loan) {
+        return c.json({
+          success: true,
+          loan: {
+            id: result.loan.id,
+            telegramUserId: result.loan.telegramUserId,
+            telegramUsername: result.loan.telegramUsername,
+          },
+        });
+      }
+
+      return c.json(
+        { success: false, error: result.error || "Failed to reassign loan" },
+        400,
+      );
+    },
+  )
+  .get("/admin/isbn/:isbn", adminCheck, requireAdmin, async (c) => {
+    const db = drizzle(c.env.DATABASE, { schema });
+    const result = await lookupBookMetadata(
+      db,
+      getBookMetadataProvider(c.env),
+      c.req.param("isbn"),
+    );
+
+    if (result.success) {
+      return c.json({ success: true, metadata: result.metadata });
+    }
+
+    // The provider being down isn't the admin's fault, unlike a bad ISBN
+    return c.json(
+      { success: false, error: result.error },
+      result.unavailable ? 503 : 400,
+    );
+  })
+  .get("/admin/books/deleted", adminCheck, requireAdmin, async (c) => {
+    const db = drizzle(c.env.DATABASE, { schema });
+    const books = await getDeletedBooks(db);
+    return c.json({ books });
+  })
+  .post(
+    "/books",
+    adminCheck,
+    requireAdmin,
+    zValidator(
+      "json",
+      z.object({
+        isbn: z.string().trim().min(1, "isbn, title and author are required"),
+        title: z.string().trim().min(1, "isbn, title and author are required"),
+        author: z.string().trim().min(1, "isbn, title and author are required"),
+        description: z.string().trim().optional(),
+        imageUrl: z.url("imageUrl must be a URL").nullable().optional(),
+      }),
+      (result, c) => {
+        if (!result.success) {
+          return c.json(
+            {
+              success: false,
+              error: result.error.issues[0]?.message ?? "Invalid request body",
+            },
+            400,
+          );
+        }
+      },
+    ),
+    async (c) => {
+      const body = c.req.valid("json");
+
+      const db = drizzle(c.env.DATABASE, { schema });
+      const result = await addBook(db, body);
+
+      if (result.success) {
+        return c.json({ success: true, book: result.book });
+      }
+
+      if (result.bookId) {
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+            bookId: result.bookId,
+            deleted: result.deleted ?? false,
+          },
+          409,
+        );
+      }
+
+      return c.json({ success: false, error: result.error }, 400);
+    },
+  )
+  .patch(
+    "/books/:bookId",
+    adminCheck,
+    requireAdmin,
+    zValidator(
+      "json",
+      z.object({
+        title: z.string().trim().min(1, "title can't be empty").optional(),
+        author: z.string().trim().min(1, "author can't be empty").optional(),
+        description: z.string().trim().optional(),
+        imageUrl: z.url("imageUrl must be a URL").nullable().optional(),
+        tags: z
+          .array(z.string().max(MAX_TAG_LENGTH, "genre names are too long"))
+          .max(MAX_TAGS_PER_BOOK, `at most ${MAX_TAGS_PER_BOOK} genres`)
+          .optional(),
+      }),
+      (result, c) => {
+        if (!result.success) {
+          return c.json(
+            {
+              success: false,
+              error: result.error.issues[0]?.message ?? "Invalid request body",
+            },
+            400,
+          );
+        }
+      },
+    ),
+    async (c) => {
+      const initData = c.get("initData");
+      const { bookId } = c.req.param();
+      const body = c.req.valid("json");
+
+      const db = drizzle(c.env.DATABASE, { schema });
+      const result = await updateBook(db, parseInt(bookId), body, {
+        telegramUserId: initData.user!.id,
+        telegramUsername: initData.user!.username,
+      });
+
+      if (result.success) {
+        return c.json({ success: true, book: result.book });
+      }
+
+      return c.json({ success: false, error: result.error }, 400);
+    },
+  )
+  .delete("/books/:bookId", adminCheck, requireAdmin, async (c) => {
+    const initData = c.get("initData");
+    const { bookId } = c.req.param();
+
+    const db = drizzle(c.env.DATABASE, { schema });
+    const result = await deleteBook(db, parseInt(bookId), {
+      telegramUserId: initData.user!.id,
+      telegramUsername: initData.user!.username,
+    });
+
+    if (result.success) {
+      return c.json({ success: true, changeId: result.change.id });
+    }
+
+    return c.json({ success: false, error: result.error }, 400);
+  })
+  .post("/books/:bookId/restore", adminCheck, requireAdmin, async (c) => {
+    const initData = c.get("initData");
+    const { bookId } = c.req.param();
+
+    const db = drizzle(c.env.DATABASE, { schema });
+    const result = await restoreBook(db, parseInt(bookId), {
+      telegramUserId: initData.user!.id,
+      telegramUsername: initData.user!.username,
+    });
+
+    if (result.success) {
+      return c.json({ success: true, book: result.book });
+    }
+
+    return c.json({ success: false, error: result.error }, 400);
+  })
+  .get("/books/:bookId/changes", adminCheck, requireAdmin, async (c) => {
+    const { bookId } = c.req.param();
+    const db = drizzle(c.env.DATABASE, { schema });
+    const changes = await getBookChanges(db, parseInt(bookId));
+    return c.json({ changes });
+  })
+  .post(
+    "/books/:bookId/changes/:changeId/revert",
+    adminCheck,
+    requireAdmin,
+    async (c) => {
+      const initData = c.get("initData");
+      const { bookId, changeId } = c.req.param();
+
+      const db = drizzle(c.env.DATABASE, { schema });
+      const result = await revertBookChange(
+        db,
+        parseInt(bookId),
+        parseInt(changeId),
+        {
+          telegramUserId: initData.user!.id,
+          telegramUsername: initData.user!.username,
+        },
+      );
+
+      if (result.success) {
+        return c.json({ success: true, book: result.book });
+      }
+
+      return c.json({ success: false, error: result.error }, 400);
+    },
+  )
   .post(
     "/books/:bookId/copies",
     adminCheck,
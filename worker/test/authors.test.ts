@@ -0,0 +1,142 @@
+import { env, SELF } from "cloudflare:test";
+import { parseContributors } from "@shared/authors";
+import { drizzle } from "drizzle-orm/d1";
+import { describe, expect, it } from "vitest";
+import * as schema from "../db/schema";
+import { searchBooks } from "../lib/book";
+import { makeAuthHeader, makeInitData } from "./helpers";
+
+const botToken = "test-bot-token";
+
+function adminFetch(path: string, init: RequestInit = {}) {
+  const initData = makeInitData(
+    { id: 999, first_name: "Jo", username: "jo" },
+    botToken,
+  );
+  return SELF.fetch(`http://example.com/api/miniapp${path}`, {
+    ...init,
+    headers: {
+      ...makeAuthHeader(initData),
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+async function addBook(isbn: string, title: string, author: string) {
+  const response = await adminFetch("/books", {
+    method: "POST",
+    body: JSON.stringify({ isbn, title, author }),
+  });
+  const data = (await response.json()) as { book: { id: number } };
+  return data.book.id;
+}
+
+async function getAuthorPage(slug: string) {
+  const response = await SELF.fetch(`http://example.com/api/authors/${slug}`);
+  return {
+    status: response.status,
+    data: (await response.json()) as {
+      author: { name: string };
+      books: { title: string; role: string }[];
+    },
+  };
+}
+
+describe("author credit parsing", () => {
+  it("splits co-authors and picks out translators, editors and illustrators", () => {
+    expect(parseContributors("Smith & Jones")).toEqual([
+      { name: "Smith", role: "author" },
+      { name: "Jones", role: "author" },
+    ]);
+    expect(
+      parseContributors("Yu Hua, translated from Chinese by Allan Barr"),
+    ).toEqual([
+      { name: "Yu Hua", role: "author" },
+      { name: "Allan Barr", role: "translator" },
+    ]);
+    expect(
+      parseContributors("Julia Donaldson; illustrated by Axel Scheffler"),
+    ).toEqual([
+      { name: "Julia Donaldson", role: "author" },
+      { name: "Axel Scheffler", role: "illustrator" },
+    ]);
+    expect(parseContributors("Edited by Ann Lee and Bob Ong")).toEqual([
+      { name: "Ann Lee", role: "editor" },
+      { name: "Bob Ong", role: "editor" },
+    ]);
+    expect(parseContributors("Jeremy Tiang (translator)")).toEqual([
+      { name: "Jeremy Tiang", role: "translator" },
+    ]);
+  });
+
+  it("keeps surname-first credits as one person", () => {
+    expect(parseContributors("Tan, Jim K C")).toEqual([
+      { name: "Tan, Jim K C", role: "author" },
+    ]);
+    expect(parseContributors("Jim Tan, Mary Lee")).toEqual([
+      { name: "Jim Tan", role: "author" },
+      { name: "Mary Lee", role: "author" },
+    ]);
+  });
+});
+
+describe("author pages", () => {
+  it("links new titles to their authors and lists them by role", async () => {
+    const bookId = await addBook(
+      "9780132350884",
+      "Norwegian Wood",
+      "Haruki Murakami; translated by Jay Rubin",
+    );
+    await addBook(
+      "9780547928227",
+      "Sanshiro",
+      "Natsume Soseki, Jay Rubin (tr.)",
+    );
+
+    const detail = await SELF.fetch(`http://example.com/api/books/${bookId}`);
+    const { book } = (await detail.json()) as {
+      book: { authors: { name: string; slug: string; role: string }[] };
+    };
+    expect(book.authors).toEqual([
+      { name: "Haruki Murakami", slug: "haruki-murakami", role: "author" },
+      { name: "Jay Rubin", slug: "jay-rubin", role: "translator" },
+    ]);
+
+    const { status, data } = await getAuthorPage("jay-rubin");
+    expect(status).toBe(200);
+    expect(data.author.name).toBe("Jay Rubin");
+    expect(data.books).toMatchObject([
+      { title: "Norwegian Wood", role: "translator" },
+      { title: "Sanshiro", role: "translator" },
+    ]);
+  });
+
+  it("relinks a book when its author is edited, and hides deleted books", async () => {
+    const bookId = await addBook("9780547928227", "The Hobbit", "Tolkein");
+
+    await adminFetch(`/books/${bookId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ author: "J.R.R. Tolkien" }),
+    });
+    expect((await getAuthorPage("tolkein")).data.books).toEqual([]);
+    expect((await getAuthorPage("j-r-r-tolkien")).data.books).toMatchObject([
+      { title: "The Hobbit", role: "author" },
+    ]);
+
+    await adminFetch(`/books/${bookId}`, { method: "DELETE" });
+    expect((await getAuthorPage("j-r-r-tolkien")).data.books).toEqual([]);
+  });
+
+  it("finds books by the people credited on them", async () => {
+    // The stray double space means only the linked author's name matches
+    await addBook("9780099448822", "Norwegian Wood", "Haruki  Murakami");
+
+    const db = drizzle(env.DATABASE, { schema });
+    const { books } = await searchBooks(db, "Haruki Murakami");
+    expect(books.map((book) => book.title)).toEqual(["Norwegian Wood"]);
+  });
+
+  it("returns 404 for an unknown author", async () => {
+    expect((await getAuthorPage("nobody")).status).toBe(404);
+  });
+});
@@ -0,0 +1,259 @@
+import { env, SELF } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  getCopyStatus,
+  makeAuthHeader,
+  makeInitData,
+  seedBook,
+  seedBookCopy,
+  seedLoan,
+} from "./helpers";
+
+const botToken = "test-bot-token";
+const adminId = 999;
+
+function adminFetch(path: string, init: RequestInit = {}) {
+  const initData = makeInitData(
+    { id: adminId, first_name: "Jo", username: "jo" },
+    botToken,
+  );
+  return SELF.fetch(`http://example.com/api/miniapp${path}`, {
+    ...init,
+    headers: {
+      ...makeAuthHeader(initData),
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+function editBook(bookId: number, body: object) {
+  return adminFetch(`/books/${bookId}`, {
+    method: "PATCH",
+    body: JSON.stringify(body),
+  });
+}
+
+async function getChanges(bookId: number) {
+  const response = await adminFetch(`/books/${bookId}/changes`);
+  const data = (await response.json()) as {
+    changes: {
+      id: number;
+      action: string;
+      previousValues: Record<string, unknown> | null;
+      newValues: Record<string, unknown> | null;
+      revertedChangeId: number | null;
+      adminTelegramUsername: string | null;
+    }[];
+  };
+  return data.changes;
+}
+
+async function getDeletedBookIds() {
+  const response = await adminFetch("/admin/books/deleted");
+  const data = (await response.json()) as { books: { id: number }[] };
+  return data.books.map((book) => book.id);
+}
+
+async function getTitle(bookId: number) {
+  const row = await env.DATABASE.prepare("SELECT title FROM books WHERE id = ?")
+    .bind(bookId)
+    .first<{ title: string }>();
+  return row?.title;
+}
+
+describe("book metadata edits", () => {
+  let bookId: number;
+
+  beforeEach(async () => {
+    const book = await seedBook({
+      isbn: "isbn-edit",
+      title: "The Hobit",
+      description: "Test",
+      author: "Tolkien",
+    });
+    bookId = book.id;
+  });
+
+  it("edits a book and logs only the fields that changed", async () => {
+    const response = await editBook(bookId, {
+      title: "The Hobbit",
+      author: "Tolkien",
+      imageUrl: "https://covers.example.com/hobbit.jpg",
+    });
+
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as {
+      book: { title: string; imageUrl: string };
+    };
+    expect(data.book.title).toBe("The Hobbit");
+    expect(data.book.imageUrl).toBe("https://covers.example.com/hobbit.jpg");
+
+    const [change] = await getChanges(bookId);
+    expect(change).toMatchObject({
+      action: "edit",
+      previousValues: { title: "The Hobit", imageUrl: null },
+      newValues: {
+        title: "The Hobbit",
+        imageUrl: "https://covers.example.com/hobbit.jpg",
+      },
+      adminTelegramUsername: "jo",
+    });
+  });
+
+  it("rejects empty titles and edits that change nothing", async () => {
+    const empty = await editBook(bookId, { title: "  " });
+    expect(empty.status).toBe(400);
+    expect(((await empty.json()) as { error: string }).error).toBe(
+      "title can't be empty",
+    );
+
+    const unchanged = await editBook(bookId, { title: "The Hobit" });
+    expect(unchanged.status).toBe(400);
+    expect(((await unchanged.json()) as { error: string }).error).toBe(
+      "Nothing to change",
+    );
+    expect(await getChanges(bookId)).toHaveLength(0);
+  });
+
+  it("reverts an edit, unless the field was edited again since", async () => {
+    await editBook(bookId, { title: "The Hobbit" });
+    await editBook(bookId, { title: "The Hobbit, or There and Back Again" });
+    const [latest, first] = await getChanges(bookId);
+
+    const blocked = await adminFetch(
+      `/books/${bookId}/changes/${first.id}/revert`,
+      { method: "POST" },
+    );
+    expect(blocked.status).toBe(400);
+    expect(((await blocked.json()) as { error: string }).error).toBe(
+      "The title changed again since this edit. Undo the later edit first.",
+    );
+
+    const reverted = await adminFetch(
+      `/books/${bookId}/changes/${latest.id}/revert`,
+      { method: "POST" },
+    );
+    expect(reverted.status).toBe(200);
+    expect(await getTitle(bookId)).toBe("The Hobbit");
+
+    const [revert] = await getChanges(bookId);
+    expect(revert).toMatchObject({
+      action: "edit",
+      newValues: { title: "The Hobbit" },
+      revertedChangeId: latest.id,
+    });
+  });
+});
+
+describe("book deletion", () => {
+  let bookId: number;
+
+  beforeEach(async () => {
+    const book = await seedBook({
+      isbn: "9780547928227",
+      title: "Delete Me",
+      description: "Test",
+      author: "Author",
+    });
+    bookId = book.id;
+    await seedBookCopy({ qrCodeId: "COPY-DELONE", bookId });
+  });
+
+  it("refuses to delete a book with a copy on loan", async () => {
+    await seedLoan({ qrCodeId: "COPY-DELONE", telegramUserId: 1234 });
+
+    const response = await adminFetch(`/books/${bookId}`, {
+      method: "DELETE",
+    });
+
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as { error: string }).error).toBe(
+      "Can't delete a book with copies on loan (1 still out)",
+    );
+    expect(
+      (await SELF.fetch(`http://example.com/api/books/${bookId}`)).status,
+    ).toBe(200);
+    expect(await getChanges(bookId)).toEqual([]);
+  });
+
+  it("cancels open holds when a book is deleted", async () => {
+    await env.DATABASE.prepare(
+      "UPDATE book_copies SET status = 'on_hold_shelf' WHERE qr_code_id = 'COPY-DELONE'",
+    ).run();
+    await env.DATABASE.prepare(
+      `INSERT INTO holds (book_id, telegram_user_id, status, reserved_qr_code_id, created_at, ready_at, expires_at)
+       VALUES (?, 301, 'ready', 'COPY-DELONE', unixepoch() - 60, unixepoch(), unixepoch() + 86400),
+              (?, 302, 'waiting', NULL, unixepoch(), NULL, NULL)`,
+    )
+      .bind(bookId, bookId)
+      .run();
+
+    const response = await adminFetch(`/books/${bookId}`, {
+      method: "DELETE",
+    });
+    expect(response.status).toBe(200);
+
+    const { results } = await env.DATABASE.prepare(
+      "SELECT status FROM holds WHERE book_id = ? ORDER BY telegram_user_id",
+    )
+      .bind(bookId)
+      .all<{ status: string }>();
+    expect(results.map((hold) => hold.status)).toEqual([
+      "cancelled",
+      "cancelled",
+    ]);
+    expect(await getCopyStatus("COPY-DELONE")).toBe("available");
+  });
+
+  it("hides a deleted book until the deletion is reverted", async () => {
+    const response = await adminFetch(`/books/${bookId}`, {
+      method: "DELETE",
+    });
+    expect(response.status).toBe(200);
+    const { changeId } = (await response.json()) as { changeId: number };
+
+    expect(
+      (await SELF.fetch(`http://example.com/api/books/${bookId}`)).status,
+    ).toBe(404);
+    expect(
+      (await SELF.fetch("http://example.com/api/copies/COPY-DELONE")).status,
+    ).toBe(404);
+    const list = (await (
+      await SELF.fetch("http://example.com/api/books")
+    ).json()) as { books: { id: number }[] };
+    expect(list.books.map((book) => book.id)).not.toContain(bookId);
+
+    // Admins can still find it to restore it
+    expect(await getDeletedBookIds()).toEqual([bookId]);
+
+    // Adding the same ISBN again points at the deleted book
+    const duplicate = await adminFetch("/books", {
+      method: "POST",
+      body: JSON.stringify({
+        isbn: "9780547928227",
+        title: "Delete Me",
+        author: "Author",
+      }),
+    });
+    expect(duplicate.status).toBe(409);
+    expect(await duplicate.json()).toMatchObject({
+      error: "A deleted book has this ISBN",
+      bookId,
+      deleted: true,
+    });
+
+    const reverted = await adminFetch(
+      `/books/${bookId}/changes/${changeId}/revert`,
+      { method: "POST" },
+    );
+    expect(reverted.status).toBe(200);
+    expect(
+      (await SELF.fetch(`http://example.com/api/books/${bookId}`)).status,
+    ).toBe(200);
+    expect((await getChanges(bookId)).map((change) => change.action)).toEqual([
+      "restore",
+      "delete",
+    ]);
+    expect(await getDeletedBookIds()).toEqual([]);
+  });
+});
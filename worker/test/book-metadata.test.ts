@@ -0,0 +1,175 @@
+import { env, fetchMock, SELF } from "cloudflare:test";
+import { drizzle } from "drizzle-orm/d1";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import * as schema from "../db/schema";
+import {
+  createOpenLibraryProvider,
+  lookupBookMetadata,
+} from "../lib/book-metadata";
+import { makeAuthHeader, makeInitData } from "./helpers";
+
+const botToken = "test-bot-token";
+const DAY = 24 * 60 * 60 * 1000;
+
+async function lookUp(isbn: string) {
+  const initData = makeInitData(
+    { id: 999, first_name: "Jo", username: "jo" },
+    botToken,
+  );
+  return SELF.fetch(`http://example.com/api/miniapp/admin/isbn/${isbn}`, {
+    headers: makeAuthHeader(initData),
+  });
+}
+
+async function getCachedIsbns() {
+  const { results } = await env.DATABASE.prepare(
+    "SELECT isbn, provider, title FROM isbn_metadata_cache ORDER BY isbn",
+  ).all<{ isbn: string; provider: string; title: string | null }>();
+  return results;
+}
+
+describe("isbn metadata lookup", () => {
+  it("prefills a known ISBN from the fixture provider and caches it", async () => {
+    const response = await lookUp("978-0-547-92822-7");
+
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as {
+      success: boolean;
+      metadata: { title: string; authors: string[]; coverUrl: string };
+    };
+    expect(data.success).toBe(true);
+    expect(data.metadata.title).toBe("The Hobbit");
+    expect(data.metadata.authors).toEqual(["J.R.R. Tolkien"]);
+    expect(await getCachedIsbns()).toEqual([
+      { isbn: "9780547928227", provider: "fixture", title: "The Hobbit" },
+    ]);
+  });
+
+  it("returns no metadata for an unknown ISBN", async () => {
+    const response = await lookUp("9780306406157");
+
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as { metadata: unknown };
+    expect(data.metadata).toBeNull();
+    expect(await getCachedIsbns()).toEqual([
+      { isbn: "9780306406157", provider: "fixture", title: null },
+    ]);
+  });
+
+  it("rejects an invalid ISBN", async () => {
+    const response = await lookUp("9780306406158");
+
+    expect(response.status).toBe(400);
+    const data = (await response.json()) as { error: string };
+    expect(data.error).toBe("Invalid ISBN");
+  });
+});
+
+describe("open library provider", () => {
+  const isbn = "9780132350884";
+  const now = new Date(Date.UTC(2025, 5, 1));
+
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+  });
+
+  afterAll(() => {
+    fetchMock.deactivate();
+  });
+
+  function mockOpenLibrary(statusCode: number, body: object) {
+    fetchMock
+      .get("https://openlibrary.org")
+      .intercept({
+        path: `/api/books?bibkeys=ISBN%3A${isbn}&format=json&jscmd=details`,
+      })
+      .reply(statusCode, body);
+  }
+
+  it("maps the Books API response and serves repeat lookups from D1", async () => {
+    mockOpenLibrary(200, {
+      [`ISBN:${isbn}`]: {
+        details: {
+          title: "Clean Code",
+          subtitle: "A Handbook of Agile Software Craftsmanship",
+          authors: [{ key: "/authors/OL216228A", name: "Robert C. Martin" }],
+          description: { type: "/type/text", value: "  How to write code. " },
+          covers: [-1, 8220478],
+        },
+      },
+    });
+    const db = drizzle(env.DATABASE, { schema });
+    const provider = createOpenLibraryProvider();
+
+    const first = await lookupBookMetadata(db, provider, isbn, now);
+    expect(first).toEqual({
+      success: true,
+      cached: false,
+      metadata: {
+        isbn,
+        title: "Clean Code: A Handbook of Agile Software Craftsmanship",
+        authors: ["Robert C. Martin"],
+        description: "How to write code.",
+        coverUrl: "https://covers.openlibrary.org/b/id/8220478-L.jpg",
+      },
+    });
+
+    // No interceptor left, so this would fail if it called Open Library
+    const second = await lookupBookMetadata(
+      db,
+      provider,
+      isbn,
+      new Date(now.getTime() + DAY),
+    );
+    expect(second.success && second.cached).toBe(true);
+    expect(second.success && second.metadata?.title).toBe(
+      "Clean Code: A Handbook of Agile Software Craftsmanship",
+    );
+  });
+
+  it("falls back to a stale cached result when Open Library is down", async () => {
+    mockOpenLibrary(200, {
+      [`ISBN:${isbn}`]: { details: { title: "Clean Code" } },
+    });
+    mockOpenLibrary(503, {});
+    const db = drizzle(env.DATABASE, { schema });
+    const provider = createOpenLibraryProvider();
+
+    await lookupBookMetadata(db, provider, isbn, now);
+    const stale = await lookupBookMetadata(
+      db,
+      provider,
+      isbn,
+      new Date(now.getTime() + 60 * DAY),
+    );
+
+    expect(stale).toMatchObject({
+      success: true,
+      cached: true,
+      metadata: { title: "Clean Code", authors: [] },
+    });
+  });
+
+  it("reports an error when Open Library is down and nothing is cached", async () => {
+    mockOpenLibrary(503, {});
+    const db = drizzle(env.DATABASE, { schema });
+
+    const result = await lookupBookMetadata(
+      db,
+      createOpenLibraryProvider(),
+      isbn,
+      now,
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: "Book lookup is unavailable right now",
+      unavailable: true,
+    });
+  });
+});
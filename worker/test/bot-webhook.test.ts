@@ -0,0 +1,99 @@
+import { env, fetchMock } from "cloudflare:test";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  type BotApiCall,
+  mockBotApi,
+  postBotUpdate,
+  seedBook,
+  seedBookCopy,
+  seedLoan,
+} from "./helpers";
+
+const victimId = 600;
+const victim = { id: victimId, is_bot: false, first_name: "Victim" };
+const chat = { id: victimId, type: "private", first_name: "Victim" };
+
+function myBooksUpdate() {
+  return {
+    message: {
+      message_id: 1,
+      date: Math.floor(Date.now() / 1000),
+      chat,
+      from: victim,
+      text: "/mybooks",
+      entities: [{ type: "bot_command", offset: 0, length: 8 }],
+    },
+  };
+}
+
+describe("bot webhook secret", () => {
+  const calls: BotApiCall[] = [];
+
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+    mockBotApi(calls);
+  });
+
+  afterAll(() => {
+    fetchMock.deactivate();
+  });
+
+  beforeEach(async () => {
+    calls.length = 0;
+
+    const book = await seedBook({
+      isbn: "isbn-webhook",
+      title: "Webhook Book",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({ qrCodeId: "copy-webhook", bookId: book.id });
+    await seedLoan({ qrCodeId: "copy-webhook", telegramUserId: victimId });
+  });
+
+  it("rejects updates without the secret header", async () => {
+    const response = await postBotUpdate(myBooksUpdate(), null);
+
+    expect(response.status).toBe(401);
+    expect(calls).toHaveLength(0);
+  });
+
+  it("rejects a forged /mybooks with the wrong secret", async () => {
+    const response = await postBotUpdate(myBooksUpdate(), "guessed-secret");
+
+    expect(response.status).toBe(401);
+    expect(calls).toHaveLength(0);
+  });
+
+  it("rejects a forged Return press on someone else's loan", async () => {
+    const response = await postBotUpdate(
+      {
+        callback_query: {
+          id: "forged",
+          from: victim,
+          chat_instance: "1",
+          data: "return_copy-webhook",
+        },
+      },
+      "test-webhook-secreT",
+    );
+
+    expect(response.status).toBe(401);
+    const loan = await env.DATABASE.prepare(
+      "SELECT returned_at FROM loans WHERE qr_code_id = ?",
+    )
+      .bind("copy-webhook")
+      .first<{ returned_at: number | null }>();
+    expect(loan?.returned_at).toBeNull();
+  });
+
+  it("handles updates that carry the secret", async () => {
+    const response = await postBotUpdate(myBooksUpdate());
+
+    expect(response.status).toBe(200);
+    const reply = calls.find((call) => call.method === "sendMessage");
+    expect(reply?.payload.chat_id).toBe(victimId);
+    expect(reply?.payload.text).toContain("Webhook Book");
+  });
+});
@@ -0,0 +1,650 @@
+import { env, fetchMock } from "cloudflare:test";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { isGroupAdmin, isUserAdmin } from "../lib/admin";
+import {
+  type BotApiCall,
+  mockBotApi,
+  postBotUpdate,
+  seedBook,
+  seedBookCopy,
+  seedLoan,
+} from "./helpers";
+
+const readerId = 700;
+const reader = { id: readerId, is_bot: false, first_name: "Reader" };
+const chat = { id: readerId, type: "private", first_name: "Reader" };
+
+type Keyboard = {
+  inline_keyboard: { text: string; callback_data?: string }[][];
+};
+
+function sendCommand(
+  text: string,
+  from: object = reader,
+  inChat: object = chat,
+) {
+  return postBotUpdate({
+    message: {
+      message_id: 1,
+      date: Math.floor(Date.now() / 1000),
+      chat: inChat,
+      from,
+      text,
+      entities: [
+        { type: "bot_command", offset: 0, length: text.split(" ")[0].length },
+      ],
+    },
+  });
+}
+
+function pressButton(data: string) {
+  return postBotUpdate({
+    callback_query: {
+      id: "callback-1",
+      from: reader,
+      chat_instance: "1",
+      data,
+      message: {
+        message_id: 2,
+        date: Math.floor(Date.now() / 1000),
+        chat,
+        text: "Book copy",
+      },
+    },
+  });
+}
+
+function buttonData(call: BotApiCall | undefined) {
+  const keyboard = call?.payload.reply_markup as Keyboard | undefined;
+  return keyboard?.inline_keyboard.flat().map((button) => button.callback_data);
+}
+
+async function getActiveLoanCount(qrCodeId: string) {
+  const row = await env.DATABASE.prepare(
+    "SELECT COUNT(*) AS count FROM loans WHERE qr_code_id = ? AND returned_at IS NULL",
+  )
+    .bind(qrCodeId)
+    .first<{ count: number }>();
+  return row?.count ?? 0;
+}
+
+// Every Bot API call made while handling the last update
+const calls: BotApiCall[] = [];
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+  mockBotApi(calls);
+});
+
+afterAll(() => {
+  fetchMock.deactivate();
+});
+
+beforeEach(() => {
+  calls.length = 0;
+});
+
+describe("bot borrow and return buttons", () => {
+  let bookId: number;
+
+  beforeEach(async () => {
+    const book = await seedBook({
+      isbn: "isbn-buttons",
+      title: "Button Book",
+      description: "Test",
+      author: "Author",
+    });
+    bookId = book.id;
+    await seedBookCopy({ qrCodeId: "copy-button", bookId });
+  });
+
+  function findCall(method: string) {
+    return calls.find((call) => call.method === method);
+  }
+
+  it("shows a Borrow button for an available copy", async () => {
+    const response = await sendCommand("/borrow copy-button");
+
+    expect(response.status).toBe(200);
+    expect(buttonData(findCall("sendMessage"))).toEqual(["borrow_copy-button"]);
+  });
+
+  it("doesn't reconfigure the bot while handling updates", async () => {
+    await sendCommand("/borrow copy-button");
+
+    expect(calls.map((call) => call.method)).toEqual(["sendMessage"]);
+  });
+
+  it("opens the copy from a QR code deep link", async () => {
+    await seedLoan({ qrCodeId: "copy-button", telegramUserId: readerId });
+
+    await sendCommand("/start borrow_copy-button");
+
+    expect(buttonData(findCall("sendMessage"))).toEqual(["return_copy-button"]);
+  });
+
+  it("borrows the copy and swaps in a Return button", async () => {
+    await pressButton("borrow_copy-button");
+
+    expect(await getActiveLoanCount("copy-button")).toBe(1);
+    expect(findCall("answerCallbackQuery")?.payload.text).toContain("borrowed");
+    const edit = findCall("editMessageText");
+    expect(edit?.payload.text).toContain("Button Book");
+    expect(buttonData(edit)).toEqual(["return_copy-button"]);
+  });
+
+  it("returns the copy and removes the buttons", async () => {
+    await seedLoan({ qrCodeId: "copy-button", telegramUserId: readerId });
+
+    await pressButton("return_copy-button");
+
+    expect(await getActiveLoanCount("copy-button")).toBe(0);
+    const edit = findCall("editMessageText");
+    expect(edit?.payload.text).toContain("Returned");
+    expect(buttonData(edit)).toEqual([]);
+  });
+
+  it("offers Notify me for a copy someone else has and places a hold", async () => {
+    await seedLoan({ qrCodeId: "copy-button", telegramUserId: 701 });
+
+    await sendCommand("/borrow copy-button");
+    expect(buttonData(findCall("sendMessage"))).toEqual([`hold_${bookId}`]);
+
+    await pressButton(`hold_${bookId}`);
+
+    expect(findCall("answerCallbackQuery")?.payload.text).toContain(
+      "#1 in the queue",
+    );
+    // The message keeps its buttons for anyone else who wants the book
+    expect(findCall("editMessageReplyMarkup")).toBeUndefined();
+    const hold = await env.DATABASE.prepare(
+      "SELECT status FROM holds WHERE book_id = ? AND telegram_user_id = ?",
+    )
+      .bind(bookId, readerId)
+      .first<{ status: string }>();
+    expect(hold?.status).toBe("waiting");
+  });
+
+  it("shows an alert when the copy can't be borrowed", async () => {
+    await seedLoan({ qrCodeId: "copy-button", telegramUserId: 701 });
+
+    await pressButton("borrow_copy-button");
+
+    const answer = findCall("answerCallbackQuery");
+    expect(answer?.payload.show_alert).toBe(true);
+    expect(answer?.payload.text).toContain("currently borrowed");
+    expect(findCall("editMessageText")).toBeUndefined();
+  });
+});
+
+describe("bot inline mode", () => {
+  function sendInlineQuery(query: string, offset = "") {
+    return postBotUpdate({
+      inline_query: { id: "inline-1", from: reader, query, offset },
+    });
+  }
+
+  type InlineAnswer = {
+    results: {
+      type: string;
+      id: string;
+      title?: string;
+      description?: string;
+      reply_markup?: { inline_keyboard: { url?: string }[][] };
+    }[];
+    next_offset: string;
+    cache_time: number;
+  };
+
+  function lastAnswer() {
+    const call = calls.findLast((call) => call.method === "answerInlineQuery");
+    return call?.payload as InlineAnswer | undefined;
+  }
+
+  it("answers with covers as photos and the rest as articles", async () => {
+    const withCover = await seedBook({
+      isbn: "isbn-cover",
+      title: "Inline Cover",
+      description: "Test",
+      author: "Painter",
+      imageUrl: "https://example.com/cover.jpg",
+    });
+    await seedBookCopy({ qrCodeId: "inline-cover-1", bookId: withCover.id });
+    await seedBook({
+      isbn: "isbn-plain",
+      title: "Inline Plain",
+      description: "Test",
+      author: "Writer",
+    });
+
+    await sendInlineQuery("inline");
+
+    const answer = lastAnswer();
+    expect(answer?.results.map((result) => result.type)).toEqual([
+      "photo",
+      "article",
+    ]);
+    expect(answer?.results[0].description).toBe(
+      "by Painter · 1 of 1 available",
+    );
+    expect(answer?.next_offset).toBe("");
+    expect(answer?.cache_time).toBeGreaterThan(0);
+  });
+
+  it("pages through results with next_offset", async () => {
+    for (let i = 10; i < 32; i++) {
+      await seedBook({
+        isbn: `isbn-page-${i}`,
+        title: `Paged Book ${i}`,
+        description: "Test",
+        author: "Author",
+      });
+    }
+
+    await sendInlineQuery("paged");
+    const first = lastAnswer();
+    expect(first?.results).toHaveLength(20);
+    expect(first?.next_offset).toBe("20");
+
+    await sendInlineQuery("paged", "20");
+    const second = lastAnswer();
+    expect(second?.results.map((result) => result.title)).toEqual([
+      "Paged Book 30",
+      "Paged Book 31",
+    ]);
+    expect(second?.next_offset).toBe("");
+  });
+});
+
+describe("bot search pagination", () => {
+  beforeEach(async () => {
+    for (let n = 1; n <= 12; n++) {
+      await seedBook({
+        isbn: `isbn-paged-${n}`,
+        title: `Paged Book ${String(n).padStart(2, "0")}`,
+        description: "Test",
+        author: "Pager",
+      });
+    }
+  });
+
+  function sendText(text: string) {
+    return postBotUpdate({
+      message: {
+        message_id: 1,
+        date: Math.floor(Date.now() / 1000),
+        chat,
+        from: reader,
+        text,
+      },
+    });
+  }
+
+  it("sends the first page with a Next button", async () => {
+    await sendText("paged book");
+
+    const reply = calls.find((call) => call.method === "sendMessage");
+    expect(reply?.payload.text).toContain("Found 12 results");
+    expect(reply?.payload.text).toContain("Showing 1–10 of 12");
+    expect(reply?.payload.text).not.toContain("Paged Book 11");
+    expect(buttonData(reply)).toHaveLength(11);
+    expect(buttonData(reply)?.at(-1)).toBe("search_10_paged book");
+  });
+
+  it("edits the message to show the next page", async () => {
+    await pressButton("search_10_paged book");
+
+    const edit = calls.find((call) => call.method === "editMessageText");
+    expect(edit?.payload.text).toContain("11\\. 📚 *Paged Book 11*");
+    expect(edit?.payload.text).toContain("Showing 11–12 of 12");
+    expect(buttonData(edit)?.at(-1)).toBe("search_0_paged book");
+  });
+
+  it("leaves out the buttons when everything fits on one page", async () => {
+    await sendText("Paged Book 1");
+
+    const reply = calls.find((call) => call.method === "sendMessage");
+    expect(reply?.payload.text).toContain("Found 3 results");
+    expect(buttonData(reply)?.every((data) => data?.startsWith("book_"))).toBe(
+      true,
+    );
+  });
+
+  it("opens a result's details from its numbered button", async () => {
+    await sendText("Paged Book 12");
+
+    const reply = calls.find((call) => call.method === "sendMessage");
+    const keyboard = reply?.payload.reply_markup as Keyboard;
+    expect(keyboard.inline_keyboard[0][0].text).toBe("1");
+    const openBook = keyboard.inline_keyboard[0][0].callback_data!;
+
+    calls.length = 0;
+    await pressButton(openBook);
+
+    expect(calls.map((call) => call.method)).toContain("answerCallbackQuery");
+    const details = calls.find((call) => call.method === "sendMessage");
+    expect(details?.payload.text).toContain("Paged Book 12");
+    expect(details?.payload.text).toContain("by Pager");
+  });
+});
+
+describe("bot admin commands", () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  beforeEach(async () => {
+    const book = await seedBook({
+      isbn: "isbn-admin",
+      title: "Shelf Book",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({
+      qrCodeId: "COPY-ABCDEF",
+      bookId: book.id,
+      locationId: 1,
+    });
+    await seedBookCopy({
+      qrCodeId: "COPY-BCDEFG",
+      bookId: book.id,
+      locationId: 2,
+      copyNumber: 2,
+    });
+    await seedLoan({
+      qrCodeId: "COPY-ABCDEF",
+      telegramUserId: 701,
+      telegramUsername: "late_reader",
+      borrowedAt: Date.now() - 20 * DAY,
+      dueDate: Date.now() - 6 * DAY,
+    });
+  });
+
+  function replyText() {
+    return calls.find((call) => call.method === "sendMessage")?.payload
+      .text as string;
+  }
+
+  it("lists overdue loans with the borrower's username", async () => {
+    await sendCommand("/overdue");
+
+    expect(replyText()).toContain("Saga");
+    expect(replyText()).toContain("@late\\_reader");
+    expect(replyText()).toContain("6d overdue");
+  });
+
+  it("shows who has each copy by ISBN or QR code", async () => {
+    await sendCommand("/whohas isbn-admin");
+    expect(replyText()).toContain("Copy \\#1");
+    expect(replyText()).toContain("@late\\_reader");
+    expect(replyText()).toContain("Copy \\#2");
+
+    calls.length = 0;
+    await sendCommand("/whohas copy-bcdefg");
+    expect(replyText()).toContain("Copy \\#2");
+    expect(replyText()).not.toContain("Copy \\#1");
+  });
+
+  it("counts copies and loans by location", async () => {
+    await sendCommand("/stats");
+
+    expect(replyText()).toContain(
+      "Saga\n   1 copy · 1 on loan · 1 overdue · 0 out of circulation",
+    );
+    expect(replyText()).toContain("Total: 2 copies · 1 on loan · 1 overdue");
+  });
+
+  it("shows which shelf each copy is on", async () => {
+    await sendCommand("/locate shelf");
+
+    expect(replyText()).toContain("Copy \\#1 · Saga · @late\\_reader");
+    expect(replyText()).toContain("Copy \\#2 · Elm · Available");
+  });
+
+  it("only names borrowers in the admin group or a private chat", async () => {
+    const dorm = { id: -100555, type: "supergroup", title: "Dorm" };
+    await sendCommand("/whohas isbn-admin", reader, dorm);
+    expect(replyText()).not.toContain("late\\_reader");
+    expect(replyText()).toContain("only sent in the admin group");
+
+    calls.length = 0;
+    const adminGroup = {
+      id: Number(env.ADMIN_GROUP_ID),
+      type: "supergroup",
+      title: "Admins",
+    };
+    await sendCommand("/overdue", reader, adminGroup);
+    expect(replyText()).toContain("@late\\_reader");
+  });
+
+  it("turns away users who aren't admins", async () => {
+    vi.mocked(isUserAdmin).mockResolvedValueOnce(false);
+
+    await sendCommand("/stats");
+
+    expect(replyText()).toContain("only available to library admins");
+  });
+});
+
+describe("bot language", () => {
+  function replyText() {
+    return calls.find((call) => call.method === "sendMessage")?.payload
+      .text as string;
+  }
+
+  it("replies in the language of the user's Telegram client", async () => {
+    await sendCommand("/mybooks", { ...reader, language_code: "zh-hans" });
+
+    expect(replyText()).toBe("📚 您目前没有借阅任何图书。");
+  });
+
+  it("offers a button for each language", async () => {
+    await sendCommand("/language");
+
+    expect(
+      buttonData(calls.find((call) => call.method === "sendMessage")),
+    ).toEqual(["lang_en", "lang_zh", "lang_ms", "lang_auto"]);
+  });
+
+  it("keeps talking in the language picked with /language", async () => {
+    await sendCommand("/language ms");
+    expect(replyText()).toContain("Bahasa Melayu");
+
+    calls.length = 0;
+    await sendCommand("/mybooks", { ...reader, language_code: "zh-hans" });
+    expect(replyText()).toBe(
+      "📚 Anda tidak meminjam sebarang buku pada masa ini.",
+    );
+  });
+
+  it("follows the Telegram client again after choosing auto", async () => {
+    await sendCommand("/language zh");
+
+    calls.length = 0;
+    await pressButton("lang_auto");
+    const edit = calls.find((call) => call.method === "editMessageText");
+    expect(edit?.payload.text).toBe(
+      "✅ I'll follow your Telegram language again.",
+    );
+
+    calls.length = 0;
+    await sendCommand("/mybooks");
+    expect(replyText()).toBe("📚 You don't have any borrowed books currently.");
+  });
+});
+
+describe("bot due dates", () => {
+  it("lists due dates with a link to the calendar feed", async () => {
+    const book = await seedBook({
+      isbn: "isbn-due",
+      title: "Due Book",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({ qrCodeId: "COPY-DUEONE", bookId: book.id });
+    await seedLoan({
+      qrCodeId: "COPY-DUEONE",
+      telegramUserId: readerId,
+      dueDate: Date.UTC(2099, 0, 31),
+    });
+
+    await sendCommand("/due");
+
+    const reply = calls.find((call) => call.method === "sendMessage");
+    const keyboard = reply?.payload.reply_markup as {
+      inline_keyboard: { url?: string }[][];
+    };
+    expect(reply?.payload.text).toContain("Due Book");
+    expect(reply?.payload.text).toContain("31/01/2099");
+    expect(keyboard.inline_keyboard[0][0].url).toMatch(
+      /^http:\/\/example\.com\/api\/calendar\/700\/[\w-]+\/due-dates\.ics$/,
+    );
+  });
+});
+
+describe("bot new arrivals subscription", () => {
+  function replyText() {
+    return calls.find((call) => call.method === "sendMessage")?.payload
+      .text as string;
+  }
+
+  it("subscribes and unsubscribes the user", async () => {
+    await sendCommand("/subscribe");
+    expect(replyText()).toContain("You're subscribed to new arrivals");
+
+    calls.length = 0;
+    await sendCommand("/subscribe");
+    expect(replyText()).toContain("already subscribed");
+
+    calls.length = 0;
+    await sendCommand("/unsubscribe");
+    expect(replyText()).toContain("You won't get new arrivals any more");
+
+    calls.length = 0;
+    await sendCommand("/unsubscribe");
+    expect(replyText()).toContain("You aren't subscribed");
+  });
+});
+
+describe("bot group chats", () => {
+  const group = { id: -100555, type: "supergroup", title: "Dorm" };
+
+  beforeEach(async () => {
+    const sagaBook = await seedBook({
+      isbn: "isbn-group-saga",
+      title: "Group Book Saga",
+      description: "Test",
+      author: "Grouper",
+    });
+    await seedBookCopy({
+      qrCodeId: "COPY-GRPSAG",
+      bookId: sagaBook.id,
+      locationId: 1,
+    });
+    const elmBook = await seedBook({
+      isbn: "isbn-group-elm",
+      title: "Group Book Elm",
+      description: "Test",
+      author: "Grouper",
+    });
+    await seedBookCopy({
+      qrCodeId: "COPY-GRPELM",
+      bookId: elmBook.id,
+      locationId: 2,
+    });
+    await seedLoan({ qrCodeId: "COPY-GRPSAG", telegramUserId: readerId });
+  });
+
+  function sendToGroup(text: string, extra: object = {}) {
+    const command = text.startsWith("/")
+      ? [{ type: "bot_command", offset: 0, length: text.split(" ")[0].length }]
+      : undefined;
+    return postBotUpdate({
+      message: {
+        message_id: 1,
+        date: Math.floor(Date.now() / 1000),
+        chat: group,
+        from: reader,
+        text,
+        entities: command,
+        ...extra,
+      },
+    });
+  }
+
+  function reply() {
+    return calls.find((call) => call.method === "sendMessage");
+  }
+
+  it("ignores messages that aren't addressed to the bot", async () => {
+    await sendToGroup("group book");
+
+    expect(reply()).toBeUndefined();
+  });
+
+  it("searches messages that mention or reply to the bot", async () => {
+    await sendToGroup("@library_test_bot group book");
+    expect(reply()?.payload.text).toContain('Found 2 results for "group book"');
+
+    calls.length = 0;
+    await sendToGroup("group book elm", {
+      reply_to_message: {
+        message_id: 3,
+        date: Math.floor(Date.now() / 1000),
+        chat: group,
+        from: { id: 9000, is_bot: true, first_name: "Library" },
+        text: "🔍 No results",
+      },
+    });
+    expect(reply()?.payload.text).toContain("Found 1 result");
+  });
+
+  it("sends personal commands to a private chat", async () => {
+    await sendToGroup("/mybooks");
+
+    const keyboard = reply()?.payload.reply_markup as {
+      inline_keyboard: { url?: string }[][];
+    };
+    expect(reply()?.payload.text).not.toContain("Group Book Saga");
+    expect(keyboard.inline_keyboard[0][0].url).toBe(
+      "https://t.me/library_test_bot?start=mybooks",
+    );
+
+    calls.length = 0;
+    await sendCommand("/start mybooks");
+    expect(reply()?.payload.text).toContain("Group Book Saga");
+  });
+
+  it("scopes searches to the location picked with /setlocation", async () => {
+    await sendToGroup("/setlocation elm");
+    expect(reply()?.payload.text).toBe(
+      "📍 Searches in this group only cover Elm.",
+    );
+
+    calls.length = 0;
+    await sendToGroup("@library_test_bot group book");
+    expect(reply()?.payload.text).toContain("Found 1 result");
+    expect(reply()?.payload.text).toContain("Group Book Elm");
+
+    calls.length = 0;
+    await sendToGroup("/setlocation all");
+    calls.length = 0;
+    await sendToGroup("@library_test_bot group book");
+    expect(reply()?.payload.text).toContain("Found 2 results");
+  });
+
+  it("only lets group admins change the location", async () => {
+    vi.mocked(isGroupAdmin).mockResolvedValueOnce(false);
+
+    await sendToGroup("/setlocation elm");
+
+    expect(reply()?.payload.text).toBe("❌ Only group admins can change this.");
+  });
+});
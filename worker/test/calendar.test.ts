@@ -0,0 +1,126 @@
+import { env, SELF } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  makeAuthHeader,
+  makeInitData,
+  seedBook,
+  seedBookCopy,
+  seedLoan,
+} from "./helpers";
+
+const botToken = "test-bot-token";
+const DAY = 24 * 60 * 60 * 1000;
+const userId = 4001;
+
+async function getFeedUrl(telegramUserId: number) {
+  const initData = makeInitData(
+    { id: telegramUserId, first_name: "Ada" },
+    botToken,
+  );
+  const response = await SELF.fetch("http://example.com/api/miniapp/calendar", {
+    headers: makeAuthHeader(initData),
+  });
+  const data = (await response.json()) as { url: string };
+  return data.url;
+}
+
+describe("due date calendar", () => {
+  const dueDate = Date.UTC(2025, 2, 5, 10);
+
+  beforeEach(async () => {
+    const book = await seedBook({
+      isbn: "isbn-calendar",
+      title: "Calendar Book, Vol. 1",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({ qrCodeId: "COPY-CALONE", bookId: book.id });
+    await seedBookCopy({
+      qrCodeId: "COPY-CALTWO",
+      bookId: book.id,
+      copyNumber: 2,
+    });
+    await seedLoan({
+      qrCodeId: "COPY-CALONE",
+      telegramUserId: userId,
+      dueDate,
+      renewalCount: 1,
+    });
+    await seedLoan({
+      qrCodeId: "COPY-CALTWO",
+      telegramUserId: userId,
+      dueDate,
+      returnedAt: dueDate - DAY,
+    });
+  });
+
+  it("serves an event with an alarm for each active loan", async () => {
+    const url = await getFeedUrl(userId);
+    expect(url).toMatch(
+      new RegExp(
+        `^http://example.com/api/calendar/${userId}/[\\w-]+/due-dates.ics$`,
+      ),
+    );
+
+    const response = await SELF.fetch(url);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/calendar");
+
+    const ics = await response.text();
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(ics).toContain("DTSTART;VALUE=DATE:20250305\r\n");
+    expect(ics).toContain("SUMMARY:📚 Return Calendar Book\\, Vol. 1\r\n");
+    expect(ics).toContain("SEQUENCE:1\r\n");
+    expect(ics).toContain("BEGIN:VALARM\r\nACTION:DISPLAY\r\nTRIGGER:-PT15H");
+  });
+
+  it("bumps SEQUENCE when an admin extends the due date", async () => {
+    const loan = await env.DATABASE.prepare(
+      "SELECT id FROM loans WHERE qr_code_id = 'COPY-CALONE'",
+    ).first<{ id: number }>();
+    await env.DATABASE.prepare(
+      `INSERT INTO loan_overrides (loan_id, action, admin_telegram_user_id, created_at)
+       VALUES (?, 'extend', 999, unixepoch())`,
+    )
+      .bind(loan!.id)
+      .run();
+
+    const ics = await (await SELF.fetch(await getFeedUrl(userId))).text();
+    // One renewal and one extension
+    expect(ics).toContain("SEQUENCE:2\r\n");
+  });
+
+  it("uses the library's local date for loans due early in the morning", async () => {
+    const book = await seedBook({
+      isbn: "isbn-calendar-early",
+      title: "Early Book",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({ qrCodeId: "COPY-CALEARLY", bookId: book.id });
+    // 1am on 5 March in Singapore, still 4 March in UTC
+    await seedLoan({
+      qrCodeId: "COPY-CALEARLY",
+      telegramUserId: 4002,
+      dueDate: Date.UTC(2025, 2, 4, 17),
+    });
+
+    const ics = await (await SELF.fetch(await getFeedUrl(4002))).text();
+    expect(ics).toContain("DTSTART;VALUE=DATE:20250305\r\n");
+    expect(ics).toContain("DTEND;VALUE=DATE:20250306\r\n");
+  });
+
+  it("rejects feed URLs with the wrong signature", async () => {
+    const url = await getFeedUrl(userId);
+    const otherUserUrl = url.replace(`/${userId}/`, "/4002/");
+
+    expect((await SELF.fetch(otherUserUrl)).status).toBe(404);
+    expect(
+      (
+        await SELF.fetch(
+          `http://example.com/api/calendar/${userId}/not-a-signature/due-dates.ics`,
+        )
+      ).status,
+    ).toBe(404);
+  });
+});
@@ -0,0 +1,166 @@
+import { env, SELF } from "cloudflare:test";
+import { drizzle } from "drizzle-orm/d1";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as schema from "../db/schema";
+import { isUserAdmin } from "../lib/admin";
+import { getBookDetails, searchBooks } from "../lib/book";
+import {
+  getCopyStatus,
+  makeAuthHeader,
+  makeInitData,
+  mockAdminUser,
+  seedBook,
+  seedBookCopy,
+} from "./helpers";
+
+const botToken = "test-bot-token";
+
+type HistoryResponse = {
+  history: {
+    fromStatus: string;
+    toStatus: string;
+    changedBy: number | null;
+    changedByUsername: string | null;
+    reason: string | null;
+  }[];
+};
+
+function changeStatus(qrCodeId: string, body: object) {
+  const initData = makeInitData(
+    { id: 42, first_name: "Admin", username: "librarian" },
+    botToken,
+  );
+  return SELF.fetch(
+    `http://example.com/api/miniapp/admin/copies/${qrCodeId}/status`,
+    {
+      method: "POST",
+      headers: {
+        ...makeAuthHeader(initData),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    },
+  );
+}
+
+describe("copy lifecycle states", () => {
+  let bookId: number;
+
+  beforeEach(async () => {
+    mockAdminUser(true);
+
+    const book = await seedBook({
+      isbn: "isbn-lifecycle",
+      title: "Lifecycle Book",
+      description: "Test",
+      author: "Author",
+    });
+    bookId = book.id;
+    await seedBookCopy({ qrCodeId: "copy-life-1", bookId });
+  });
+
+  it("records who changed a copy's status and why", async () => {
+    const response = await changeStatus("copy-life-1", {
+      status: "damaged",
+      reason: "Coffee spilled on cover",
+    });
+
+    expect(response.status).toBe(200);
+    expect(await getCopyStatus("copy-life-1")).toBe("damaged");
+
+    const initData = makeInitData({ id: 42, first_name: "Admin" }, botToken);
+    const historyResponse = await SELF.fetch(
+      "http://example.com/api/miniapp/admin/copies/copy-life-1/status-history",
+      { headers: makeAuthHeader(initData) },
+    );
+    const { history } = (await historyResponse.json()) as HistoryResponse;
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({
+      fromStatus: "available",
+      toStatus: "damaged",
+      changedBy: 42,
+      changedByUsername: "librarian",
+      reason: "Coffee spilled on cover",
+    });
+  });
+
+  it("rejects transitions the state machine doesn't allow", async () => {
+    // Only the hold queue reserves copies
+    const shelved = await changeStatus("copy-life-1", {
+      status: "on_hold_shelf",
+      reason: "Keeping it for a friend",
+    });
+    expect(shelved.status).toBe(400);
+
+    await changeStatus("copy-life-1", {
+      status: "withdrawn",
+      reason: "Duplicate copy",
+    });
+
+    const response = await changeStatus("copy-life-1", {
+      status: "in_repair",
+      reason: "Sending for rebinding",
+    });
+
+    expect(response.status).toBe(400);
+    const data = (await response.json()) as { error: string };
+    expect(data.error).toContain("can't go from Withdrawn to In Repair");
+  });
+
+  it("requires a reason", async () => {
+    const response = await changeStatus("copy-life-1", {
+      status: "lost",
+      reason: "  ",
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("only lets admins change a copy's status", async () => {
+    vi.mocked(isUserAdmin).mockResolvedValueOnce(false);
+
+    const response = await changeStatus("copy-life-1", {
+      status: "lost",
+      reason: "Missing from shelf",
+    });
+
+    expect(response.status).toBe(403);
+  });
+
+  it("refuses to lend copies that are out of circulation", async () => {
+    await changeStatus("copy-life-1", {
+      status: "in_repair",
+      reason: "Loose pages",
+    });
+
+    const initData = makeInitData({ id: 900, first_name: "Reader" }, botToken);
+    const response = await SELF.fetch(
+      "http://example.com/api/miniapp/books/copy-life-1/borrow",
+      { method: "POST", headers: makeAuthHeader(initData) },
+    );
+
+    expect(response.status).toBe(400);
+    const data = (await response.json()) as { error: string };
+    expect(data.error).toContain("marked as In Repair");
+  });
+
+  it("keeps withdrawn copies out of availability counts", async () => {
+    await seedBookCopy({
+      qrCodeId: "copy-life-2",
+      bookId,
+      copyNumber: 2,
+      status: "withdrawn",
+    });
+
+    const db = drizzle(env.DATABASE, { schema });
+    const details = await getBookDetails(db, "isbn-lifecycle");
+    expect(details?.totalCopies).toBe(1);
+    expect(details?.availableCopies).toBe(1);
+    expect(details?.copies).toHaveLength(1);
+
+    const {
+      books: [result],
+    } = await searchBooks(db, "Lifecycle");
+    expect(result.totalCopies).toBe(1);
+  });
+});
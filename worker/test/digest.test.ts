@@ -0,0 +1,149 @@
+import { createScheduledController, env, fetchMock } from "cloudflare:test";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  mockSendMessage,
+  seedBook,
+  seedBookCopy,
+  seedLoan,
+  type SentTelegramMessage,
+} from "./helpers";
+import worker from "../index";
+
+const DAY = 24 * 60 * 60 * 1000;
+const ADMIN_GROUP_ID = "-1001234567890";
+// Just after midnight UTC, when the digest runs
+const NOW = Date.UTC(2025, 5, 10, 0, 0, 5);
+
+async function runDigest() {
+  const controller = createScheduledController({
+    scheduledTime: new Date(NOW),
+    cron: "0 0 * * *",
+  });
+  await worker.scheduled(controller, env);
+}
+
+describe("admin digest", () => {
+  const sentMessages: SentTelegramMessage[] = [];
+  let bookId: number;
+
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+    mockSendMessage(sentMessages);
+  });
+
+  afterAll(() => {
+    fetchMock.deactivate();
+  });
+
+  beforeEach(async () => {
+    sentMessages.length = 0;
+
+    const book = await seedBook({
+      isbn: "isbn-digest",
+      title: "Digest Book",
+      description: "Test",
+      author: "Author",
+    });
+    bookId = book.id;
+  });
+
+  it("posts overdue loans grouped by location to the admin group", async () => {
+    await seedBookCopy({ qrCodeId: "saga-1", bookId, locationId: 1 });
+    await seedBookCopy({
+      qrCodeId: "elm-1",
+      bookId,
+      locationId: 2,
+      copyNumber: 2,
+    });
+    await seedLoan({
+      qrCodeId: "saga-1",
+      telegramUserId: 1001,
+      telegramUsername: "late_reader",
+      borrowedAt: NOW - 20 * DAY,
+      dueDate: NOW - 6 * DAY,
+    });
+    await seedLoan({
+      qrCodeId: "elm-1",
+      telegramUserId: 1002,
+      borrowedAt: NOW - 16 * DAY,
+      dueDate: NOW - 2 * DAY,
+    });
+
+    await runDigest();
+
+    expect(sentMessages).toHaveLength(1);
+    const [message] = sentMessages;
+    expect(message.chat_id).toBe(ADMIN_GROUP_ID);
+    expect(message.parse_mode).toBe("MarkdownV2");
+    expect(message.text).toContain("Overdue loans \\(2\\)");
+    expect(message.text).toMatch(/Elm.*\n.*user 1002/);
+    expect(message.text).toMatch(/Saga.*\n.*@late\\_reader · 6d overdue/);
+  });
+
+  it("lists lost and damaged copies", async () => {
+    await seedBookCopy({ qrCodeId: "lost-1", bookId, status: "lost" });
+    await seedBookCopy({
+      qrCodeId: "damaged-1",
+      bookId,
+      copyNumber: 2,
+      status: "damaged",
+    });
+    await seedBookCopy({
+      qrCodeId: "repair-1",
+      bookId,
+      copyNumber: 3,
+      status: "in_repair",
+    });
+
+    await runDigest();
+
+    const { text } = sentMessages[0];
+    expect(text).toContain("Lost or damaged copies \\(2\\)");
+    expect(text).toContain("Copy \\#1");
+    expect(text).toContain("Lost");
+    expect(text).toContain("Damaged");
+    expect(text).not.toContain("In Repair");
+  });
+
+  it("counts yesterday's borrows and returns", async () => {
+    await seedBookCopy({ qrCodeId: "copy-1", bookId });
+    await seedBookCopy({ qrCodeId: "copy-2", bookId, copyNumber: 2 });
+    await seedBookCopy({ qrCodeId: "copy-3", bookId, copyNumber: 3 });
+    await seedBookCopy({ qrCodeId: "copy-4", bookId, copyNumber: 4 });
+    // The digest runs at 8am SGT, so yesterday in Singapore is 8 to 32 hours ago
+    // Borrowed and returned yesterday
+    await seedLoan({
+      qrCodeId: "copy-1",
+      telegramUserId: 1001,
+      borrowedAt: NOW - 20 * 60 * 60 * 1000,
+      returnedAt: NOW - 10 * 60 * 60 * 1000,
+    });
+    // Borrowed at 2am yesterday (the day before in UTC), still out
+    await seedLoan({
+      qrCodeId: "copy-2",
+      telegramUserId: 1002,
+      borrowedAt: NOW - 30 * 60 * 60 * 1000,
+    });
+    // Borrowed the day before yesterday, returned at 1am yesterday
+    await seedLoan({
+      qrCodeId: "copy-3",
+      telegramUserId: 1003,
+      borrowedAt: NOW - 34 * 60 * 60 * 1000,
+      returnedAt: NOW - 31 * 60 * 60 * 1000,
+    });
+    // Borrowed at 3am today (yesterday in UTC)
+    await seedLoan({
+      qrCodeId: "copy-4",
+      telegramUserId: 1004,
+      borrowedAt: NOW - 5 * 60 * 60 * 1000,
+    });
+
+    await runDigest();
+
+    const { text } = sentMessages[0];
+    expect(text).toContain("09/06/2025");
+    expect(text).toContain("Borrowed: 2 · Returned: 2");
+    expect(text).toContain("Overdue loans: none");
+  });
+});
@@ -1,6 +1,6 @@
 import type { InitData } from "@tma.js/init-data-node";
 import { sign } from "@tma.js/init-data-node";
-import { env, fetchMock } from "cloudflare:test";
+import { env, fetchMock, SELF } from "cloudflare:test";
 
 export function mockAdminUser(isAdmin: boolean) {
   const status = isAdmin ? "administrator" : "left";
@@ -19,6 +19,86 @@ export function mockAdminUser(isAdmin: boolean) {
     });
 }
 
+export type SentTelegramMessage = {
+  chat_id: number;
+  text: string;
+  parse_mode?: string;
+};
+
+/**
+ * Intercept Bot API sendMessage calls and collect their payloads.
+ * Requires fetchMock to be activated by the test file.
+ */
+export function mockSendMessage(sentMessages: SentTelegramMessage[]) {
+  fetchMock
+    .get("https://api.telegram.org")
+    .intercept({
+      path: /\/bot.*\/sendMessage/,
+      method: "POST",
+    })
+    .reply(200, (opts) => {
+      const payload = JSON.parse(String(opts.body)) as SentTelegramMessage;
+      sentMessages.push(payload);
+      return {
+        ok: true,
+        result: {
+          message_id: sentMessages.length,
+          date: Math.floor(Date.now() / 1000),
+          chat: { id: payload.chat_id, type: "private" },
+          text: payload.text,
+        },
+      };
+    })
+    .persist();
+}
+
+export type BotApiCall = {
+  method: string;
+  payload: Record<string, unknown>;
+};
+
+/**
+ * Intercept every Bot API call made while handling a webhook update and
+ * collect the method names and payloads.
+ * Requires fetchMock to be activated by the test file.
+ */
+export function mockBotApi(calls: BotApiCall[]) {
+  fetchMock
+    .get("https://api.telegram.org")
+    .intercept({
+      path: /\/bot[^/]+\/\w+/,
+      method: "POST",
+    })
+    .reply(200, (opts) => {
+      const method = String(opts.path).split("/").pop()!;
+      calls.push({ method, payload: JSON.parse(String(opts.body ?? "{}")) });
+      return { ok: true, result: true };
+    })
+    .persist();
+}
+
+/**
+ * POST a Telegram update to the bot webhook.
+ * Sends the test WEBHOOK_SECRET unless another secret (or null for none) is given.
+ */
+export function postBotUpdate(
+  update: object,
+  secret: string | null = "test-webhook-secret",
+) {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (secret !== null) {
+    headers["X-Telegram-Bot-Api-Secret-Token"] = secret;
+  }
+
+  return SELF.fetch("http://example.com/api/bot", {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ update_id: 1, ...update }),
+  });
+}
+
 // Telegram initData uses HMAC signing with the BOT_TOKEN, so we can mock it locally
 export function makeInitData(
   user: {
@@ -38,6 +118,11 @@ export function makeInitData(
   return sign(payload, botToken, new Date());
 }
 
+// Drizzle stores `mode: "timestamp"` columns as unix seconds; helpers take milliseconds
+function toUnixSeconds(ms: number) {
+  return Math.floor(ms / 1000);
+}
+
 export function makeAuthHeader(initData: string) {
   return { Authorization: `tma ${initData}` };
 }
@@ -48,6 +133,7 @@ export async function seedBook(params: {
   description: string;
   author: string;
   imageUrl?: string | null;
+  createdAt?: number;
 }) {
   await env.DATABASE.prepare(
     "INSERT INTO books (isbn, title, description, author, image_url, created_at) VALUES (?, ?, ?, ?, ?, ?)",
@@ -58,7 +144,7 @@ export async function seedBook(params: {
       params.description,
       params.author,
       params.imageUrl ?? null,
-      Date.now(),
+      toUnixSeconds(params.createdAt ?? Date.now()),
     )
     .run();
 
@@ -75,9 +161,10 @@ export async function seedBookCopy(params: {
   locationId?: number;
   copyNumber?: number;
   status?: string;
+  createdAt?: number | null;
 }) {
   await env.DATABASE.prepare(
-    "INSERT INTO book_copies (qr_code_id, book_id, location_id, copy_number, status) VALUES (?, ?, ?, ?, ?)",
+    "INSERT INTO book_copies (qr_code_id, book_id, location_id, copy_number, status, created_at) VALUES (?, ?, ?, ?, ?, ?)",
   )
     .bind(
       params.qrCodeId,
@@ -85,6 +172,7 @@ export async function seedBookCopy(params: {
       params.locationId ?? 1,
       params.copyNumber ?? 1,
       params.status ?? "available",
+      params.createdAt == null ? null : toUnixSeconds(params.createdAt),
     )
     .run();
 }
@@ -96,21 +184,26 @@ export async function seedLoan(params: {
   borrowedAt?: number;
   dueDate?: number;
   returnedAt?: number | null;
+  renewalCount?: number;
+  lastReminderSent?: number | null;
 }) {
   const borrowedAt = params.borrowedAt ?? Date.now();
   const dueDate = params.dueDate ?? borrowedAt + 14 * 24 * 60 * 60 * 1000;
 
   await env.DATABASE.prepare(
-    "INSERT INTO loans (qr_code_id, telegram_user_id, telegram_username, borrowed_at, due_date, returned_at, last_reminder_sent) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    "INSERT INTO loans (qr_code_id, telegram_user_id, telegram_username, borrowed_at, due_date, returned_at, renewal_count, last_reminder_sent) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
   )
     .bind(
       params.qrCodeId,
       params.telegramUserId,
       params.telegramUsername ?? null,
-      borrowedAt,
-      dueDate,
-      params.returnedAt ?? null,
-      null,
+      toUnixSeconds(borrowedAt),
+      toUnixSeconds(dueDate),
+      params.returnedAt != null ? toUnixSeconds(params.returnedAt) : null,
+      params.renewalCount ?? 0,
+      params.lastReminderSent != null
+        ? toUnixSeconds(params.lastReminderSent)
+        : null,
     )
     .run();
 }
@@ -118,3 +211,13 @@ export async function seedLoan(params: {
 export function getTelegramUser(initData: InitData) {
   return initData.user;
 }
+
+export async function getCopyStatus(qrCodeId: string) {
+  const row = await env.DATABASE.prepare(
+    "SELECT status FROM book_copies WHERE qr_code_id = ?",
+  )
+    .bind(qrCodeId)
+    .first<{ status: string | null }>();
+
+  return row?.status ?? null;
+}
@@ -0,0 +1,145 @@
+import { env, SELF } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  makeAuthHeader,
+  makeInitData,
+  mockAdminUser,
+  seedBook,
+  seedBookCopy,
+  seedLoan,
+} from "./helpers";
+
+const botToken = "test-bot-token";
+const readerId = 900;
+const DAY = 24 * 60 * 60 * 1000;
+
+type HistoryResponse = {
+  enabled: boolean;
+  page: number;
+  totalPages: number;
+  total: number;
+  entries: { id: number; title: string }[];
+};
+
+function historyRequest(path: string, method = "GET", body?: object) {
+  const initData = makeInitData(
+    { id: readerId, first_name: "Reader", username: "reader" },
+    botToken,
+  );
+  return SELF.fetch(`http://example.com/api/miniapp/history${path}`, {
+    method,
+    headers: {
+      ...makeAuthHeader(initData),
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+async function getHistory(page = 1) {
+  const response = await historyRequest(`?page=${page}`);
+  expect(response.status).toBe(200);
+  return (await response.json()) as HistoryResponse;
+}
+
+// Seeds `count` returned loans, the last one returned most recently
+async function seedReturnedLoans(count: number) {
+  for (let i = 1; i <= count; i++) {
+    const book = await seedBook({
+      isbn: `isbn-history-${i}`,
+      title: `History Book ${i}`,
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({ qrCodeId: `copy-history-${i}`, bookId: book.id });
+    await seedLoan({
+      qrCodeId: `copy-history-${i}`,
+      telegramUserId: readerId,
+      telegramUsername: "reader",
+      borrowedAt: Date.now() - 30 * DAY,
+      returnedAt: Date.now() - (count - i + 1) * DAY,
+    });
+  }
+}
+
+describe("reading history", () => {
+  beforeEach(() => {
+    mockAdminUser(true);
+  });
+
+  it("lists returned loans newest first, a page at a time", async () => {
+    await seedReturnedLoans(12);
+
+    const first = await getHistory();
+    expect(first.enabled).toBe(true);
+    expect(first.total).toBe(12);
+    expect(first.totalPages).toBe(2);
+    expect(first.entries).toHaveLength(10);
+    expect(first.entries[0].title).toBe("History Book 12");
+
+    const second = await getHistory(2);
+    expect(second.entries.map((entry) => entry.title)).toEqual([
+      "History Book 2",
+      "History Book 1",
+    ]);
+  });
+
+  it("leaves out books that are still on loan", async () => {
+    const book = await seedBook({
+      isbn: "isbn-active",
+      title: "Still Reading",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({ qrCodeId: "copy-active", bookId: book.id });
+    await seedLoan({ qrCodeId: "copy-active", telegramUserId: readerId });
+
+    const history = await getHistory();
+    expect(history.total).toBe(0);
+  });
+
+  it("hides a single entry", async () => {
+    await seedReturnedLoans(2);
+    const { entries } = await getHistory();
+
+    const response = await historyRequest(`/${entries[0].id}/hide`, "POST");
+    expect(response.status).toBe(200);
+
+    const history = await getHistory();
+    expect(history.entries.map((entry) => entry.title)).toEqual([
+      "History Book 1",
+    ]);
+  });
+
+  it("clears history and stops keeping returns once turned off", async () => {
+    await seedReturnedLoans(2);
+    await seedLoan({ qrCodeId: "copy-history-1", telegramUserId: readerId });
+
+    const response = await historyRequest("/settings", "PUT", {
+      enabled: false,
+    });
+    expect(response.status).toBe(200);
+
+    const returned = await SELF.fetch(
+      "http://example.com/api/miniapp/books/copy-history-1/return",
+      {
+        method: "POST",
+        headers: makeAuthHeader(
+          makeInitData({ id: readerId, first_name: "Reader" }, botToken),
+        ),
+      },
+    );
+    expect(returned.status).toBe(200);
+
+    const history = await getHistory();
+    expect(history.enabled).toBe(false);
+    expect(history.total).toBe(0);
+
+    const usernames = await env.DATABASE.prepare(
+      "SELECT COUNT(*) AS count FROM loans WHERE telegram_user_id = ? AND telegram_username IS NOT NULL",
+    )
+      .bind(readerId)
+      .first<{ count: number }>();
+    expect(usernames?.count).toBe(0);
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  createScheduledController,
+  env,
+  fetchMock,
+  SELF,
+} from "cloudflare:test";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import worker from "../index";
+import {
+  getCopyStatus,
+  makeAuthHeader,
+  makeInitData,
+  mockSendMessage,
+  seedBook,
+  seedBookCopy,
+  seedLoan,
+  type SentTelegramMessage,
+} from "./helpers";
+
+const botToken = "test-bot-token";
+const DAY = 24 * 60 * 60 * 1000;
+
+type HoldsResponse = {
+  holds: {
+    id: number;
+    status: string;
+    position: number | null;
+    reservedQrCodeId: string | null;
+  }[];
+};
+
+function authFor(id: number) {
+  return makeAuthHeader(
+    makeInitData({ id, first_name: `User ${id}` }, botToken),
+  );
+}
+
+async function placeHold(bookId: number, userId: number) {
+  return SELF.fetch(`http://example.com/api/miniapp/books/${bookId}/holds`, {
+    method: "POST",
+    headers: authFor(userId),
+  });
+}
+
+async function changeCopyStatus(qrCodeId: string, status: string) {
+  return SELF.fetch(
+    `http://example.com/api/miniapp/admin/copies/${qrCodeId}/status`,
+    {
+      method: "POST",
+      headers: { ...authFor(999), "Content-Type": "application/json" },
+      body: JSON.stringify({ status, reason: "Shelf check" }),
+    },
+  );
+}
+
+async function getHolds(userId: number) {
+  const response = await SELF.fetch("http://example.com/api/miniapp/holds", {
+    headers: authFor(userId),
+  });
+  return ((await response.json()) as HoldsResponse).holds;
+}
+
+describe("holds", () => {
+  const sentMessages: SentTelegramMessage[] = [];
+  let bookId: number;
+
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+    mockSendMessage(sentMessages);
+  });
+
+  afterAll(() => {
+    fetchMock.deactivate();
+  });
+
+  beforeEach(async () => {
+    sentMessages.length = 0;
+
+    const book = await seedBook({
+      isbn: "isbn-hold",
+      title: "Popular Book",
+      description: "Test",
+      author: "Author",
+    });
+    bookId = book.id;
+    await seedBookCopy({ qrCodeId: "hold-copy", bookId });
+    await seedLoan({ qrCodeId: "hold-copy", telegramUserId: 100 });
+  });
+
+  it("places holds in FIFO order when every copy is out", async () => {
+    const first = await placeHold(bookId, 201);
+    const second = await placeHold(bookId, 202);
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    const data = (await second.json()) as {
+      success: boolean;
+      position: number;
+    };
+    expect(data.success).toBe(true);
+    expect(data.position).toBe(2);
+  });
+
+  it("rejects a second hold on the same book", async () => {
+    await placeHold(bookId, 201);
+    const response = await placeHold(bookId, 201);
+
+    expect(response.status).toBe(400);
+    const data = (await response.json()) as { error: string };
+    expect(data.error).toBe("You already have a hold on this book");
+  });
+
+  it("rejects a hold when a copy is available", async () => {
+    await seedBookCopy({ qrCodeId: "free-copy", bookId, copyNumber: 2 });
+
+    const response = await placeHold(bookId, 201);
+
+    expect(response.status).toBe(400);
+  });
+
+  it("reserves the returned copy for the first person in the queue", async () => {
+    await placeHold(bookId, 201);
+    await placeHold(bookId, 202);
+
+    const returned = await SELF.fetch(
+      "http://example.com/api/miniapp/books/hold-copy/return",
+      { method: "POST", headers: authFor(100) },
+    );
+    expect(returned.status).toBe(200);
+
+    const [firstHold] = await getHolds(201);
+    expect(firstHold.status).toBe("ready");
+    expect(firstHold.reservedQrCodeId).toBe("hold-copy");
+    expect(await getCopyStatus("hold-copy")).toBe("on_hold_shelf");
+
+    const [secondHold] = await getHolds(202);
+    expect(secondHold.status).toBe("waiting");
+    expect(secondHold.position).toBe(1);
+
+    // Someone else can't borrow the reserved copy
+    const blocked = await SELF.fetch(
+      "http://example.com/api/miniapp/books/hold-copy/borrow",
+      { method: "POST", headers: authFor(202) },
+    );
+    expect(blocked.status).toBe(400);
+    const blockedData = (await blocked.json()) as { error: string };
+    expect(blockedData.error).toContain("reserved");
+
+    // The holder can, which closes their hold
+    const borrowed = await SELF.fetch(
+      "http://example.com/api/miniapp/books/hold-copy/borrow",
+      { method: "POST", headers: authFor(201) },
+    );
+    expect(borrowed.status).toBe(200);
+    expect(await getHolds(201)).toHaveLength(0);
+    expect(await getCopyStatus("hold-copy")).toBe("available");
+  });
+
+  it("passes the reserved copy on when the holder cancels", async () => {
+    await placeHold(bookId, 201);
+    await placeHold(bookId, 202);
+    await SELF.fetch("http://example.com/api/miniapp/books/hold-copy/return", {
+      method: "POST",
+      headers: authFor(100),
+    });
+
+    const [firstHold] = await getHolds(201);
+    const cancelled = await SELF.fetch(
+      `http://example.com/api/miniapp/holds/${firstHold.id}/cancel`,
+      { method: "POST", headers: authFor(201) },
+    );
+    expect(cancelled.status).toBe(200);
+
+    expect(await getHolds(201)).toHaveLength(0);
+    const [secondHold] = await getHolds(202);
+    expect(secondHold.status).toBe("ready");
+    expect(secondHold.reservedQrCodeId).toBe("hold-copy");
+  });
+
+  it("does not let users cancel someone else's hold", async () => {
+    await placeHold(bookId, 201);
+    const [hold] = await getHolds(201);
+
+    const response = await SELF.fetch(
+      `http://example.com/api/miniapp/holds/${hold.id}/cancel`,
+      { method: "POST", headers: authFor(202) },
+    );
+
+    expect(response.status).toBe(400);
+    expect(await getHolds(201)).toHaveLength(1);
+  });
+
+  it("puts the hold back at the front of the queue when its copy is lost", async () => {
+    await placeHold(bookId, 201);
+    await placeHold(bookId, 202);
+    await SELF.fetch("http://example.com/api/miniapp/books/hold-copy/return", {
+      method: "POST",
+      headers: authFor(100),
+    });
+
+    const response = await changeCopyStatus("hold-copy", "lost");
+    expect(response.status).toBe(200);
+    expect(await getCopyStatus("hold-copy")).toBe("lost");
+
+    const [firstHold] = await getHolds(201);
+    expect(firstHold.status).toBe("waiting");
+    expect(firstHold.position).toBe(1);
+    expect(firstHold.reservedQrCodeId).toBeNull();
+    const [secondHold] = await getHolds(202);
+    expect(secondHold.position).toBe(2);
+  });
+
+  it("offers another free copy when the reserved copy is withdrawn", async () => {
+    await placeHold(bookId, 201);
+    await placeHold(bookId, 202);
+    await SELF.fetch("http://example.com/api/miniapp/books/hold-copy/return", {
+      method: "POST",
+      headers: authFor(100),
+    });
+    await seedBookCopy({ qrCodeId: "new-copy", bookId, copyNumber: 2 });
+
+    const response = await changeCopyStatus("hold-copy", "withdrawn");
+    expect(response.status).toBe(200);
+
+    const [firstHold] = await getHolds(201);
+    expect(firstHold.status).toBe("ready");
+    expect(firstHold.reservedQrCodeId).toBe("new-copy");
+    expect(await getCopyStatus("new-copy")).toBe("on_hold_shelf");
+    const [secondHold] = await getHolds(202);
+    expect(secondHold.status).toBe("waiting");
+  });
+
+  it("expires unclaimed reservations and notifies the next person", async () => {
+    await placeHold(bookId, 201);
+    await placeHold(bookId, 202);
+    await SELF.fetch("http://example.com/api/miniapp/books/hold-copy/return", {
+      method: "POST",
+      headers: authFor(100),
+    });
+    sentMessages.length = 0;
+
+    const controller = createScheduledController({
+      scheduledTime: new Date(Date.now() + 4 * DAY),
+      cron: "0 1 * * *",
+    });
+    await worker.scheduled(controller, env);
+
+    expect(await getHolds(201)).toHaveLength(0);
+    const [secondHold] = await getHolds(202);
+    expect(secondHold.status).toBe("ready");
+    expect(sentMessages.map((message) => message.chat_id)).toEqual([202]);
+    expect(sentMessages[0].text).toContain("hold is ready");
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  formatDate,
+  resolveLocale,
+  translate,
+  translateCount,
+  translateError,
+} from "@shared/i18n";
+import { en } from "@shared/locales/en";
+import { ms } from "@shared/locales/ms";
+import { zh } from "@shared/locales/zh";
+import { describe, expect, it } from "vitest";
+
+describe("resolveLocale", () => {
+  it("maps Telegram language codes to supported locales", () => {
+    expect(resolveLocale("zh-hans")).toBe("zh");
+    expect(resolveLocale("ms")).toBe("ms");
+    expect(resolveLocale("en-GB")).toBe("en");
+  });
+
+  it("falls back to English", () => {
+    expect(resolveLocale("fr")).toBe("en");
+    expect(resolveLocale(undefined)).toBe("en");
+  });
+});
+
+describe("translate", () => {
+  it("fills in placeholders", () => {
+    expect(translate("en", "bot.loan.due", { date: "01/02/2025" })).toBe(
+      "Due: 01/02/2025",
+    );
+    expect(translate("zh", "bot.loan.due", { date: "01/02/2025" })).toBe(
+      "到期：01/02/2025",
+    );
+  });
+
+  it("picks the singular or plural form", () => {
+    expect(translateCount("en", "count.copies", 1)).toBe("1 copy");
+    expect(translateCount("en", "count.copies", 3)).toBe("3 copies");
+  });
+
+  it("has every message in every language", () => {
+    for (const catalogue of [zh, ms]) {
+      expect(Object.keys(catalogue).sort()).toEqual(Object.keys(en).sort());
+      for (const [key, message] of Object.entries(catalogue)) {
+        expect(message, key).not.toBe("");
+      }
+    }
+  });
+});
+
+describe("translateError", () => {
+  it("names copy statuses and formats dates in the user's language", () => {
+    expect(
+      translateError("zh", {
+        code: "copyNotCirculating",
+        params: { status: { copyStatus: "in_repair" } },
+      }),
+    ).toBe("这本副本的状态为「修复中」，无法借阅");
+    expect(
+      translateError("ms", {
+        code: "copyOnLoan",
+        params: { date: new Date(Date.UTC(2025, 2, 5, 4)) },
+      }),
+    ).toBe("Buku ini sedang dipinjam (perlu dipulangkan pada 05/03/2025)");
+  });
+});
+
+describe("formatDate", () => {
+  const date = new Date(Date.UTC(2025, 2, 5, 4));
+
+  it("keeps numeric dates as dd/mm/yyyy", () => {
+    expect(formatDate(date)).toBe("05/03/2025");
+  });
+
+  it("writes month names in the user's language", () => {
+    expect(formatDate(date, "en", "long")).toBe("5 March 2025");
+    expect(formatDate(date, "zh", "long")).toBe("2025年3月5日");
+    expect(formatDate(date, "ms", "long")).toBe("5 Mac 2025");
+  });
+});
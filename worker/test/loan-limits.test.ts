@@ -0,0 +1,122 @@
+import { SELF } from "cloudflare:test";
+import type { LoanLimit } from "@shared/loan-limits";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { isUserAdmin } from "../lib/admin";
+import {
+  makeAuthHeader,
+  makeInitData,
+  mockAdminUser,
+  seedBook,
+  seedBookCopy,
+  seedLoan,
+} from "./helpers";
+
+const botToken = "test-bot-token";
+const readerId = 800;
+
+type LoanLimitResponse = {
+  success: boolean;
+  error?: string;
+  loanLimit: LoanLimit<string> | null;
+};
+
+// MAX_ACTIVE_LOANS is 5 in wrangler.jsonc
+async function seedFullShelf() {
+  const book = await seedBook({
+    isbn: "isbn-shelf",
+    title: "Shelf Book",
+    description: "Test",
+    author: "Author",
+  });
+  for (let copyNumber = 1; copyNumber <= 6; copyNumber++) {
+    await seedBookCopy({
+      qrCodeId: `copy-shelf-${copyNumber}`,
+      bookId: book.id,
+      copyNumber,
+    });
+  }
+  for (let copyNumber = 1; copyNumber <= 5; copyNumber++) {
+    await seedLoan({
+      qrCodeId: `copy-shelf-${copyNumber}`,
+      telegramUserId: readerId,
+    });
+  }
+}
+
+async function borrowSixthCopy() {
+  const initData = makeInitData(
+    { id: readerId, first_name: "Reader" },
+    botToken,
+  );
+  return SELF.fetch(
+    "http://example.com/api/miniapp/books/copy-shelf-6/borrow",
+    {
+      method: "POST",
+      headers: makeAuthHeader(initData),
+    },
+  );
+}
+
+function exemptionRequest(method: "PUT" | "DELETE", body?: object) {
+  const initData = makeInitData({ id: 1, first_name: "Admin" }, botToken);
+  return SELF.fetch(
+    `http://example.com/api/miniapp/admin/loan-limit-exemptions/${readerId}`,
+    {
+      method,
+      headers: {
+        ...makeAuthHeader(initData),
+        "Content-Type": "application/json",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    },
+  );
+}
+
+describe("per-user loan limit", () => {
+  beforeEach(() => {
+    mockAdminUser(true);
+  });
+
+  it("refuses to borrow past the cap and lists the books to return", async () => {
+    await seedFullShelf();
+
+    const response = await borrowSixthCopy();
+
+    expect(response.status).toBe(400);
+    const data = (await response.json()) as LoanLimitResponse;
+    expect(data.success).toBe(false);
+    expect(data.error).toContain("only borrow 5 book(s) at a time");
+    expect(data.loanLimit?.maxActiveLoans).toBe(5);
+    expect(data.loanLimit?.loans).toHaveLength(5);
+    expect(data.loanLimit?.loans[0].title).toBe("Shelf Book");
+  });
+
+  it("lets exempted users borrow past the cap", async () => {
+    await seedFullShelf();
+
+    const grant = await exemptionRequest("PUT", { reason: "Book club host" });
+    expect(grant.status).toBe(200);
+
+    const response = await borrowSixthCopy();
+    expect(response.status).toBe(200);
+  });
+
+  it("applies the cap again once the exemption is revoked", async () => {
+    await seedFullShelf();
+    await exemptionRequest("PUT", {});
+
+    const revoke = await exemptionRequest("DELETE");
+    expect(revoke.status).toBe(200);
+
+    const response = await borrowSixthCopy();
+    expect(response.status).toBe(400);
+  });
+
+  it("only lets admins grant exemptions", async () => {
+    vi.mocked(isUserAdmin).mockResolvedValueOnce(false);
+
+    const response = await exemptionRequest("PUT", {});
+
+    expect(response.status).toBe(403);
+  });
+});
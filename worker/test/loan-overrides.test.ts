@@ -0,0 +1,149 @@
+import { env, SELF } from "cloudflare:test";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { isUserAdmin } from "../lib/admin";
+import {
+  makeAuthHeader,
+  makeInitData,
+  mockAdminUser,
+  seedBook,
+  seedBookCopy,
+  seedLoan,
+} from "./helpers";
+
+const botToken = "test-bot-token";
+const DAY = 24 * 60 * 60 * 1000;
+
+function adminRequest(path: string, body?: object) {
+  const initData = makeInitData(
+    { id: 42, first_name: "Admin", username: "librarian" },
+    botToken,
+  );
+  return SELF.fetch(`http://example.com/api/miniapp/admin/loans/${path}`, {
+    method: "POST",
+    headers: {
+      ...makeAuthHeader(initData),
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+async function getLoan(loanId: number) {
+  return env.DATABASE.prepare(
+    "SELECT telegram_user_id, due_date, returned_at FROM loans WHERE id = ?",
+  )
+    .bind(loanId)
+    .first<{
+      telegram_user_id: number;
+      due_date: number;
+      returned_at: number | null;
+    }>();
+}
+
+async function getOverrides(loanId: number) {
+  const { results } = await env.DATABASE.prepare(
+    "SELECT action, admin_telegram_user_id, previous_value, new_value FROM loan_overrides WHERE loan_id = ?",
+  )
+    .bind(loanId)
+    .all<{
+      action: string;
+      admin_telegram_user_id: number;
+      previous_value: string | null;
+      new_value: string | null;
+    }>();
+  return results;
+}
+
+describe("admin loan overrides", () => {
+  let loanId: number;
+
+  beforeEach(async () => {
+    mockAdminUser(true);
+
+    const book = await seedBook({
+      isbn: "isbn-override",
+      title: "Override Book",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({ qrCodeId: "copy-override", bookId: book.id });
+    await seedLoan({ qrCodeId: "copy-override", telegramUserId: 500 });
+
+    const row = await env.DATABASE.prepare(
+      "SELECT id FROM loans WHERE qr_code_id = ?",
+    )
+      .bind("copy-override")
+      .first<{ id: number }>();
+    loanId = row!.id;
+  });
+
+  it("marks a loan returned on the borrower's behalf", async () => {
+    const response = await adminRequest(`${loanId}/return`);
+
+    expect(response.status).toBe(200);
+    expect((await getLoan(loanId))?.returned_at).not.toBeNull();
+
+    const [override] = await getOverrides(loanId);
+    expect(override.action).toBe("return");
+    expect(override.admin_telegram_user_id).toBe(42);
+
+    // A loan can only be closed once
+    const again = await adminRequest(`${loanId}/return`);
+    expect(again.status).toBe(400);
+  });
+
+  it("extends the due date", async () => {
+    const dueDate = new Date(Date.now() + 30 * DAY);
+
+    const response = await adminRequest(`${loanId}/extend`, {
+      dueDate: dueDate.toISOString(),
+    });
+
+    expect(response.status).toBe(200);
+    expect((await getLoan(loanId))?.due_date).toBe(
+      Math.floor(dueDate.getTime() / 1000),
+    );
+
+    const [override] = await getOverrides(loanId);
+    expect(override.action).toBe("extend");
+    expect(override.new_value).toBe(dueDate.toISOString());
+  });
+
+  it("rejects due dates in the past", async () => {
+    const response = await adminRequest(`${loanId}/extend`, {
+      dueDate: new Date(Date.now() - DAY).toISOString(),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("reassigns the loan to another borrower", async () => {
+    const response = await adminRequest(`${loanId}/reassign`, {
+      telegramUserId: 501,
+      telegramUsername: "@friend",
+    });
+
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as {
+      loan: { telegramUserId: number; telegramUsername: string };
+    };
+    expect(data.loan.telegramUserId).toBe(501);
+    expect(data.loan.telegramUsername).toBe("friend");
+
+    const [override] = await getOverrides(loanId);
+    expect(override).toMatchObject({
+      action: "reassign",
+      previous_value: "500",
+      new_value: "501",
+    });
+  });
+
+  it("only lets admins override loans", async () => {
+    vi.mocked(isUserAdmin).mockResolvedValueOnce(false);
+
+    const response = await adminRequest(`${loanId}/return`);
+
+    expect(response.status).toBe(403);
+    expect((await getLoan(loanId))?.returned_at).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+import { SELF } from "cloudflare:test";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { isUserAdmin } from "../lib/admin";
+import {
+  makeAuthHeader,
+  makeInitData,
+  mockAdminUser,
+  seedBook,
+  seedBookCopy,
+  seedLoan,
+} from "./helpers";
+
+const botToken = "test-bot-token";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function setLocationPolicy(
+  locationId: number,
+  policy: Record<string, number | null>,
+) {
+  const initData = makeInitData({ id: 1, first_name: "Admin" }, botToken);
+  return SELF.fetch(`http://example.com/api/miniapp/locations/${locationId}`, {
+    method: "PATCH",
+    headers: {
+      ...makeAuthHeader(initData),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(policy),
+  });
+}
+
+async function borrow(qrCodeId: string, telegramUserId: number) {
+  const initData = makeInitData(
+    { id: telegramUserId, first_name: "Reader" },
+    botToken,
+  );
+  return SELF.fetch(`http://example.com/api/miniapp/books/${qrCodeId}/borrow`, {
+    method: "POST",
+    headers: makeAuthHeader(initData),
+  });
+}
+
+describe("per-location loan policies", () => {
+  beforeEach(() => {
+    mockAdminUser(true);
+  });
+
+  it("uses the location's loan period and reports the policy", async () => {
+    const response = await setLocationPolicy(2, {
+      loanPeriodDays: 3,
+      maxRenewals: 0,
+    });
+    expect(response.status).toBe(200);
+
+    const book = await seedBook({
+      isbn: "isbn-reference",
+      title: "Reference Book",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({
+      qrCodeId: "copy-reference",
+      bookId: book.id,
+      locationId: 2,
+    });
+
+    const before = Date.now();
+    const borrowResponse = await borrow("copy-reference", 700);
+
+    expect(borrowResponse.status).toBe(200);
+    const data = (await borrowResponse.json()) as {
+      loan: { dueDate: string };
+      policy: { loanPeriodDays: number; maxRenewals: number };
+    };
+    const dueTime = new Date(data.loan.dueDate).getTime();
+    expect(dueTime).toBeGreaterThanOrEqual(before + 3 * DAY_MS - 1000);
+    expect(dueTime).toBeLessThan(before + 4 * DAY_MS);
+    expect(data.policy.loanPeriodDays).toBe(3);
+    expect(data.policy.maxRenewals).toBe(0);
+  });
+
+  it("keeps the default policy at other locations", async () => {
+    await setLocationPolicy(2, { loanPeriodDays: 3 });
+
+    const book = await seedBook({
+      isbn: "isbn-regular",
+      title: "Regular Book",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({
+      qrCodeId: "copy-regular",
+      bookId: book.id,
+      locationId: 1,
+    });
+
+    const before = Date.now();
+    const response = await borrow("copy-regular", 701);
+
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as { loan: { dueDate: string } };
+    expect(new Date(data.loan.dueDate).getTime()).toBeGreaterThanOrEqual(
+      before + 14 * DAY_MS - 1000,
+    );
+  });
+
+  it("enforces the location's concurrent loan cap", async () => {
+    await setLocationPolicy(1, { maxLoansPerUser: 1 });
+
+    const book = await seedBook({
+      isbn: "isbn-capped",
+      title: "Capped Book",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({ qrCodeId: "copy-capped-1", bookId: book.id });
+    await seedBookCopy({
+      qrCodeId: "copy-capped-2",
+      bookId: book.id,
+      copyNumber: 2,
+    });
+    await seedBookCopy({
+      qrCodeId: "copy-elsewhere",
+      bookId: book.id,
+      locationId: 3,
+      copyNumber: 3,
+    });
+    await seedLoan({ qrCodeId: "copy-capped-1", telegramUserId: 702 });
+
+    const capped = await borrow("copy-capped-2", 702);
+    expect(capped.status).toBe(400);
+    const data = (await capped.json()) as { error: string };
+    expect(data.error).toContain("only borrow 1 book(s) at a time");
+
+    // Loans from other locations don't count towards the cap
+    const elsewhere = await borrow("copy-elsewhere", 702);
+    expect(elsewhere.status).toBe(200);
+  });
+
+  it("refuses renewals at locations that don't allow them", async () => {
+    await setLocationPolicy(2, { maxRenewals: 0 });
+
+    const book = await seedBook({
+      isbn: "isbn-no-renew",
+      title: "No Renew Book",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({
+      qrCodeId: "copy-no-renew",
+      bookId: book.id,
+      locationId: 2,
+    });
+    await seedLoan({ qrCodeId: "copy-no-renew", telegramUserId: 703 });
+
+    const initData = makeInitData({ id: 703, first_name: "Reader" }, botToken);
+    const response = await SELF.fetch(
+      "http://example.com/api/miniapp/books/copy-no-renew/renew",
+      {
+        method: "POST",
+        headers: makeAuthHeader(initData),
+      },
+    );
+
+    expect(response.status).toBe(400);
+    const data = (await response.json()) as { error: string };
+    expect(data.error).toContain("can't be renewed");
+  });
+
+  it("rejects policy updates from non-admins", async () => {
+    vi.mocked(isUserAdmin).mockResolvedValueOnce(false);
+
+    const response = await setLocationPolicy(1, { loanPeriodDays: 7 });
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -164,6 +164,249 @@ describe("mini app api", () => {
     expect(data.returnedAt).toBeDefined();
   });
 
+  it("renews an active loan", async () => {
+    const book = await seedBook({
+      isbn: "isbn-renew",
+      title: "Book R",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({
+      qrCodeId: "copy-renew",
+      bookId: book.id,
+      locationId: 1,
+      copyNumber: 1,
+    });
+    const dueDate = Date.now() + 2 * 24 * 60 * 60 * 1000;
+    await seedLoan({
+      qrCodeId: "copy-renew",
+      telegramUserId: 888,
+      dueDate,
+    });
+
+    const initData = makeInitData(
+      { id: 888, first_name: "Kai", username: "kai" },
+      botToken,
+    );
+
+    const response = await SELF.fetch(
+      "http://example.com/api/miniapp/books/copy-renew/renew",
+      {
+        method: "POST",
+        headers: makeAuthHeader(initData),
+      },
+    );
+
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as {
+      success: boolean;
+      loan?: { dueDate: string; renewalCount: number };
+      renewalsRemaining?: number;
+    };
+    expect(data.success).toBe(true);
+    expect(data.loan?.renewalCount).toBe(1);
+    expect(new Date(data.loan!.dueDate).getTime()).toBeGreaterThan(
+      dueDate + 13 * 24 * 60 * 60 * 1000,
+    );
+    expect(data.renewalsRemaining).toBe(1);
+  });
+
+  it("rejects renewal when the renewal cap is reached", async () => {
+    const book = await seedBook({
+      isbn: "isbn-renew-cap",
+      title: "Book S",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({
+      qrCodeId: "copy-renew-cap",
+      bookId: book.id,
+      locationId: 1,
+      copyNumber: 1,
+    });
+    await seedLoan({
+      qrCodeId: "copy-renew-cap",
+      telegramUserId: 889,
+      renewalCount: 2,
+    });
+
+    const initData = makeInitData({ id: 889, first_name: "Lee" }, botToken);
+
+    const response = await SELF.fetch(
+      "http://example.com/api/miniapp/books/copy-renew-cap/renew",
+      {
+        method: "POST",
+        headers: makeAuthHeader(initData),
+      },
+    );
+
+    expect(response.status).toBe(400);
+    const data = (await response.json()) as { success: boolean; error: string };
+    expect(data.success).toBe(false);
+    expect(data.error).toContain("maximum");
+  });
+
+  it("rejects renewal of another user's loan", async () => {
+    const book = await seedBook({
+      isbn: "isbn-renew-other",
+      title: "Book T",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({
+      qrCodeId: "copy-renew-other",
+      bookId: book.id,
+      locationId: 1,
+      copyNumber: 1,
+    });
+    await seedLoan({
+      qrCodeId: "copy-renew-other",
+      telegramUserId: 890,
+    });
+
+    const initData = makeInitData({ id: 891, first_name: "Max" }, botToken);
+
+    const response = await SELF.fetch(
+      "http://example.com/api/miniapp/books/copy-renew-other/renew",
+      {
+        method: "POST",
+        headers: makeAuthHeader(initData),
+      },
+    );
+
+    expect(response.status).toBe(400);
+    const data = (await response.json()) as { success: boolean; error: string };
+    expect(data.error).toBe("No active loan found for this book");
+  });
+
+  it("rejects renewal when someone has a hold on the book", async () => {
+    const book = await seedBook({
+      isbn: "isbn-renew-hold",
+      title: "Book H",
+      description: "Test",
+      author: "Author",
+    });
+    await seedBookCopy({
+      qrCodeId: "copy-renew-hold",
+      bookId: book.id,
+      locationId: 1,
+      copyNumber: 1,
+    });
+    await seedLoan({ qrCodeId: "copy-renew-hold", telegramUserId: 892 });
+
+    const holder = makeInitData({ id: 893, first_name: "Lee" }, botToken);
+    await SELF.fetch(`http://example.com/api/miniapp/books/${book.id}/holds`, {
+      method: "POST",
+      headers: makeAuthHeader(holder),
+    });
+
+    const initData = makeInitData({ id: 892, first_name: "Sam" }, botToken);
+    const response = await SELF.fetch(
+      "http://example.com/api/miniapp/books/copy-renew-hold/renew",
+      {
+        method: "POST",
+        headers: makeAuthHeader(initData),
+      },
+    );
+
+    expect(response.status).toBe(400);
+    const data = (await response.json()) as { success: boolean; error: string };
+    expect(data.error).toBe(
+      "This book can't be renewed because someone has placed a hold on it.",
+    );
+  });
+
+  async function postBook(body: object) {
+    const initData = makeInitData(
+      { id: 999, first_name: "Jo", username: "jo" },
+      botToken,
+    );
+
+    return SELF.fetch("http://example.com/api/miniapp/books", {
+      method: "POST",
+      headers: {
+        ...makeAuthHeader(initData),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("adds a new title with its ISBN normalized to ISBN-13", async () => {
+    const response = await postBook({
+      isbn: "0-306-40615-2",
+      title: "  New Title ",
+      author: "New Author",
+    });
+
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as {
+      success: boolean;
+      book: { id: number; isbn: string; title: string; description: string };
+    };
+    expect(data.success).toBe(true);
+    expect(data.book.isbn).toBe("9780306406157");
+    expect(data.book.title).toBe("New Title");
+    expect(data.book.description).toBe("");
+
+    // Ready for the copy-scan step
+    const copyResponse = await SELF.fetch(
+      `http://example.com/api/miniapp/books/${data.book.id}/copies`,
+      {
+        method: "POST",
+        headers: {
+          ...makeAuthHeader(
+            makeInitData({ id: 999, first_name: "Jo" }, botToken),
+          ),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          qrCodeId: "https://t.me/library_bot?startapp=COPY-NEWTTL",
+          locationId: 1,
+        }),
+      },
+    );
+    expect(copyResponse.status).toBe(200);
+  });
+
+  it("rejects a new title with an invalid ISBN", async () => {
+    const response = await postBook({
+      isbn: "9780306406158",
+      title: "Bad Checksum",
+      author: "Author",
+    });
+
+    expect(response.status).toBe(400);
+    const data = (await response.json()) as { success: boolean; error: string };
+    expect(data.success).toBe(false);
+    expect(data.error).toBe("Invalid ISBN");
+  });
+
+  it("rejects a new title whose ISBN is already in the library", async () => {
+    const book = await seedBook({
+      isbn: "9780306406157",
+      title: "Existing Title",
+      description: "Test",
+      author: "Author",
+    });
+
+    const response = await postBook({
+      isbn: "978-0-306-40615-7",
+      title: "Existing Title",
+      author: "Author",
+    });
+
+    expect(response.status).toBe(409);
+    const data = (await response.json()) as {
+      success: boolean;
+      error: string;
+      bookId: number;
+    };
+    expect(data.success).toBe(false);
+    expect(data.error).toBe("A book with this ISBN is already in the library");
+    expect(data.bookId).toBe(book.id);
+  });
+
   it("adds a book copy when admin", async () => {
     const book = await seedBook({
       isbn: "isbn-789",
@@ -0,0 +1,239 @@
+import { createScheduledController, env, fetchMock } from "cloudflare:test";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { type BotApiCall, seedBook, seedBookCopy } from "./helpers";
+import worker from "../index";
+import { NEW_ARRIVALS_CRON } from "../lib/new-arrivals";
+
+const DAY = 24 * 60 * 60 * 1000;
+// Monday 10am SGT, when the digest runs
+const NOW = Date.UTC(2025, 5, 9, 2, 0, 5);
+
+const BLOCKED_USER = 3003;
+const THROTTLED_USER = 3004;
+
+async function runNewArrivals() {
+  const controller = createScheduledController({
+    scheduledTime: new Date(NOW),
+    cron: NEW_ARRIVALS_CRON,
+  });
+  await worker.scheduled(controller, env);
+}
+
+async function subscribe(telegramUserId: number) {
+  await env.DATABASE.prepare(
+    "INSERT INTO new_arrival_subscriptions (telegram_user_id, created_at) VALUES (?, ?)",
+  )
+    .bind(telegramUserId, Math.floor(NOW / 1000))
+    .run();
+}
+
+async function seedNewBook(isbn: string, title: string, createdAt: number) {
+  const book = await seedBook({
+    isbn,
+    title,
+    description: "Test",
+    author: "Newcomer",
+    createdAt,
+  });
+  await seedBookCopy({ qrCodeId: `COPY-${isbn}`, bookId: book.id });
+  return book;
+}
+
+async function getSubscriberIds() {
+  const { results } = await env.DATABASE.prepare(
+    "SELECT telegram_user_id FROM new_arrival_subscriptions ORDER BY telegram_user_id",
+  ).all<{ telegram_user_id: number }>();
+  return results.map((row) => row.telegram_user_id);
+}
+
+describe("new arrivals digest", () => {
+  const calls: BotApiCall[] = [];
+  const throttled = new Set<number>();
+
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+    // Like mockBotApi, but the blocked user gets a 403 and the throttled user
+    // a 429 on their first call
+    fetchMock
+      .get("https://api.telegram.org")
+      .intercept({ path: /\/bot[^/]+\/\w+/, method: "POST" })
+      .reply<object>((opts) => {
+        const method = String(opts.path).split("/").pop()!;
+        const payload = JSON.parse(String(opts.body ?? "{}"));
+        calls.push({ method, payload });
+
+        if (payload.chat_id === BLOCKED_USER) {
+          return {
+            statusCode: 403,
+            data: {
+              ok: false,
+              error_code: 403,
+              description: "Forbidden: bot was blocked by the user",
+            },
+          };
+        }
+        if (
+          payload.chat_id === THROTTLED_USER &&
+          !throttled.has(THROTTLED_USER)
+        ) {
+          throttled.add(THROTTLED_USER);
+          return {
+            statusCode: 429,
+            data: {
+              ok: false,
+              error_code: 429,
+              description: "Too Many Requests: retry after 0",
+              parameters: { retry_after: 0 },
+            },
+          };
+        }
+        return { statusCode: 200, data: { ok: true, result: true } };
+      })
+      .persist();
+  });
+
+  afterAll(() => {
+    fetchMock.deactivate();
+  });
+
+  beforeEach(() => {
+    calls.length = 0;
+    throttled.clear();
+  });
+
+  function messagesTo(telegramUserId: number) {
+    return calls.filter((call) => call.payload.chat_id === telegramUserId);
+  }
+
+  it("sends this week's new books with their covers", async () => {
+    await subscribe(3001);
+    for (const n of [1, 2]) {
+      const book = await seedBook({
+        isbn: `isbn-new-${n}`,
+        title: `New Book ${n}`,
+        description: "Test",
+        author: "Newcomer",
+        imageUrl: `https://covers.example.com/${n}.jpg`,
+        createdAt: NOW - n * DAY,
+      });
+      await seedBookCopy({ qrCodeId: `COPY-NEW-${n}`, bookId: book.id });
+    }
+    await seedBook({
+      isbn: "isbn-old",
+      title: "Old Book",
+      description: "Test",
+      author: "Oldie",
+      createdAt: NOW - 30 * DAY,
+    });
+    // Catalogued, but nothing on the shelf to borrow yet
+    await seedBook({
+      isbn: "isbn-no-copies",
+      title: "Coming Soon",
+      description: "Test",
+      author: "Newcomer",
+      createdAt: NOW - DAY,
+    });
+
+    await runNewArrivals();
+
+    const [covers, list] = messagesTo(3001);
+    expect(covers.method).toBe("sendMediaGroup");
+    expect(covers.payload.media).toEqual([
+      {
+        type: "photo",
+        media: "https://covers.example.com/1.jpg",
+        caption: "New Book 1",
+      },
+      {
+        type: "photo",
+        media: "https://covers.example.com/2.jpg",
+        caption: "New Book 2",
+      },
+    ]);
+    expect(list.method).toBe("sendMessage");
+    expect(list.payload.text).toContain("2 new books at the library this week");
+    expect(list.payload.text).toContain("New Book 1");
+    expect(list.payload.text).not.toContain("Old Book");
+    expect(list.payload.text).not.toContain("Coming Soon");
+  });
+
+  it("counts older titles whose first copy was just added", async () => {
+    await subscribe(3001);
+    const book = await seedBook({
+      isbn: "isbn-recatalogued",
+      title: "Back On The Shelf",
+      description: "Test",
+      author: "Author",
+      createdAt: NOW - 60 * DAY,
+    });
+    await seedBookCopy({
+      qrCodeId: "COPY-NEWONE",
+      bookId: book.id,
+      createdAt: NOW - 2 * DAY,
+    });
+    const older = await seedBook({
+      isbn: "isbn-second-copy",
+      title: "Second Copy",
+      description: "Test",
+      author: "Author",
+      createdAt: NOW - 60 * DAY,
+    });
+    await seedBookCopy({ qrCodeId: "COPY-OLDONE", bookId: older.id });
+    await seedBookCopy({
+      qrCodeId: "COPY-OLDTWO",
+      bookId: older.id,
+      copyNumber: 2,
+      createdAt: NOW - DAY,
+    });
+
+    await runNewArrivals();
+
+    const [list] = messagesTo(3001);
+    expect(list.method).toBe("sendMessage");
+    expect(list.payload.text).toContain("1 new book at the library this week");
+    expect(list.payload.text).toContain("Back On The Shelf");
+    expect(list.payload.text).not.toContain("Second Copy");
+  });
+
+  it("sends nothing in a week without new books", async () => {
+    await subscribe(3001);
+
+    await runNewArrivals();
+
+    expect(calls).toHaveLength(0);
+  });
+
+  it("unsubscribes users who blocked the bot and retries when throttled", async () => {
+    await subscribe(3001);
+    await subscribe(BLOCKED_USER);
+    await subscribe(THROTTLED_USER);
+    await seedNewBook("isbn-new", "New Book", NOW - DAY);
+
+    await runNewArrivals();
+
+    expect(messagesTo(3001)).toHaveLength(1);
+    // Rejected once, then sent after waiting
+    expect(messagesTo(THROTTLED_USER)).toHaveLength(2);
+    expect(await getSubscriberIds()).toEqual([3001, THROTTLED_USER]);
+  });
+
+  it("sends a big week's digests over several runs, once per subscriber", async () => {
+    for (let n = 0; n < 12; n++) {
+      await subscribe(4000 + n);
+    }
+    await seedNewBook("isbn-new", "New Book", NOW - DAY);
+
+    await runNewArrivals();
+    expect(calls).toHaveLength(10);
+
+    // The next run picks up where the last one stopped
+    calls.length = 0;
+    await runNewArrivals();
+    expect(calls.map((call) => call.payload.chat_id)).toEqual([4010, 4011]);
+
+    calls.length = 0;
+    await runNewArrivals();
+    expect(calls).toHaveLength(0);
+  });
+});
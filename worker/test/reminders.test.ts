@@ -0,0 +1,175 @@
+import { createScheduledController, env, fetchMock } from "cloudflare:test";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  mockSendMessage,
+  seedBook,
+  seedBookCopy,
+  seedLoan,
+  type SentTelegramMessage,
+} from "./helpers";
+import worker from "../index";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+async function runScheduled(now: number) {
+  const controller = createScheduledController({
+    scheduledTime: new Date(now),
+    cron: "0 1 * * *",
+  });
+  await worker.scheduled(controller, env);
+}
+
+async function getLastReminderSent(qrCodeId: string) {
+  const row = await env.DATABASE.prepare(
+    "SELECT last_reminder_sent FROM loans WHERE qr_code_id = ?",
+  )
+    .bind(qrCodeId)
+    .first<{ last_reminder_sent: number | null }>();
+  return row?.last_reminder_sent ?? null;
+}
+
+describe("loan reminders", () => {
+  const sentMessages: SentTelegramMessage[] = [];
+  let bookId: number;
+
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+    mockSendMessage(sentMessages);
+  });
+
+  afterAll(() => {
+    fetchMock.deactivate();
+  });
+
+  beforeEach(async () => {
+    sentMessages.length = 0;
+
+    const book = await seedBook({
+      isbn: "isbn-reminder",
+      title: "Reminder Book",
+      description: "Test",
+      author: "Author",
+    });
+    bookId = book.id;
+  });
+
+  it("reminds borrowers whose loans are due soon", async () => {
+    const now = Date.now();
+    await seedBookCopy({ qrCodeId: "due-soon", bookId });
+    await seedLoan({
+      qrCodeId: "due-soon",
+      telegramUserId: 1001,
+      borrowedAt: now - 13 * DAY,
+      dueDate: now + DAY,
+    });
+
+    await runScheduled(now);
+
+    expect(sentMessages).toHaveLength(1);
+    expect(sentMessages[0].chat_id).toBe(1001);
+    expect(sentMessages[0].parse_mode).toBe("MarkdownV2");
+    expect(sentMessages[0].text).toContain("due soon");
+    expect(await getLastReminderSent("due-soon")).not.toBeNull();
+  });
+
+  it("reminds borrowers in the language they picked", async () => {
+    const now = Date.now();
+    await seedBookCopy({ qrCodeId: "due-soon-zh", bookId });
+    await seedLoan({
+      qrCodeId: "due-soon-zh",
+      telegramUserId: 1002,
+      borrowedAt: now - 13 * DAY,
+      dueDate: now + DAY,
+    });
+    await env.DATABASE.prepare(
+      "INSERT INTO user_settings (telegram_user_id, language, updated_at) VALUES (?, 'zh', ?)",
+    )
+      .bind(1002, Math.floor(now / 1000))
+      .run();
+
+    await runScheduled(now);
+
+    expect(sentMessages).toHaveLength(1);
+    expect(sentMessages[0].text).toContain("您借的书快到期了");
+  });
+
+  it("does not remind loans outside the due-soon window", async () => {
+    const now = Date.now();
+    await seedBookCopy({ qrCodeId: "not-due", bookId });
+    await seedLoan({
+      qrCodeId: "not-due",
+      telegramUserId: 1002,
+      dueDate: now + 10 * DAY,
+    });
+
+    await runScheduled(now);
+
+    expect(sentMessages).toHaveLength(0);
+    expect(await getLastReminderSent("not-due")).toBeNull();
+  });
+
+  it("does not repeat the due-soon reminder", async () => {
+    const now = Date.now();
+    await seedBookCopy({ qrCodeId: "already-reminded", bookId });
+    await seedLoan({
+      qrCodeId: "already-reminded",
+      telegramUserId: 1003,
+      dueDate: now + DAY,
+      lastReminderSent: now - DAY / 2,
+    });
+
+    await runScheduled(now);
+
+    expect(sentMessages).toHaveLength(0);
+  });
+
+  it("reminds overdue loans at the configured interval", async () => {
+    const now = Date.now();
+    await seedBookCopy({ qrCodeId: "overdue-new", bookId, copyNumber: 1 });
+    await seedBookCopy({ qrCodeId: "overdue-recent", bookId, copyNumber: 2 });
+    await seedBookCopy({ qrCodeId: "overdue-stale", bookId, copyNumber: 3 });
+    // Only had the due-soon reminder so far
+    await seedLoan({
+      qrCodeId: "overdue-new",
+      telegramUserId: 2001,
+      dueDate: now - DAY,
+      lastReminderSent: now - 3 * DAY,
+    });
+    // Reminded about being overdue yesterday
+    await seedLoan({
+      qrCodeId: "overdue-recent",
+      telegramUserId: 2002,
+      dueDate: now - 5 * DAY,
+      lastReminderSent: now - DAY,
+    });
+    // Reminded about being overdue more than 3 days ago
+    await seedLoan({
+      qrCodeId: "overdue-stale",
+      telegramUserId: 2003,
+      dueDate: now - 10 * DAY,
+      lastReminderSent: now - 4 * DAY,
+    });
+
+    await runScheduled(now);
+
+    const recipients = sentMessages.map((message) => message.chat_id).sort();
+    expect(recipients).toEqual([2001, 2003]);
+    expect(sentMessages.every((m) => m.text.includes("overdue"))).toBe(true);
+  });
+
+  it("ignores returned loans", async () => {
+    const now = Date.now();
+    await seedBookCopy({ qrCodeId: "returned", bookId });
+    await seedLoan({
+      qrCodeId: "returned",
+      telegramUserId: 3001,
+      dueDate: now - DAY,
+      returnedAt: now - 2 * DAY,
+    });
+
+    await runScheduled(now);
+
+    expect(sentMessages).toHaveLength(0);
+  });
+});
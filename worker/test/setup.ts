@@ -6,10 +6,14 @@ vi.mock("@grammyjs/commands", () => ({
     command() {
       return this;
     }
+    middleware() {
+      return (_ctx: unknown, next: () => Promise<void>) => next();
+    }
   },
 }));
 vi.mock("../lib/admin", () => ({
   isUserAdmin: vi.fn().mockResolvedValue(true),
+  isGroupAdmin: vi.fn().mockResolvedValue(true),
 }));
 
 await applyD1Migrations(env.DATABASE, env.TEST_MIGRATIONS);
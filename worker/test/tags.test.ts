@@ -0,0 +1,122 @@
+import { SELF } from "cloudflare:test";
+import { parseTagList, tagSlug } from "@shared/tags";
+import { beforeEach, describe, expect, it } from "vitest";
+import { makeAuthHeader, makeInitData, seedBook } from "./helpers";
+
+const botToken = "test-bot-token";
+
+function adminFetch(path: string, init: RequestInit = {}) {
+  const initData = makeInitData(
+    { id: 999, first_name: "Jo", username: "jo" },
+    botToken,
+  );
+  return SELF.fetch(`http://example.com/api/miniapp${path}`, {
+    ...init,
+    headers: {
+      ...makeAuthHeader(initData),
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+function setTags(bookId: number, tags: string[]) {
+  return adminFetch(`/books/${bookId}`, {
+    method: "PATCH",
+    body: JSON.stringify({ tags }),
+  });
+}
+
+async function getListedTags() {
+  const response = await SELF.fetch("http://example.com/api/books");
+  const data = (await response.json()) as {
+    books: { title: string; tags: string[] }[];
+  };
+  return Object.fromEntries(data.books.map((book) => [book.title, book.tags]));
+}
+
+describe("tag names", () => {
+  it("splits a pipeline category into genres", () => {
+    expect(parseTagList("Fiction;  Fantasy, fiction |")).toEqual([
+      "Fiction",
+      "Fantasy",
+    ]);
+    expect(parseTagList("")).toEqual([]);
+  });
+
+  it("treats differently spelled names as the same tag", () => {
+    expect(tagSlug(" Sci-Fi ")).toBe(tagSlug("sci fi"));
+    expect(tagSlug("历史")).toBe("历史");
+  });
+});
+
+describe("book tags", () => {
+  let hobbitId: number;
+  let duneId: number;
+
+  beforeEach(async () => {
+    hobbitId = (
+      await seedBook({
+        isbn: "isbn-hobbit",
+        title: "The Hobbit",
+        description: "Test",
+        author: "Tolkien",
+      })
+    ).id;
+    duneId = (
+      await seedBook({
+        isbn: "isbn-dune",
+        title: "Dune",
+        description: "Test",
+        author: "Herbert",
+      })
+    ).id;
+  });
+
+  it("lists each book's genres, sharing tags between books", async () => {
+    await setTags(hobbitId, ["Fantasy", "Classics"]);
+    const response = await setTags(duneId, ["science fiction", "classics"]);
+
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as { book: { tags: string[] } };
+    // The existing spelling of a tag is kept
+    expect(data.book.tags).toEqual(["Classics", "science fiction"]);
+    expect(await getListedTags()).toEqual({
+      "The Hobbit": ["Classics", "Fantasy"],
+      Dune: ["Classics", "science fiction"],
+    });
+
+    const detail = await SELF.fetch(`http://example.com/api/books/${duneId}`);
+    expect(
+      ((await detail.json()) as { book: { tags: string[] } }).book.tags,
+    ).toEqual(["Classics", "science fiction"]);
+  });
+
+  it("logs genre edits so they can be reverted", async () => {
+    await setTags(hobbitId, ["Fantasy"]);
+
+    // Reordering or respelling the same genres isn't a change
+    const unchanged = await setTags(hobbitId, ["fantasy"]);
+    expect(unchanged.status).toBe(400);
+
+    await setTags(hobbitId, ["Fantasy", "Adventure"]);
+    const changesResponse = await adminFetch(`/books/${hobbitId}/changes`);
+    const { changes } = (await changesResponse.json()) as {
+      changes: {
+        id: number;
+        previousValues: { tags?: string[] };
+        newValues: { tags?: string[] };
+      }[];
+    };
+    expect(changes[0]).toMatchObject({
+      previousValues: { tags: ["Fantasy"] },
+      newValues: { tags: ["Adventure", "Fantasy"] },
+    });
+
+    const reverted = await adminFetch(
+      `/books/${hobbitId}/changes/${changes[0].id}/revert`,
+      { method: "POST" },
+    );
+    expect(reverted.status).toBe(200);
+    expect((await getListedTags())["The Hobbit"]).toEqual(["Fantasy"]);
+  });
+});